@@ -1,35 +0,0 @@
--- Create notification_type enum if it doesn't exist
-DO $$ BEGIN
-    CREATE TYPE notification_type AS ENUM ('new_request', 'request_approved', 'request_rejected');
-EXCEPTION
-    WHEN duplicate_object THEN null;
-END $$;
-
--- Create notifications table
-CREATE TABLE IF NOT EXISTS notifications (
-    id SERIAL PRIMARY KEY,
-    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    type notification_type NOT NULL,
-    title TEXT NOT NULL,
-    message TEXT NOT NULL,
-    event_id INTEGER REFERENCES events(id) ON DELETE CASCADE,
-    request_id INTEGER,
-    is_read BOOLEAN DEFAULT FALSE,
-    created_at TIMESTAMPTZ DEFAULT NOW(),
-    updated_at TIMESTAMPTZ DEFAULT NOW()
-);
-
--- Create indexes for better performance
-CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id);
-CREATE INDEX IF NOT EXISTS idx_notifications_created_at ON notifications(created_at);
-CREATE INDEX IF NOT EXISTS idx_notifications_is_read ON notifications(is_read);
-
--- Verify table was created
-SELECT 
-    table_name, 
-    column_name, 
-    data_type 
-FROM information_schema.columns 
-WHERE table_schema = 'public' 
-AND table_name = 'notifications'
-ORDER BY ordinal_position;
\ No newline at end of file
@@ -23,6 +23,7 @@ import UserProfilePanel from "@/components/users/user-profile-panel";
 
 // Import components
 import EditEventPage from "@/pages/edit-event";
+import CheckInPage from "@/pages/check-in";
 import TestEditPanel from "@/pages/test-edit-panel";
 
 // Page transition variants - Volver a anterior pero mejorado
@@ -105,6 +106,13 @@ function Router() {
             </AnimatedPage>
           </ProtectedRoute>
         </Route>
+        <Route path="/my-events/:eventId/check-in">
+          <ProtectedRoute>
+            <AnimatedPage>
+              <CheckInPage />
+            </AnimatedPage>
+          </ProtectedRoute>
+        </Route>
         <Route path="/test-edit-panel">
           <ProtectedRoute>
             <AnimatedPage>
@@ -1,10 +1,10 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { simpleChatService } from "./simple-chat-service";
 import { useNavigation } from "@/contexts/navigation-context";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Send, X } from "lucide-react";
+import { Send, X, Reply, Pencil, Trash2, Paperclip, FileText, Download, Loader2 } from "lucide-react";
 import { Avatar } from "@/components/ui/avatar";
 import { format } from "date-fns";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -12,15 +12,72 @@ import { motion, AnimatePresence, useAnimation } from "framer-motion";
 import { useUserProfile } from "@/contexts/user-profile-context";
 import { useZIndex } from "@/contexts/z-index-context";
 import { usePanelGestures } from "@/hooks/use-panel-gestures";
+import { useToast } from "@/hooks/use-toast";
+import type { ChatAttachment, ChatSystemEvent } from "@shared/schema";
+import { describeChatSystemEvent } from "@shared/chat-system-messages";
+import {
+  CHAT_FILE_TYPES,
+  CHAT_IMAGE_TYPES,
+  formatFileSize,
+  getChatAttachmentMaxBytes,
+  isAllowedChatAttachmentType,
+  isChatImageType,
+} from "@shared/chat-attachments";
+
+type QuotedMessage = {
+  id: number;
+  senderName: string;
+  content: string;
+  messageType?: string;
+  deleted: boolean;
+};
 
 type Message = {
+  id: number;
   userId: number;
   userName: string;
   content: string;
+  messageType: string;
+  attachment?: ChatAttachment | null;
+  systemEvent?: ChatSystemEvent | null;
   timestamp: string;
   isMine?: boolean;
+  edited?: boolean;
+  deleted?: boolean;
+  replyTo?: QuotedMessage | null;
 };
 
+// Último mensaje que cada participante ha visto en este chat
+type ReadCursor = {
+  userId: number;
+  name: string;
+  avatar?: string | null;
+  lastReadMessageId: number;
+};
+
+// Usuario con el chat abierto ahora mismo (una entrada aunque tenga varias pestañas)
+type OnlineUser = {
+  id: number;
+  name: string;
+  avatar?: string | null;
+};
+
+// Convierte un mensaje del servidor al formato que usa el chat
+const toMessage = (msg: any, currentUserId: number): Message => ({
+  id: msg.id,
+  userId: msg.sender_id || msg.senderId,
+  userName: msg.sender?.name || msg.sender?.username || "Unknown",
+  content: msg.content,
+  messageType: msg.message_type || msg.messageType || "text",
+  attachment: msg.attachment || null,
+  systemEvent: msg.system_event || msg.systemEvent || null,
+  timestamp: msg.created_at || msg.createdAt || new Date().toISOString(),
+  isMine: (msg.sender_id || msg.senderId) === currentUserId,
+  edited: !!msg.edited,
+  deleted: !!(msg.deleted || msg.deletedAt),
+  replyTo: msg.replyTo || null,
+});
+
 type ChatProps = {
   eventId: number;
   eventTitle: string;
@@ -31,6 +88,141 @@ type ChatProps = {
   parentZIndex?: number; // Z-index del panel padre si se abre desde otro panel
 };
 
+// Texto para citas y vistas previas de mensajes con adjunto sin texto
+const getQuotedText = (message: { content: string; messageType?: string }) => {
+  if (message.content) return message.content;
+  if (message.messageType === "image") return "📷 Foto";
+  if (message.messageType === "file") return "📎 Archivo";
+  return "";
+};
+
+// Mide la imagen en el navegador para guardar sus dimensiones junto al adjunto
+const readImageSize = (file: File) =>
+  new Promise<{ width: number; height: number } | null>((resolve) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      resolve({ width: image.naturalWidth, height: image.naturalHeight });
+      URL.revokeObjectURL(url);
+    };
+    image.onerror = () => {
+      resolve(null);
+      URL.revokeObjectURL(url);
+    };
+    image.src = url;
+  });
+
+// Vista previa de imagen o chip de descarga para otros archivos
+function AttachmentPreview({ attachment, isMine }: { attachment: ChatAttachment; isMine?: boolean }) {
+  if (isChatImageType(attachment.mimeType)) {
+    return (
+      <a href={attachment.url} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>
+        <img
+          src={attachment.url}
+          alt={attachment.name}
+          width={attachment.width}
+          height={attachment.height}
+          className="rounded-xl max-h-64 w-auto max-w-full object-cover"
+          loading="lazy"
+        />
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={attachment.url}
+      download={attachment.name}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => e.stopPropagation()}
+      className={`flex items-center gap-2 rounded-xl px-3 py-2 ${
+        isMine ? "bg-blue-400/40 text-white" : "bg-gray-100 text-gray-700"
+      }`}
+    >
+      <FileText size={20} className="flex-shrink-0" />
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{attachment.name}</p>
+        <p className="text-[11px] opacity-75">{formatFileSize(attachment.size)}</p>
+      </div>
+      <Download size={16} className="flex-shrink-0" />
+    </a>
+  );
+}
+
+// Fila centrada para los avisos del evento (altas, bajas, cambios y recordatorios)
+function SystemMessageRow({ message }: { message: Message }) {
+  // Se reconstruye el texto para mostrar las fechas en la zona horaria del usuario
+  const text = message.systemEvent ? describeChatSystemEvent(message.systemEvent) : message.content;
+
+  return (
+    <div className="max-w-[85%] text-center bg-black/30 backdrop-blur-sm text-white/90 text-xs rounded-full px-3 py-1.5">
+      {text}
+      <span className="ml-2 text-white/60">
+        {(() => {
+          const date = new Date(message.timestamp);
+          return isNaN(date.getTime()) ? "" : format(date, "HH:mm");
+        })()}
+      </span>
+    </div>
+  );
+}
+
+// Avatares de quienes vieron el mensaje ("Visto por")
+function ReadReceipts({ readers }: { readers: ReadCursor[] }) {
+  if (readers.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-1 mt-1" title={readers.map((reader) => reader.name).join(", ")}>
+      <span className="text-[10px] text-white/70">Visto por</span>
+      <div className="flex -space-x-1.5">
+        {readers.slice(0, 3).map((reader) => (
+          <div
+            key={reader.userId}
+            className="w-4 h-4 rounded-full overflow-hidden border border-white bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center"
+          >
+            {reader.avatar ? (
+              <img src={reader.avatar} alt={reader.name} className="w-full h-full object-cover" />
+            ) : (
+              <span className="text-white text-[8px] font-bold">
+                {reader.name?.charAt(0)?.toUpperCase() || "U"}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+      {readers.length > 3 && <span className="text-[10px] text-white/70">+{readers.length - 3}</span>}
+    </div>
+  );
+}
+
+// Avatares de quienes tienen el chat abierto ahora mismo
+function OnlineUsers({ users }: { users: OnlineUser[] }) {
+  if (users.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-1.5 ml-2" title={users.map((onlineUser) => onlineUser.name).join(", ")}>
+      <div className="flex -space-x-2">
+        {users.slice(0, 4).map((onlineUser) => (
+          <div key={onlineUser.id} className="relative">
+            <div className="w-7 h-7 rounded-full overflow-hidden border-2 border-white/70 bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center">
+              {onlineUser.avatar ? (
+                <img src={onlineUser.avatar} alt={onlineUser.name} className="w-full h-full object-cover" />
+              ) : (
+                <span className="text-white text-[10px] font-bold">
+                  {onlineUser.name?.charAt(0)?.toUpperCase() || "U"}
+                </span>
+              )}
+            </div>
+            <span className="absolute bottom-0 right-0 w-2 h-2 rounded-full bg-green-400 border border-white" />
+          </div>
+        ))}
+      </div>
+      {users.length > 4 && <span className="text-white/80 text-xs">+{users.length - 4}</span>}
+    </div>
+  );
+}
+
 export default function Chat({
   eventId,
   eventTitle,
@@ -44,6 +236,7 @@ export default function Chat({
   const { hideNavigation, showNavigation } = useNavigation();
   const { showUserProfile } = useUserProfile();
   const { getNextZIndex } = useZIndex();
+  const { toast } = useToast();
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState("");
   const [isConnected, setIsConnected] = useState(false);
@@ -52,6 +245,17 @@ export default function Chat({
   const [loadingMessages, setLoadingMessages] = useState(false);
   const [currentZIndex, setCurrentZIndex] = useState(100);
   const [hasAnimated, setHasAnimated] = useState(false);
+  const [organizerId, setOrganizerId] = useState<number | null>(null);
+  // El chat de un evento cancelado se puede leer pero no recibe mensajes nuevos
+  const [readOnly, setReadOnly] = useState(false);
+  const [selectedMessageId, setSelectedMessageId] = useState<number | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [readCursors, setReadCursors] = useState<Record<number, ReadCursor>>({});
+  const [onlineUsers, setOnlineUsers] = useState<Record<number, OnlineUser>>({});
+  const lastMarkedReadRef = useRef(0);
+  const [uploadingAttachment, setUploadingAttachment] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   // Advanced gesture system for professional mobile app experience
   const { height: panelHeight, isDragging, gestureHandlers } = usePanelGestures({
     minHeight: 25,
@@ -149,6 +353,29 @@ export default function Chat({
           
         case 'joined_event':
           console.log('👥 Simple chat joined event:', data.eventId);
+          if (data.eventId === eventId) {
+            setOrganizerId(data.organizerId ?? null);
+            setReadOnly(!!data.readOnly);
+          }
+          break;
+
+        case 'presence_state':
+          if (data.eventId === eventId) {
+            setOnlineUsers(Object.fromEntries(
+              (data.users || []).map((onlineUser: OnlineUser) => [onlineUser.id, onlineUser])
+            ));
+          }
+          break;
+
+        case 'presence_diff':
+          if (data.eventId === eventId) {
+            setOnlineUsers((prev) => {
+              const next = { ...prev };
+              (data.leaves || []).forEach((onlineUser: OnlineUser) => delete next[onlineUser.id]);
+              (data.joins || []).forEach((onlineUser: OnlineUser) => (next[onlineUser.id] = onlineUser));
+              return next;
+            });
+          }
           break;
           
         case 'messages_loaded':
@@ -156,14 +383,10 @@ export default function Chat({
             console.log('📜 Simple chat messages loaded:', data.messages?.length || 0);
             setLoadingMessages(false);
             if (data.messages && data.messages.length > 0) {
-              const loadedMessages = data.messages.map((msg: any) => ({
-                userId: msg.sender_id || msg.senderId,
-                userName: msg.sender?.name || msg.sender?.username || "Unknown",
-                content: msg.content,
-                timestamp: msg.created_at || msg.createdAt || new Date().toISOString(),
-                isMine: (msg.sender_id || msg.senderId) === user.id,
-              }));
-              setMessages(loadedMessages);
+              setMessages(data.messages.map((msg: any) => toMessage(msg, user.id)));
+              setReadCursors(Object.fromEntries(
+                (data.readCursors || []).map((cursor: ReadCursor) => [cursor.userId, cursor])
+              ));
             } else {
               setMessages([]);
             }
@@ -173,16 +396,56 @@ export default function Chat({
         case 'new_message':
           if (data.eventId === eventId && data.message) {
             console.log('💬 Simple chat new message');
-            const msg = data.message;
-            const newMsg = {
-              userId: msg.sender_id || msg.senderId,
-              userName: msg.sender?.name || msg.sender?.username || "Unknown",
-              content: msg.content,
-              timestamp: msg.created_at || msg.createdAt || new Date().toISOString(),
-              isMine: (msg.sender_id || msg.senderId) === user.id,
-            };
+            const newMsg = toMessage(data.message, user.id);
 
             setMessages((prevMessages) => [...prevMessages, newMsg]);
+            if (newMsg.systemEvent?.kind === 'event_cancelled') {
+              setReadOnly(true);
+              setReplyingTo(null);
+              setEditingMessage(null);
+            }
+          }
+          break;
+
+        case 'message_edited':
+          if (data.eventId === eventId && data.message) {
+            const edited = toMessage(data.message, user.id);
+            setMessages((prevMessages) => prevMessages.map((msg) => {
+              if (msg.id === edited.id) return edited;
+              // Las respuestas que citan el mensaje muestran el texto nuevo
+              if (msg.replyTo?.id === edited.id) {
+                return { ...msg, replyTo: { ...msg.replyTo, content: edited.content } };
+              }
+              return msg;
+            }));
+          }
+          break;
+
+        case 'read':
+          if (data.eventId === eventId && data.user) {
+            setReadCursors((prev) => ({
+              ...prev,
+              [data.user.id]: {
+                ...prev[data.user.id],
+                userId: data.user.id,
+                name: data.user.name,
+                lastReadMessageId: data.lastReadMessageId,
+              },
+            }));
+          }
+          break;
+
+        case 'message_deleted':
+          if (data.eventId === eventId) {
+            setMessages((prevMessages) => prevMessages.map((msg) => {
+              if (msg.id === data.messageId) return { ...msg, content: "", deleted: true };
+              if (msg.replyTo?.id === data.messageId) {
+                return { ...msg, replyTo: { ...msg.replyTo, content: "", deleted: true } };
+              }
+              return msg;
+            }));
+            setReplyingTo((current) => (current?.id === data.messageId ? null : current));
+            setEditingMessage((current) => (current?.id === data.messageId ? null : current));
           }
           break;
           
@@ -256,6 +519,8 @@ export default function Chat({
     // Small delay to ensure component is fully mounted
     setTimeout(initializeChat, 100);
 
+    lastMarkedReadRef.current = 0;
+
     // Cleanup
     return () => {
       console.log('🧹 Simple chat cleanup');
@@ -264,6 +529,30 @@ export default function Chat({
     };
   }, [user, visible, eventId]);
 
+  // Con el chat abierto, el último mensaje recibido queda como leído
+  useEffect(() => {
+    if (!visible || !isConnected || messages.length === 0) return;
+    const lastMessageId = messages[messages.length - 1].id;
+    if (lastMessageId && lastMessageId > lastMarkedReadRef.current) {
+      if (simpleChatService.markRead(eventId, lastMessageId)) {
+        lastMarkedReadRef.current = lastMessageId;
+      }
+    }
+  }, [messages, visible, isConnected, eventId]);
+
+  // Participantes agrupados por el último mensaje que vieron (sin contar al autor ni a uno mismo)
+  const readersByMessageId = useMemo(() => {
+    // Los avisos del sistema no muestran "Visto por": se usa el último mensaje normal leído
+    const readable = messages.filter((message) => message.messageType !== "system");
+    const grouped: Record<number, ReadCursor[]> = {};
+    Object.values(readCursors).forEach((cursor) => {
+      const lastRead = readable.filter((message) => message.id <= cursor.lastReadMessageId).pop();
+      if (!lastRead || cursor.userId === user?.id || lastRead.userId === cursor.userId) return;
+      (grouped[lastRead.id] ||= []).push(cursor);
+    });
+    return grouped;
+  }, [messages, readCursors, user?.id]);
+
   // Send message
   const sendMessage = () => {
     console.log("🔤 Attempting to send message:", { 
@@ -283,12 +572,16 @@ export default function Chat({
       return;
     }
 
-    const success = simpleChatService.sendMessage(eventId, newMessage.trim());
+    const success = editingMessage
+      ? simpleChatService.editMessage(editingMessage.id, newMessage.trim())
+      : simpleChatService.sendMessage(eventId, newMessage.trim(), replyingTo?.id);
     console.log("📤 Simple chat send message result:", success);
     
     if (success) {
       console.log("✅ Message sent successfully, clearing input");
       setNewMessage("");
+      setReplyingTo(null);
+      setEditingMessage(null);
       // Stop typing indicator
       if (isTyping) {
         setIsTyping(false);
@@ -299,6 +592,69 @@ export default function Chat({
     }
   };
 
+  // Subir una imagen o archivo; el mensaje llega a todos por el WebSocket
+  const sendAttachment = async (file: File) => {
+    if (!isAllowedChatAttachmentType(file.type)) {
+      toast({ title: "Tipo de archivo no permitido", variant: "destructive" });
+      return;
+    }
+    const maxBytes = getChatAttachmentMaxBytes(file.type);
+    if (file.size > maxBytes) {
+      toast({
+        title: "El archivo es demasiado grande",
+        description: `El tamaño máximo permitido es ${formatFileSize(maxBytes)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("file", file);
+    if (newMessage.trim() && !editingMessage) {
+      formData.append("caption", newMessage.trim());
+    }
+    if (replyingTo) {
+      formData.append("replyToId", String(replyingTo.id));
+    }
+    if (isChatImageType(file.type)) {
+      const size = await readImageSize(file);
+      if (size) {
+        formData.append("width", String(size.width));
+        formData.append("height", String(size.height));
+      }
+    }
+
+    setUploadingAttachment(true);
+    try {
+      const response = await fetch(`/api/events/${eventId}/chat/attachments`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.details || error.message || "No se pudo enviar el archivo");
+      }
+      if (!editingMessage) {
+        setNewMessage("");
+      }
+      setReplyingTo(null);
+    } catch (error: any) {
+      console.error("❌ Error uploading chat attachment:", error);
+      toast({ title: "Error al enviar el archivo", description: error.message, variant: "destructive" });
+    } finally {
+      setUploadingAttachment(false);
+    }
+  };
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) {
+      sendAttachment(file);
+    }
+  };
+
   // Handle typing
   const handleTyping = () => {
     if (!isTyping) {
@@ -325,9 +681,41 @@ export default function Chat({
     if (e.key === "Enter") {
       e.preventDefault();
       sendMessage();
+    } else if (e.key === "Escape" && (replyingTo || editingMessage)) {
+      cancelComposerMode();
     }
   };
 
+  // Acciones sobre un mensaje: responder, editar (solo el autor) y eliminar (autor u organizador)
+  const startReply = (message: Message) => {
+    setEditingMessage(null);
+    setReplyingTo(message);
+    setSelectedMessageId(null);
+  };
+
+  const startEdit = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.content);
+    setSelectedMessageId(null);
+  };
+
+  const deleteMessage = (message: Message) => {
+    simpleChatService.deleteMessage(message.id);
+    setSelectedMessageId(null);
+  };
+
+  const cancelComposerMode = () => {
+    if (editingMessage) {
+      setNewMessage("");
+    }
+    setReplyingTo(null);
+    setEditingMessage(null);
+  };
+
+  const isOrganizer = organizerId !== null && organizerId === user?.id;
+  const othersOnline = Object.values(onlineUsers).filter((onlineUser) => onlineUser.id !== user?.id);
+
 
   if (!visible || !user) return null;
 
@@ -421,12 +809,17 @@ export default function Chat({
                 </div>
               )}
             </div>
-            <div>
+            <div className="flex-1 min-w-0">
               <h3 className="font-medium text-white text-sm leading-tight">
                 {eventTitle}
               </h3>
-              <p className="text-white/80 text-xs">Chat del Evento · Toca para ver detalles</p>
+              <p className="text-white/80 text-xs">
+                {othersOnline.length > 0
+                  ? `${othersOnline.length} en línea · Toca para ver detalles`
+                  : "Chat del Evento · Toca para ver detalles"}
+              </p>
             </div>
+            <OnlineUsers users={othersOnline} />
           </div>
         </motion.div>
 
@@ -488,9 +881,20 @@ export default function Chat({
                     </p>
                   </motion.div>
                 ) : (
-                  messages.map((message, index) => (
+                  messages.map((message, index) => message.messageType === "system" ? (
+                    <motion.div
+                      key={message.id ?? `${message.timestamp}-${index}`}
+                      layout
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0 }}
+                      className="flex justify-center my-3"
+                    >
+                      <SystemMessageRow message={message} />
+                    </motion.div>
+                  ) : (
                     <motion.div
-                      key={`${message.timestamp}-${index}`}
+                      key={message.id ?? `${message.timestamp}-${index}`}
                       layout
                       initial={{ 
                         opacity: 0, 
@@ -538,8 +942,10 @@ export default function Chat({
                     )}
 
                     {/* Message bubbles with WhatsApp-style design */}
+                    <div className={`flex flex-col max-w-[75%] ${message.isMine ? "items-end" : "items-start"}`}>
                     <div
-                      className={`relative max-w-[75%] ${
+                      onClick={() => !message.deleted && setSelectedMessageId(selectedMessageId === message.id ? null : message.id)}
+                      className={`relative max-w-full cursor-pointer ${
                         message.isMine
                           ? "bg-blue-500 text-white rounded-2xl rounded-br-sm"
                           : "bg-white/90 text-gray-800 rounded-2xl rounded-bl-sm"
@@ -552,14 +958,42 @@ export default function Chat({
                             {message.userName}
                           </p>
                         )}
-                        <p
-                          className={`text-sm leading-relaxed ${message.isMine ? "text-white" : "text-gray-800"}`}
-                        >
-                          {message.content}
-                        </p>
+                        {message.replyTo && !message.deleted && (
+                          <div
+                            className={`border-l-2 pl-2 py-1 mb-1 rounded-sm text-xs ${
+                              message.isMine ? "border-blue-200 bg-blue-400/40 text-blue-50" : "border-blue-400 bg-gray-100 text-gray-600"
+                            }`}
+                          >
+                            <p className="font-medium">{message.replyTo.senderName}</p>
+                            <p className={`truncate ${message.replyTo.deleted ? "italic" : ""}`}>
+                              {message.replyTo.deleted ? "Mensaje eliminado" : getQuotedText(message.replyTo)}
+                            </p>
+                          </div>
+                        )}
+                        {message.deleted ? (
+                          <p
+                            className={`text-sm italic ${message.isMine ? "text-blue-100" : "text-gray-500"}`}
+                          >
+                            🚫 Mensaje eliminado
+                          </p>
+                        ) : (
+                          <>
+                            {message.attachment && (
+                              <AttachmentPreview attachment={message.attachment} isMine={message.isMine} />
+                            )}
+                            {message.content && (
+                              <p
+                                className={`text-sm leading-relaxed ${message.isMine ? "text-white" : "text-gray-800"}`}
+                              >
+                                {message.content}
+                              </p>
+                            )}
+                          </>
+                        )}
                         <p
                           className={`text-xs ${message.isMine ? "text-blue-100" : "text-gray-500"} text-right mt-1`}
                         >
+                          {message.edited && !message.deleted && <span className="mr-1">editado ·</span>}
                           {(() => {
                             try {
                               const date = new Date(message.timestamp);
@@ -576,6 +1010,38 @@ export default function Chat({
                       </div>
                     </div>
 
+                    {/* Visto por */}
+                    <ReadReceipts readers={readersByMessageId[message.id] || []} />
+
+                    {/* Acciones del mensaje seleccionado */}
+                    {selectedMessageId === message.id && !message.deleted && !readOnly && (
+                      <div className="flex gap-1 mt-1">
+                        <button
+                          onClick={() => startReply(message)}
+                          className="flex items-center gap-1 text-xs bg-white/90 text-gray-700 rounded-full px-2 py-1 shadow"
+                        >
+                          <Reply size={12} /> Responder
+                        </button>
+                        {message.isMine && message.messageType === "text" && (
+                          <button
+                            onClick={() => startEdit(message)}
+                            className="flex items-center gap-1 text-xs bg-white/90 text-gray-700 rounded-full px-2 py-1 shadow"
+                          >
+                            <Pencil size={12} /> Editar
+                          </button>
+                        )}
+                        {(message.isMine || isOrganizer) && (
+                          <button
+                            onClick={() => deleteMessage(message)}
+                            className="flex items-center gap-1 text-xs bg-white/90 text-red-600 rounded-full px-2 py-1 shadow"
+                          >
+                            <Trash2 size={12} /> Eliminar
+                          </button>
+                        )}
+                      </div>
+                    )}
+                    </div>
+
                     {/* Avatar for my messages (right side) */}
                     {message.isMine && (
                       <div className="w-8 h-8 rounded-full overflow-hidden ml-2 mb-1 flex-shrink-0">
@@ -615,20 +1081,56 @@ export default function Chat({
           transition={{ delay: 0.2, duration: 0.3 }}
           className="bg-white/10 backdrop-blur-md border-t border-white/20 p-4"
         >
+          {readOnly && (
+            <p className="text-center text-xs text-white/80 mb-2">
+              El evento fue cancelado. El chat queda en modo lectura
+            </p>
+          )}
+          {/* Mensaje al que se responde o que se está editando */}
+          {(replyingTo || editingMessage) && (
+            <div className="flex items-center justify-between bg-white/80 rounded-xl px-3 py-2 mb-2 text-xs text-gray-700">
+              <div className="min-w-0 border-l-2 border-yellow-500 pl-2">
+                <p className="font-medium">
+                  {editingMessage ? "Editando mensaje" : `Respondiendo a ${replyingTo!.userName}`}
+                </p>
+                <p className="truncate">{getQuotedText((editingMessage || replyingTo)!)}</p>
+              </div>
+              <button onClick={cancelComposerMode} className="p-1 text-gray-500 hover:text-gray-700">
+                <X size={14} />
+              </button>
+            </div>
+          )}
           <div className="flex items-center space-x-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={[...CHAT_IMAGE_TYPES, ...CHAT_FILE_TYPES].join(",")}
+              onChange={handleFileSelected}
+              className="hidden"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!isConnected || readOnly || uploadingAttachment || !!editingMessage}
+              className="text-white hover:bg-white/20 rounded-full p-3"
+              title="Adjuntar imagen o archivo"
+            >
+              {uploadingAttachment ? <Loader2 size={20} className="animate-spin" /> : <Paperclip size={20} />}
+            </Button>
             <Input
               type="text"
               value={newMessage}
               onChange={(e) => setNewMessage(e.target.value)}
               onKeyDown={handleKeyDown}
               onInput={handleTyping}
-              placeholder="Escribe un mensaje..."
+              placeholder={readOnly ? "Chat en modo lectura" : "Escribe un mensaje..."}
               className="flex-1 bg-white/20 backdrop-blur-sm border-white/30 text-black placeholder-white/70 rounded-2xl px-4 py-3"
-              disabled={!isConnected}
+              disabled={!isConnected || readOnly}
             />
             <Button
               onClick={sendMessage}
-              disabled={!newMessage.trim() || !isConnected}
+              disabled={!newMessage.trim() || !isConnected || readOnly}
               className="bg-yellow-500 hover:bg-yellow-600 text-white rounded-full p-3 shadow-lg"
             >
               <Send size={20} />
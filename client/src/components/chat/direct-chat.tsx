@@ -0,0 +1,310 @@
+import React, { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { ArrowLeft, Ban, Check, CheckCheck, Send, X } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { simpleChatService } from "./simple-chat-service";
+
+export type DirectChatUser = {
+  id: number;
+  name: string;
+  username?: string;
+  avatar?: string | null;
+};
+
+type DirectMessage = {
+  id: number;
+  conversationId: number;
+  senderId: number;
+  content: string;
+  readAt?: string | null;
+  createdAt: string;
+};
+
+type ConversationState = {
+  id: number;
+  status: "active" | "request" | "declined";
+  requestedBy: number | null;
+  isIncomingRequest: boolean;
+};
+
+type DirectChatProps = {
+  otherUser: DirectChatUser;
+  conversationId?: number | null;
+  visible: boolean;
+  onClose: () => void;
+};
+
+// Chat uno a uno fuera de los eventos, con solicitudes de mensaje y bloqueo
+export default function DirectChat({ otherUser, conversationId: initialConversationId, visible, onClose }: DirectChatProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [conversationId, setConversationId] = useState<number | null>(initialConversationId ?? null);
+  const [conversation, setConversation] = useState<ConversationState | null>(null);
+  const [messages, setMessages] = useState<DirectMessage[]>([]);
+  const [newMessage, setNewMessage] = useState("");
+  const [isConnected, setIsConnected] = useState(simpleChatService.isConnected());
+  const [otherIsTyping, setOtherIsTyping] = useState(false);
+  const [blockedByMe, setBlockedByMe] = useState(false);
+  const [blockedMe, setBlockedMe] = useState(false);
+  const [requiresRequest, setRequiresRequest] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Estado de la relación: conversación existente, bloqueos y si el primer mensaje será una solicitud
+  useEffect(() => {
+    if (!visible) return;
+
+    apiRequest("GET", `/api/users/${otherUser.id}/conversation`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setBlockedByMe(data.blockedByMe);
+        setBlockedMe(data.blockedMe);
+        setRequiresRequest(data.requiresRequest);
+        if (data.conversation) {
+          setConversation(data.conversation);
+          setConversationId(data.conversation.id);
+        }
+      })
+      .catch((error) => console.error("Error fetching conversation:", error));
+  }, [visible, otherUser.id]);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const handleConnect = () => setIsConnected(true);
+    simpleChatService.onConnect(handleConnect);
+    simpleChatService.connect();
+    return () => simpleChatService.removeConnectionListener(handleConnect);
+  }, [visible]);
+
+  // Unirse a la sala de la conversación para recibir el historial, lecturas y "escribiendo..."
+  useEffect(() => {
+    if (!visible || !isConnected || !conversationId) return;
+
+    simpleChatService.joinConversation(conversationId);
+    return () => {
+      simpleChatService.leaveConversation(conversationId);
+    };
+  }, [visible, isConnected, conversationId]);
+
+  useEffect(() => {
+    if (!visible || !user) return;
+
+    const handleMessage = (data: any) => {
+      if (data.type === "conversation_joined" && data.conversationId === conversationId) {
+        setConversation(data.conversation);
+        setMessages(data.messages);
+      } else if (data.type === "direct_message") {
+        const belongsHere = conversationId
+          ? data.conversationId === conversationId
+          : data.conversation?.otherUser?.id === otherUser.id;
+        if (!belongsHere) return;
+
+        if (!conversationId) {
+          setConversationId(data.conversationId);
+        }
+        setConversation(data.conversation);
+        setMessages((prev) => (prev.some((message) => message.id === data.message.id) ? prev : [...prev, data.message]));
+      } else if (data.type === "conversation_updated" && data.conversationId === conversationId) {
+        setConversation(data.conversation);
+      } else if (data.type === "conversation_read" && data.conversationId === conversationId && data.userId !== user.id) {
+        setMessages((prev) =>
+          prev.map((message) => (message.senderId === user.id && !message.readAt ? { ...message, readAt: data.readAt } : message))
+        );
+      } else if (data.type === "direct_typing" && data.conversationId === conversationId) {
+        setOtherIsTyping(data.isTyping);
+      } else if (data.type === "direct_message_error") {
+        toast({ title: "No se pudo enviar el mensaje", description: data.message, variant: "destructive" });
+      }
+    };
+
+    simpleChatService.onMessage(handleMessage);
+    return () => simpleChatService.removeMessageListener(handleMessage);
+  }, [visible, user, conversationId, otherUser.id]);
+
+  // Marcar como leídos los mensajes del otro usuario mientras el chat está abierto
+  useEffect(() => {
+    if (!visible || !conversationId || !user) return;
+    if (messages.some((message) => message.senderId !== user.id && !message.readAt)) {
+      simpleChatService.markConversationRead(conversationId);
+    }
+  }, [visible, conversationId, messages, user]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const sendMessage = () => {
+    if (!newMessage.trim()) return;
+
+    const target = conversationId ? { conversationId } : { recipientId: otherUser.id };
+    if (simpleChatService.sendDirectMessage(target, newMessage)) {
+      setNewMessage("");
+      if (conversationId) {
+        simpleChatService.sendDirectTyping(conversationId, false);
+      }
+    }
+  };
+
+  const handleTyping = () => {
+    if (!conversationId) return;
+    simpleChatService.sendDirectTyping(conversationId, true);
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+    typingTimeoutRef.current = setTimeout(() => simpleChatService.sendDirectTyping(conversationId, false), 2000);
+  };
+
+  const answerRequest = async (accept: boolean) => {
+    if (!conversationId) return;
+    const response = await apiRequest("POST", `/api/conversations/${conversationId}/${accept ? "accept" : "decline"}`);
+    if (response.ok) {
+      setConversation(await response.json());
+      if (!accept) {
+        onClose();
+      }
+    }
+  };
+
+  const toggleBlock = async () => {
+    const response = await apiRequest(blockedByMe ? "DELETE" : "POST", `/api/users/${otherUser.id}/block`);
+    if (response.ok) {
+      const { blocked } = await response.json();
+      setBlockedByMe(blocked);
+      toast({ title: blocked ? `Bloqueaste a ${otherUser.name}` : `Desbloqueaste a ${otherUser.name}` });
+    }
+  };
+
+  if (!visible || !user) return null;
+
+  const myMessagesCount = messages.filter((message) => message.senderId === user.id).length;
+  const isOutgoingRequest = conversation
+    ? conversation.status === "request" && conversation.requestedBy === user.id
+    : requiresRequest;
+
+  // Motivo por el que no se puede escribir, si lo hay
+  const composerNotice = blockedByMe
+    ? `Bloqueaste a ${otherUser.name}. Desbloquéalo para enviarle mensajes.`
+    : blockedMe
+      ? "No puedes enviar mensajes a este usuario."
+      : conversation?.status === "declined" && conversation.requestedBy === user.id
+        ? "Tu solicitud de mensaje fue rechazada."
+        : isOutgoingRequest && myMessagesCount > 0
+          ? `Solicitud enviada. Podrás seguir escribiendo cuando ${otherUser.name} la acepte.`
+          : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 40 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 40 }}
+      className="fixed inset-0 z-[200] bg-white flex flex-col"
+    >
+      {/* Cabecera */}
+      <div className="flex items-center gap-3 px-3 py-3 border-b border-neutral-200">
+        <button onClick={onClose} className="p-1 text-neutral-600">
+          <ArrowLeft size={22} />
+        </button>
+        <div className="w-10 h-10 rounded-full overflow-hidden bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center">
+          {otherUser.avatar ? (
+            <img src={otherUser.avatar} alt={otherUser.name} className="w-full h-full object-cover" />
+          ) : (
+            <span className="text-white font-bold">{otherUser.name.charAt(0).toUpperCase()}</span>
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold truncate">{otherUser.name}</p>
+          <p className="text-xs text-neutral-500">{otherIsTyping ? "escribiendo..." : otherUser.username ? `@${otherUser.username}` : ""}</p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={toggleBlock} className={blockedByMe ? "text-neutral-600" : "text-red-600"}>
+          <Ban size={16} className="mr-1" />
+          {blockedByMe ? "Desbloquear" : "Bloquear"}
+        </Button>
+      </div>
+
+      {/* Solicitud de mensaje recibida */}
+      {conversation?.isIncomingRequest && (
+        <div className="bg-yellow-50 border-b border-yellow-200 px-4 py-3">
+          <p className="text-sm text-neutral-700 mb-2">
+            {otherUser.name} quiere enviarte mensajes. Todavía no comparten ningún evento.
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" className="bg-yellow-500 hover:bg-yellow-600 text-white" onClick={() => answerRequest(true)}>
+              <Check size={14} className="mr-1" /> Aceptar
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => answerRequest(false)}>
+              <X size={14} className="mr-1" /> Rechazar
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Mensajes */}
+      <div className="flex-1 overflow-y-auto px-4 py-3 bg-neutral-50">
+        {messages.length === 0 && (
+          <p className="text-center text-sm text-neutral-500 mt-8">
+            {requiresRequest && !conversation
+              ? `Aún no comparten ningún evento: tu primer mensaje le llegará a ${otherUser.name} como solicitud.`
+              : "Envía el primer mensaje"}
+          </p>
+        )}
+        {messages.map((message) => {
+          const isMine = message.senderId === user.id;
+          return (
+            <div key={message.id} className={`flex mb-2 ${isMine ? "justify-end" : "justify-start"}`}>
+              <div
+                className={`max-w-[75%] px-3 py-2 rounded-2xl shadow-sm ${
+                  isMine ? "bg-blue-500 text-white rounded-br-sm" : "bg-white text-neutral-800 rounded-bl-sm"
+                }`}
+              >
+                <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                <p className={`text-[11px] mt-1 flex items-center justify-end gap-1 ${isMine ? "text-blue-100" : "text-neutral-400"}`}>
+                  {format(new Date(message.createdAt), "HH:mm")}
+                  {isMine && (message.readAt ? <CheckCheck size={12} /> : <Check size={12} />)}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={messagesEndRef} />
+      </div>
+
+      {/* Entrada */}
+      <div className="border-t border-neutral-200 p-3 pb-6">
+        {composerNotice ? (
+          <p className="text-sm text-center text-neutral-500">{composerNotice}</p>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Input
+              value={newMessage}
+              onChange={(e) => setNewMessage(e.target.value)}
+              onInput={handleTyping}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  sendMessage();
+                }
+              }}
+              placeholder={isOutgoingRequest ? "Escribe tu solicitud de mensaje..." : "Escribe un mensaje..."}
+              className="flex-1 rounded-2xl"
+              disabled={!isConnected}
+            />
+            <Button
+              onClick={sendMessage}
+              disabled={!newMessage.trim() || !isConnected}
+              className="bg-yellow-500 hover:bg-yellow-600 text-white rounded-full p-3"
+            >
+              <Send size={18} />
+            </Button>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -1,4 +1,6 @@
 // Simple unified chat service that works consistently from anywhere
+import { TokenManager } from '@/lib/token-manager';
+
 interface ChatMessage {
   id: number;
   eventId: number;
@@ -44,9 +46,11 @@ class SimpleChatService {
 
     try {
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-      const wsUrl = `${protocol}//${window.location.host}/ws`;
+      // El servidor autentica el handshake con el token de Supabase o con la cookie de sesión
+      const token = TokenManager.getToken();
+      const wsUrl = `${protocol}//${window.location.host}/ws${token ? `?token=${encodeURIComponent(token)}` : ''}`;
       
-      console.log('🔗 Simple chat connecting:', wsUrl);
+      console.log('🔗 Simple chat connecting:', `${protocol}//${window.location.host}/ws`);
       
       this.socket = new WebSocket(wsUrl);
       
@@ -119,6 +123,10 @@ class SimpleChatService {
     }
   }
 
+  removeConnectionListener(handler: () => void) {
+    this.connectionListeners.delete(handler);
+  }
+
   onError(handler: (error: any) => void) {
     this.errorListeners.add(handler);
   }
@@ -246,11 +254,10 @@ class SimpleChatService {
         }, 10000); // 10 second timeout
         
         // Start the sequence with authentication
+        // La identidad ya quedó fijada en el handshake, el servidor solo la confirma
         console.log('🔑 Sending authentication...');
         this.send({
-          type: 'auth',
-          userId: user.id,
-          userName: user.name
+          type: 'auth'
         });
       };
 
@@ -259,18 +266,36 @@ class SimpleChatService {
       } else {
         console.log('🔌 Not connected, waiting for connection...');
         this.onConnect(initialize);
+        // Si el handshake se rechazó antes de iniciar sesión, se reintenta con las credenciales actuales
+        this.connect();
       }
     });
   }
 
-  sendMessage(eventId: number, content: string): boolean {
+  sendMessage(eventId: number, content: string, replyToId?: number): boolean {
     return this.send({
       type: 'send_message',
       eventId,
+      content: content.trim(),
+      replyToId
+    });
+  }
+
+  editMessage(messageId: number, content: string): boolean {
+    return this.send({
+      type: 'edit_message',
+      messageId,
       content: content.trim()
     });
   }
 
+  deleteMessage(messageId: number): boolean {
+    return this.send({
+      type: 'delete_message',
+      messageId
+    });
+  }
+
   sendTyping(eventId: number, isTyping: boolean): boolean {
     return this.send({
       type: 'typing',
@@ -279,6 +304,53 @@ class SimpleChatService {
     });
   }
 
+  markRead(eventId: number, messageId: number): boolean {
+    return this.send({
+      type: 'mark_read',
+      eventId,
+      messageId
+    });
+  }
+
+  // Mensajes directos: la conversación es una sala propia en el servidor
+  joinConversation(conversationId: number): boolean {
+    return this.send({
+      type: 'join_conversation',
+      conversationId
+    });
+  }
+
+  leaveConversation(conversationId: number): boolean {
+    return this.send({
+      type: 'leave_conversation',
+      conversationId
+    });
+  }
+
+  // Sin conversationId se envía el primer mensaje al usuario (o una solicitud de mensaje)
+  sendDirectMessage(target: { conversationId: number } | { recipientId: number }, content: string): boolean {
+    return this.send({
+      type: 'send_direct_message',
+      ...target,
+      content: content.trim()
+    });
+  }
+
+  markConversationRead(conversationId: number): boolean {
+    return this.send({
+      type: 'mark_conversation_read',
+      conversationId
+    });
+  }
+
+  sendDirectTyping(conversationId: number, isTyping: boolean): boolean {
+    return this.send({
+      type: 'direct_typing',
+      conversationId,
+      isTyping
+    });
+  }
+
   leaveEvent(eventId: number): boolean {
     return this.send({
       type: 'leave_event',
@@ -0,0 +1,98 @@
+import type { ApplicationAnswers, ApplicationQuestion } from "@shared/schema";
+import { MAX_LONG_TEXT_ANSWER_LENGTH, MAX_SHORT_TEXT_ANSWER_LENGTH } from "@shared/application-questions";
+
+type ApplicationFormProps = {
+  questions: ApplicationQuestion[];
+  answers: ApplicationAnswers;
+  errors: Record<string, string>;
+  onChange: (answers: ApplicationAnswers) => void;
+};
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent";
+
+// Campos del formulario de postulación según el tipo de cada pregunta
+export function ApplicationForm({ questions, answers, errors, onChange }: ApplicationFormProps) {
+  const setAnswer = (questionId: string, value: string | string[]) => {
+    onChange({ ...answers, [questionId]: value });
+  };
+
+  const toggleOption = (questionId: string, option: string) => {
+    const selected = (answers[questionId] as string[] | undefined) || [];
+    setAnswer(
+      questionId,
+      selected.includes(option) ? selected.filter((item) => item !== option) : [...selected, option]
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {questions.map((question) => (
+        <div key={question.id}>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {question.label}
+            {question.required && <span className="text-red-500 ml-0.5">*</span>}
+          </label>
+
+          {question.type === "short_text" && (
+            <input
+              className={inputClassName}
+              maxLength={MAX_SHORT_TEXT_ANSWER_LENGTH}
+              value={(answers[question.id] as string) || ""}
+              onChange={(e) => setAnswer(question.id, e.target.value)}
+              placeholder="Tu respuesta..."
+            />
+          )}
+
+          {question.type === "long_text" && (
+            <textarea
+              className={inputClassName}
+              rows={3}
+              maxLength={MAX_LONG_TEXT_ANSWER_LENGTH}
+              value={(answers[question.id] as string) || ""}
+              onChange={(e) => setAnswer(question.id, e.target.value)}
+              placeholder="Tu respuesta..."
+            />
+          )}
+
+          {question.type === "single_choice" && (
+            <div className="space-y-1">
+              {question.options?.map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name={`application-${question.id}`}
+                    checked={answers[question.id] === option}
+                    onChange={() => setAnswer(question.id, option)}
+                  />
+                  {option}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {question.type === "multiple_choice" && (
+            <div className="space-y-1">
+              {question.options?.map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={((answers[question.id] as string[] | undefined) || []).includes(option)}
+                    onChange={() => toggleOption(question.id, option)}
+                  />
+                  {option}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {errors[question.id] && (
+            <p className="text-xs text-red-500 mt-1">{errors[question.id]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default ApplicationForm;
@@ -0,0 +1,132 @@
+import { Plus, Trash2, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { applicationQuestionTypes, type ApplicationQuestion, type ApplicationQuestionType } from "@shared/schema";
+import { APPLICATION_QUESTION_TYPE_LABELS } from "@shared/application-questions";
+
+type ApplicationQuestionsEditorProps = {
+  value: ApplicationQuestion[];
+  onChange: (questions: ApplicationQuestion[]) => void;
+};
+
+const isChoiceType = (type: ApplicationQuestionType) => type === "single_choice" || type === "multiple_choice";
+
+// Id estable para cada pregunta, las respuestas se guardan por este id
+const newQuestionId = () => `q_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Editor de preguntas para eventos con postulación: tipo, obligatoria y opciones
+export function ApplicationQuestionsEditor({ value, onChange }: ApplicationQuestionsEditorProps) {
+  const updateQuestion = (index: number, changes: Partial<ApplicationQuestion>) => {
+    onChange(value.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const changeType = (index: number, type: ApplicationQuestionType) => {
+    const question = value[index];
+    updateQuestion(index, {
+      type,
+      options: isChoiceType(type) ? (question.options?.length ? question.options : ["", ""]) : undefined,
+    });
+  };
+
+  const updateOption = (index: number, optionIndex: number, option: string) => {
+    const options = [...(value[index].options || [])];
+    options[optionIndex] = option;
+    updateQuestion(index, { options });
+  };
+
+  const removeOption = (index: number, optionIndex: number) => {
+    updateQuestion(index, { options: (value[index].options || []).filter((_, i) => i !== optionIndex) });
+  };
+
+  const addQuestion = () => {
+    onChange([...value, { id: newQuestionId(), type: "long_text", label: "", required: true }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((question, index) => (
+        <div key={question.id} className="bg-white rounded-lg border border-blue-100 p-3 space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={question.label}
+              onChange={(e) => updateQuestion(index, { label: e.target.value })}
+              placeholder={`Pregunta ${index + 1}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Select value={question.type} onValueChange={(type) => changeType(index, type as ApplicationQuestionType)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {applicationQuestionTypes.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {APPLICATION_QUESTION_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-sm text-neutral-600">
+              <Switch
+                checked={question.required}
+                onCheckedChange={(required) => updateQuestion(index, { required })}
+              />
+              Obligatoria
+            </label>
+          </div>
+
+          {isChoiceType(question.type) && (
+            <div className="space-y-2 pl-2">
+              {(question.options || []).map((option, optionIndex) => (
+                <div key={optionIndex} className="flex gap-2">
+                  <Input
+                    value={option}
+                    onChange={(e) => updateOption(index, optionIndex, e.target.value)}
+                    placeholder={`Opción ${optionIndex + 1}`}
+                    className="h-8"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => removeOption(index, optionIndex)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => updateQuestion(index, { options: [...(question.options || []), ""] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Agregar opción
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" className="bg-white" onClick={addQuestion}>
+        <Plus className="h-4 w-4 mr-1" />
+        Agregar pregunta
+      </Button>
+    </div>
+  );
+}
+
+export default ApplicationQuestionsEditor;
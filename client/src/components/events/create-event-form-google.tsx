@@ -9,12 +9,16 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { ArrowLeft, MapIcon, Compass, Search, Camera, Video, Clock, Calendar, MapPin, Tag, Users, DollarSign, Lock } from "lucide-react";
+import { ArrowLeft, MapIcon, Compass, Search, Camera, Video, Clock, Calendar, MapPin, Tag, Users, DollarSign, Lock, Repeat } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { GoogleMap, Marker, useLoadScript, Libraries } from '@react-google-maps/api';
 import { GOOGLE_MAPS_API_KEY, reverseGeocode, defaultMapConfig } from "@/lib/google-maps";
 import { MediaManager, MediaItem } from "./media-manager-v2";
+import { ApplicationQuestionsEditor } from "./application-questions-editor";
+import { applicationQuestionsSchema, type ApplicationQuestion } from "@shared/schema";
+import { parseApplicationQuestions } from "@shared/application-questions";
+import { MAX_SERIES_OCCURRENCES } from "@shared/recurrence";
 
 // Definición centralizada de categorías para reutilización
 const EVENT_CATEGORIES = [
@@ -54,7 +58,18 @@ const createEventSchema = z.object({
   privacyType: z.string().min(1, "Por favor, selecciona un tipo de privacidad"),
   genderPreference: z.enum(['all_people', 'men', 'women']).default('all_people'),
   privateAccessType: z.enum(['solicitud', 'postulacion', 'paga']).optional(),
-  applicationQuestions: z.string().optional(),
+  applicationQuestions: z.array(z.custom<ApplicationQuestion>()).default([]),
+
+  // Política de cancelación para eventos de pago
+  cancellationPolicy: z.enum(['full_refund', 'partial_refund', 'no_refund']).default('full_refund'),
+  refundDeadlineHours: z.string().optional(),
+  partialRefundPercent: z.string().optional(),
+
+  // Campos para eventos recurrentes (serie de ocurrencias)
+  recurrenceFrequency: z.enum(['none', 'daily', 'weekly', 'monthly']).default('none'),
+  recurrenceEndType: z.enum(['count', 'until', 'never']).default('count'),
+  recurrenceCount: z.string().optional(),
+  recurrenceUntil: z.string().optional(),
 
   // Campo para gestión multimedia unificada - OBLIGATORIO AL MENOS UN ARCHIVO
   mediaItems: z.array(
@@ -123,6 +138,8 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
   console.log("Creando instancia de CreateEventFormGoogle", isEditMode ? "en modo EDICIÓN" : "en modo CREACIÓN");
   // Estados principales
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Se marca al pulsar "Guardar borrador": el evento se crea oculto hasta que el organizador lo publique
+  const saveAsDraftRef = useRef(false);
   
   // Cuando el componente va a ser desmontado, limpiar cualquier estado o efecto pendiente
   useEffect(() => {
@@ -210,7 +227,14 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
         privacyType: eventToEdit.privacyType || "public",
         genderPreference: eventToEdit.genderPreference || "all_people",
         privateAccessType: eventToEdit.privateAccessType || "solicitud",
-        applicationQuestions: eventToEdit.applicationQuestions || "",
+        applicationQuestions: parseApplicationQuestions(eventToEdit.applicationQuestions ?? eventToEdit.application_questions),
+        cancellationPolicy: eventToEdit.cancellationPolicy || eventToEdit.cancellation_policy || "full_refund",
+        refundDeadlineHours: String(eventToEdit.refundDeadlineHours ?? eventToEdit.refund_deadline_hours ?? 24),
+        partialRefundPercent: String(eventToEdit.partialRefundPercent ?? eventToEdit.partial_refund_percent ?? 50),
+        recurrenceFrequency: "none" as const,
+        recurrenceEndType: "count" as const,
+        recurrenceCount: "",
+        recurrenceUntil: "",
         mediaItems: mediaItems,
         eventPhotos: [],
         eventVideos: [],
@@ -237,7 +261,14 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
         privacyType: "public",
         genderPreference: "all_people",
         privateAccessType: "solicitud", // Valor predeterminado cuando privacyType es "private"
-        applicationQuestions: "",
+        applicationQuestions: [] as ApplicationQuestion[],
+        cancellationPolicy: "full_refund" as const,
+        refundDeadlineHours: "24",
+        partialRefundPercent: "50",
+        recurrenceFrequency: "none" as const,
+        recurrenceEndType: "count" as const,
+        recurrenceCount: "4",
+        recurrenceUntil: "",
         mediaItems: [],
         eventPhotos: [],
         eventVideos: [],
@@ -499,6 +530,38 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
         return;
       }
       
+      // Regla de recurrencia si el organizador quiere repetir el evento
+      const recurrence = data.recurrenceFrequency !== 'none' ? {
+        frequency: data.recurrenceFrequency,
+        interval: 1,
+        count: data.recurrenceEndType === 'count' && data.recurrenceCount ? Number(data.recurrenceCount) : null,
+        until: data.recurrenceEndType === 'until' && data.recurrenceUntil ? new Date(`${data.recurrenceUntil}T23:59:59`).toISOString() : null,
+      } : null;
+      
+      // Sin final la serie se corta en MAX_SERIES_OCCURRENCES
+      if (recurrence && data.recurrenceEndType !== 'never' && !recurrence.count && !recurrence.until) {
+        toast({
+          title: "Error en la repetición",
+          description: "Indica cuántas veces se repite el evento o hasta qué fecha.",
+          variant: "destructive",
+        });
+        return;
+      }
+      
+      // Las preguntas de postulación se validan igual que en el servidor
+      const isApplicationEvent = data.privacyType === 'private' && data.privateAccessType === 'postulacion';
+      if (isApplicationEvent && data.applicationQuestions.length > 0) {
+        const parsedQuestions = applicationQuestionsSchema.safeParse(data.applicationQuestions);
+        if (!parsedQuestions.success) {
+          toast({
+            title: "Revisa las preguntas",
+            description: parsedQuestions.error.errors[0]?.message || "Hay preguntas incompletas.",
+            variant: "destructive",
+          });
+          return;
+        }
+      }
+      
       // Check for scheduling conflicts before creating the event
       try {
         const response = await fetch(`/api/events/check-conflicts`, {
@@ -508,7 +571,8 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
           body: JSON.stringify({
             startTime: dateTime.toISOString(),
             endTime: endDateTime.toISOString(),
-            paymentType: data.paymentType
+            paymentType: data.paymentType,
+            recurrence
           })
         });
         
@@ -550,12 +614,22 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
         formData.append('price', data.price);
       }
       
+      if (data.paymentType === 'paid') {
+        formData.append('cancellationPolicy', data.cancellationPolicy);
+        if (data.cancellationPolicy !== 'no_refund' && data.refundDeadlineHours) {
+          formData.append('refundDeadlineHours', data.refundDeadlineHours);
+        }
+        if (data.cancellationPolicy === 'partial_refund' && data.partialRefundPercent) {
+          formData.append('partialRefundPercent', data.partialRefundPercent);
+        }
+      }
+      
       if (data.privacyType === 'private' && data.privateAccessType) {
         formData.append('privateAccessType', data.privateAccessType);
         
         // Añadir preguntas de aplicación si es relevante
-        if (data.privateAccessType === 'postulacion' && data.applicationQuestions) {
-          formData.append('applicationQuestions', data.applicationQuestions);
+        if (data.privateAccessType === 'postulacion' && data.applicationQuestions.length > 0) {
+          formData.append('applicationQuestions', JSON.stringify(data.applicationQuestions));
         }
       }
       
@@ -612,6 +686,16 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
         formData.append('maxCapacity', String(Number(data.maxCapacity)));
       }
       
+      // Añadir regla de recurrencia para crear la serie completa
+      if (recurrence && !isEditMode) {
+        formData.append('recurrence', JSON.stringify(recurrence));
+      }
+      
+      const isDraft = saveAsDraftRef.current && !isEditMode;
+      if (isDraft) {
+        formData.append('status', 'draft');
+      }
+      
       // Verificar si estamos en modo edición
       const isEditingMode = isEditMode && eventToEdit && eventToEdit.id;
       
@@ -707,8 +791,12 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
       console.log(`Evento ${isEditMode && eventToEdit ? 'actualizado' : 'creado'}:`, eventData);
       
       toast({
-        title: isEditMode && eventToEdit ? "¡Evento actualizado!" : "¡Evento creado!",
-        description: isEditMode && eventToEdit ? "Tu evento se ha actualizado correctamente" : "Tu evento se ha creado correctamente",
+        title: isEditMode && eventToEdit ? "¡Evento actualizado!" : isDraft ? "Borrador guardado" : "¡Evento creado!",
+        description: isEditMode && eventToEdit
+          ? "Tu evento se ha actualizado correctamente"
+          : isDraft
+            ? "Puedes publicarlo desde Mis eventos cuando esté listo"
+            : "Tu evento se ha creado correctamente",
       });
       
       // Emitir evento personalizado para actualizar todas las vistas
@@ -733,6 +821,11 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
       // No realizamos ninguna navegación adicional, ya que queremos permanecer en el mapa
       // y ver el evento recién creado en el contexto del mapa
       
+      // Los borradores no aparecen en el mapa
+      if (isDraft) {
+        return;
+      }
+      
       // Emitir notificación de éxito adicional para confirmar al usuario
       setTimeout(() => {
         toast({
@@ -1098,6 +1191,90 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
                   )}
                 </div>
               </div>
+              
+              {!isEditMode && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                  <FormField
+                    control={form.control}
+                    name="recurrenceFrequency"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <div className="flex items-center">
+                          <FormLabel className="text-sm text-muted-foreground flex-grow">Repetir evento</FormLabel>
+                          <Repeat className="h-4 w-4 text-primary mr-1" />
+                        </div>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="bg-card">
+                              <SelectValue placeholder="No se repite" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">No se repite</SelectItem>
+                            <SelectItem value="daily">Todos los días</SelectItem>
+                            <SelectItem value="weekly">Todas las semanas</SelectItem>
+                            <SelectItem value="monthly">Todos los meses</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  {form.watch("recurrenceFrequency") !== "none" && (
+                    <div className="space-y-2">
+                      <FormField
+                        control={form.control}
+                        name="recurrenceEndType"
+                        render={({ field }) => (
+                          <FormItem className="space-y-2">
+                            <FormLabel className="text-sm text-muted-foreground">Termina</FormLabel>
+                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <FormControl>
+                                <SelectTrigger className="bg-card">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="count">Después de varias repeticiones</SelectItem>
+                                <SelectItem value="until">En una fecha</SelectItem>
+                                <SelectItem value="never">Sin fecha final (hasta {MAX_SERIES_OCCURRENCES} veces)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      {form.watch("recurrenceEndType") === "count" ? (
+                        <FormField
+                          control={form.control}
+                          name="recurrenceCount"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input type="number" min={1} max={52} placeholder="Ej: 4" className="bg-card" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ) : form.watch("recurrenceEndType") === "until" ? (
+                        <FormField
+                          control={form.control}
+                          name="recurrenceUntil"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input type="date" min={form.watch("date") || undefined} className="bg-card" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ) : null}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
             
             <div className="bg-primary/5 rounded-lg p-4 border border-primary/20 mb-4">
@@ -1165,6 +1342,65 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
                   />
                 )}
               </div>
+              
+              {form.watch("paymentType") === "paid" && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                  <FormField
+                    control={form.control}
+                    name="cancellationPolicy"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel className="text-sm text-muted-foreground">Política de cancelación</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="bg-card">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="full_refund">Reembolso completo</SelectItem>
+                            <SelectItem value="partial_refund">Reembolso parcial</SelectItem>
+                            <SelectItem value="no_refund">Sin reembolso</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  {form.watch("cancellationPolicy") !== "no_refund" && (
+                    <FormField
+                      control={form.control}
+                      name="refundDeadlineHours"
+                      render={({ field }) => (
+                        <FormItem className="space-y-2">
+                          <FormLabel className="text-sm text-muted-foreground">Horas antes del evento</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={0} max={720} placeholder="Ej: 24" className="bg-card" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  
+                  {form.watch("cancellationPolicy") === "partial_refund" && (
+                    <FormField
+                      control={form.control}
+                      name="partialRefundPercent"
+                      render={({ field }) => (
+                        <FormItem className="space-y-2">
+                          <FormLabel className="text-sm text-muted-foreground">Porcentaje a reembolsar</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} max={99} placeholder="Ej: 50" className="bg-card" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+              )}
             </div>
             
             <div className="bg-primary/5 rounded-lg p-4 border border-primary/20 mb-4">
@@ -1318,19 +1554,11 @@ const CreateEventFormGoogle = ({ onClose, visible, initialLocation, onEventCreat
                   render={({ field }) => (
                     <FormItem className="space-y-2">
                       <FormControl>
-                        <Textarea 
-                          placeholder="Escribe las preguntas que quieres que respondan los interesados, separadas por líneas.
-Ejemplo:
-¿Por qué quieres participar en este evento?
-¿Cuál es tu experiencia previa en este tema?
-¿Qué esperas obtener de esta actividad?" 
-                          className="min-h-[150px] bg-white"
-                          {...field} 
-                        />
+                        <ApplicationQuestionsEditor value={field.value || []} onChange={field.onChange} />
                       </FormControl>
                       <FormMessage />
                       <p className="text-xs text-blue-600">
-                        Escribe cada pregunta en una línea separada. Los postulantes deberán responder a todas ellas.
+                        Elige el tipo de cada pregunta. Sin preguntas propias se usan dos preguntas generales.
                       </p>
                     </FormItem>
                   )}
@@ -1363,10 +1591,28 @@ Ejemplo:
                 <ArrowLeft className="h-4 w-4 mr-2" /> Cancelar
               </Button>
               
+              {!isEditMode && (
+                <Button 
+                  type="button"
+                  variant="outline"
+                  disabled={isSubmitting}
+                  onClick={(e) => {
+                    saveAsDraftRef.current = true;
+                    form.handleSubmit(onSubmit)(e);
+                  }}
+                  className="ml-auto mr-2"
+                >
+                  Guardar borrador
+                </Button>
+              )}
+              
               <Button 
                 type="submit"
                 disabled={isSubmitting}
-                onClick={form.handleSubmit(onSubmit)}
+                onClick={(e) => {
+                  saveAsDraftRef.current = false;
+                  form.handleSubmit(onSubmit)(e);
+                }}
                 className="bg-primary hover:bg-primary/90 text-white px-8"
               >
                 {isSubmitting ? (
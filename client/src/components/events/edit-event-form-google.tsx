@@ -10,13 +10,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useQueryClient } from "@tanstack/react-query";
-import { ArrowLeft, MapIcon, Compass, Search, Camera, Video, Clock, Calendar, MapPin, Tag, Users, DollarSign, Lock, Trash2 } from "lucide-react";
+import { ArrowLeft, MapIcon, Compass, Search, Camera, Video, Clock, Calendar, MapPin, Tag, Users, DollarSign, Lock, Trash2, Repeat, Ban } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import { GoogleMap, Marker, useLoadScript, Libraries } from '@react-google-maps/api';
 import { GOOGLE_MAPS_API_KEY, reverseGeocode, defaultMapConfig } from "@/lib/google-maps";
 import { MediaManager, MediaItem } from "./media-manager-v2";
+import { describeRecurrence } from "@shared/recurrence";
+import { ApplicationQuestionsEditor } from "./application-questions-editor";
+import { applicationQuestionsSchema, type ApplicationQuestion } from "@shared/schema";
+import { parseApplicationQuestions } from "@shared/application-questions";
+import { getEventStatus } from "@shared/event-status";
 
 // Definición centralizada de categorías para reutilización
 const EVENT_CATEGORIES = [
@@ -55,7 +60,7 @@ const createEventSchema = z.object({
   maxCapacity: z.string().optional().default(""),
   privacyType: z.string().optional().default("public"),
   privateAccessType: z.enum(['solicitud', 'postulacion', 'paga']).optional(),
-  applicationQuestions: z.string().optional().default(""),
+  applicationQuestions: z.array(z.custom<ApplicationQuestion>()).default([]),
 
   // Campo para gestión multimedia unificada - Para edición, permitir array vacío (archivos existentes se conservan)
   mediaItems: z.array(
@@ -123,6 +128,14 @@ const EditEventFormGoogle = ({ onClose, visible, eventId, event, onEventUpdated
   // Estados principales
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  
+  // Solo los borradores se eliminan; un evento publicado se cancela para que quede en el historial
+  const isDraft = getEventStatus(event) === 'draft';
+  
+  // Alcance de la edición para eventos que pertenecen a una serie recurrente
+  const isRecurringEvent = !!(event?.seriesId || event?.series_id);
+  const [editScope, setEditScope] = useState<'this' | 'future'>('this');
   
   // Cuando el componente va a ser desmontado, limpiar cualquier estado o efecto pendiente
   useEffect(() => {
@@ -330,7 +343,7 @@ console.log("🔍 FORM DEBUG - event.main_media_url:", typeof event?.main_media_
       maxCapacity: event?.maxCapacity?.toString() || "",
       privacyType: event?.privacyType || "public",
       privateAccessType: event?.privateAccessType || "solicitud", // Valor predeterminado cuando privacyType es "private"
-      applicationQuestions: event?.applicationQuestions || "",
+      applicationQuestions: parseApplicationQuestions(event?.applicationQuestions ?? event?.application_questions),
 
       mediaItems: mediaItems,
       eventPhotos: [],
@@ -596,6 +609,55 @@ console.log("🔍 FORM DEBUG - event.main_media_url:", typeof event?.main_media_
     }
   };
 
+  // Cancelar un evento publicado: se reembolsa y avisa a los asistentes y el chat queda en modo lectura
+  const handleCancelEvent = async () => {
+    if (!eventId) return;
+    
+    const confirmCancel = window.confirm(
+      "¿Seguro que quieres cancelar este evento? Avisaremos a los asistentes y reembolsaremos los pagos. Esta acción no se puede deshacer."
+    );
+    
+    if (!confirmCancel) return;
+    
+    setIsCancelling(true);
+    
+    try {
+      const response = await apiRequest("POST", `/api/events/${eventId}/cancel`);
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.message || 'No se pudo cancelar el evento');
+      }
+      
+      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/events/created'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/events/attending'] });
+      
+      toast({
+        title: "Evento cancelado",
+        description: data.refundedAttendees > 0
+          ? `Avisamos a los asistentes y reembolsamos ${data.refundedAttendees} pagos`
+          : "Avisamos a los asistentes",
+      });
+      
+      onClose();
+      
+      if (onEventUpdated) {
+        onEventUpdated();
+      }
+    } catch (error) {
+      console.error("Error cancelando evento:", error);
+      toast({
+        title: "Error al cancelar",
+        description: error instanceof Error ? error.message : "No se pudo cancelar el evento",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   // Enviar formulario al servidor
   const onSubmit = async (data: FormValues) => {
     console.log("🚀 onSubmit called with data:", data);
@@ -616,6 +678,20 @@ console.log("🔍 FORM DEBUG - event.main_media_url:", typeof event?.main_media_
       return;
     }
     
+    // Las preguntas de postulación se validan igual que en el servidor
+    const isApplicationEvent = data.privacyType === 'private' && data.privateAccessType === 'postulacion';
+    if (isApplicationEvent && data.applicationQuestions.length > 0) {
+      const parsedQuestions = applicationQuestionsSchema.safeParse(data.applicationQuestions);
+      if (!parsedQuestions.success) {
+        toast({
+          title: "Revisa las preguntas",
+          description: parsedQuestions.error.errors[0]?.message || "Hay preguntas incompletas.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    
     if (isSubmitting) return;
     setIsSubmitting(true);
     
@@ -653,8 +729,9 @@ console.log("🔍 FORM DEBUG - event.main_media_url:", typeof event?.main_media_
         formData.append('privateAccessType', data.privateAccessType);
         
         // Añadir preguntas de aplicación si es relevante
-        if (data.privateAccessType === 'postulacion' && data.applicationQuestions) {
-          formData.append('applicationQuestions', data.applicationQuestions);
+        // Un array vacío borra las preguntas propias del evento
+        if (data.privateAccessType === 'postulacion') {
+          formData.append('applicationQuestions', JSON.stringify(data.applicationQuestions));
         }
       }
       
@@ -745,6 +822,11 @@ console.log("🔍 FORM DEBUG - event.main_media_url:", typeof event?.main_media_
         formData.append('maxCapacity', String(Number(data.maxCapacity)));
       }
       
+      // Indicar si los cambios aplican solo a esta ocurrencia o también a las futuras
+      if (isRecurringEvent) {
+        formData.append('editScope', editScope);
+      }
+      
       // Usar fetch directamente para FormData - UPDATE para editar evento existente
       const response = await fetch(`/api/events/${eventId}`, {
         method: 'PATCH',
@@ -1288,19 +1370,11 @@ console.log("🔍 FORM DEBUG - event.main_media_url:", typeof event?.main_media_
                   render={({ field }) => (
                     <FormItem className="space-y-2">
                       <FormControl>
-                        <Textarea 
-                          placeholder="Escribe las preguntas que quieres que respondan los interesados, separadas por líneas.
-Ejemplo:
-¿Por qué quieres participar en este evento?
-¿Cuál es tu experiencia previa en este tema?
-¿Qué esperas obtener de esta actividad?" 
-                          className="min-h-[150px] bg-white"
-                          {...field} 
-                        />
+                        <ApplicationQuestionsEditor value={field.value || []} onChange={field.onChange} />
                       </FormControl>
                       <FormMessage />
                       <p className="text-xs text-blue-600">
-                        Escribe cada pregunta en una línea separada. Los postulantes deberán responder a todas ellas.
+                        Elige el tipo de cada pregunta. Sin preguntas propias se usan dos preguntas generales.
                       </p>
                     </FormItem>
                   )}
@@ -1335,32 +1409,86 @@ Ejemplo:
               />
             </div>
             
+            {isRecurringEvent && (
+              <div className="bg-primary/5 rounded-lg p-4 border border-primary/20 mb-4">
+                <h3 className="text-md font-medium mb-1 flex items-center gap-2">
+                  <Repeat className="h-4 w-4 text-primary" />
+                  Evento recurrente
+                </h3>
+                {event?.series && (
+                  <p className="text-sm text-muted-foreground mb-3">
+                    {describeRecurrence({
+                      frequency: event.series.frequency,
+                      interval: event.series.interval,
+                      until: event.series.until_date,
+                      count: event.series.occurrence_count
+                    })}
+                  </p>
+                )}
+                <label className="text-sm text-muted-foreground">Aplicar cambios a</label>
+                <Select 
+                  onValueChange={(value) => setEditScope(value as 'this' | 'future')} 
+                  defaultValue={editScope}
+                >
+                  <SelectTrigger className="bg-card mt-2">
+                    <SelectValue placeholder="Selecciona qué ocurrencias editar" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="this">Solo esta ocurrencia</SelectItem>
+                    <SelectItem value="future">Esta y todas las ocurrencias futuras</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            
             <div className="flex justify-between items-center mt-8 pt-4 border-t">
               <div className="flex gap-3">
-                <Button 
-                  type="button" 
-                  variant="destructive"
-                  onClick={handleDeleteEvent}
-                  disabled={isDeleting || isSubmitting}
-                  className="bg-red-600 hover:bg-red-700 text-white"
-                >
-                  {isDeleting ? (
-                    <div className="flex items-center gap-2">
-                      <LoadingSpinner size={16} />
-                      <span>Eliminando...</span>
-                    </div>
-                  ) : (
-                    <div className="flex items-center gap-2">
-                      <Trash2 className="h-4 w-4" />
-                      <span>Eliminar Evento</span>
-                    </div>
-                  )}
-                </Button>
+                {isDraft ? (
+                  <Button 
+                    type="button" 
+                    variant="destructive"
+                    onClick={handleDeleteEvent}
+                    disabled={isDeleting || isSubmitting}
+                    className="bg-red-600 hover:bg-red-700 text-white"
+                  >
+                    {isDeleting ? (
+                      <div className="flex items-center gap-2">
+                        <LoadingSpinner size={16} />
+                        <span>Eliminando...</span>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <Trash2 className="h-4 w-4" />
+                        <span>Eliminar Borrador</span>
+                      </div>
+                    )}
+                  </Button>
+                ) : (
+                  <Button 
+                    type="button" 
+                    variant="destructive"
+                    onClick={handleCancelEvent}
+                    disabled={isCancelling || isSubmitting}
+                    className="bg-red-600 hover:bg-red-700 text-white"
+                  >
+                    {isCancelling ? (
+                      <div className="flex items-center gap-2">
+                        <LoadingSpinner size={16} />
+                        <span>Cancelando...</span>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <Ban className="h-4 w-4" />
+                        <span>Cancelar Evento</span>
+                      </div>
+                    )}
+                  </Button>
+                )}
               </div>
               
               <Button 
                 type="button"
-                disabled={isSubmitting || isDeleting}
+                disabled={isSubmitting || isDeleting || isCancelling}
                 onClick={(e) => {
                   e.preventDefault();
                   console.log("🔲 Guardar Cambios button clicked");
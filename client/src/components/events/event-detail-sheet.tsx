@@ -16,6 +16,7 @@ import {
   Trash2,
   ChevronLeft,
   ChevronRight,
+  Clock,
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { Avatar } from "@/components/ui/avatar";
@@ -31,6 +32,11 @@ import EventRequests from "@/components/events/event-requests";
 import EditEventForm from "@/components/events/edit-event-form";
 import EditEventSheet from "@/components/events/edit-event-sheet";
 import { formatPrice, formatAccessType } from "@/lib/stripe";
+import { describeCancellationPolicy } from "@shared/cancellation-policy";
+import { getEventApplicationQuestions, validateApplicationAnswers } from "@shared/application-questions";
+import type { ApplicationAnswers } from "@shared/schema";
+import { EVENT_STATUS_LABELS, getEventStatus, isEventOpen } from "@shared/event-status";
+import ApplicationForm from "@/components/events/application-form";
 import mapboxgl from "mapbox-gl";
 import useEmblaCarousel from "embla-carousel-react";
 
@@ -53,8 +59,12 @@ type EventDetailSheetProps = {
     paymentType: string;
     price?: string | number;
     maxCapacity?: number;
+    cancellationPolicy?: 'full_refund' | 'partial_refund' | 'no_refund';
+    refundDeadlineHours?: number;
+    partialRefundPercent?: number;
     privacyType: string;
     genderPreference?: string;
+    status?: string; // 'draft' | 'published' | 'cancelled' | 'completed'
     longitude?: number | string;
     latitude?: number | string;
     photoUrl?: string;
@@ -310,10 +320,14 @@ const EventDetailSheet = ({
       currentEvent.organizer?.id === parseInt(String(user.id)));
 
   // Calcular capacidad y conteo
+  // Las personas en lista de espera o que cancelaron no ocupan lugar
+  const confirmedAttendees = safeAttendees.filter(
+    (attendee: any) => attendee.status !== "waitlisted" && attendee.status !== "cancelled",
+  );
   const spotsLeft = currentEvent.maxCapacity
-    ? currentEvent.maxCapacity - (safeAttendees.length || 0)
+    ? currentEvent.maxCapacity - (confirmedAttendees.length || 0)
     : null;
-  const attendeeCount = safeAttendees.length || 0;
+  const attendeeCount = confirmedAttendees.length || 0;
 
   // Fetch location name from Google Maps geocoding
   useEffect(() => {
@@ -497,6 +511,7 @@ const EventDetailSheet = ({
   const [joinRequestStatus, setJoinRequestStatus] = useState<string | null>(
     null,
   );
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
 
   // Check if user has a pending request for this event
   useEffect(() => {
@@ -511,6 +526,9 @@ const EventDetailSheet = ({
             const data = await res.json();
             if (data.status === "pending") {
               setJoinRequestStatus("pending");
+            } else if (data.status === "waitlisted") {
+              setJoinRequestStatus("waitlisted");
+              setWaitlistPosition(data.waitlistPosition);
             }
           }
         } catch (error) {
@@ -523,9 +541,22 @@ const EventDetailSheet = ({
   }, [user, event, isAttending, isOrganizer]);
 
   const [showApplicationForm, setShowApplicationForm] = useState(false);
-  const [applicationAnswers, setApplicationAnswers] = useState<string[]>([]);
+  const [applicationAnswers, setApplicationAnswers] = useState<ApplicationAnswers>({});
+  const [applicationErrors, setApplicationErrors] = useState<Record<string, string>>({});
+  const applicationQuestions = getEventApplicationQuestions(currentEvent);
+
+  // Validar antes de enviar con las mismas reglas que el servidor
+  const submitApplication = () => {
+    const validation = validateApplicationAnswers(applicationQuestions, applicationAnswers);
+    if (validation.valid === false) {
+      setApplicationErrors(validation.errors);
+      return;
+    }
+    setApplicationErrors({});
+    handleJoinEvent(validation.answers);
+  };
 
-  const handleJoinEvent = async (answers?: string[]) => {
+  const handleJoinEvent = async (answers?: ApplicationAnswers) => {
     if (!user) {
       toast({
         title: "Autenticación Requerida",
@@ -547,7 +578,7 @@ const EventDetailSheet = ({
       }
       
       if (privateAccessType === 'paga') {
-        // Handle payment for "solo de pago" events
+        // Handle payment for "solo de pago" events via Stripe Checkout
         try {
           const res = await apiRequest(
             "POST",
@@ -561,17 +592,9 @@ const EventDetailSheet = ({
 
           const data = await res.json();
           
-          if (data.paymentSuccess) {
-            toast({
-              title: "¡Pago Exitoso!",
-              description: "Te has unido al evento después del pago.",
-            });
-
-            // Update attendance status
-            import("@/lib/queryClient").then(({ queryClient }) => {
-              queryClient.invalidateQueries({ queryKey: ["/api/events"] });
-              setIsAttending(true);
-            });
+          // El webhook de Stripe confirma el pago; la página de pago muestra el estado
+          if (data.checkoutUrl) {
+            window.location.href = data.checkoutUrl;
             return;
           }
         } catch (error) {
@@ -598,6 +621,11 @@ const EventDetailSheet = ({
       if (!res.ok) {
         const errorData = await res.json();
         
+        if (res.status === 400 && errorData.errors && answers) {
+          setApplicationErrors(errorData.errors);
+          return;
+        }
+        
         if (res.status === 402 && errorData.requiresPayment) {
           // This shouldn't happen now since we handle payment above, but keep as fallback
           toast({
@@ -626,6 +654,16 @@ const EventDetailSheet = ({
         return;
       }
 
+      if (data.isWaitlisted) {
+        setJoinRequestStatus("waitlisted");
+        setWaitlistPosition(data.waitlistPosition);
+        toast({
+          title: "Evento completo",
+          description: `Te agregamos a la lista de espera${data.waitlistPosition ? ` (posición ${data.waitlistPosition})` : ""}. Te avisaremos si se libera un lugar.`,
+        });
+        return;
+      }
+
       toast({
         title: "¡Éxito!",
         description: "¡Te has unido al evento!",
@@ -687,9 +725,15 @@ const EventDetailSheet = ({
       );
 
       if (res.ok) {
+        const data = await res.json();
+        const refundStatus = data.result?.refundStatus;
         toast({
           title: "¡Éxito!",
-          description: "Has dejado el evento exitosamente",
+          description: refundStatus === "refunded"
+            ? `Has dejado el evento. Te reembolsamos ${formatPrice(data.result.refundAmount)}`
+            : refundStatus === "not_refundable"
+              ? "Has dejado el evento. Según la política de cancelación no corresponde reembolso"
+              : "Has dejado el evento exitosamente",
         });
 
         // Actualizar datos sin recargar
@@ -1430,9 +1474,31 @@ const EventDetailSheet = ({
 
           {/* Join event button */}
           <div className="mb-5">
+            {!isEventOpen(currentEvent) && (
+              <div className={`mb-4 rounded-xl px-4 py-3 text-center text-sm font-medium ${
+                getEventStatus(currentEvent) === 'cancelled' ? 'bg-red-50 text-red-700' : 'bg-gray-100 text-gray-700'
+              }`}>
+                {getEventStatus(currentEvent) === 'cancelled'
+                  ? 'Este evento fue cancelado'
+                  : getEventStatus(currentEvent) === 'draft'
+                    ? 'Borrador: solo tú puedes ver este evento'
+                    : `${EVENT_STATUS_LABELS[getEventStatus(currentEvent)]}: este evento ya terminó`}
+              </div>
+            )}
+            {currentEvent.paymentType === "paid" && !isOrganizer && !isAttending && (
+              <p className="text-xs text-gray-500 text-center mb-2">
+                {describeCancellationPolicy({
+                  cancellationPolicy: currentEvent.cancellationPolicy || (currentEvent as any).cancellation_policy,
+                  refundDeadlineHours: currentEvent.refundDeadlineHours ?? (currentEvent as any).refund_deadline_hours,
+                  partialRefundPercent: currentEvent.partialRefundPercent ?? (currentEvent as any).partial_refund_percent,
+                })}
+              </p>
+            )}
             {!isOrganizer &&
               !isAttending &&
+              isEventOpen(currentEvent) &&
               joinRequestStatus !== "pending" && 
+              joinRequestStatus !== "waitlisted" && 
               !showApplicationForm && (
                 <Button
                   className="w-full py-4 bg-yellow-400 text-black font-semibold rounded-full text-lg hover:bg-yellow-500"
@@ -1465,53 +1531,12 @@ const EventDetailSheet = ({
                   </Button>
                 </div>
                 
-                <div className="space-y-3">
-                  {(() => {
-                    try {
-                      const questionsData = (currentEvent as any).applicationQuestions || (currentEvent as any).application_questions;
-                      const questions = questionsData ? JSON.parse(questionsData) : ['¿Por qué te interesa este evento?', '¿Qué esperas obtener de esta experiencia?'];
-                      
-                      return questions.map((question: string, index: number) => (
-                        <div key={index}>
-                          <label className="block text-sm font-medium text-gray-700 mb-1">
-                            {question}
-                          </label>
-                          <textarea
-                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
-                            rows={3}
-                            value={applicationAnswers[index] || ''}
-                            onChange={(e) => {
-                              const newAnswers = [...applicationAnswers];
-                              newAnswers[index] = e.target.value;
-                              setApplicationAnswers(newAnswers);
-                            }}
-                            placeholder="Tu respuesta..."
-                          />
-                        </div>
-                      ));
-                    } catch (e) {
-                      console.error('Error parsing application questions:', e);
-                      return (
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-1">
-                            ¿Por qué te interesa este evento?
-                          </label>
-                          <textarea
-                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
-                            rows={3}
-                            value={applicationAnswers[0] || ''}
-                            onChange={(e) => {
-                              const newAnswers = [...applicationAnswers];
-                              newAnswers[0] = e.target.value;
-                              setApplicationAnswers(newAnswers);
-                            }}
-                            placeholder="Tu respuesta..."
-                          />
-                        </div>
-                      );
-                    }
-                  })()}
-                </div>
+                <ApplicationForm
+                  questions={applicationQuestions}
+                  answers={applicationAnswers}
+                  errors={applicationErrors}
+                  onChange={setApplicationAnswers}
+                />
                 
                 <div className="flex gap-2">
                   <Button
@@ -1523,8 +1548,7 @@ const EventDetailSheet = ({
                   </Button>
                   <Button
                     className="flex-1 bg-yellow-400 text-black hover:bg-yellow-500"
-                    onClick={() => handleJoinEvent(applicationAnswers)}
-                    disabled={applicationAnswers.every(answer => !answer?.trim())}
+                    onClick={submitApplication}
                   >
                     Enviar Postulación
                   </Button>
@@ -1570,6 +1594,26 @@ const EventDetailSheet = ({
               </div>
             )}
 
+            {joinRequestStatus === "waitlisted" && (
+              <div className="flex flex-col space-y-2">
+                <div className="bg-blue-100 text-blue-800 px-4 py-3 rounded-xl flex items-center gap-2">
+                  <Clock size={20} />
+                  <span>
+                    {waitlistPosition
+                      ? `Estás en la lista de espera (posición ${waitlistPosition})`
+                      : "Estás en la lista de espera"}
+                  </span>
+                </div>
+                <Button
+                  variant="destructive"
+                  className="px-6 py-2 text-sm rounded-xl"
+                  onClick={handleLeaveEvent}
+                >
+                  Salir de la lista de espera
+                </Button>
+              </div>
+            )}
+
             {isAttending && joinRequestStatus !== "pending" && !isOrganizer && (
               <div className="space-y-3">
                 <Button
@@ -1617,6 +1661,11 @@ const EventDetailSheet = ({
                   <div className="mt-6 border rounded-lg p-4 bg-neutral-50">
                     <EventRequests
                       eventId={currentEvent.id}
+                      questions={
+                        ((currentEvent as any).privateAccessType || (currentEvent as any).private_access_type) === 'postulacion'
+                          ? applicationQuestions
+                          : undefined
+                      }
                       onStatusChange={() => {
                         // Refrescar los datos al cambiar el estado de una solicitud
                         toast({
@@ -3,6 +3,10 @@ import { useToast } from '../../hooks/use-toast';
 import { apiRequest } from '../../lib/queryClient';
 import { Button } from '../ui/button';
 import { useAuth } from '../../hooks/use-auth';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import type { ApplicationAnswers, ApplicationQuestion } from '@shared/schema';
+import { formatApplicationAnswer, isChoiceQuestion } from '@shared/application-questions';
 
 type JoinRequest = {
   id: number;
@@ -10,6 +14,7 @@ type JoinRequest = {
   userId: number;
   status: string;
   createdAt: string;
+  applicationAnswers: ApplicationAnswers;
   user: {
     id: number;
     name: string;
@@ -21,12 +26,17 @@ type JoinRequest = {
 type EventRequestsProps = {
   eventId: number;
   onStatusChange: () => void;
+  questions?: ApplicationQuestion[]; // Solo en eventos con postulación
 };
 
-export function EventRequests({ eventId, onStatusChange }: EventRequestsProps) {
+const ALL_OPTIONS = '__all__';
+
+export function EventRequests({ eventId, onStatusChange, questions = [] }: EventRequestsProps) {
   const [requests, setRequests] = useState<JoinRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [processingId, setProcessingId] = useState<number | null>(null);
+  const [search, setSearch] = useState('');
+  const [choiceFilters, setChoiceFilters] = useState<Record<string, string>>({});
   const { toast } = useToast();
   const { user } = useAuth();
 
@@ -137,6 +147,123 @@ export function EventRequests({ eventId, onStatusChange }: EventRequestsProps) {
     );
   }
 
+  if (questions.length > 0) {
+    const choiceQuestions = questions.filter(isChoiceQuestion);
+    const searchTerm = search.trim().toLowerCase();
+
+    // Filtros: texto libre en nombre o respuestas, y una opción por pregunta de opción
+    const filteredRequests = requests.filter((request) => {
+      const answers = request.applicationAnswers || {};
+      const matchesChoices = Object.entries(choiceFilters).every(([questionId, option]) => {
+        if (option === ALL_OPTIONS) return true;
+        const answer = answers[questionId];
+        return Array.isArray(answer) ? answer.includes(option) : answer === option;
+      });
+      if (!matchesChoices) return false;
+      if (!searchTerm) return true;
+      const searchable = [request.user.name, ...Object.values(answers).map(formatApplicationAnswer)].join(' ').toLowerCase();
+      return searchable.includes(searchTerm);
+    });
+
+    return (
+      <div className="space-y-4">
+        <h3 className="font-semibold text-lg">Postulaciones pendientes ({requests.length})</h3>
+
+        <div className="flex flex-wrap gap-2">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Buscar en las respuestas"
+            className="h-9 w-48 bg-white"
+          />
+          {choiceQuestions.map((question) => (
+            <Select
+              key={question.id}
+              value={choiceFilters[question.id] || ALL_OPTIONS}
+              onValueChange={(option) => setChoiceFilters({ ...choiceFilters, [question.id]: option })}
+            >
+              <SelectTrigger className="h-9 w-48 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_OPTIONS}>{question.label}: todas</SelectItem>
+                {question.options?.map((option) => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+        </div>
+
+        {filteredRequests.length === 0 ? (
+          <div className="text-center py-4 text-neutral-500">
+            Ninguna postulación coincide con los filtros
+          </div>
+        ) : (
+          // Una columna por postulante para comparar respuestas lado a lado
+          <div className="overflow-x-auto">
+            <table className="text-sm border-separate border-spacing-0">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 bg-neutral-50 w-40 min-w-40"></th>
+                  {filteredRequests.map((request) => (
+                    <th key={request.id} className="min-w-52 max-w-64 p-2 align-top font-normal">
+                      <div className="flex items-center gap-2 mb-2">
+                        <img
+                          src={request.user.avatar || `https://ui-avatars.com/api/?name=${encodeURIComponent(request.user.name)}`}
+                          alt={request.user.name}
+                          className="w-8 h-8 rounded-full object-cover"
+                        />
+                        <div className="text-left">
+                          <p className="font-medium">{request.user.name}</p>
+                          <p className="text-xs text-neutral-500">@{request.user.username}</p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleReject(request.user.id)}
+                          disabled={processingId === request.user.id}
+                        >
+                          Rechazar
+                        </Button>
+                        <Button
+                          variant="default"
+                          size="sm"
+                          onClick={() => handleApprove(request.user.id)}
+                          disabled={processingId === request.user.id}
+                        >
+                          Aprobar
+                        </Button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {questions.map((question) => (
+                  <tr key={question.id}>
+                    <td className="sticky left-0 bg-neutral-50 p-2 align-top font-medium text-neutral-700 border-t">
+                      {question.label}
+                    </td>
+                    {filteredRequests.map((request) => (
+                      <td key={request.id} className="p-2 align-top border-t whitespace-pre-wrap">
+                        {formatApplicationAnswer(request.applicationAnswers?.[question.id]) || (
+                          <span className="text-neutral-400">Sin respuesta</span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-4">
       <h3 className="font-semibold text-lg">Solicitudes pendientes ({requests.length})</h3>
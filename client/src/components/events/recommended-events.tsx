@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { es } from "date-fns/locale";
+import { Sparkles } from "lucide-react";
+import { getCategoryEmoji } from "@/lib/eventsToGeoJSON";
+
+interface Recommendation {
+  event: any;
+  score: number;
+  reason: string;
+}
+
+type RecommendedEventsProps = {
+  onEventSelect: (event: any) => void;
+};
+
+// Sección "Para ti": eventos próximos ordenados según intereses, cercanía, conocidos y aura
+const RecommendedEvents = ({ onEventSelect }: RecommendedEventsProps) => {
+  const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [locationChecked, setLocationChecked] = useState(false);
+
+  // La ubicación actual se guarda como última ubicación conocida del usuario
+  useEffect(() => {
+    if (!navigator.geolocation) {
+      setLocationChecked(true);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocation({ lat: position.coords.latitude, lng: position.coords.longitude });
+        setLocationChecked(true);
+      },
+      () => setLocationChecked(true),
+      { timeout: 5000, maximumAge: 10 * 60 * 1000 }
+    );
+  }, []);
+
+  const url = location
+    ? `/api/events/recommended?lat=${location.lat}&lng=${location.lng}`
+    : "/api/events/recommended";
+
+  const { data: recommendations = [] } = useQuery<Recommendation[]>({
+    queryKey: [url],
+    enabled: locationChecked,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (recommendations.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-20 left-0 right-0 z-10 pointer-events-none">
+      <div className="flex items-center gap-1 px-4 mb-2 text-sm font-semibold text-neutral-800 drop-shadow">
+        <Sparkles size={14} className="text-primary" />
+        Para ti
+      </div>
+      <div className="flex gap-3 overflow-x-auto px-4 pb-2 pointer-events-auto">
+        {recommendations.map(({ event, reason }) => (
+          <button
+            key={event.id}
+            className="flex-shrink-0 w-56 bg-white rounded-xl shadow-lg p-3 text-left"
+            onClick={() => onEventSelect(event)}
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <span className="text-lg">{getCategoryEmoji(event.category)}</span>
+              <span className="text-sm font-semibold text-neutral-900 truncate">{event.title}</span>
+            </div>
+            <p className="text-xs text-neutral-500">
+              {format(parseISO(event.date), "EEE d MMM • HH:mm", { locale: es })}
+            </p>
+            <p className="text-xs text-primary mt-1 truncate">{reason}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecommendedEvents;
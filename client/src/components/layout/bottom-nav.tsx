@@ -14,6 +14,7 @@ import { useNavigation } from "@/contexts/navigation-context";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
 import NotificationsPanel from "@/components/notifications/notifications-panel";
+import { simpleChatService } from "@/components/chat/simple-chat-service";
 
 export function BottomNav() {
   const [location] = useLocation();
@@ -21,6 +22,7 @@ export function BottomNav() {
   const { user } = useAuth();
   const [showNotifications, setShowNotifications] = useState(false);
   const [notificationCount, setNotificationCount] = useState(0);
+  const [unreadChatCount, setUnreadChatCount] = useState(0);
 
   // Debug: log navigation visibility state
   console.log("🎯 BottomNav: isNavigationVisible =", isNavigationVisible);
@@ -55,6 +57,43 @@ export function BottomNav() {
     }
   }, [user]);
 
+  // Total de mensajes sin leer en todos los chats de eventos
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchUnreadChatCount = async () => {
+      try {
+        const response = await apiRequest("GET", "/api/chats/unread-count");
+        if (response.ok) {
+          const data = await response.json();
+          setUnreadChatCount(data.count || 0);
+        }
+      } catch (error) {
+        console.error("Error fetching unread chat count:", error);
+      }
+    };
+
+    // Se actualiza al llegar mensajes de otros (de eventos o directos) o al leer un chat
+    const handleChatMessage = (message: any) => {
+      if (
+        (message.type === "new_message" && message.message?.senderId !== user.id) ||
+        (message.type === "read" && message.user?.id === user.id) ||
+        (message.type === "direct_message" && message.message?.senderId !== user.id) ||
+        (message.type === "conversation_read" && message.userId === user.id)
+      ) {
+        fetchUnreadChatCount();
+      }
+    };
+
+    fetchUnreadChatCount();
+    simpleChatService.onMessage(handleChatMessage);
+    const interval = setInterval(fetchUnreadChatCount, 30000);
+    return () => {
+      clearInterval(interval);
+      simpleChatService.removeMessageListener(handleChatMessage);
+    };
+  }, [user]);
+
   return (
     <>
       <div 
@@ -179,9 +218,14 @@ export function BottomNav() {
                   scale: isChatsActive ? 1.1 : 1
                 }}
                 transition={{ duration: 0.3, ease: "easeOut" }}
-                className="p-1"
+                className="p-1 relative"
               >
                 <MessageSquare size={20} />
+                {unreadChatCount > 0 && (
+                  <span className="absolute -top-1 -right-2 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+                    {unreadChatCount > 99 ? "99+" : unreadChatCount}
+                  </span>
+                )}
               </motion.div>
               <motion.span
                 animate={{ 
@@ -1,6 +1,8 @@
 import React, { useEffect, useRef, useState } from "react";
 import mapboxgl, { Map as MapboxMap, GeoJSONSource } from "mapbox-gl";
 import { useMap } from '@/contexts/MapContext';
+import type { EventTileCluster } from '@/hooks/use-event-tiles';
+import { createEventClusterElement } from './event-cluster-marker';
 
 // Configurar token de Mapbox
 mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN || process.env.MAPBOX_ACCESS_TOKEN || "";
@@ -22,19 +24,26 @@ type Props = {
   events: EventPoint[];
   styleUrl?: string;
   center?: [number, number];
+  clusters?: EventTileCluster[]; // Clusters del servidor en zoom bajo
   onEventClick?: (eventId: string, coordinates?: [number, number]) => void;
+  onViewportChange?: (map: MapboxMap) => void;
 };
 
 export default function PipolMap({ 
   events, 
   styleUrl, 
   center = [-64.1888, -31.4201], // Córdoba Centro
-  onEventClick 
+  clusters,
+  onEventClick,
+  onViewportChange
 }: Props) {
   const { setMapInstance, saveCameraState, clearMapInstance } = useMap();
   const mapRef = useRef<MapboxMap | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const markersRef = useRef<mapboxgl.Marker[]>([]);
+  const clusterMarkersRef = useRef<mapboxgl.Marker[]>([]);
+  const onViewportChangeRef = useRef(onViewportChange);
+  onViewportChangeRef.current = onViewportChange;
   const [isLoaded, setIsLoaded] = useState(false);
 
   // Limpiar marcadores existentes
@@ -234,6 +243,12 @@ export default function PipolMap({
       });
 
       setIsLoaded(true);
+      onViewportChangeRef.current?.(map);
+    });
+
+    // Pedir los eventos del nuevo viewport al terminar de mover el mapa
+    map.on("moveend", () => {
+      onViewportChangeRef.current?.(map);
     });
 
     // Manejar cambios de zoom para mostrar/ocultar marcadores DOM
@@ -256,10 +271,13 @@ export default function PipolMap({
     console.log("🗺️ PipolMap: Mapa configurado en contexto");
     return () => { 
       clearMarkers();
+      clusterMarkersRef.current.forEach(marker => marker.remove());
+      clusterMarkersRef.current = [];
       map.remove(); 
       mapRef.current = null; 
     };
-  }, [styleUrl, center]);
+    // Comparar coordenadas y no el array para no recrear el mapa en cada render
+  }, [styleUrl, center[0], center[1]]);
 
   // Actualizar datos cuando cambien los eventos
   useEffect(() => {
@@ -291,6 +309,25 @@ export default function PipolMap({
     }
   }, [events, isLoaded]);
 
+  // Clusters del servidor: se reemplazan en cada respuesta
+  useEffect(() => {
+    if (!mapRef.current || !isLoaded) return;
+
+    clusterMarkersRef.current.forEach(marker => marker.remove());
+    clusterMarkersRef.current = (clusters || []).map(cluster => {
+      const el = createEventClusterElement(cluster, () => {
+        mapRef.current?.easeTo({
+          center: [cluster.longitude, cluster.latitude],
+          zoom: mapRef.current.getZoom() + 2
+        });
+      });
+
+      return new mapboxgl.Marker(el, { anchor: "center" })
+        .setLngLat([cluster.longitude, cluster.latitude])
+        .addTo(mapRef.current!);
+    });
+  }, [clusters, isLoaded]);
+
   // Función para agregar marcadores DOM estilo Snap
   const addDomMarkers = () => {
     if (!mapRef.current) return;
@@ -0,0 +1,33 @@
+import { getCategoryEmoji } from "@/lib/eventsToGeoJSON";
+import type { EventTileCluster } from "@/hooks/use-event-tiles";
+
+// Crea el elemento DOM de un cluster del servidor: total + emojis de las categorías principales
+export function createEventClusterElement(cluster: EventTileCluster, onClick: () => void) {
+  const topCategories = Object.entries(cluster.categories)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3);
+
+  const size = cluster.count >= 50 ? 56 : cluster.count >= 10 ? 48 : 40;
+
+  const el = document.createElement("div");
+  el.className = "event-cluster-marker";
+  el.title = topCategories.map(([category, count]) => `${category}: ${count}`).join(" · ");
+  el.innerHTML = `
+    <div class="flex flex-col items-center cursor-pointer hover:scale-110 transition-transform">
+      <div class="flex items-center justify-center rounded-full bg-white shadow-xl border-2 border-white text-sm font-bold text-neutral-700"
+        style="width: ${size}px; height: ${size}px;">
+        ${cluster.count}
+      </div>
+      <div class="flex gap-0.5 -mt-2 bg-white rounded-full px-1 shadow text-xs leading-5">
+        ${topCategories.map(([category]) => `<span>${getCategoryEmoji(category)}</span>`).join("")}
+      </div>
+    </div>
+  `;
+
+  el.addEventListener("click", (e) => {
+    e.stopPropagation();
+    onClick();
+  });
+
+  return el;
+}
@@ -26,6 +26,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useEvents } from "@/hooks/use-events";
+import { useEventTiles } from "@/hooks/use-event-tiles";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useMap } from "@/contexts/MapContext";
 import { Card } from "@/components/ui/card";
@@ -35,6 +36,7 @@ import { apiRequest } from "@/lib/queryClient";
 import NotificationsPanel from "@/components/notifications/notifications-panel";
 
 import EventPin from "./event-pin";
+import { createEventClusterElement } from "./event-cluster-marker";
 import MapConfigPanel from "./map-config-panel";
 import EventDetailSheet from "@/components/events/event-detail-sheet";
 import EditEventSheet from "@/components/events/edit-event-sheet";
@@ -481,7 +483,7 @@ const MapView = ({
 
   // Function to handle event selection from 3D Snap Map
   const handleEventSelect = (eventId: string, coordinates?: [number, number]) => {
-    const event = mapEvents.find(e => e.id.toString() === eventId);
+    const event = tileEvents.find(e => e.id.toString() === eventId);
     if (event) {
       // Always activate focused mode when event is selected
       setIsFocusedMode(true);
@@ -495,8 +497,11 @@ const MapView = ({
       onEventSelect(formattedEvent);
     }
   };
-  const markersRef = useRef<mapboxgl.Marker[]>([]);
-  const popupsRef = useRef<mapboxgl.Popup[]>([]);
+  // Marcadores de eventos por id, para no recrear los que ya están en pantalla
+  const markersRef = useRef(new Map<number, mapboxgl.Marker>());
+  const popupsRef = useRef(new Map<number, mapboxgl.Popup>());
+  const markersShowLabelsRef = useRef<boolean | null>(null);
+  const clusterMarkersRef = useRef<mapboxgl.Marker[]>([]);
   // Removed 3D marker manager ref - only using 2D markers
 
   // Se eliminó el estado para el panel de detalles del evento que ya no se usa
@@ -561,8 +566,8 @@ const MapView = ({
           // Remover todos los marcadores actuales
           markersRef.current.forEach((marker) => marker.remove());
           popupsRef.current.forEach((popup) => popup.remove());
-          markersRef.current = [];
-          popupsRef.current = [];
+          markersRef.current.clear();
+          popupsRef.current.clear();
 
           // Removed 3D marker cleanup - only using 2D markers
 
@@ -621,8 +626,15 @@ const MapView = ({
   }, [user]);
 
   // IMPORTANT: NO filtering for the main map view
-  // The main map should always show ALL events
-  const mapEvents = events; // All events for the map
+  // The map loads its own events per viewport from /api/events/tiles,
+  // in low zoom levels it shows the server clusters instead
+  const {
+    events: tileEvents,
+    clusters: tileClusters,
+    showClusters,
+    updateViewport,
+  } = useEventTiles();
+  const mapEvents: EventWithRelations[] = showClusters ? [] : tileEvents;
   
   // Separate filtering logic ONLY for the "Descubrir eventos" panel
   const getFilteredEventsForPanel = () => {
@@ -1046,6 +1058,14 @@ const MapView = ({
     // Add controls
     mapRef.current.addControl(new mapboxgl.NavigationControl(), "top-right");
 
+    // Pedir los eventos del viewport al cargar y cada vez que se termina de mover el mapa
+    mapRef.current.on("load", () => {
+      if (mapRef.current) updateViewport(mapRef.current);
+    });
+    mapRef.current.on("moveend", () => {
+      if (mapRef.current) updateViewport(mapRef.current);
+    });
+
     // Sistema de etiquetas dinámicas con zoom - MEJORADO Y PERFECTO
     let zoomTimeout: NodeJS.Timeout;
     const handleZoomChange = () => {
@@ -1362,8 +1382,10 @@ const MapView = ({
       // Clear markers and popups
       markersRef.current.forEach((marker) => marker.remove());
       popupsRef.current.forEach((popup) => popup.remove());
-      markersRef.current = [];
-      popupsRef.current = [];
+      markersRef.current.clear();
+      popupsRef.current.clear();
+      clusterMarkersRef.current.forEach((marker) => marker.remove());
+      clusterMarkersRef.current = [];
       
       // Clear map context
       console.log("🗺️ MapView: Limpiando instancia del mapa del contexto");
@@ -1432,15 +1454,48 @@ const MapView = ({
     };
   }, [contextMenu.visible, showActionsForLocation, tempLocationMarker]);
 
+  // Server clusters for low zoom levels, replaced on every response
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    clusterMarkersRef.current.forEach((marker) => marker.remove());
+    clusterMarkersRef.current = tileClusters.map((cluster) => {
+      const el = createEventClusterElement(cluster, () => {
+        mapRef.current?.easeTo({
+          center: [cluster.longitude, cluster.latitude],
+          zoom: mapRef.current.getZoom() + 2,
+        });
+      });
+
+      return new mapboxgl.Marker(el)
+        .setLngLat([cluster.longitude, cluster.latitude])
+        .addTo(mapRef.current!);
+    });
+  }, [tileClusters]);
+
   // Add event markers when events, filters, or showEventLabels change
   useEffect(() => {
     if (!mapRef.current) return;
 
-    // Clear existing markers and popups
-    markersRef.current.forEach((marker) => marker.remove());
-    popupsRef.current.forEach((popup) => popup.remove());
-    markersRef.current = [];
-    popupsRef.current = [];
+    // Labels are rendered inside the pins, so a label change redraws every marker
+    if (markersShowLabelsRef.current !== showEventLabels) {
+      markersRef.current.forEach((marker) => marker.remove());
+      popupsRef.current.forEach((popup) => popup.remove());
+      markersRef.current.clear();
+      popupsRef.current.clear();
+      markersShowLabelsRef.current = showEventLabels;
+    }
+
+    // Remove only the markers of events that are no longer loaded
+    const mapEventIds = new Set(mapEvents.map((event) => event.id));
+    markersRef.current.forEach((marker, eventId) => {
+      if (!mapEventIds.has(eventId)) {
+        marker.remove();
+        popupsRef.current.get(eventId)?.remove();
+        markersRef.current.delete(eventId);
+        popupsRef.current.delete(eventId);
+      }
+    });
 
     // Clear 3D markers if available
     // Removed 3D marker clearing - only using 2D markers
@@ -1461,6 +1516,9 @@ const MapView = ({
     mapEvents.forEach((event: EventWithRelations) => {
       if (!mapRef.current) return;
 
+      // Keep markers that are already on screen
+      if (markersRef.current.has(event.id)) return;
+
       // Create custom React element for the marker
       const el = document.createElement("div");
       el.className = "custom-marker-container";
@@ -1634,8 +1692,8 @@ const MapView = ({
       });
 
       // Track markers and popups for cleanup
-      markersRef.current.push(marker);
-      popupsRef.current.push(popup);
+      markersRef.current.set(event.id, marker);
+      popupsRef.current.set(event.id, popup);
     });
   }, [mapEvents, onEventSelect, showEventLabels]);
 
@@ -2974,7 +3032,9 @@ const MapView = ({
               mapStateRef.current?.currentCenter?.lng || -64.185,
               mapStateRef.current?.currentCenter?.lat || -31.428
             ]}
+            clusters={tileClusters}
             onEventClick={handleEventSelect}
+            onViewportChange={updateViewport}
           />
         </div>
       ) : (
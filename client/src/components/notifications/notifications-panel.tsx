@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, CheckCircle, XCircle, Clock, User, Calendar, MapPin, MessageSquare } from 'lucide-react';
+import { X, CheckCircle, XCircle, Clock, User, Calendar, MapPin, MessageSquare, BellRing, CalendarClock, Ban, RotateCcw, ChevronRight, type LucideIcon } from 'lucide-react';
+import { useLocation } from 'wouter';
 import { formatDate } from '@/lib/utils';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
@@ -65,6 +66,18 @@ interface PendingRequest {
 
 type NotificationItem = UserNotification | PendingRequest;
 
+// Icono y color de cada tipo de notificación; los tipos desconocidos usan el de aprobación
+const NOTIFICATION_STYLES: Record<string, { icon: LucideIcon; circleClass: string; iconClass: string }> = {
+  request_approved: { icon: CheckCircle, circleClass: 'bg-green-500/20 border-green-500/30', iconClass: 'text-green-400' },
+  waitlist_promoted: { icon: CheckCircle, circleClass: 'bg-green-500/20 border-green-500/30', iconClass: 'text-green-400' },
+  request_rejected: { icon: XCircle, circleClass: 'bg-red-500/20 border-red-500/30', iconClass: 'text-red-400' },
+  new_request: { icon: User, circleClass: 'bg-blue-500/20 border-blue-500/30', iconClass: 'text-blue-400' },
+  refund_issued: { icon: RotateCcw, circleClass: 'bg-purple-500/20 border-purple-500/30', iconClass: 'text-purple-400' },
+  event_reminder: { icon: BellRing, circleClass: 'bg-amber-500/20 border-amber-500/30', iconClass: 'text-amber-400' },
+  event_updated: { icon: CalendarClock, circleClass: 'bg-blue-500/20 border-blue-500/30', iconClass: 'text-blue-400' },
+  event_cancelled: { icon: Ban, circleClass: 'bg-red-500/20 border-red-500/30', iconClass: 'text-red-400' },
+};
+
 interface NotificationsPanelProps {
   isOpen: boolean;
   onClose: () => void;
@@ -77,6 +90,7 @@ export default function NotificationsPanel({ isOpen, onClose }: NotificationsPan
   const { toast } = useToast();
   const { showUserProfile } = useUserProfile();
   const panelRef = useRef<HTMLDivElement>(null);
+  const [, navigate] = useLocation();
 
   useEffect(() => {
     if (isOpen) {
@@ -201,6 +215,12 @@ export default function NotificationsPanel({ isOpen, onClose }: NotificationsPan
     }
   };
 
+  // Abre el detalle del evento en el mapa (Home lee /?event=<id>)
+  const handleOpenEvent = (eventId: number) => {
+    onClose();
+    navigate(`/?event=${eventId}`);
+  };
+
   const getAccessTypeLabel = (accessType: string) => {
     switch (accessType) {
       case 'request': return 'Por solicitud';
@@ -357,12 +377,19 @@ export default function NotificationsPanel({ isOpen, onClose }: NotificationsPan
                               </div>
                             </div>
                           </div>
-                        ) : (
-                          // User notifications (approvals, rejections, etc.)
-                          <div className="flex items-start gap-4">
+                        ) : (() => {
+                          // User notifications (approvals, reminders, changes, etc.)
+                          const style = NOTIFICATION_STYLES[notification.notificationType] || NOTIFICATION_STYLES.request_approved;
+                          const Icon = style.icon;
+                          const eventId = notification.eventId;
+                          return (
+                          <div
+                            className={`flex items-start gap-4 ${eventId ? 'cursor-pointer' : ''}`}
+                            onClick={eventId ? () => handleOpenEvent(eventId) : undefined}
+                          >
                             <div className="flex-shrink-0">
-                              <div className="w-12 h-12 bg-green-500/20 backdrop-blur rounded-full flex items-center justify-center border-2 border-green-500/30">
-                                <CheckCircle className="w-6 h-6 text-green-400" />
+                              <div className={`w-12 h-12 backdrop-blur rounded-full flex items-center justify-center border-2 ${style.circleClass}`}>
+                                <Icon className={`w-6 h-6 ${style.iconClass}`} />
                               </div>
                             </div>
 
@@ -388,8 +415,13 @@ export default function NotificationsPanel({ isOpen, onClose }: NotificationsPan
                                 <span>{formatDate(notification.createdAt)}</span>
                               </div>
                             </div>
+
+                            {eventId && (
+                              <ChevronRight className="w-5 h-5 text-white/40 flex-shrink-0 self-center" />
+                            )}
                           </div>
-                        )}
+                          );
+                        })()}
                       </motion.div>
                     ))}
                   </div>
@@ -8,16 +8,18 @@ import { formatDate } from '@/lib/utils';
 import { apiRequest } from '@/lib/queryClient';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
+import { useLocation } from 'wouter';
 
 export default function UserProfilePanel() {
   const { selectedUser, isProfileOpen, hideUserProfile } = useUserProfile();
   const { user: currentUser } = useAuth();
   const { toast } = useToast();
+  const [, navigate] = useLocation();
   const panelRef = useRef<HTMLDivElement>(null);
   const [userInterests, setUserInterests] = useState<string[]>([]);
   const [isLoadingInterests, setIsLoadingInterests] = useState(false);
   const [userAura, setUserAura] = useState<{ aura: number; count: number } | null>(null);
-  const [canRate, setCanRate] = useState<{ canRate: boolean; reason?: string } | null>(null);
+  const [canRate, setCanRate] = useState<{ canRate: boolean; reason?: string; windowClosesAt?: string } | null>(null);
   const [isRating, setIsRating] = useState(false);
   const [selectedRating, setSelectedRating] = useState(0);
 
@@ -66,12 +68,11 @@ export default function UserProfilePanel() {
     }
   };
 
+  // Abre el mensaje directo en la pantalla de mensajes
   const handleSendMessage = () => {
-    // TODO: Implementar funcionalidad de enviar mensaje
-    toast({
-      title: "Próximamente",
-      description: "La función de mensajes se implementará pronto",
-    });
+    if (!selectedUser) return;
+    hideUserProfile();
+    navigate(`/messages?user=${selectedUser.id}`);
   };
 
   const fetchUserAura = async () => {
@@ -333,6 +334,11 @@ export default function UserProfilePanel() {
                           </button>
                         ))}
                       </div>
+                      {canRate.windowClosesAt && (
+                        <p className="text-xs text-white/60 text-center">
+                          Puedes dar aura hasta el {new Date(canRate.windowClosesAt).toLocaleDateString('es-ES')}
+                        </p>
+                      )}
                       {selectedRating > 0 && (
                         <div className="flex justify-center">
                           <Button
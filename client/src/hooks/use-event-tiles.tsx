@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import type mapboxgl from 'mapbox-gl';
+
+export type EventTileCluster = {
+  latitude: number;
+  longitude: number;
+  count: number;
+  categories: Record<string, number>;
+};
+
+type EventTilesResponse =
+  | { type: 'clusters'; clusters: EventTileCluster[]; zoom: number }
+  | { type: 'events'; events: any[]; zoom: number };
+
+type Viewport = {
+  bbox: [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+  zoom: number;
+};
+
+const NO_CLUSTERS: EventTileCluster[] = [];
+
+// Redondear el viewport para no pedir de nuevo por movimientos mínimos
+const roundViewport = (map: mapboxgl.Map): Viewport => {
+  const bounds = map.getBounds();
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    bbox: [
+      round(bounds!.getWest()),
+      round(bounds!.getSouth()),
+      round(bounds!.getEast()),
+      round(bounds!.getNorth()),
+    ],
+    zoom: Math.floor(map.getZoom()),
+  };
+};
+
+const getEventLngLat = (event: any): [number, number] => [
+  typeof event.longitude === 'string' ? parseFloat(event.longitude) : event.longitude,
+  typeof event.latitude === 'string' ? parseFloat(event.latitude) : event.latitude,
+];
+
+/**
+ * Eventos del mapa cargados por viewport desde /api/events/tiles
+ * Los eventos ya cargados se conservan al moverse por el mapa, así los
+ * marcadores que están en pantalla no desaparecen mientras llega la respuesta
+ */
+export function useEventTiles() {
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  const [events, setEvents] = useState<any[]>([]);
+  const loadedEventsRef = useRef(new Map<number, any>());
+
+  const tilesQuery = useQuery<EventTilesResponse>({
+    // Bajo /api/events para que las invalidaciones existentes también refresquen el mapa
+    queryKey: ['/api/events', 'tiles', viewport?.bbox.join(','), viewport?.zoom],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        bbox: viewport!.bbox.join(','),
+        zoom: String(viewport!.zoom),
+      });
+      const response = await fetch(`/api/events/tiles?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch event tiles: ${response.status}`);
+      }
+      return response.json();
+    },
+    enabled: !!viewport,
+    placeholderData: keepPreviousData,
+    staleTime: 60000,
+  });
+
+  const data = tilesQuery.data;
+
+  // Combinar los eventos nuevos con los ya cargados en lugar de reemplazarlos
+  useEffect(() => {
+    if (!data || data.type !== 'events' || !viewport || tilesQuery.isPlaceholderData) return;
+
+    const [minLng, minLat, maxLng, maxLat] = viewport.bbox;
+    const receivedIds = new Set(data.events.map((event) => event.id));
+    const loaded = loadedEventsRef.current;
+
+    // Un evento dentro del viewport que ya no viene en la respuesta fue borrado o terminó
+    loaded.forEach((event, id) => {
+      const [lng, lat] = getEventLngLat(event);
+      const inViewport = lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat;
+      if (inViewport && !receivedIds.has(id)) {
+        loaded.delete(id);
+      }
+    });
+    data.events.forEach((event) => loaded.set(event.id, event));
+
+    setEvents(Array.from(loaded.values()));
+  }, [data, viewport, tilesQuery.isPlaceholderData]);
+
+  const updateViewport = useCallback((map: mapboxgl.Map) => {
+    const next = roundViewport(map);
+    setViewport((current) =>
+      current && current.zoom === next.zoom && current.bbox.join(',') === next.bbox.join(',')
+        ? current
+        : next
+    );
+  }, []);
+
+  return {
+    events,
+    clusters: data?.type === 'clusters' ? data.clusters : NO_CLUSTERS,
+    showClusters: data?.type === 'clusters',
+    isLoading: tilesQuery.isLoading,
+    updateViewport,
+  };
+}
@@ -4,9 +4,10 @@ import { motion, AnimatePresence } from "framer-motion";
 import MapView from "@/components/maps/map-view";
 import EventDetailSheet from "@/components/events/event-detail-sheet";
 import CreateEventSheet from "@/components/events/create-event-sheet";
+import RecommendedEvents from "@/components/events/recommended-events";
 import BottomNav from "@/components/layout/bottom-nav";
 import { useAuth } from "@/hooks/use-auth";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { MapProvider, useMap } from "@/contexts/MapContext";
 import { queryClient } from "@/lib/queryClient";
@@ -57,6 +58,7 @@ const HomeContent = () => {
   
   const { user, isLoading } = useAuth();
   const [_, navigate] = useLocation();
+  const search = useSearch();
   const { toast } = useToast();
   const { showNavigation } = useNavigation();
 
@@ -88,6 +90,29 @@ const HomeContent = () => {
     }
   };
 
+  // /?event=<id> abre el detalle de un evento (desde las notificaciones)
+  useEffect(() => {
+    const eventId = parseInt(new URLSearchParams(search).get('event') || '');
+    if (isNaN(eventId)) return;
+
+    // Quitar el parámetro para que la misma notificación pueda volver a abrirlo
+    navigate('/', { replace: true });
+    fetch(`/api/events/${eventId}`, { credentials: 'include' })
+      .then(response => (response.ok ? response.json() : null))
+      .then(event => {
+        if (event) {
+          handleEventSelect(event);
+        } else {
+          toast({
+            title: "Evento no disponible",
+            description: "Puede que el evento se haya eliminado",
+            variant: "destructive"
+          });
+        }
+      })
+      .catch(error => console.error('Error fetching event from link:', error));
+  }, [search]);
+
   // Estado para la ubicación seleccionada para el evento
   const [selectedLocation, setSelectedLocation] = useState<{
     latitude: number;
@@ -309,6 +334,11 @@ const HomeContent = () => {
           isFocusedMode={isFocusedMode}
           setIsFocusedMode={setIsFocusedMode}
         />
+
+        {/* Para ti - recommended events, hidden while an event is focused */}
+        {!isFocusedMode && !detailSheetVisible && (
+          <RecommendedEvents onEventSelect={handleEventSelect} />
+        )}
       </motion.div>
       
       {/* Event Detail Sheet - Always rendered but controlled by visible prop */}
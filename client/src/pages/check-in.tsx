@@ -0,0 +1,264 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLocation, useParams } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Camera, CheckCircle, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Avatar } from '@/components/ui/avatar';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+
+interface CheckInSummary {
+  eventId: number;
+  eventTitle: string;
+  approvedCount: number;
+  checkedInCount: number;
+  attendees: {
+    attendeeId: number;
+    checkedInAt: string | null;
+    noShow: boolean;
+    user: { id: number; name: string; username?: string; avatar?: string } | null;
+  }[];
+}
+
+// BarcodeDetector no está en los tipos de TypeScript del DOM todavía
+declare global {
+  interface Window {
+    BarcodeDetector?: any;
+  }
+}
+
+const CheckInPage = () => {
+  const params = useParams<{ eventId: string }>();
+  const eventId = parseInt(params.eventId, 10);
+  const [_, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [manualCode, setManualCode] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScannedRef = useRef<string | null>(null);
+
+  const summaryKey = [`/api/events/${eventId}/check-in`];
+
+  // Conteo en vivo: se actualiza cada pocos segundos por si hay otra persona escaneando
+  const { data: summary, isLoading } = useQuery<CheckInSummary>({
+    queryKey: summaryKey,
+    refetchInterval: 5000,
+  });
+
+  const canScanWithCamera = typeof window !== 'undefined' && !!window.BarcodeDetector;
+
+  const submitToken = async (token: string) => {
+    if (!token.trim() || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      const res = await apiRequest('POST', `/api/events/${eventId}/check-in`, { token: token.trim() });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || 'Ticket inválido');
+      }
+
+      const name = data.attendee?.name || 'Asistente';
+      toast({
+        title: data.alreadyCheckedIn ? 'Ya había ingresado' : '¡Ingreso registrado!',
+        description: data.alreadyCheckedIn
+          ? `${name} ingresó a las ${format(parseISO(data.checkedInAt), 'HH:mm')}`
+          : `${name} está presente`,
+      });
+      setManualCode('');
+      queryClient.invalidateQueries({ queryKey: summaryKey });
+    } catch (error) {
+      toast({
+        title: 'No se pudo registrar el ingreso',
+        description: error instanceof Error ? error.message : 'Ticket inválido',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Marcar como ausente a quien no se presentó (no podrá recibir ni dar aura por este evento)
+  const toggleNoShow = async (attendeeId: number, noShow: boolean) => {
+    const res = await apiRequest('POST', `/api/events/${eventId}/no-show`, { attendeeId, noShow });
+    if (!res.ok) {
+      const data = await res.json();
+      toast({
+        title: 'Error',
+        description: data.message || 'No se pudo actualizar la asistencia',
+        variant: 'destructive',
+      });
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: summaryKey });
+  };
+
+  // Escaneo con la cámara usando BarcodeDetector cuando el navegador lo soporta
+  useEffect(() => {
+    if (!isScanning || !canScanWithCamera) return;
+
+    let stream: MediaStream | null = null;
+    let frameId: number | null = null;
+    let cancelled = false;
+    const detector = new window.BarcodeDetector({ formats: ['qr_code'] });
+
+    const scanFrame = async () => {
+      if (cancelled || !videoRef.current) return;
+      try {
+        const codes = await detector.detect(videoRef.current);
+        const token = codes[0]?.rawValue;
+        // Evitar enviar el mismo código en cada cuadro mientras sigue frente a la cámara
+        if (token && token !== lastScannedRef.current) {
+          lastScannedRef.current = token;
+          await submitToken(token);
+        }
+      } catch (error) {
+        console.error('Error detectando código QR:', error);
+      }
+      frameId = requestAnimationFrame(scanFrame);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play();
+        }
+        frameId = requestAnimationFrame(scanFrame);
+      })
+      .catch((error) => {
+        console.error('Error accediendo a la cámara:', error);
+        toast({
+          title: 'Cámara no disponible',
+          description: 'Ingresa el código del ticket manualmente.',
+          variant: 'destructive',
+        });
+        setIsScanning(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      stream?.getTracks().forEach((track) => track.stop());
+      lastScannedRef.current = null;
+    };
+  }, [isScanning, canScanWithCamera]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <LoadingSpinner size="xl" />
+      </div>
+    );
+  }
+
+  const progress = summary && summary.approvedCount > 0
+    ? Math.round((summary.checkedInCount / summary.approvedCount) * 100)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-white pt-4 pb-24">
+      <div className="max-w-md mx-auto px-4">
+        <button
+          className="flex items-center gap-1 text-sm text-neutral-500 mb-4"
+          onClick={() => navigate('/my-events?tab=created')}
+        >
+          <ArrowLeft size={16} />
+          Mis eventos
+        </button>
+
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">Registro de ingreso</h1>
+        <p className="text-gray-600 mb-6">{summary?.eventTitle}</p>
+
+        <div className="bg-gray-50 rounded-lg shadow-sm p-4 mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <span className="flex items-center gap-2 text-sm text-gray-600">
+              <Users size={16} />
+              Presentes
+            </span>
+            <span className="text-lg font-bold">
+              {summary?.checkedInCount || 0} / {summary?.approvedCount || 0}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div className="h-full bg-primary transition-all" style={{ width: `${progress}%` }} />
+          </div>
+        </div>
+
+        {canScanWithCamera && (
+          <div className="mb-4">
+            {isScanning && (
+              <video ref={videoRef} className="w-full rounded-lg mb-3 bg-black" muted playsInline />
+            )}
+            <Button
+              className="w-full"
+              variant={isScanning ? 'outline' : 'default'}
+              onClick={() => setIsScanning(!isScanning)}
+            >
+              <Camera size={16} className="mr-2" />
+              {isScanning ? 'Detener cámara' : 'Escanear código QR'}
+            </Button>
+          </div>
+        )}
+
+        <form
+          className="flex gap-2 mb-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitToken(manualCode);
+          }}
+        >
+          <Input
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            placeholder="Pega el código del ticket"
+            className="bg-card"
+          />
+          <Button type="submit" variant="outline" disabled={isSubmitting || !manualCode.trim()}>
+            Registrar
+          </Button>
+        </form>
+
+        <div className="divide-y divide-neutral-100">
+          {summary?.attendees.map((attendee) => (
+            <div key={attendee.attendeeId} className="flex items-center gap-3 py-3">
+              <Avatar className="h-9 w-9">
+                <img
+                  src={attendee.user?.avatar || `https://ui-avatars.com/api/?name=${encodeURIComponent(attendee.user?.name || 'Usuario')}`}
+                  alt={attendee.user?.name || 'Usuario'}
+                  className="h-full w-full object-cover"
+                />
+              </Avatar>
+              <span className="flex-1 text-sm font-medium">{attendee.user?.name || 'Usuario'}</span>
+              {attendee.checkedInAt ? (
+                <span className="flex items-center gap-1 text-xs text-green-600">
+                  <CheckCircle size={14} />
+                  {format(parseISO(attendee.checkedInAt), 'HH:mm')}
+                </span>
+              ) : (
+                <button
+                  className={`text-xs ${attendee.noShow ? 'text-red-500' : 'text-neutral-400'}`}
+                  onClick={() => toggleNoShow(attendee.attendeeId, !attendee.noShow)}
+                >
+                  {attendee.noShow ? 'Ausente' : 'Pendiente'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CheckInPage;
@@ -1,8 +1,8 @@
 import { useEffect, useState } from "react";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import BottomNav from "@/components/layout/bottom-nav";
-import { MessageSquare, Calendar, Search, Group, User, Star } from "lucide-react";
+import { MessageSquare, Calendar, Search, Group, User, Star, Mail } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { format, isToday, isTomorrow, isAfter, addDays, parseISO } from "date-fns";
 import Chat from "@/components/chat/chat";
@@ -13,6 +13,7 @@ import LoadingSpinner from "@/components/ui/loading-spinner";
 import { getCategoryEmoji } from "@/lib/eventsToGeoJSON";
 import EventDetailSheet from "@/components/events/event-detail-sheet";
 import { simpleChatService } from "@/components/chat/simple-chat-service";
+import DirectChat, { type DirectChatUser } from "@/components/chat/direct-chat";
 
 // Unified type for all events (both attending and created)
 interface UnifiedEvent {
@@ -33,9 +34,22 @@ interface UnifiedEvent {
   attendeeCount?: number;
 }
 
+// Conversación directa (fuera de eventos) tal como la devuelve /api/conversations
+interface DirectConversation {
+  id: number;
+  status: 'active' | 'request' | 'declined';
+  requestedBy: number | null;
+  isIncomingRequest: boolean;
+  otherUser: DirectChatUser | null;
+  lastMessageAt: string | null;
+  lastMessage: { id: number; senderId: number; content: string } | null;
+  unreadCount: number;
+}
+
 const Messages = () => {
   const { user, isLoading } = useAuth();
   const [_, navigate] = useLocation();
+  const search = useSearch();
   const [attendingEvents, setAttendingEvents] = useState<UnifiedEvent[]>([]);
   const [createdEvents, setCreatedEvents] = useState<UnifiedEvent[]>([]);
   const [isEventsLoading, setIsEventsLoading] = useState(false);
@@ -49,6 +63,8 @@ const Messages = () => {
   const [eventDetailVisible, setEventDetailVisible] = useState(false);
   const [selectedEventForDetail, setSelectedEventForDetail] = useState<UnifiedEvent | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [conversations, setConversations] = useState<DirectConversation[]>([]);
+  const [directChat, setDirectChat] = useState<{ otherUser: DirectChatUser; conversationId: number | null } | null>(null);
 
   // Redirect if not logged in
   useEffect(() => {
@@ -59,9 +75,43 @@ const Messages = () => {
     // Fetch events when user is loaded - combined to avoid double effect
     if (user) {
       fetchAllEvents();
+      fetchConversations();
     }
   }, [user, isLoading, navigate]);
 
+  // /messages?user=<id> abre un mensaje directo (desde el perfil de un usuario)
+  useEffect(() => {
+    if (!user) return;
+    const userId = parseInt(new URLSearchParams(search).get('user') || '');
+    if (isNaN(userId) || userId === user.id) return;
+
+    setActiveTab('direct');
+    fetch(`/api/users/${userId}`, { credentials: 'include' })
+      .then(response => (response.ok ? response.json() : null))
+      .then(otherUser => {
+        if (otherUser) {
+          setDirectChat({ otherUser, conversationId: null });
+        }
+      })
+      .catch(error => console.error('Error fetching user for direct message:', error));
+  }, [user, search]);
+
+  // Direct message frames refresh the conversation list (previews, requests and unread counts)
+  useEffect(() => {
+    if (!user) return;
+
+    const handleDirectMessage = (message: any) => {
+      if (['direct_message', 'conversation_read', 'conversation_updated'].includes(message.type)) {
+        fetchConversations();
+      }
+    };
+
+    simpleChatService.onMessage(handleDirectMessage);
+    return () => {
+      simpleChatService.removeMessageListener(handleDirectMessage);
+    };
+  }, [user]);
+
   // Listen for new messages to update previews in real time
   useEffect(() => {
     if (!user) return;
@@ -84,14 +134,22 @@ const Messages = () => {
           }
         }));
         
-        // Update unread count if message is from someone else
-        if (message.message.senderId !== user.id) {
+        // Update unread count if message is from someone else and that chat isn't open
+        if (message.message.senderId !== user.id && !(chatVisible && selectedEventId === message.eventId)) {
           setUnreadCounts(prev => ({
             ...prev,
             [message.eventId]: (prev[message.eventId] || 0) + 1
           }));
         }
       }
+
+      // Reading a chat (here or in another tab) clears its unread count
+      if (message.type === 'read' && message.user?.id === user.id) {
+        setUnreadCounts(prev => ({
+          ...prev,
+          [message.eventId]: 0
+        }));
+      }
     };
 
     // Register the message listener
@@ -101,7 +159,7 @@ const Messages = () => {
     return () => {
       simpleChatService.removeMessageListener(handleNewMessage);
     };
-  }, [user]);
+  }, [user, chatVisible, selectedEventId]);
 
   // Fetch all events (attending + created) in parallel
   const fetchAllEvents = async () => {
@@ -193,6 +251,27 @@ const Messages = () => {
     }
   };
 
+  const fetchConversations = async () => {
+    try {
+      const response = await fetch('/api/conversations', { credentials: 'include' });
+      if (response.ok) {
+        setConversations(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+    }
+  };
+
+  const openDirectChat = (conversation: DirectConversation) => {
+    if (!conversation.otherUser) return;
+    setDirectChat({ otherUser: conversation.otherUser, conversationId: conversation.id });
+  };
+
+  const closeDirectChat = () => {
+    setDirectChat(null);
+    fetchConversations();
+  };
+
   // Fetch latest messages for events
   const fetchLatestMessages = async (eventIds: number[]) => {
     try {
@@ -203,22 +282,9 @@ const Messages = () => {
       });
 
       if (response.ok) {
-        const messages = await response.json();
-        setLatestMessages(messages);
-        
-        // Initialize unread counts (simulate some unread messages for demo)
-        const newUnreadCounts: { [eventId: number]: number } = {};
-        Object.keys(messages).forEach(eventIdStr => {
-          const eventId = parseInt(eventIdStr);
-          const message = messages[eventId];
-          
-          // Simulate unread messages: if message exists and is from someone else
-          if (message && user && message.sender_id !== user.id) {
-            // Simulate random unread count between 1-5 for demonstration
-            newUnreadCounts[eventId] = Math.floor(Math.random() * 3) + 1;
-          }
-        });
-        setUnreadCounts(newUnreadCounts);
+        const { messages, unreadCounts } = await response.json();
+        setLatestMessages(messages || {});
+        setUnreadCounts(unreadCounts || {});
       }
     } catch (error) {
       console.error('Error fetching latest messages:', error);
@@ -296,6 +362,13 @@ const Messages = () => {
     );
   };
 
+  const filterConversations = (items: DirectConversation[]) => {
+    if (!searchTerm) return items;
+    return items.filter(conversation =>
+      conversation.otherUser?.name?.toLowerCase().includes(searchTerm.toLowerCase())
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="flex h-screen items-center justify-center">
@@ -369,7 +442,11 @@ const Messages = () => {
     const isOwnMessage = user && message.sender_id === user.id;
     const senderPrefix = isOwnMessage ? 'Tú: ' : (message.sender ? `${message.sender.name}: ` : '');
     
-    return `${senderPrefix}${message.content}`;
+    // Los adjuntos sin texto se muestran como en WhatsApp
+    const content = message.content
+      || (message.message_type === 'image' ? '📷 Foto' : message.message_type === 'file' ? '📎 Archivo' : '');
+
+    return `${senderPrefix}${content}`;
   };
 
   // Get message time for event
@@ -439,9 +516,9 @@ const Messages = () => {
 
       {/* Events List with Tabs */}
       <div className="flex-1 flex flex-col min-h-0">
-        <Tabs defaultValue="attending" className="w-full flex flex-col h-full" onValueChange={setActiveTab}>
+        <Tabs value={activeTab} className="w-full flex flex-col h-full" onValueChange={setActiveTab}>
           <div className="bg-white border-b border-neutral-200 flex-shrink-0">
-            <TabsList className="grid grid-cols-2">
+            <TabsList className="grid grid-cols-3">
               <TabsTrigger value="attending">
                 <Group className="mr-2" size={16} />
                 Eventos que Asisto
@@ -450,6 +527,13 @@ const Messages = () => {
                 <Star className="mr-2" size={16} />
                 Mis Eventos
               </TabsTrigger>
+              <TabsTrigger value="direct">
+                <Mail className="mr-2" size={16} />
+                Directos
+                {conversations.some(conversation => conversation.unreadCount > 0 && conversation.status !== 'declined') && (
+                  <span className="ml-1 w-2 h-2 rounded-full bg-green-500" />
+                )}
+              </TabsTrigger>
             </TabsList>
           </div>
           
@@ -627,6 +711,72 @@ const Messages = () => {
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="direct" className="mt-0 flex-1 min-h-0">
+            {filterConversations(conversations).length === 0 ? (
+              <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+                <div className="bg-neutral-100 p-6 rounded-full mb-4">
+                  <Mail size={48} className="text-neutral-400" />
+                </div>
+                <h2 className="text-xl font-semibold mb-2">Sin mensajes directos</h2>
+                <p className="text-neutral-500">
+                  Abre el perfil de alguien y toca "Mensaje" para escribirle.
+                </p>
+              </div>
+            ) : (
+              <div className="bg-white overflow-y-auto h-full pb-24">
+                {/* Solicitudes de mensaje de personas con las que no compartes eventos */}
+                {filterConversations(conversations).some(conversation => conversation.isIncomingRequest) && (
+                  <p className="px-3 pt-3 pb-1 text-xs font-semibold uppercase text-neutral-500">Solicitudes de mensaje</p>
+                )}
+                {[
+                  ...filterConversations(conversations).filter(conversation => conversation.isIncomingRequest),
+                  ...filterConversations(conversations).filter(conversation => !conversation.isIncomingRequest && conversation.status !== 'declined')
+                ].map((conversation) => (
+                  <div
+                    key={conversation.id}
+                    className={`p-3 flex items-center border-b border-neutral-200 hover:bg-neutral-50 transition cursor-pointer ${
+                      conversation.isIncomingRequest ? 'bg-yellow-50' : ''
+                    }`}
+                    onClick={() => openDirectChat(conversation)}
+                  >
+                    <div className="w-14 h-14 mr-3 rounded-full overflow-hidden bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center flex-shrink-0">
+                      {conversation.otherUser?.avatar ? (
+                        <img src={conversation.otherUser.avatar} alt={conversation.otherUser.name} className="h-full w-full object-cover" />
+                      ) : (
+                        <User size={26} className="text-white" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex justify-between items-start">
+                        <h3 className={`${conversation.unreadCount > 0 ? 'font-bold' : 'font-medium'} text-neutral-900 truncate pr-1`}>
+                          {conversation.otherUser?.name || 'Usuario'}
+                        </h3>
+                        <span className="text-xs text-neutral-500 whitespace-nowrap ml-2">
+                          {conversation.lastMessageAt ? formatMessageTime(conversation.lastMessageAt) : ''}
+                        </span>
+                      </div>
+                      <div className="flex justify-between items-center mt-1">
+                        <p className={`text-sm ${conversation.unreadCount > 0 ? 'font-medium text-neutral-800' : 'text-neutral-600'} truncate pr-1`}>
+                          {conversation.lastMessage
+                            ? `${conversation.lastMessage.senderId === user?.id ? 'Tú: ' : ''}${conversation.lastMessage.content}`
+                            : ''}
+                        </p>
+                        {conversation.unreadCount > 0 && (
+                          <div className="bg-green-500 text-white text-xs min-w-[20px] h-5 rounded-full flex items-center justify-center px-1.5 ml-2">
+                            {conversation.unreadCount}
+                          </div>
+                        )}
+                      </div>
+                      {conversation.status === 'request' && !conversation.isIncomingRequest && (
+                        <p className="text-xs text-neutral-400 mt-1">Solicitud enviada</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
       </div>
 
@@ -649,6 +799,17 @@ const Messages = () => {
         />
       )}
 
+      {/* Mensaje directo como overlay */}
+      {directChat && (
+        <DirectChat
+          key={directChat.otherUser.id}
+          otherUser={directChat.otherUser}
+          conversationId={directChat.conversationId}
+          visible={true}
+          onClose={closeDirectChat}
+        />
+      )}
+
       {/* Event Detail Sheet */}
       {eventDetailVisible && selectedEventForDetail && (
         <EventDetailSheet
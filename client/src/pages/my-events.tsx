@@ -13,6 +13,24 @@ import { CalendarIcon, MapPin, Users } from "lucide-react";
 import { format, parseISO } from "date-fns";
 import EditEventSheet from "@/components/events/edit-event-sheet";
 import LoadingSpinner from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { EVENT_STATUS_LABELS, EVENT_STATUS_ORDER, getEventStatus } from "@shared/event-status";
+import type { EventStatus } from "@shared/schema";
+
+// Agrupa los eventos por estado en el orden de las secciones, sin secciones vacías
+function groupByStatus<T>(items: T[], getEvent: (item: T) => any) {
+  return EVENT_STATUS_ORDER
+    .map((status) => ({ status, items: items.filter((item) => getEventStatus(getEvent(item)) === status) }))
+    .filter((group) => group.items.length > 0);
+}
+
+const STATUS_BADGE_CLASSES: Record<EventStatus, string> = {
+  draft: 'bg-neutral-200 text-neutral-700',
+  published: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700',
+  completed: 'bg-blue-100 text-blue-700',
+};
 
 const MyEvents = () => {
   const { user, isLoading } = useAuth();
@@ -23,7 +41,9 @@ const MyEvents = () => {
   const [activeTab, setActiveTab] = useState(tabParam === "created" ? "created" : "attending");
   const [editEventId, setEditEventId] = useState<number | null>(null);
   const [isEditSheetOpen, setIsEditSheetOpen] = useState(false);
+  const [publishingEventId, setPublishingEventId] = useState<number | null>(null);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
   
   // Leer el parámetro tab de la URL cada vez que cambia la ubicación
   useEffect(() => {
@@ -168,6 +188,48 @@ const MyEvents = () => {
     queryClient.invalidateQueries({ queryKey: ["/api/events"] });
   };
 
+  // Publicar un borrador para que aparezca en el mapa y acepte asistentes
+  const handlePublishEvent = async (eventId: number) => {
+    setPublishingEventId(eventId);
+    try {
+      const response = await apiRequest("POST", `/api/events/${eventId}/publish`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "No se pudo publicar el evento");
+      }
+      toast({
+        title: "¡Evento publicado!",
+        description: "Tu evento ya aparece en el mapa",
+      });
+      handleEventUpdated();
+    } catch (error) {
+      console.error("Error al publicar evento:", error);
+      toast({
+        title: "Error al publicar",
+        description: error instanceof Error ? error.message : "No se pudo publicar el evento",
+        variant: "destructive",
+      });
+    } finally {
+      setPublishingEventId(null);
+    }
+  };
+
+  const renderStatusHeader = (status: EventStatus, count: number) => (
+    <h3 className="text-sm font-semibold text-neutral-500 uppercase tracking-wide">
+      {EVENT_STATUS_LABELS[status]} ({count})
+    </h3>
+  );
+
+  const renderStatusBadge = (event: any) => {
+    const status = getEventStatus(event);
+    if (status === 'published') return null;
+    return (
+      <span className={`inline-block px-2 py-1 text-xs font-medium rounded-full mb-1 ml-1 ${STATUS_BADGE_CLASSES[status]}`}>
+        {EVENT_STATUS_LABELS[status]}
+      </span>
+    );
+  };
+
   if (isLoading) {
     return (
       <motion.div 
@@ -313,7 +375,10 @@ const MyEvents = () => {
                   </motion.div>
                 </motion.div>
               ) : (
-                attendingEvents.map((attendance: any, index: number) => (
+                groupByStatus(attendingEvents, (attendance: any) => attendance.event).map(({ status, items }) => (
+                  <div key={status} className="space-y-4">
+                  {renderStatusHeader(status, items.length)}
+                  {items.map((attendance: any, index: number) => (
                   <motion.div
                     key={attendance.id}
                     initial={{ opacity: 0, y: 20 }}
@@ -426,6 +491,7 @@ const MyEvents = () => {
                         <span className={`inline-block px-2 py-1 text-xs font-medium category-${attendance.event.category || 'general'}-light rounded-full mb-1`}>
                           {attendance.event.category ? attendance.event.category.charAt(0).toUpperCase() + attendance.event.category.slice(1) : 'Evento'}
                         </span>
+                        {renderStatusBadge(attendance.event)}
                         <h3 className="font-semibold text-lg">{attendance.event.title}</h3>
                         <p className="text-neutral-500 flex items-center gap-1 text-sm">
                           <CalendarIcon size={14} />
@@ -466,6 +532,8 @@ const MyEvents = () => {
                   </CardContent>
                     </Card>
                   </motion.div>
+                  ))}
+                  </div>
                 ))
               )}
             </AnimatePresence>
@@ -510,7 +578,10 @@ const MyEvents = () => {
                   </motion.div>
                 </motion.div>
               ) : (
-                createdEvents.map((event: any, index: number) => (
+                groupByStatus(createdEvents, (event: any) => event).map(({ status, items }) => (
+                  <div key={status} className="space-y-4">
+                  {renderStatusHeader(status, items.length)}
+                  {items.map((event: any, index: number) => (
                   <motion.div
                     key={event.id}
                     initial={{ opacity: 0, y: 20 }}
@@ -629,6 +700,7 @@ const MyEvents = () => {
                         <span className={`inline-block px-2 py-1 text-xs font-medium category-${event.category || 'general'}-light rounded-full mb-1`}>
                           {event.category ? event.category.charAt(0).toUpperCase() + event.category.slice(1) : 'Evento'}
                         </span>
+                        {renderStatusBadge(event)}
                         <h3 className="font-semibold text-lg">{event.title}</h3>
                         <p className="text-neutral-500 flex items-center gap-1 text-sm">
                           <CalendarIcon size={14} />
@@ -652,17 +724,42 @@ const MyEvents = () => {
                         <span>{event.attendees?.length || 0} participantes</span>
                       </div>
                       
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleOpenEditSheet(event.id)}
-                      >
-                        Editar
-                      </Button>
+                      <div className="flex gap-2">
+                        {status === 'draft' && (
+                          <Button
+                            size="sm"
+                            className="bg-primary hover:bg-primary/90"
+                            disabled={publishingEventId === event.id}
+                            onClick={() => handlePublishEvent(event.id)}
+                          >
+                            {publishingEventId === event.id ? "Publicando..." : "Publicar"}
+                          </Button>
+                        )}
+                        {(status === 'published' || status === 'completed') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigate(`/my-events/${event.id}/check-in`)}
+                          >
+                            Check-in
+                          </Button>
+                        )}
+                        {(status === 'draft' || status === 'published') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleOpenEditSheet(event.id)}
+                          >
+                            Editar
+                          </Button>
+                        )}
+                      </div>
                     </div>
                   </CardContent>
                     </Card>
                   </motion.div>
+                  ))}
+                  </div>
                 ))
               )}
             </AnimatePresence>
@@ -1,27 +1,121 @@
-import { useEffect } from "react";
-import { useLocation } from "wouter";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { CheckCircle, XCircle, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatPrice } from "@/lib/stripe";
+import { Button } from "@/components/ui/button";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 
-// Payment page - Ahora redirecciona al inicio y muestra un mensaje
+interface PaymentStatusResponse {
+  eventId: number;
+  eventTitle: string;
+  price: string | null;
+  status: string | null;
+  paymentStatus: string | null;
+}
+
+// Estado del pago de un evento privado de pago (pendiente, exitoso o fallido)
 export default function PaymentPage() {
+  const { eventId } = useParams<{ eventId: string }>();
   const [_, navigate] = useLocation();
   const { toast } = useToast();
-  
-  // Cuando el componente se monta, redirigir al inicio y mostrar mensaje
-  useEffect(() => {
-    toast({
-      title: "Funcionalidad de pagos desactivada",
-      description: "Los pagos no están disponibles actualmente. Todos los eventos son gratuitos.",
-      variant: "destructive",
-    });
-    
-    navigate("/");
-  }, [navigate, toast]);
-  
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const params = typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : new URLSearchParams();
+  const wasCancelled = params.get('cancelled') === '1';
+
+  // Mientras el webhook de Stripe no confirme el pago, volvemos a consultar el estado
+  const { data, isLoading } = useQuery<PaymentStatusResponse>({
+    queryKey: [`/api/events/${eventId}/payment-status`],
+    refetchInterval: (query) => {
+      const paymentStatus = query.state.data?.paymentStatus;
+      return !wasCancelled && paymentStatus === 'pending' ? 3000 : false;
+    },
+  });
+
+  const paymentStatus = data?.paymentStatus === 'succeeded' || data?.paymentStatus === 'completed'
+    ? 'succeeded'
+    : data?.paymentStatus === 'failed' || wasCancelled
+      ? 'failed'
+      : 'pending';
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      const res = await apiRequest("POST", `/api/events/${eventId}/pay`);
+      const body = await res.json();
+      if (!res.ok || !body.checkoutUrl) {
+        throw new Error(body.message || "Error al procesar el pago");
+      }
+      window.location.href = body.checkoutUrl;
+    } catch (error) {
+      toast({
+        title: "Error de Pago",
+        description: error instanceof Error ? error.message : "No se pudo procesar el pago.",
+        variant: "destructive",
+      });
+      setIsRetrying(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <LoadingSpinner size="xl" />
+      </div>
+    );
+  }
+
   return (
-    <div className="flex items-center justify-center h-screen">
-      <LoadingSpinner size="xl" />
+    <div className="min-h-screen bg-white pt-4 pb-24">
+      <div className="max-w-md mx-auto px-4">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Pago del evento</h1>
+
+        <div className="bg-gray-50 rounded-lg shadow-sm p-6 text-center">
+          {paymentStatus === 'succeeded' && (
+            <>
+              <CheckCircle className="w-16 h-16 mx-auto mb-4 text-green-500" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">¡Pago exitoso!</h3>
+              <p className="text-gray-600 mb-4">
+                Ya formas parte de "{data?.eventTitle}".
+              </p>
+            </>
+          )}
+
+          {paymentStatus === 'pending' && (
+            <>
+              <Clock className="w-16 h-16 mx-auto mb-4 text-amber-500" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Pago pendiente</h3>
+              <p className="text-gray-600 mb-4">
+                Estamos esperando la confirmación de tu pago para "{data?.eventTitle}".
+              </p>
+            </>
+          )}
+
+          {paymentStatus === 'failed' && (
+            <>
+              <XCircle className="w-16 h-16 mx-auto mb-4 text-red-500" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">El pago no se completó</h3>
+              <p className="text-gray-600 mb-4">
+                No pudimos cobrar {formatPrice(data?.price)} para "{data?.eventTitle}". Puedes intentarlo de nuevo.
+              </p>
+              <Button
+                className="w-full mb-3 bg-yellow-400 text-black hover:bg-yellow-500"
+                onClick={handleRetry}
+                disabled={isRetrying}
+              >
+                {isRetrying ? "Redirigiendo..." : "Reintentar pago"}
+              </Button>
+            </>
+          )}
+
+          <Button variant="outline" className="w-full" onClick={() => navigate("/")}>
+            Volver al inicio
+          </Button>
+        </div>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
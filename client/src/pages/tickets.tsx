@@ -1,25 +1,96 @@
 import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { CalendarIcon, MapPin, CheckCircle } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+
+interface Ticket {
+  attendeeId: number;
+  token: string;
+  checkedInAt: string | null;
+  event: {
+    id: number;
+    title: string;
+    date: string;
+    endTime: string | null;
+    locationName: string;
+    locationAddress: string;
+    mainMediaUrl: string | null;
+  };
+}
 
 export default function Tickets() {
+  const { data: tickets = [], isLoading } = useQuery<Ticket[]>({
+    queryKey: ['/api/user/tickets'],
+  });
+
+  // Los eventos próximos primero, los pasados al final
+  const now = Date.now();
+  const sortedTickets = [...tickets].sort((a, b) => {
+    const aPast = new Date(a.event.date).getTime() < now;
+    const bPast = new Date(b.event.date).getTime() < now;
+    if (aPast !== bPast) return aPast ? 1 : -1;
+    return new Date(a.event.date).getTime() - new Date(b.event.date).getTime();
+  });
+
   return (
     <div className="min-h-screen bg-white pt-4 pb-24">
       <div className="max-w-md mx-auto px-4">
         <h1 className="text-2xl font-bold text-gray-900 mb-6">Mis Tickets</h1>
-        
-        <div className="bg-gray-50 rounded-lg shadow-sm p-6 text-center">
-          <div className="text-gray-400 mb-4">
-            <svg className="w-16 h-16 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15.5 9.75A3.75 3.75 0 0011.75 6H6a2.25 2.25 0 00-2.25 2.25v6.75A2.25 2.25 0 006 17.25h5.75A3.75 3.75 0 0015.5 14v-4.25z" />
-            </svg>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : sortedTickets.length === 0 ? (
+          <div className="bg-gray-50 rounded-lg shadow-sm p-6 text-center">
+            <div className="text-gray-400 mb-4">
+              <svg className="w-16 h-16 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15.5 9.75A3.75 3.75 0 0011.75 6H6a2.25 2.25 0 00-2.25 2.25v6.75A2.25 2.25 0 006 17.25h5.75A3.75 3.75 0 0015.5 14v-4.25z" />
+              </svg>
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              No tienes tickets aún
+            </h3>
+            <p className="text-gray-600 mb-4">
+              Cuando te inscribas a eventos, tus tickets aparecerán aquí.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sortedTickets.map((ticket) => (
+              <div key={ticket.attendeeId} className="bg-gray-50 rounded-lg shadow-sm p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">{ticket.event.title}</h3>
+                <p className="text-gray-600 flex items-center gap-1 text-sm">
+                  <CalendarIcon size={14} />
+                  <span>{format(parseISO(ticket.event.date), "EEEE d 'de' MMMM • HH:mm", { locale: es })}</span>
+                </p>
+                <p className="text-gray-600 flex items-center gap-1 text-sm mt-1 mb-4">
+                  <MapPin size={14} />
+                  <span>{ticket.event.locationName}</span>
+                </p>
+
+                <div className="flex justify-center bg-white rounded-lg p-4">
+                  <QRCodeSVG value={ticket.token} size={200} level="M" />
+                </div>
+
+                {ticket.checkedInAt ? (
+                  <p className="text-green-600 flex items-center justify-center gap-1 text-sm mt-3">
+                    <CheckCircle size={14} />
+                    <span>Ingreso registrado a las {format(parseISO(ticket.checkedInAt), "HH:mm")}</span>
+                  </p>
+                ) : (
+                  <p className="text-gray-500 text-center text-sm mt-3">
+                    Muestra este código al organizador al llegar
+                  </p>
+                )}
+              </div>
+            ))}
           </div>
-          <h3 className="text-lg font-semibold text-gray-900 mb-2">
-            No tienes tickets aún
-          </h3>
-          <p className="text-gray-600 mb-4">
-            Cuando te inscribas a eventos, tus tickets aparecerán aquí.
-          </p>
-        </div>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,33 @@
+import dotenv from 'dotenv';
+import { runMigrations, checkSchemaDrift, hasSchemaDrift, describeSchemaDrift } from '../server/schema-migrations';
+import { closePostgres } from '../server/postgres';
+
+dotenv.config();
+
+// Applies pending migrations from db/migrations in order (npm run db:migrate)
+async function main() {
+  try {
+    const before = await checkSchemaDrift();
+    if (before.pendingMigrations.length === 0) {
+      console.log('✅ No pending migrations');
+    } else {
+      console.log(`🛠️ Applying ${before.pendingMigrations.length} migration(s): ${before.pendingMigrations.join(', ')}`);
+      await runMigrations();
+      console.log('✅ Migrations applied');
+    }
+
+    const after = await checkSchemaDrift();
+    if (hasSchemaDrift(after)) {
+      console.error('❌ The database still differs from db/migrations:');
+      describeSchemaDrift(after).forEach(line => console.error(`   ${line}`));
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closePostgres();
+  }
+}
+
+main();
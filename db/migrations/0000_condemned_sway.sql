@@ -1,85 +0,0 @@
-CREATE TYPE "public"."attendee_status" AS ENUM('pending', 'approved', 'rejected');--> statement-breakpoint
-CREATE TYPE "public"."event_category" AS ENUM('social', 'music', 'spiritual', 'education', 'sports', 'food', 'art', 'technology', 'games', 'outdoor', 'networking', 'workshop', 'conference', 'party', 'fair', 'exhibition');--> statement-breakpoint
-CREATE TYPE "public"."payment_type" AS ENUM('free', 'paid');--> statement-breakpoint
-CREATE TYPE "public"."privacy_type" AS ENUM('public', 'private');--> statement-breakpoint
-CREATE TYPE "public"."private_access_type" AS ENUM('solicitud', 'postulacion', 'paga');--> statement-breakpoint
-CREATE TABLE IF NOT EXISTS "event_attendees" (
-	"id" serial PRIMARY KEY NOT NULL,
-	"event_id" integer NOT NULL,
-	"user_id" integer NOT NULL,
-	"status" "attendee_status" DEFAULT 'approved' NOT NULL,
-	"payment_status" text DEFAULT 'pending',
-	"payment_intent_id" text,
-	"created_at" timestamp DEFAULT now() NOT NULL
-);
---> statement-breakpoint
-CREATE TABLE IF NOT EXISTS "events" (
-	"id" serial PRIMARY KEY NOT NULL,
-	"title" text NOT NULL,
-	"description" text NOT NULL,
-	"category" "event_category" NOT NULL,
-	"date" timestamp NOT NULL,
-	"latitude" numeric(10, 6) NOT NULL,
-	"longitude" numeric(10, 6) NOT NULL,
-	"location_name" text NOT NULL,
-	"location_address" text NOT NULL,
-	"payment_type" "payment_type" DEFAULT 'free' NOT NULL,
-	"price" numeric(10, 2),
-	"max_capacity" integer,
-	"privacy_type" "privacy_type" DEFAULT 'public' NOT NULL,
-	"private_access_type" "private_access_type",
-	"application_questions" text,
-	"photo_url" text,
-	"photo_urls" text,
-	"video_url" text,
-	"organizer_id" integer NOT NULL,
-	"created_at" timestamp DEFAULT now() NOT NULL,
-	"updated_at" timestamp DEFAULT now() NOT NULL
-);
---> statement-breakpoint
-CREATE TABLE IF NOT EXISTS "user_interests" (
-	"id" serial PRIMARY KEY NOT NULL,
-	"user_id" integer NOT NULL,
-	"category" "event_category" NOT NULL,
-	"created_at" timestamp DEFAULT now() NOT NULL
-);
---> statement-breakpoint
-CREATE TABLE IF NOT EXISTS "users" (
-	"id" serial PRIMARY KEY NOT NULL,
-	"username" text NOT NULL,
-	"email" text NOT NULL,
-	"password" text NOT NULL,
-	"name" text NOT NULL,
-	"bio" text,
-	"avatar" text,
-	"stripe_customer_id" text,
-	"stripe_subscription_id" text,
-	"created_at" timestamp DEFAULT now() NOT NULL,
-	"updated_at" timestamp DEFAULT now() NOT NULL,
-	CONSTRAINT "users_username_unique" UNIQUE("username"),
-	CONSTRAINT "users_email_unique" UNIQUE("email")
-);
---> statement-breakpoint
-DO $$ BEGIN
- ALTER TABLE "event_attendees" ADD CONSTRAINT "event_attendees_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE no action ON UPDATE no action;
-EXCEPTION
- WHEN duplicate_object THEN null;
-END $$;
---> statement-breakpoint
-DO $$ BEGIN
- ALTER TABLE "event_attendees" ADD CONSTRAINT "event_attendees_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
-EXCEPTION
- WHEN duplicate_object THEN null;
-END $$;
---> statement-breakpoint
-DO $$ BEGIN
- ALTER TABLE "events" ADD CONSTRAINT "events_organizer_id_users_id_fk" FOREIGN KEY ("organizer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
-EXCEPTION
- WHEN duplicate_object THEN null;
-END $$;
---> statement-breakpoint
-DO $$ BEGIN
- ALTER TABLE "user_interests" ADD CONSTRAINT "user_interests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
-EXCEPTION
- WHEN duplicate_object THEN null;
-END $$;
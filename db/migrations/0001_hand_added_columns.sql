@@ -0,0 +1,69 @@
+-- Databases created before migrations (by the setup scripts and the startup DDL) got these
+-- columns, enum values and indexes by hand. Everything here is a no-op on a fresh database.
+ALTER TYPE "public"."attendee_status" ADD VALUE IF NOT EXISTS 'waitlisted';--> statement-breakpoint
+ALTER TYPE "public"."attendee_status" ADD VALUE IF NOT EXISTS 'cancelled';--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE IF NOT EXISTS 'waitlist_promoted';--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE IF NOT EXISTS 'refund_issued';--> statement-breakpoint
+-- The startup DDL created gender as ('masculino', 'femenino', ...); the app sends the schema values
+ALTER TYPE "public"."gender" ADD VALUE IF NOT EXISTS 'hombre';--> statement-breakpoint
+ALTER TYPE "public"."gender" ADD VALUE IF NOT EXISTS 'mujer';--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "password" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "bio" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "avatar" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "gender" "gender";--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "supabase_id" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "stripe_customer_id" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "stripe_subscription_id" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "last_latitude" numeric(10, 6);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "last_longitude" numeric(10, 6);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "last_location_at" timestamp;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "end_time" timestamp;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "private_access_type" "private_access_type" DEFAULT 'solicitud';--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "application_questions" jsonb;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "media_items" text;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "main_media_type" text;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "main_media_url" text;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "gender_preference" "gender_preference" DEFAULT 'all_people';--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "series_id" integer;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "occurrence_index" integer;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "cancellation_policy" "cancellation_policy" DEFAULT 'full_refund';--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "refund_deadline_hours" integer DEFAULT 24;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "partial_refund_percent" integer DEFAULT 50;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "events" ADD CONSTRAINT "events_series_id_event_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "public"."event_series"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "event_attendees" ADD COLUMN IF NOT EXISTS "status" "attendee_status" DEFAULT 'approved' NOT NULL;--> statement-breakpoint
+ALTER TABLE "event_attendees" ADD COLUMN IF NOT EXISTS "application_answers" text;--> statement-breakpoint
+ALTER TABLE "event_attendees" ADD COLUMN IF NOT EXISTS "refund_amount" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "event_attendees" ADD COLUMN IF NOT EXISTS "refund_status" text;--> statement-breakpoint
+ALTER TABLE "event_attendees" ADD COLUMN IF NOT EXISTS "refund_id" text;--> statement-breakpoint
+ALTER TABLE "event_attendees" ADD COLUMN IF NOT EXISTS "refunded_at" timestamp;--> statement-breakpoint
+ALTER TABLE "event_attendees" ADD COLUMN IF NOT EXISTS "checked_in_at" timestamp;--> statement-breakpoint
+ALTER TABLE "event_attendees" ADD COLUMN IF NOT EXISTS "no_show" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "reply_to_id" integer;--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "attachment" jsonb;--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "system_event" jsonb;--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "edited" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "edited_at" timestamp;--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "deleted_at" timestamp;--> statement-breakpoint
+-- Events created before end_time existed last two hours
+UPDATE "events" SET "end_time" = "date" + INTERVAL '2 hours' WHERE "end_time" IS NULL;--> statement-breakpoint
+UPDATE "events" SET "gender_preference" = 'all_people' WHERE "gender_preference" IS NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "conversations" ADD CONSTRAINT "conversations_check" CHECK ("user_a_id" < "user_b_id");
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_ratings" ADD CONSTRAINT "user_ratings_rating_check" CHECK ("rating" BETWEEN 1 AND 10);
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "direct_messages_conversation_idx" ON "direct_messages" ("conversation_id", "id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "events_series_id_idx" ON "events" ("series_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "auth_sessions_user_id_idx" ON "auth_sessions" ("user_id");
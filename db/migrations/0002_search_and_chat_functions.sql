@@ -0,0 +1,168 @@
+-- Generated columns, extensions and SQL functions that drizzle-kit can't describe in schema.ts.
+-- The Supabase backend calls these functions over RPC; the Drizzle backend calls them with sql``.
+CREATE EXTENSION IF NOT EXISTS postgis;
+--> statement-breakpoint
+ALTER TABLE events ADD COLUMN IF NOT EXISTS location geography(Point, 4326)
+  GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint(longitude::float8, latitude::float8), 4326)::geography) STORED;
+CREATE INDEX IF NOT EXISTS events_location_gix ON events USING GIST (location);
+--> statement-breakpoint
+ALTER TABLE events ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('spanish', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('spanish', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('spanish', coalesce(location_name, '') || ' ' || coalesce(location_address, '')), 'C')
+  ) STORED;
+CREATE INDEX IF NOT EXISTS events_search_vector_idx ON events USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS events_date_id_idx ON events (date DESC, id DESC);
+--> statement-breakpoint
+-- Returns SETOF events so PostgREST can still embed organizer and attendees
+CREATE OR REPLACE FUNCTION search_events(
+  p_search TEXT DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_payment_types TEXT[] DEFAULT NULL,
+  p_lat FLOAT8 DEFAULT NULL,
+  p_lng FLOAT8 DEFAULT NULL,
+  p_radius_km FLOAT8 DEFAULT NULL,
+  p_cursor_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id INTEGER DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+) RETURNS SETOF events AS $$
+  SELECT e.* FROM events e
+  WHERE (e.end_time IS NULL OR e.end_time >= NOW())
+    AND (p_search IS NULL OR e.search_vector @@ websearch_to_tsquery('spanish', p_search))
+    AND (p_categories IS NULL OR e.category::text = ANY(p_categories))
+    AND (p_payment_types IS NULL OR e.payment_type::text = ANY(p_payment_types))
+    AND (p_lat IS NULL OR p_lng IS NULL OR p_radius_km IS NULL OR
+         ST_DWithin(e.location, ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)::geography, p_radius_km * 1000))
+    AND (p_cursor_date IS NULL OR (e.date, e.id) < (p_cursor_date, p_cursor_id))
+  ORDER BY e.date DESC, e.id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+--> statement-breakpoint
+-- Map tiles: events inside the viewport, or grid clusters with counts per category at low zoom
+CREATE OR REPLACE FUNCTION events_in_bbox(
+  p_min_lng FLOAT8,
+  p_min_lat FLOAT8,
+  p_max_lng FLOAT8,
+  p_max_lat FLOAT8,
+  p_limit INTEGER DEFAULT 500
+) RETURNS SETOF events AS $$
+  SELECT e.* FROM events e
+  WHERE (e.end_time IS NULL OR e.end_time >= NOW())
+    AND e.location && ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326)::geography
+    AND ST_Intersects(e.location::geometry, ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326))
+  ORDER BY e.date DESC, e.id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION event_clusters_in_bbox(
+  p_min_lng FLOAT8,
+  p_min_lat FLOAT8,
+  p_max_lng FLOAT8,
+  p_max_lat FLOAT8,
+  p_cell_size FLOAT8
+) RETURNS TABLE (latitude FLOAT8, longitude FLOAT8, count BIGINT, categories JSONB) AS $$
+  WITH in_bbox AS (
+    SELECT e.category::text AS category,
+           e.location::geometry AS geom,
+           ST_SnapToGrid(e.location::geometry, p_cell_size) AS cell
+    FROM events e
+    WHERE (e.end_time IS NULL OR e.end_time >= NOW())
+      AND e.location && ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326)::geography
+      AND ST_Intersects(e.location::geometry, ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326))
+  ),
+  by_category AS (
+    SELECT cell, category, COUNT(*) AS total, ST_Collect(geom) AS geoms
+    FROM in_bbox
+    GROUP BY cell, category
+  )
+  SELECT ST_Y(ST_Centroid(ST_Collect(geoms))) AS latitude,
+         ST_X(ST_Centroid(ST_Collect(geoms))) AS longitude,
+         SUM(total)::BIGINT AS count,
+         jsonb_object_agg(category, total) AS categories
+  FROM by_category
+  GROUP BY cell;
+$$ LANGUAGE sql STABLE;
+--> statement-breakpoint
+-- Two users share an event when each is its organizer or an approved attendee
+CREATE OR REPLACE FUNCTION users_share_event(p_user_a INTEGER, p_user_b INTEGER)
+RETURNS BOOLEAN AS $$
+  WITH a_events AS (
+    SELECT id FROM events WHERE organizer_id = p_user_a
+    UNION
+    SELECT event_id FROM event_attendees WHERE user_id = p_user_a AND status = 'approved'
+  ), b_events AS (
+    SELECT id FROM events WHERE organizer_id = p_user_b
+    UNION
+    SELECT event_id FROM event_attendees WHERE user_id = p_user_b AND status = 'approved'
+  )
+  SELECT EXISTS (SELECT 1 FROM a_events JOIN b_events USING (id));
+$$ LANGUAGE sql STABLE;
+--> statement-breakpoint
+-- Conversation list: other participant, last message and unread count in one query
+CREATE OR REPLACE FUNCTION direct_conversation_summaries(p_user_id INTEGER)
+RETURNS TABLE (
+  id INTEGER,
+  other_user_id INTEGER,
+  status TEXT,
+  requested_by INTEGER,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_message_id INTEGER,
+  last_message_sender_id INTEGER,
+  last_message_content TEXT,
+  unread_count BIGINT
+) AS $$
+  SELECT
+    c.id,
+    CASE WHEN c.user_a_id = p_user_id THEN c.user_b_id ELSE c.user_a_id END,
+    c.status,
+    c.requested_by,
+    c.last_message_at,
+    m.id,
+    m.sender_id,
+    m.content,
+    (
+      SELECT COUNT(*) FROM direct_messages u
+      WHERE u.conversation_id = c.id AND u.sender_id <> p_user_id AND u.read_at IS NULL
+    )::BIGINT
+  FROM conversations c
+  LEFT JOIN LATERAL (
+    SELECT id, sender_id, content FROM direct_messages
+    WHERE conversation_id = c.id
+    ORDER BY id DESC
+    LIMIT 1
+  ) m ON true
+  WHERE p_user_id IN (c.user_a_id, c.user_b_id)
+  ORDER BY c.last_message_at DESC NULLS LAST, c.id DESC;
+$$ LANGUAGE sql STABLE;
+--> statement-breakpoint
+-- The cursor only moves forward, so an older read frame can't mark messages unread again
+CREATE OR REPLACE FUNCTION mark_chat_read(p_user_id INTEGER, p_event_id INTEGER, p_message_id INTEGER)
+RETURNS SETOF chat_read_cursors AS $$
+  INSERT INTO chat_read_cursors (user_id, event_id, last_read_message_id, read_at)
+  VALUES (p_user_id, p_event_id, p_message_id, NOW())
+  ON CONFLICT (user_id, event_id) DO UPDATE
+    SET last_read_message_id = GREATEST(chat_read_cursors.last_read_message_id, EXCLUDED.last_read_message_id),
+        read_at = NOW()
+  RETURNING *;
+$$ LANGUAGE sql VOLATILE;
+--> statement-breakpoint
+-- Unread = other people's non-deleted messages after the cursor, only in chats the user belongs to
+CREATE OR REPLACE FUNCTION chat_unread_counts(p_user_id INTEGER, p_event_ids INTEGER[] DEFAULT NULL)
+RETURNS TABLE (event_id INTEGER, unread_count BIGINT) AS $$
+  SELECT m.event_id, COUNT(*)::BIGINT AS unread_count
+  FROM chat_messages m
+  LEFT JOIN chat_read_cursors c ON c.event_id = m.event_id AND c.user_id = p_user_id
+  WHERE m.sender_id <> p_user_id
+    AND m.deleted_at IS NULL
+    AND m.id > COALESCE(c.last_read_message_id, 0)
+    AND (p_event_ids IS NULL OR m.event_id = ANY(p_event_ids))
+    AND (
+      EXISTS (SELECT 1 FROM events e WHERE e.id = m.event_id AND e.organizer_id = p_user_id)
+      OR EXISTS (
+        SELECT 1 FROM event_attendees a
+        WHERE a.event_id = m.event_id AND a.user_id = p_user_id AND a.status = 'approved'
+      )
+    )
+  GROUP BY m.event_id;
+$$ LANGUAGE sql STABLE;
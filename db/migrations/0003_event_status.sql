@@ -0,0 +1,76 @@
+CREATE TYPE "public"."event_status" AS ENUM('draft', 'published', 'cancelled', 'completed');--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'event_cancelled';--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "status" "event_status" DEFAULT 'published' NOT NULL;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "cancelled_at" timestamp;--> statement-breakpoint
+-- Events that already ended are completed; the rest keep the 'published' default
+UPDATE "events" SET "status" = 'completed' WHERE COALESCE("end_time", "date" + INTERVAL '2 hours') < NOW();--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "events_status_date_idx" ON "events" ("status", "date");--> statement-breakpoint
+-- Listings and map tiles show published events only instead of working out "ended" from end_time
+-- Returns SETOF events so PostgREST can still embed organizer and attendees
+CREATE OR REPLACE FUNCTION search_events(
+  p_search TEXT DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_payment_types TEXT[] DEFAULT NULL,
+  p_lat FLOAT8 DEFAULT NULL,
+  p_lng FLOAT8 DEFAULT NULL,
+  p_radius_km FLOAT8 DEFAULT NULL,
+  p_cursor_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id INTEGER DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+) RETURNS SETOF events AS $$
+  SELECT e.* FROM events e
+  WHERE e.status = 'published'
+    AND (p_search IS NULL OR e.search_vector @@ websearch_to_tsquery('spanish', p_search))
+    AND (p_categories IS NULL OR e.category::text = ANY(p_categories))
+    AND (p_payment_types IS NULL OR e.payment_type::text = ANY(p_payment_types))
+    AND (p_lat IS NULL OR p_lng IS NULL OR p_radius_km IS NULL OR
+         ST_DWithin(e.location, ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)::geography, p_radius_km * 1000))
+    AND (p_cursor_date IS NULL OR (e.date, e.id) < (p_cursor_date, p_cursor_id))
+  ORDER BY e.date DESC, e.id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+--> statement-breakpoint
+-- Map tiles: events inside the viewport, or grid clusters with counts per category at low zoom
+CREATE OR REPLACE FUNCTION events_in_bbox(
+  p_min_lng FLOAT8,
+  p_min_lat FLOAT8,
+  p_max_lng FLOAT8,
+  p_max_lat FLOAT8,
+  p_limit INTEGER DEFAULT 500
+) RETURNS SETOF events AS $$
+  SELECT e.* FROM events e
+  WHERE e.status = 'published'
+    AND e.location && ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326)::geography
+    AND ST_Intersects(e.location::geometry, ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326))
+  ORDER BY e.date DESC, e.id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION event_clusters_in_bbox(
+  p_min_lng FLOAT8,
+  p_min_lat FLOAT8,
+  p_max_lng FLOAT8,
+  p_max_lat FLOAT8,
+  p_cell_size FLOAT8
+) RETURNS TABLE (latitude FLOAT8, longitude FLOAT8, count BIGINT, categories JSONB) AS $$
+  WITH in_bbox AS (
+    SELECT e.category::text AS category,
+           e.location::geometry AS geom,
+           ST_SnapToGrid(e.location::geometry, p_cell_size) AS cell
+    FROM events e
+    WHERE e.status = 'published'
+      AND e.location && ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326)::geography
+      AND ST_Intersects(e.location::geometry, ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326))
+  ),
+  by_category AS (
+    SELECT cell, category, COUNT(*) AS total, ST_Collect(geom) AS geoms
+    FROM in_bbox
+    GROUP BY cell, category
+  )
+  SELECT ST_Y(ST_Centroid(ST_Collect(geoms))) AS latitude,
+         ST_X(ST_Centroid(ST_Collect(geoms))) AS longitude,
+         SUM(total)::BIGINT AS count,
+         jsonb_object_agg(category, total) AS categories
+  FROM by_category
+  GROUP BY cell;
+$$ LANGUAGE sql STABLE;
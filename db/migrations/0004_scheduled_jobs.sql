@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "scheduled_jobs" (
+	"name" text PRIMARY KEY NOT NULL,
+	"next_run_at" timestamp NOT NULL,
+	"lease_owner" text,
+	"lease_expires_at" timestamp,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_started_at" timestamp,
+	"last_finished_at" timestamp,
+	"last_succeeded_at" timestamp,
+	"last_error" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,15 @@
+ALTER TYPE "public"."notification_type" ADD VALUE 'event_reminder';--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'event_updated';--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "event_reminder_notifications" (
+	"event_id" integer NOT NULL,
+	"minutes_before" integer NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "event_reminder_notifications_event_id_minutes_before_starts_at_pk" PRIMARY KEY("event_id","minutes_before","starts_at")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "event_reminder_notifications" ADD CONSTRAINT "event_reminder_notifications_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
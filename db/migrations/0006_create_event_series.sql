@@ -0,0 +1,36 @@
+-- A recurring series and all of its occurrences are created in one transaction, so a failed
+-- insert never leaves a partial series behind. p_events holds the occurrences as events rows;
+-- series_id is filled in here. Returns { series, occurrences } with the occurrences in order.
+CREATE OR REPLACE FUNCTION create_event_series(p_series JSONB, p_events JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_series event_series;
+  v_occurrences JSONB;
+BEGIN
+  INSERT INTO event_series (organizer_id, frequency, "interval", start_date, until_date, occurrence_count)
+  SELECT organizer_id, frequency, "interval", start_date, until_date, occurrence_count
+  FROM jsonb_populate_record(NULL::event_series, p_series)
+  RETURNING * INTO v_series;
+
+  WITH inserted AS (
+    INSERT INTO events (
+      title, description, category, date, end_time, latitude, longitude, location_name, location_address,
+      payment_type, price, max_capacity, privacy_type, private_access_type, application_questions,
+      gender_preference, media_items, main_media_type, main_media_url, organizer_id, series_id,
+      occurrence_index, cancellation_policy, refund_deadline_hours, partial_refund_percent, status
+    )
+    SELECT
+      title, description, category, date, end_time, latitude, longitude, location_name, location_address,
+      payment_type, price, max_capacity, privacy_type, private_access_type, application_questions,
+      gender_preference, media_items, main_media_type, main_media_url, organizer_id, v_series.id,
+      occurrence_index, cancellation_policy, refund_deadline_hours, partial_refund_percent, status
+    FROM jsonb_populate_recordset(NULL::events, p_events)
+    RETURNING *
+  )
+  SELECT jsonb_agg(to_jsonb(inserted) - 'location' - 'search_vector' ORDER BY inserted.occurrence_index)
+  INTO v_occurrences
+  FROM inserted;
+
+  RETURN jsonb_build_object('series', to_jsonb(v_series), 'occurrences', COALESCE(v_occurrences, '[]'::jsonb));
+END;
+$$ LANGUAGE plpgsql VOLATILE;
@@ -0,0 +1,39 @@
+-- Approves a pending attendee only while the event has a free spot. The event row is locked
+-- first, so two approvals (or paid checkouts) at the same time can't both take the last spot.
+-- Returns { approved: true, attendee } or { approved: false, reason: 'event_full' | 'not_pending' }.
+CREATE OR REPLACE FUNCTION approve_attendee_within_capacity(
+  p_attendee_id INTEGER,
+  p_payment_status TEXT,
+  p_payment_intent_id TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_attendee event_attendees;
+  v_capacity INTEGER;
+BEGIN
+  SELECT * INTO v_attendee FROM event_attendees WHERE id = p_attendee_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('approved', false, 'reason', 'not_pending');
+  END IF;
+
+  SELECT max_capacity INTO v_capacity FROM events WHERE id = v_attendee.event_id FOR UPDATE;
+
+  IF v_capacity IS NOT NULL AND (
+    SELECT COUNT(*) FROM event_attendees WHERE event_id = v_attendee.event_id AND status = 'approved'
+  ) >= v_capacity THEN
+    RETURN jsonb_build_object('approved', false, 'reason', 'event_full');
+  END IF;
+
+  UPDATE event_attendees
+  SET status = 'approved',
+      payment_status = p_payment_status,
+      payment_intent_id = COALESCE(p_payment_intent_id, payment_intent_id)
+  WHERE id = p_attendee_id AND status = 'pending'
+  RETURNING * INTO v_attendee;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('approved', false, 'reason', 'not_pending');
+  END IF;
+
+  RETURN jsonb_build_object('approved', true, 'attendee', to_jsonb(v_attendee));
+END;
+$$ LANGUAGE plpgsql VOLATILE;
@@ -0,0 +1,5 @@
+CREATE TABLE IF NOT EXISTS "http_sessions" (
+	"sid" text PRIMARY KEY NOT NULL,
+	"data" jsonb NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
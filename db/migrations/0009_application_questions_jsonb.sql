@@ -0,0 +1,4 @@
+-- Databases set up before migrations have application_questions as TEXT (0001 only adds the
+-- column when it is missing). Convert it so it matches the schema; empty strings become NULL.
+-- On a database where the column is already jsonb the cast is a no-op.
+ALTER TABLE "events" ALTER COLUMN "application_questions" TYPE jsonb USING NULLIF(btrim("application_questions"::text), '')::jsonb;
@@ -0,0 +1,51 @@
+-- "This and future occurrences" edits of a series are saved in one transaction, so a failure
+-- never leaves the series half-edited. p_updates is [{ id, changes }] with changes as events
+-- columns; columns missing from changes keep their value. Returns the updated rows in order.
+CREATE OR REPLACE FUNCTION update_event_occurrences(p_updates JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_update JSONB;
+  v_event events;
+  v_updated JSONB := '[]'::jsonb;
+BEGIN
+  FOR v_update IN SELECT value FROM jsonb_array_elements(p_updates) LOOP
+    SELECT * INTO v_event FROM events WHERE id = (v_update->>'id')::INTEGER FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Event % not found', v_update->>'id';
+    END IF;
+
+    v_event := jsonb_populate_record(v_event, COALESCE(v_update->'changes', '{}'::jsonb) || jsonb_build_object('updated_at', now()));
+
+    UPDATE events SET
+      title = v_event.title,
+      description = v_event.description,
+      category = v_event.category,
+      date = v_event.date,
+      end_time = v_event.end_time,
+      latitude = v_event.latitude,
+      longitude = v_event.longitude,
+      location_name = v_event.location_name,
+      location_address = v_event.location_address,
+      payment_type = v_event.payment_type,
+      price = v_event.price,
+      max_capacity = v_event.max_capacity,
+      privacy_type = v_event.privacy_type,
+      private_access_type = v_event.private_access_type,
+      application_questions = v_event.application_questions,
+      gender_preference = v_event.gender_preference,
+      media_items = v_event.media_items,
+      main_media_type = v_event.main_media_type,
+      main_media_url = v_event.main_media_url,
+      cancellation_policy = v_event.cancellation_policy,
+      refund_deadline_hours = v_event.refund_deadline_hours,
+      partial_refund_percent = v_event.partial_refund_percent,
+      updated_at = v_event.updated_at
+    WHERE id = v_event.id
+    RETURNING * INTO v_event;
+
+    v_updated := v_updated || jsonb_build_array(to_jsonb(v_event) - 'location' - 'search_vector');
+  END LOOP;
+
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
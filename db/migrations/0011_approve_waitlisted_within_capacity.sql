@@ -0,0 +1,42 @@
+-- Direct joins and waitlist promotions take a spot through the same row-locked check as
+-- approvals: they approve a 'waitlisted' row instead of a 'pending' one. p_from_status is the
+-- status the row must still have; the old three-argument version is dropped so calls stay unambiguous.
+DROP FUNCTION IF EXISTS approve_attendee_within_capacity(INTEGER, TEXT, TEXT);
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION approve_attendee_within_capacity(
+  p_attendee_id INTEGER,
+  p_payment_status TEXT,
+  p_payment_intent_id TEXT DEFAULT NULL,
+  p_from_status TEXT DEFAULT 'pending'
+) RETURNS JSONB AS $$
+DECLARE
+  v_attendee event_attendees;
+  v_capacity INTEGER;
+BEGIN
+  SELECT * INTO v_attendee FROM event_attendees WHERE id = p_attendee_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('approved', false, 'reason', 'not_pending');
+  END IF;
+
+  SELECT max_capacity INTO v_capacity FROM events WHERE id = v_attendee.event_id FOR UPDATE;
+
+  IF v_capacity IS NOT NULL AND (
+    SELECT COUNT(*) FROM event_attendees WHERE event_id = v_attendee.event_id AND status = 'approved'
+  ) >= v_capacity THEN
+    RETURN jsonb_build_object('approved', false, 'reason', 'event_full');
+  END IF;
+
+  UPDATE event_attendees
+  SET status = 'approved',
+      payment_status = p_payment_status,
+      payment_intent_id = COALESCE(p_payment_intent_id, payment_intent_id)
+  WHERE id = p_attendee_id AND status = p_from_status::attendee_status
+  RETURNING * INTO v_attendee;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('approved', false, 'reason', 'not_pending');
+  END IF;
+
+  RETURN jsonb_build_object('approved', true, 'attendee', to_jsonb(v_attendee));
+END;
+$$ LANGUAGE plpgsql VOLATILE;
@@ -1,112 +0,0 @@
--- Run this SQL in your Supabase SQL Editor to create the required tables
-
--- Create enums first
-DO $$ BEGIN
-    CREATE TYPE event_category AS ENUM ('social', 'music', 'spiritual', 'education', 'sports', 'food', 'art', 'technology', 'games', 'outdoor', 'networking', 'workshop', 'conference', 'party', 'fair', 'exhibition');
-EXCEPTION
-    WHEN duplicate_object THEN null;
-END $$;
-
-DO $$ BEGIN
-    CREATE TYPE privacy_type AS ENUM ('public', 'private');
-EXCEPTION
-    WHEN duplicate_object THEN null;
-END $$;
-
-DO $$ BEGIN
-    CREATE TYPE private_access_type AS ENUM ('solicitud', 'postulacion', 'paga');
-EXCEPTION
-    WHEN duplicate_object THEN null;
-END $$;
-
-DO $$ BEGIN
-    CREATE TYPE payment_type AS ENUM ('free', 'paid');
-EXCEPTION
-    WHEN duplicate_object THEN null;
-END $$;
-
-DO $$ BEGIN
-    CREATE TYPE multimedia_type AS ENUM ('photo', 'video');
-EXCEPTION
-    WHEN duplicate_object THEN null;
-END $$;
-
-DO $$ BEGIN
-    CREATE TYPE attendee_status AS ENUM ('pending', 'approved', 'rejected');
-EXCEPTION
-    WHEN duplicate_object THEN null;
-END $$;
-
--- Create users table
-CREATE TABLE IF NOT EXISTS users (
-  id SERIAL PRIMARY KEY,
-  username TEXT NOT NULL UNIQUE,
-  email TEXT NOT NULL UNIQUE,
-  password TEXT,
-  name TEXT NOT NULL,
-  bio TEXT,
-  avatar TEXT,
-  supabase_id TEXT UNIQUE,
-  stripe_customer_id TEXT,
-  stripe_subscription_id TEXT,
-  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
-  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
-);
-
--- Create events table
-CREATE TABLE IF NOT EXISTS events (
-  id SERIAL PRIMARY KEY,
-  title TEXT NOT NULL,
-  description TEXT NOT NULL,
-  category event_category NOT NULL,
-  date TIMESTAMP NOT NULL,
-  latitude DECIMAL(10, 6) NOT NULL,
-  longitude DECIMAL(10, 6) NOT NULL,
-  location_name TEXT NOT NULL,
-  location_address TEXT NOT NULL,
-  payment_type payment_type NOT NULL DEFAULT 'free',
-  price DECIMAL(10, 2),
-  max_capacity INTEGER,
-  privacy_type privacy_type NOT NULL DEFAULT 'public',
-  private_access_type private_access_type,
-  application_questions TEXT,
-  photo_url TEXT,
-  photo_urls TEXT,
-  video_url TEXT,
-  video_urls TEXT,
-  media_items TEXT,
-  main_media_type multimedia_type DEFAULT 'photo',
-  main_media_url TEXT,
-  organizer_id INTEGER REFERENCES users(id) NOT NULL,
-  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
-  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
-);
-
--- Create event_attendees table
-CREATE TABLE IF NOT EXISTS event_attendees (
-  id SERIAL PRIMARY KEY,
-  event_id INTEGER REFERENCES events(id) NOT NULL,
-  user_id INTEGER REFERENCES users(id) NOT NULL,
-  status attendee_status DEFAULT 'approved' NOT NULL,
-  payment_status TEXT DEFAULT 'pending',
-  payment_intent_id TEXT,
-  created_at TIMESTAMP DEFAULT NOW() NOT NULL
-);
-
--- Create user_interests table
-CREATE TABLE IF NOT EXISTS user_interests (
-  id SERIAL PRIMARY KEY,
-  user_id INTEGER REFERENCES users(id) NOT NULL,
-  category event_category NOT NULL,
-  created_at TIMESTAMP DEFAULT NOW() NOT NULL
-);
-
--- Create indexes for better performance
-CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
-CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
-CREATE INDEX IF NOT EXISTS idx_users_supabase_id ON users(supabase_id);
-CREATE INDEX IF NOT EXISTS idx_events_category ON events(category);
-CREATE INDEX IF NOT EXISTS idx_events_date ON events(date);
-CREATE INDEX IF NOT EXISTS idx_events_organizer ON events(organizer_id);
-CREATE INDEX IF NOT EXISTS idx_event_attendees_event ON event_attendees(event_id);
-CREATE INDEX IF NOT EXISTS idx_event_attendees_user ON event_attendees(user_id);
\ No newline at end of file
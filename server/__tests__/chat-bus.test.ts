@@ -0,0 +1,127 @@
+import './test-env';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { EventEmitter } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import WebSocket from 'ws';
+
+// Two chat servers ("nodes") whose in-process buses share one emitter, like two instances on one Postgres
+const hub = new EventEmitter();
+
+let storage: typeof import('../storage')['storage'];
+let session: typeof import('../session-auth');
+let nodes: Array<{ http: http.Server; chat: import('../websocket-server').ChatWebSocketServer; port: number }> = [];
+let eventId: number;
+let conversationId: number;
+let organizerId: number;
+let attendeeId: number;
+const sockets: WebSocket[] = [];
+
+const waitUntil = async (condition: () => boolean, description: string) => {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    if (condition()) return;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Timed out waiting for ${description}`);
+};
+
+before(async () => {
+  ({ storage } = await import('../storage'));
+  session = await import('../session-auth');
+  const { InProcessChatBus } = await import('../chat-bus');
+  const { ChatWebSocketServer } = await import('../websocket-server');
+
+  for (let i = 0; i < 2; i++) {
+    const server = http.createServer();
+    const chat = new ChatWebSocketServer(server, undefined, new InProcessChatBus(hub));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    nodes.push({ http: server, chat, port: (server.address() as AddressInfo).port });
+  }
+
+  const organizer = await storage.insertUser({ email: 'ana@example.com', username: 'ana', name: 'Ana', password: null } as any);
+  const attendee = await storage.insertUser({ email: 'luis@example.com', username: 'luis', name: 'Luis', password: null } as any);
+  organizerId = organizer!.id;
+  attendeeId = attendee!.id;
+
+  const event = await storage.insertEvent({
+    title: 'Picnic',
+    description: 'En el parque',
+    category: 'social',
+    date: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    latitude: '19.4',
+    longitude: '-99.1',
+    locationName: 'Parque',
+    locationAddress: 'Calle 3',
+    paymentType: 'free',
+    privacyType: 'public',
+    organizerId
+  } as any);
+  eventId = event.id;
+  await storage.insertEventAttendee({ eventId, userId: attendeeId, status: 'approved', paymentStatus: 'succeeded', paymentIntentId: null, applicationAnswers: null });
+  conversationId = (await storage.createConversation(organizerId, attendeeId, 'active')).id;
+});
+
+after(async () => {
+  for (const node of nodes) {
+    await node.chat.close();
+    node.http.close();
+  }
+});
+
+// A logged-in socket on one node, with every frame it receives kept in order
+async function connect(node: number, userId: number, email: string) {
+  const sessionId = await session.createSession(userId, email);
+  const socket = new WebSocket(`ws://localhost:${nodes[node].port}/ws`, {
+    headers: { cookie: `${session.SESSION_COOKIE}=${sessionId}` }
+  });
+  const frames: any[] = [];
+  socket.on('message', data => frames.push(JSON.parse(data.toString())));
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+  sockets.push(socket);
+
+  const waitFor = async (predicate: (frame: any) => boolean) => {
+    await waitUntil(() => frames.some(predicate), `a frame; got ${frames.map(frame => frame.type).join(', ')}`);
+    return frames.find(predicate);
+  };
+  return { socket, frames, waitFor, send: (frame: any) => socket.send(JSON.stringify(frame)) };
+}
+
+test('messages, presence and direct typing reach a client on the other node', async () => {
+  const organizer = await connect(0, organizerId, 'ana@example.com');
+  const attendee = await connect(1, attendeeId, 'luis@example.com');
+
+  organizer.send({ type: 'join_event', eventId });
+  await organizer.waitFor(frame => frame.type === 'presence_state');
+
+  attendee.send({ type: 'join_event', eventId });
+  const state = await attendee.waitFor(frame => frame.type === 'presence_state');
+  assert.deepEqual(state.users.map((user: any) => user.id).sort(), [organizerId, attendeeId].sort());
+
+  const joined = await organizer.waitFor(frame => frame.type === 'presence_diff' && frame.joins.length > 0);
+  assert.deepEqual(joined.joins.map((user: any) => user.id), [attendeeId]);
+
+  organizer.send({ type: 'send_message', eventId, content: 'Hola desde el nodo A' });
+  const delivered = await attendee.waitFor(frame => frame.type === 'new_message');
+  assert.equal(delivered.message.content, 'Hola desde el nodo A');
+  assert.equal(delivered.message.senderId, organizerId);
+
+  organizer.send({ type: 'join_conversation', conversationId });
+  attendee.send({ type: 'join_conversation', conversationId });
+  await organizer.waitFor(frame => frame.type === 'conversation_joined');
+  await attendee.waitFor(frame => frame.type === 'conversation_joined');
+  organizer.send({ type: 'direct_typing', conversationId, isTyping: true });
+  const typing = await attendee.waitFor(frame => frame.type === 'direct_typing');
+  assert.equal(typing.userId, organizerId);
+
+  attendee.send({ type: 'leave_event', eventId });
+  const left = await organizer.waitFor(frame => frame.type === 'presence_diff' && frame.leaves.length > 0);
+  assert.deepEqual(left.leaves.map((user: any) => user.id), [attendeeId]);
+
+  // Disconnect here rather than in after(): the test runner can't take output once the tests ended
+  sockets.forEach(socket => socket.close());
+  await waitUntil(() => nodes.every(node => node.chat.getStats().connectedClients === 0), 'the sockets to close');
+});
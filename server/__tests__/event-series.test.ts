@@ -0,0 +1,60 @@
+import './test-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { createEventSeries, updateThisAndFutureOccurrences } from '../event-series';
+import { recurrenceRuleSchema } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const firstDate = new Date('2030-03-04T18:00:00.000Z');
+
+const createWeeklySeries = (count: number) => createEventSeries({
+  title: 'Club de lectura',
+  description: 'Cada semana',
+  category: 'education',
+  date: firstDate,
+  latitude: '19.4',
+  longitude: '-99.1',
+  locationName: 'Biblioteca',
+  locationAddress: 'Calle 5',
+  paymentType: 'free',
+  privacyType: 'public',
+  organizerId: 1
+}, { frequency: 'weekly', interval: 1, count });
+
+test('a rule without an end date or count is accepted', () => {
+  assert.equal(recurrenceRuleSchema.safeParse({ frequency: 'weekly' }).success, true);
+});
+
+test('an edit on one occurrence moves it and every later one', async () => {
+  const { occurrences } = await createWeeklySeries(3);
+  const [, second] = occurrences;
+
+  const updated = await updateThisAndFutureOccurrences(second, {
+    title: 'Club de lectura (nuevo horario)',
+    date: new Date(new Date(second.date).getTime() + 60 * 60 * 1000).toISOString()
+  });
+
+  assert.equal(updated.length, 2);
+  const series = await storage.getSeriesOccurrences(second.series_id);
+  assert.deepEqual(series.map(occurrence => occurrence.title), [
+    'Club de lectura',
+    'Club de lectura (nuevo horario)',
+    'Club de lectura (nuevo horario)'
+  ]);
+  assert.equal(new Date(series[2].date).getTime(), firstDate.getTime() + 14 * DAY_MS + 60 * 60 * 1000);
+});
+
+test('a failed occurrence update leaves the whole series unchanged', async () => {
+  const { occurrences } = await createWeeklySeries(2);
+  const [first, second] = occurrences;
+
+  await assert.rejects(storage.updateEventOccurrences([
+    { id: first.id, changes: { title: 'Cambiado' } },
+    { id: second.id, changes: { title: 'Cambiado' } },
+    { id: -1, changes: { title: 'Cambiado' } }
+  ]));
+
+  const series = await storage.getSeriesOccurrences(first.series_id);
+  assert.deepEqual(series.map(occurrence => occurrence.title), ['Club de lectura', 'Club de lectura']);
+});
@@ -0,0 +1,29 @@
+import './test-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeEventTiles, splitAtAntimeridian } from '../storage-helpers';
+
+test('a regular viewport is queried as one box', () => {
+  assert.deepEqual(splitAtAntimeridian({ minLng: -100, minLat: 10, maxLng: -90, maxLat: 20 }), [
+    { minLng: -100, maxLng: -90, minLat: 10, maxLat: 20 },
+  ]);
+});
+
+test('a viewport crossing the 180° meridian is split in two', () => {
+  const expected = [
+    { minLng: 170, maxLng: 180, minLat: -30, maxLat: 0 },
+    { minLng: -180, maxLng: -170, minLat: -30, maxLat: 0 },
+  ];
+  assert.deepEqual(splitAtAntimeridian({ minLng: 170, minLat: -30, maxLng: -170, maxLat: 0 }), expected);
+  // Same viewport reported with an unwrapped longitude
+  assert.deepEqual(splitAtAntimeridian({ minLng: 170, minLat: -30, maxLng: 190, maxLat: 0 }), expected);
+});
+
+test('the tiles of both sides are merged newest first, like events_in_bbox', () => {
+  const merged = mergeEventTiles([
+    { type: 'events', events: [{ id: 1, date: '2026-11-01T10:00:00.000Z' }, { id: 3, date: '2026-11-02T10:00:00.000Z' }] as any },
+    { type: 'events', events: [{ id: 2, date: '2026-11-02T10:00:00.000Z' }] as any },
+  ]);
+  assert.equal(merged.type, 'events');
+  assert.deepEqual(merged.type === 'events' && merged.events.map(event => event.id), [3, 2, 1]);
+});
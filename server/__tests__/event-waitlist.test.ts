@@ -0,0 +1,47 @@
+import './test-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { joinWithinCapacity, promoteFromWaitlist } from '../event-waitlist';
+
+const createEvent = (maxCapacity: number) => storage.insertEvent({
+  title: 'Caminata',
+  description: 'Cupo limitado',
+  category: 'outdoor',
+  date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+  latitude: '19.4',
+  longitude: '-99.1',
+  locationName: 'Bosque',
+  locationAddress: 'Calle 6',
+  paymentType: 'free',
+  privacyType: 'public',
+  maxCapacity,
+  organizerId: 1
+} as any);
+
+test('two people joining at once for the last spot: one gets it, the other is waitlisted', async () => {
+  const event = await createEvent(2);
+  await joinWithinCapacity({ eventId: event.id, userId: 401 });
+
+  const joined = await Promise.all([
+    joinWithinCapacity({ eventId: event.id, userId: 402 }),
+    joinWithinCapacity({ eventId: event.id, userId: 403 })
+  ]);
+
+  assert.deepEqual(joined.map(attendee => attendee.status).sort(), ['approved', 'waitlisted']);
+  assert.equal(await storage.countApprovedAttendees(event.id), 2);
+});
+
+test('promotions stop when the event is full again', async () => {
+  const event = await createEvent(1);
+  const first = await joinWithinCapacity({ eventId: event.id, userId: 411 });
+  await joinWithinCapacity({ eventId: event.id, userId: 412 });
+  await joinWithinCapacity({ eventId: event.id, userId: 413 });
+
+  await storage.leaveEvent(event.id, first.user_id);
+  const promoted = await promoteFromWaitlist(event);
+
+  assert.deepEqual(promoted.map(attendee => attendee.user_id), [412]);
+  assert.equal((await storage.getEventAttendee(event.id, 413))?.status, 'waitlisted');
+  assert.equal(await storage.countApprovedAttendees(event.id), 1);
+});
@@ -0,0 +1,136 @@
+import './test-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobScheduler, retryDelayMs, type Clock } from '../job-scheduler';
+import { MemoryStorage } from '../memory-storage';
+
+const MINUTE_MS = 60 * 1000;
+
+// Time only moves when the test says so
+class FakeClock implements Clock {
+  private current = new Date('2026-11-01T10:00:00.000Z').getTime();
+  now() {
+    return new Date(this.current);
+  }
+  advance(ms: number) {
+    this.current += ms;
+  }
+}
+
+// Two instances sharing one scheduled_jobs table
+function twoInstances() {
+  const storage = new MemoryStorage();
+  const clock = new FakeClock();
+  return {
+    storage,
+    clock,
+    first: new JobScheduler({ storage, clock, owner: 'instance-a' }),
+    second: new JobScheduler({ storage, clock, owner: 'instance-b' })
+  };
+}
+
+// A job run that only finishes when the test calls finish()
+function blockedRun() {
+  let finish!: () => void;
+  let started!: () => void;
+  const startedPromise = new Promise<void>(resolve => { started = resolve; });
+  const done = new Promise<void>(resolve => { finish = resolve; });
+  return { started: startedPromise, finish, run: () => { started(); return done; } };
+}
+
+test('a due job runs on one instance only, then again after its interval', async () => {
+  const { clock, first, second } = twoInstances();
+  const runs: string[] = [];
+  first.register({ name: 'report', intervalMs: MINUTE_MS, run: async () => { runs.push('a'); } });
+  second.register({ name: 'report', intervalMs: MINUTE_MS, run: async () => { runs.push('b'); } });
+
+  await Promise.all([first.tick(), second.tick()]);
+  assert.equal(runs.length, 1);
+
+  clock.advance(MINUTE_MS - 1);
+  await Promise.all([first.tick(), second.tick()]);
+  assert.equal(runs.length, 1);
+
+  clock.advance(1);
+  await Promise.all([second.tick(), first.tick()]);
+  assert.equal(runs.length, 2);
+});
+
+test('an instance skips a job another instance is still running', async () => {
+  const { first, second } = twoInstances();
+  const blocked = blockedRun();
+  let secondRuns = 0;
+  first.register({ name: 'import', intervalMs: MINUTE_MS, run: blocked.run });
+  second.register({ name: 'import', intervalMs: MINUTE_MS, run: async () => { secondRuns++; } });
+
+  const firstTick = first.tick();
+  await blocked.started;
+
+  assert.deepEqual(await second.tick(), [{ name: 'import', ran: false }]);
+  blocked.finish();
+  assert.equal((await firstTick)[0].ran, true);
+  assert.equal(secondRuns, 0);
+});
+
+test('a run that outlives its lease is taken over, and the late finish does not overwrite it', async () => {
+  const { storage, clock, first, second } = twoInstances();
+  const blocked = blockedRun();
+  let secondRuns = 0;
+  first.register({ name: 'export', intervalMs: MINUTE_MS, leaseMs: 1000, run: blocked.run });
+  second.register({ name: 'export', intervalMs: MINUTE_MS, leaseMs: 1000, run: async () => { secondRuns++; } });
+
+  const firstTick = first.tick();
+  await blocked.started;
+
+  // Still leased by the first instance
+  clock.advance(1000);
+  assert.equal((await second.tick())[0].ran, false);
+
+  clock.advance(1);
+  const takeover = (await second.tick())[0];
+  assert.equal(takeover.ran, true);
+  assert.equal(secondRuns, 1);
+
+  blocked.finish();
+  await firstTick;
+
+  const [row] = await storage.getScheduledJobs();
+  assert.equal(row.lease_owner, null);
+  assert.equal(new Date(row.next_run_at).getTime(), takeover.ran && takeover.nextRunAt.getTime());
+});
+
+test('failed runs are retried with a growing delay until one succeeds', async () => {
+  const storage = new MemoryStorage();
+  const clock = new FakeClock();
+  const scheduler = new JobScheduler({ storage, clock, owner: 'instance-a' });
+  let failuresLeft = 2;
+  scheduler.register({
+    name: 'sync',
+    intervalMs: 10 * MINUTE_MS,
+    run: async () => {
+      if (failuresLeft-- > 0) throw new Error('upstream unavailable');
+    }
+  });
+
+  const failed = (await scheduler.tick())[0];
+  assert.equal(failed.ran && failed.succeeded, false);
+  assert.equal(failed.ran && failed.nextRunAt.getTime() - clock.now().getTime(), retryDelayMs(1));
+
+  clock.advance(retryDelayMs(1) - 1);
+  assert.equal((await scheduler.tick())[0].ran, false);
+
+  clock.advance(1);
+  const failedAgain = (await scheduler.tick())[0];
+  assert.equal(failedAgain.ran && failedAgain.nextRunAt.getTime() - clock.now().getTime(), retryDelayMs(2));
+  assert.ok(retryDelayMs(2) > retryDelayMs(1));
+  assert.equal((await storage.getScheduledJobs())[0].attempts, 2);
+
+  clock.advance(retryDelayMs(2));
+  const succeeded = (await scheduler.tick())[0];
+  assert.equal(succeeded.ran && succeeded.succeeded, true);
+  assert.equal(succeeded.ran && succeeded.nextRunAt.getTime() - clock.now().getTime(), 10 * MINUTE_MS);
+
+  const [row] = await storage.getScheduledJobs();
+  assert.equal(row.attempts, 0);
+  assert.equal(row.last_error, null);
+});
@@ -0,0 +1,138 @@
+import './test-env';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+const AMOUNT_PAID_CENTS = 1500;
+
+// Stripe stand-in that can't find the payment intents listed in missingIntents
+const missingIntents = new Set<string>();
+const createdRefunds: string[] = [];
+const fakeStripe = http.createServer((req, res) => {
+  res.setHeader('Content-Type', 'application/json');
+  // No keep-alive: the refund logs are then never written in the same burst as the test runner's
+  // own messages, which Node 20's runner can fail to parse
+  res.setHeader('Connection', 'close');
+  if (req.method === 'GET' && req.url?.startsWith('/v1/payment_intents/')) {
+    const id = req.url.split('/').pop()!;
+    if (missingIntents.has(id)) {
+      res.statusCode = 404;
+      return res.end(JSON.stringify({ error: { type: 'invalid_request_error', message: `No such payment_intent: '${id}'` } }));
+    }
+    return res.end(JSON.stringify({ id, object: 'payment_intent', amount_received: AMOUNT_PAID_CENTS }));
+  }
+  if (req.method === 'POST' && req.url === '/v1/refunds') {
+    const id = `re_test_${createdRefunds.length + 1}`;
+    createdRefunds.push(id);
+    return res.end(JSON.stringify({ id, object: 'refund', amount: AMOUNT_PAID_CENTS }));
+  }
+  res.statusCode = 404;
+  res.end(JSON.stringify({ error: { message: `Unexpected request ${req.method} ${req.url}` } }));
+});
+
+let storage: typeof import('../storage')['storage'];
+let refunds: typeof import('../refunds');
+let eventLifecycle: typeof import('../event-lifecycle');
+
+before(async () => {
+  await new Promise<void>(resolve => fakeStripe.listen(0, resolve));
+  const { port } = fakeStripe.address() as AddressInfo;
+  process.env.STRIPE_SECRET_KEY = 'sk_test_fake';
+  process.env.STRIPE_API_HOST = 'localhost';
+  process.env.STRIPE_API_PORT = String(port);
+  process.env.STRIPE_API_PROTOCOL = 'http';
+
+  ({ storage } = await import('../storage'));
+  refunds = await import('../refunds');
+  eventLifecycle = await import('../event-lifecycle');
+});
+
+after(() => {
+  fakeStripe.close();
+});
+
+async function createPaidEventWithAttendees(userIds: number[], policy: Record<string, unknown> = {}) {
+  const event = await storage.insertEvent({
+    title: 'Clase de cocina',
+    description: 'Evento de pago',
+    category: 'social',
+    date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    latitude: '19.4',
+    longitude: '-99.1',
+    locationName: 'Cocina',
+    locationAddress: 'Calle 2',
+    paymentType: 'paid',
+    price: '15',
+    maxCapacity: null,
+    privacyType: 'private',
+    privateAccessType: 'paga',
+    organizerId: 1,
+    ...policy
+  } as any);
+
+  for (const userId of userIds) {
+    await storage.insertEventAttendee({
+      eventId: event.id,
+      userId,
+      status: 'approved',
+      paymentStatus: 'succeeded',
+      paymentIntentId: `pi_test_${event.id}_${userId}`,
+      applicationAnswers: null
+    });
+  }
+  return event;
+}
+
+test('a failed refund is recorded and the remaining attendees are still refunded', async () => {
+  const event = await createPaidEventWithAttendees([201, 202, 203]);
+  missingIntents.add(`pi_test_${event.id}_202`);
+
+  const results = await refunds.refundAllAttendees(event);
+
+  assert.equal(results.length, 3);
+  assert.equal((await storage.getEventAttendee(event.id, 201))?.refund_status, 'refunded');
+  assert.equal((await storage.getEventAttendee(event.id, 203))?.refund_status, 'refunded');
+
+  const failed = await storage.getEventAttendee(event.id, 202);
+  assert.equal(failed?.status, 'cancelled');
+  assert.equal(failed?.refund_status, 'failed');
+
+  const notifications = await storage.getUserNotifications(202);
+  assert.match(notifications[0]?.message, /No pudimos procesar tu reembolso/);
+});
+
+test('cancelling the event does not refund again an attendee who already left', async () => {
+  const event = await createPaidEventWithAttendees([205, 206], { cancellationPolicy: 'partial_refund', partialRefundPercent: 50 });
+
+  const left = await refunds.refundAttendee(event, await storage.getEventAttendee(event.id, 205));
+  assert.equal(left?.payment_status, 'partially_refunded');
+  assert.equal(left?.refund_amount, '7.50');
+
+  const refundsBeforeCancelling = createdRefunds.length;
+  const cancelled = await eventLifecycle.cancelEvent(await storage.getEventById(event.id));
+
+  assert.equal(cancelled.cancelled && cancelled.refundedAttendees, 1);
+  assert.equal(createdRefunds.length, refundsBeforeCancelling + 1);
+
+  const leaver = await storage.getEventAttendee(event.id, 205);
+  assert.equal(leaver?.refund_id, left?.refund_id);
+  assert.equal(leaver?.refund_amount, '7.50');
+  assert.equal(leaver?.payment_status, 'partially_refunded');
+  assert.deepEqual(await storage.getUserNotifications(205), []);
+
+  const stayed = await storage.getEventAttendee(event.id, 206);
+  assert.equal(stayed?.payment_status, 'refunded');
+  assert.equal(stayed?.refund_amount, '15.00');
+});
+
+test('a Stripe error when an attendee leaves is recorded instead of thrown', async () => {
+  const event = await createPaidEventWithAttendees([204]);
+  const attendee = await storage.getEventAttendee(event.id, 204);
+  missingIntents.add(attendee!.payment_intent_id!);
+
+  const refunded = await refunds.refundAttendee(event, attendee);
+
+  assert.equal(refunded?.status, 'cancelled');
+  assert.equal(refunded?.refund_status, 'failed');
+});
@@ -0,0 +1,73 @@
+import './test-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { storage } from '../storage';
+import { expirePendingRequests } from '../event-lifecycle';
+import { deleteOrphanedEventMedia } from '../media-cleanup';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createEvent = (date: Date, media: { mediaItems?: string; mainMediaUrl?: string } = {}) =>
+  storage.insertEvent({
+    title: 'Taller de cerámica',
+    description: 'Con solicitud',
+    category: 'workshop',
+    date,
+    latitude: '19.4',
+    longitude: '-99.1',
+    locationName: 'Taller',
+    locationAddress: 'Calle 4',
+    paymentType: 'free',
+    privacyType: 'private',
+    privateAccessType: 'solicitud',
+    organizerId: 1,
+    ...media
+  } as any);
+
+const requestToJoin = (eventId: number, userId: number) =>
+  storage.insertEventAttendee({ eventId, userId, status: 'pending', paymentStatus: 'pending', paymentIntentId: null, applicationAnswers: null });
+
+test('pending requests are rejected and the requester notified once the event starts', async () => {
+  const now = new Date();
+  const started = await createEvent(new Date(now.getTime() - 60 * 1000));
+  const upcoming = await createEvent(new Date(now.getTime() + DAY_MS));
+  await requestToJoin(started.id, 301);
+  await requestToJoin(upcoming.id, 301);
+
+  const expired = await expirePendingRequests(now);
+
+  assert.deepEqual(expired.map(attendee => attendee.event_id), [started.id]);
+  assert.equal((await storage.getEventAttendee(started.id, 301))?.status, 'rejected');
+  assert.equal((await storage.getEventAttendee(upcoming.id, 301))?.status, 'pending');
+
+  const [notification] = await storage.getUserNotifications(301);
+  assert.equal(notification?.type, 'request_rejected');
+  assert.match(notification?.message, /expiró/);
+});
+
+test('only old uploads no event refers to are deleted', async () => {
+  const uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-uploads-'));
+  try {
+    for (const name of ['event-main.jpg', 'event-gallery.mp4', 'event-orphan.jpg', 'event-recent.jpg']) {
+      fs.writeFileSync(path.join(uploadsDir, name), '');
+    }
+    await createEvent(new Date(Date.now() + DAY_MS), {
+      mainMediaUrl: '/uploads/events/event-main.jpg',
+      mediaItems: JSON.stringify([{ type: 'video', url: '/uploads/events/event-gallery.mp4', order: 0, isMain: false }])
+    });
+
+    // The recent file was written just before the check, so only a run two days later may take it
+    const old = new Date(Date.now() - 2 * DAY_MS);
+    for (const name of ['event-main.jpg', 'event-gallery.mp4', 'event-orphan.jpg']) {
+      fs.utimesSync(path.join(uploadsDir, name), old, old);
+    }
+
+    assert.deepEqual(await deleteOrphanedEventMedia(new Date(), uploadsDir), ['event-orphan.jpg']);
+    assert.deepEqual(fs.readdirSync(uploadsDir).sort(), ['event-gallery.mp4', 'event-main.jpg', 'event-recent.jpg']);
+  } finally {
+    fs.rmSync(uploadsDir, { recursive: true, force: true });
+  }
+});
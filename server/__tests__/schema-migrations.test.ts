@@ -0,0 +1,28 @@
+import './test-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import { MIGRATIONS_FOLDER, checkSchemaDrift, describeSchemaDrift } from '../schema-migrations';
+
+// Stand-in for pg.Pool: every migration applied, and the given information_schema columns
+const fakePool = (columns: Array<{ table_name: string; column_name: string; udt_name: string }>) => {
+  const applied = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER })
+    .map(migration => ({ hash: migration.hash, created_at: String(migration.folderMillis) }));
+  return {
+    query: async (sql: string) => ({ rows: sql.includes('__drizzle_migrations') ? applied : columns })
+  } as any;
+};
+
+test('a column left as text where the schema has jsonb is reported', async () => {
+  const drift = await checkSchemaDrift(fakePool([
+    { table_name: 'events', column_name: 'id', udt_name: 'int4' },
+    { table_name: 'events', column_name: 'date', udt_name: 'timestamp' },
+    { table_name: 'events', column_name: 'latitude', udt_name: 'numeric' },
+    { table_name: 'events', column_name: 'status', udt_name: 'event_status' },
+    { table_name: 'events', column_name: 'application_questions', udt_name: 'text' },
+  ]));
+
+  assert.deepEqual(drift.pendingMigrations, []);
+  assert.deepEqual(drift.mismatchedColumns, ['events.application_questions is text, expected jsonb']);
+  assert.ok(describeSchemaDrift(drift).includes('Columns with a different type: events.application_questions is text, expected jsonb'));
+});
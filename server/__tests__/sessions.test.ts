@@ -0,0 +1,56 @@
+import './test-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promisify } from 'node:util';
+import {
+  HttpSessionStore,
+  createSession,
+  deleteExpiredSessions,
+  destroyUserSessions,
+  getSession,
+  listUserSessions
+} from '../session-auth';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const cookieExpiringIn = (ms: number) => ({ originalMaxAge: ms, expires: new Date(Date.now() + ms) }) as any;
+
+test('express sessions are kept in storage until destroyed', async () => {
+  const store = new HttpSessionStore();
+  const get = promisify(store.get.bind(store));
+  const data = { cookie: cookieExpiringIn(HOUR_MS), passport: { user: 7 }, authSessionId: 'abc' } as any;
+
+  await promisify(store.set.bind(store))('sid-1', data);
+  assert.deepEqual((await get('sid-1') as any)?.passport, { user: 7 });
+
+  await promisify(store.destroy.bind(store))('sid-1');
+  assert.equal(await get('sid-1'), null);
+});
+
+test('an expired express session is not returned', async () => {
+  const store = new HttpSessionStore();
+  await promisify(store.set.bind(store))('sid-2', { cookie: cookieExpiringIn(-1000) } as any);
+
+  assert.equal(await promisify(store.get.bind(store))('sid-2'), null);
+});
+
+test('login sessions are stored, listed and revoked per user', async () => {
+  const first = await createSession(11, 'ana@example.com', { userAgent: 'test' });
+  await createSession(11, 'ana@example.com');
+
+  assert.equal((await getSession(first))?.userId, 11);
+  assert.equal((await listUserSessions(11)).length, 2);
+
+  assert.equal(await destroyUserSessions(11), 2);
+  assert.equal(await getSession(first), null);
+});
+
+test('the cleanup job deletes expired sessions only', async () => {
+  const store = new HttpSessionStore();
+  const get = promisify(store.get.bind(store));
+  await promisify(store.set.bind(store))('sid-live', { cookie: cookieExpiringIn(3 * HOUR_MS) } as any);
+  await promisify(store.set.bind(store))('sid-old', { cookie: cookieExpiringIn(HOUR_MS) } as any);
+
+  assert.equal(await deleteExpiredSessions(new Date(Date.now() + 2 * HOUR_MS)), 1);
+  assert.notEqual(await get('sid-live'), null);
+});
@@ -0,0 +1,161 @@
+import './test-env';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+const AMOUNT_PAID_CENTS = 2500;
+
+// A tiny stand-in for the Stripe API: refunds.ts reads the payment intent and creates a refund
+const stripeRequests: string[] = [];
+const fakeStripe = http.createServer((req, res) => {
+  stripeRequests.push(`${req.method} ${req.url}`);
+  res.setHeader('Content-Type', 'application/json');
+  if (req.method === 'GET' && req.url?.startsWith('/v1/payment_intents/')) {
+    const id = req.url.split('/').pop();
+    return res.end(JSON.stringify({ id, object: 'payment_intent', amount_received: AMOUNT_PAID_CENTS }));
+  }
+  if (req.method === 'POST' && req.url === '/v1/refunds') {
+    return res.end(JSON.stringify({ id: `re_test_${stripeRequests.length}`, object: 'refund', amount: AMOUNT_PAID_CENTS }));
+  }
+  res.statusCode = 404;
+  res.end(JSON.stringify({ error: { message: `Unexpected request ${req.method} ${req.url}` } }));
+});
+
+let storage: typeof import('../storage')['storage'];
+let payments: typeof import('../stripe-payments');
+
+before(async () => {
+  await new Promise<void>(resolve => fakeStripe.listen(0, resolve));
+  const { port } = fakeStripe.address() as AddressInfo;
+  process.env.STRIPE_SECRET_KEY = 'sk_test_fake';
+  process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  process.env.STRIPE_API_HOST = 'localhost';
+  process.env.STRIPE_API_PORT = String(port);
+  process.env.STRIPE_API_PROTOCOL = 'http';
+
+  ({ storage } = await import('../storage'));
+  payments = await import('../stripe-payments');
+});
+
+after(() => {
+  fakeStripe.close();
+});
+
+async function createPaidEvent(maxCapacity: number | null) {
+  return storage.insertEvent({
+    title: 'Cata de vinos',
+    description: 'Evento de pago',
+    category: 'social',
+    date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    latitude: '19.4',
+    longitude: '-99.1',
+    locationName: 'Bodega',
+    locationAddress: 'Calle 1',
+    paymentType: 'paid',
+    price: '25',
+    maxCapacity,
+    privacyType: 'private',
+    privateAccessType: 'paga',
+    organizerId: 1
+  } as any);
+}
+
+// What the checkout route leaves behind: a pending attendee holding the session id
+async function startCheckout(eventId: number, userId: number) {
+  return storage.insertEventAttendee({
+    eventId,
+    userId,
+    status: 'pending',
+    paymentStatus: 'pending',
+    paymentIntentId: `cs_test_${eventId}_${userId}`,
+    applicationAnswers: null
+  });
+}
+
+// A checkout.session.completed delivery, signed the way Stripe signs it
+function signedCheckoutCompleted(attendee: any) {
+  const payload = JSON.stringify({
+    id: `evt_test_${attendee.id}`,
+    object: 'event',
+    type: 'checkout.session.completed',
+    data: {
+      object: {
+        id: attendee.payment_intent_id,
+        object: 'checkout.session',
+        payment_status: 'paid',
+        payment_intent: `pi_test_${attendee.id}`,
+        metadata: {
+          eventId: String(attendee.event_id),
+          userId: String(attendee.user_id),
+          attendeeId: String(attendee.id)
+        }
+      }
+    }
+  });
+  const signature = payments.stripe!.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+  return { payload, signature };
+}
+
+async function deliver(attendee: any) {
+  const { payload, signature } = signedCheckoutCompleted(attendee);
+  const stripeEvent = payments.constructWebhookEvent(Buffer.from(payload), signature);
+  return payments.handleStripeWebhookEvent(stripeEvent);
+}
+
+test('rejects payloads that are not signed with the webhook secret', async () => {
+  const event = await createPaidEvent(null);
+  const attendee = await startCheckout(event.id, 101);
+  const { payload } = signedCheckoutCompleted(attendee);
+  const forged = payments.stripe!.webhooks.generateTestHeaderString({ payload, secret: 'whsec_wrong' });
+
+  assert.throws(() => payments.constructWebhookEvent(Buffer.from(payload), forged));
+  assert.equal((await storage.getEventAttendee(event.id, 101))?.status, 'pending');
+});
+
+test('a completed checkout approves the attendee and stores the payment intent', async () => {
+  const event = await createPaidEvent(10);
+  const attendee = await startCheckout(event.id, 102);
+
+  await deliver(attendee);
+
+  const stored = await storage.getEventAttendee(event.id, 102);
+  assert.equal(stored?.status, 'approved');
+  assert.equal(stored?.payment_status, 'succeeded');
+  assert.equal(stored?.payment_intent_id, `pi_test_${attendee.id}`);
+});
+
+test('a redelivered event leaves the approved attendee as it was', async () => {
+  const event = await createPaidEvent(1);
+  const attendee = await startCheckout(event.id, 103);
+
+  await deliver(attendee);
+  await deliver(attendee);
+
+  const stored = await storage.getEventAttendee(event.id, 103);
+  assert.equal(stored?.status, 'approved');
+  assert.equal(stored?.refund_status, null);
+});
+
+test('a checkout completed after the last spot was taken is refunded instead of overbooking', async () => {
+  const event = await createPaidEvent(1);
+  const first = await startCheckout(event.id, 104);
+  const second = await startCheckout(event.id, 105);
+  stripeRequests.length = 0;
+
+  await deliver(first);
+  await deliver(second);
+
+  assert.equal(await storage.countApprovedAttendees(event.id), 1);
+  assert.equal((await storage.getEventAttendee(event.id, 104))?.status, 'approved');
+
+  const refunded = await storage.getEventAttendee(event.id, 105);
+  assert.equal(refunded?.status, 'cancelled');
+  assert.equal(refunded?.refund_status, 'refunded');
+  assert.equal(Number(refunded?.refund_amount), AMOUNT_PAID_CENTS / 100);
+  assert.deepEqual(stripeRequests, [`GET /v1/payment_intents/pi_test_${second.id}`, 'POST /v1/refunds']);
+
+  const notifications = await storage.getUserNotifications(105);
+  assert.equal(notifications[0]?.type, 'refund_issued');
+});
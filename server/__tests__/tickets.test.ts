@@ -0,0 +1,23 @@
+import './test-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTicketToken, verifyTicketToken } from '../tickets';
+
+const attendee = { id: 7, event_id: 3, user_id: 42 };
+
+test('a ticket token verifies back to its attendee', () => {
+  assert.deepEqual(verifyTicketToken(createTicketToken(attendee)), { attendeeId: 7, eventId: 3, userId: 42 });
+});
+
+test('a tampered ticket token is rejected', () => {
+  const [payload, signature] = createTicketToken(attendee).split('.');
+  const forged = Buffer.from(JSON.stringify({ attendeeId: 8, eventId: 3, userId: 42 })).toString('base64url');
+  assert.equal(verifyTicketToken(`${forged}.${signature}`), null);
+  assert.equal(verifyTicketToken(`${payload}.`), null);
+});
+
+test('a token that is not a string is rejected instead of throwing', () => {
+  for (const token of [undefined, null, 42, { token: 'x' }, ['a.b']]) {
+    assert.equal(verifyTicketToken(token), null);
+  }
+});
@@ -0,0 +1,18 @@
+import express, { Request, Response } from 'express';
+import { requireAdmin } from './identity';
+import { jobScheduler } from './job-scheduler';
+
+// Router for operational endpoints, only for the users in ADMIN_USER_IDS
+const adminRouter = express.Router();
+
+// Background jobs: schedule, which instance holds the lease, last run and failures
+adminRouter.get('/api/admin/jobs', requireAdmin, async (_req: Request, res: Response) => {
+  try {
+    res.json(await jobScheduler.getStatus());
+  } catch (error) {
+    console.error('Error fetching scheduled jobs:', error);
+    res.status(500).json({ message: 'Failed to fetch scheduled jobs' });
+  }
+});
+
+export { adminRouter };
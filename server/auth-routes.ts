@@ -1,13 +1,7 @@
 import express, { Request, Response } from 'express';
 import { loginUserSchema, insertUserSchema } from '@shared/schema';
-// import { registerUser, loginUser, logoutUser, getCurrentUser, isAuthenticatedMiddleware } from './supabase-auth';
-
-// Temporary auth functions for local development
-const registerUser = async () => ({ success: false, message: "Auth disabled for local dev" });
-const loginUser = async () => ({ success: false, message: "Auth disabled for local dev" });
-const logoutUser = async () => ({ success: true });
-const getCurrentUser = async () => null;
-const isAuthenticatedMiddleware = (req: any, res: any, next: any) => { next(); };
+import { registerUser, loginUser, logoutUser, getCurrentUser } from './supabase-auth';
+import { requireAuth } from './identity';
 
 const router = express.Router();
 
@@ -141,7 +135,7 @@ router.post('/logout', async (req: Request, res: Response) => {
 /**
  * Get current user
  */
-router.get('/me', isAuthenticatedMiddleware, (req: Request, res: Response) => {
+router.get('/me', requireAuth, (req: Request, res: Response) => {
   // User will be set by the middleware
   return res.status(200).json({
     user: req.user
@@ -0,0 +1,149 @@
+import express, { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { storage } from './storage';
+import { uploadFile } from './supabase-storage';
+import { getChatServer } from './websocket-server';
+import { requireAuth } from './identity';
+import type { ChatAttachment } from '@shared/schema';
+import {
+  CHAT_FILE_MAX_BYTES,
+  formatFileSize,
+  getChatAttachmentMaxBytes,
+  isAllowedChatAttachmentType,
+  isChatImageType,
+} from '@shared/chat-attachments';
+
+// Router para adjuntos del chat de eventos (imágenes y archivos)
+const chatAttachmentRouter = express.Router();
+
+// Multer deja el archivo en un directorio temporal; uploadFile lo sube al bucket y luego se borra
+const chatUpload = multer({
+  storage: multer.diskStorage({
+    destination: os.tmpdir(),
+    filename: (req, file, cb) => {
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+      cb(null, 'chat-' + uniqueSuffix + path.extname(file.originalname));
+    }
+  }),
+  fileFilter: (req, file, cb) => {
+    if (!isAllowedChatAttachmentType(file.mimetype)) {
+      return cb(new Error(`Tipo de archivo no permitido: ${file.mimetype}`));
+    }
+    cb(null, true);
+  },
+  limits: { fileSize: CHAT_FILE_MAX_BYTES, files: 1 }
+}).single('file');
+
+const handleChatUpload = (req: Request, res: Response, next: NextFunction) => {
+  chatUpload(req, res, (err: any) => {
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({
+        message: "El archivo es demasiado grande",
+        details: `El tamaño máximo permitido es ${formatFileSize(CHAT_FILE_MAX_BYTES)}`
+      });
+    }
+    if (err) {
+      return res.status(400).json({ message: err.message || "Error al subir el archivo" });
+    }
+    next();
+  });
+};
+
+const removeTempFile = (file?: Express.Multer.File) => {
+  if (file && fs.existsSync(file.path)) {
+    fs.unlinkSync(file.path);
+  }
+};
+
+// Dimensiones que mide el cliente antes de subir la imagen
+const parseDimension = (value: unknown) => {
+  const number = parseInt(String(value));
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+// Enviar una imagen o archivo al chat de un evento
+chatAttachmentRouter.post('/api/events/:id/chat/attachments', requireAuth, handleChatUpload, async (req: Request, res: Response) => {
+  const file = req.file;
+  try {
+    const user = req.user as any;
+    const eventId = parseInt(req.params.id);
+
+    if (!file) {
+      return res.status(400).json({ message: "No se recibió ningún archivo" });
+    }
+
+    // Las imágenes tienen un límite menor que los demás archivos
+    const maxBytes = getChatAttachmentMaxBytes(file.mimetype);
+    if (file.size > maxBytes) {
+      return res.status(400).json({
+        message: "El archivo es demasiado grande",
+        details: `El tamaño máximo permitido es ${formatFileSize(maxBytes)}`
+      });
+    }
+
+    const chatServer = getChatServer();
+    if (!chatServer) {
+      return res.status(503).json({ message: "Chat no disponible" });
+    }
+
+    if (!await chatServer.verifyEventAccess(user.id, eventId)) {
+      return res.status(403).json({ message: "No tienes acceso al chat de este evento" });
+    }
+
+    if (await chatServer.isChatReadOnly(eventId)) {
+      return res.status(409).json({ message: "El chat de este evento es de solo lectura" });
+    }
+
+    const replyToId = req.body.replyToId ? parseInt(req.body.replyToId) : null;
+    if (replyToId) {
+      const replyTarget = await storage.getChatMessageById(replyToId);
+
+      if (!replyTarget || Number(replyTarget.event_id) !== eventId) {
+        return res.status(400).json({ message: "Mensaje a responder no encontrado" });
+      }
+    }
+
+    const isImage = isChatImageType(file.mimetype);
+    const url = await uploadFile(file.path, `chat/${eventId}`);
+    const attachment: ChatAttachment = {
+      url,
+      name: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+      ...(isImage && {
+        width: parseDimension(req.body.width),
+        height: parseDimension(req.body.height),
+      }),
+    };
+
+    const caption = typeof req.body.caption === 'string' ? req.body.caption.trim() : '';
+    let newMessage;
+    try {
+      newMessage = await storage.insertChatMessage({
+        eventId,
+        senderId: user.id,
+        content: caption,
+        messageType: isImage ? 'image' : 'file',
+        attachment,
+        replyToId
+      });
+    } catch (error) {
+      console.error('❌ Error inserting attachment message:', error);
+      return res.status(500).json({ message: "Error al guardar el mensaje" });
+    }
+
+    const message = await chatServer.publishNewMessage(eventId, newMessage.id);
+    console.log(`📎 Attachment sent in event ${eventId} by user ${user.id}`);
+    res.status(201).json(message);
+  } catch (error) {
+    console.error('❌ Error sending chat attachment:', error);
+    res.status(500).json({ message: "Error al enviar el adjunto" });
+  } finally {
+    removeTempFile(file);
+  }
+});
+
+export { chatAttachmentRouter };
@@ -0,0 +1,195 @@
+import { EventEmitter } from 'events';
+import pg from 'pg';
+
+// Postgres NOTIFY payloads must be shorter than 8000 bytes
+const NOTIFY_PAYLOAD_LIMIT = 7999;
+
+const POSTGRES_CHANNEL = 'chat_bus';
+
+const RECONNECT_DELAY_MS = 5000;
+
+// Who should receive a frame: the sockets in an event room or a conversation, or every socket of some users.
+// 'presence' and 'presence_request' go to the other instances themselves: data is one instance's users
+// in one event room, and a request asks every instance to send theirs again
+export type ChatBusTarget =
+  | { kind: 'event_room'; eventId: number; excludeClientId?: string }
+  | { kind: 'conversation_room'; conversationId: number; excludeClientId?: string }
+  | { kind: 'users'; userIds: number[] }
+  | { kind: 'presence' }
+  | { kind: 'presence_request' };
+
+export interface ChatBusEnvelope {
+  origin: string;
+  target: ChatBusTarget;
+  data: any;
+}
+
+export type ChatBusHandler = (envelope: ChatBusEnvelope) => void;
+
+/**
+ * Carries chat frames between server instances. Each instance delivers a frame to its own
+ * sockets and publishes it here so the others can deliver it to theirs.
+ */
+export interface ChatBus {
+  publish(envelope: ChatBusEnvelope): Promise<void>;
+  subscribe(handler: ChatBusHandler): void;
+  close(): Promise<void>;
+}
+
+// Shared by every in-process bus, so several chat servers in one process (dev, tests) see each other
+const inProcessHub = new EventEmitter();
+inProcessHub.setMaxListeners(0);
+
+export class InProcessChatBus implements ChatBus {
+  private listeners: Array<(payload: string) => void> = [];
+
+  constructor(private hub: EventEmitter = inProcessHub) {}
+
+  async publish(envelope: ChatBusEnvelope) {
+    // Serialize like the Postgres bus does, so no subscriber shares objects with the publisher
+    const payload = JSON.stringify(envelope);
+    setImmediate(() => this.hub.emit('message', payload));
+  }
+
+  subscribe(handler: ChatBusHandler) {
+    const listener = (payload: string) => handler(JSON.parse(payload));
+    this.listeners.push(listener);
+    this.hub.on('message', listener);
+  }
+
+  async close() {
+    for (const listener of this.listeners) {
+      this.hub.off('message', listener);
+    }
+    this.listeners = [];
+  }
+}
+
+/**
+ * LISTEN/NOTIFY on a dedicated connection. Frames published while the connection is down
+ * are dropped for the other instances (their own instance already delivered them).
+ */
+export class PostgresChatBus implements ChatBus {
+  private client: pg.Client | null = null;
+  private handlers: ChatBusHandler[] = [];
+  private connecting: Promise<void> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(private connectionString: string) {
+    this.connect();
+  }
+
+  private connect() {
+    if (!this.connecting) {
+      this.connecting = this.openConnection().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async openConnection() {
+    const client = new pg.Client({ connectionString: this.connectionString });
+
+    client.on('notification', (notification) => {
+      if (notification.channel !== POSTGRES_CHANNEL || !notification.payload) {
+        return;
+      }
+      let envelope: ChatBusEnvelope;
+      try {
+        envelope = JSON.parse(notification.payload);
+      } catch (error) {
+        console.error('❌ Chat bus received an invalid payload:', error);
+        return;
+      }
+      this.handlers.forEach(handler => handler(envelope));
+    });
+    client.on('error', (error) => {
+      console.error('❌ Chat bus connection error:', error.message);
+      this.dropConnection(client);
+    });
+    client.on('end', () => this.dropConnection(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${POSTGRES_CHANNEL}`);
+      this.client = client;
+      console.log('📡 Chat bus listening on Postgres');
+    } catch (error) {
+      console.error('❌ Chat bus could not connect to Postgres:', error);
+      this.dropConnection(client);
+    }
+  }
+
+  private dropConnection(client: pg.Client) {
+    if (this.client === client) {
+      this.client = null;
+    }
+    client.removeAllListeners('notification');
+    client.end().catch(() => {});
+
+    if (!this.closed && !this.reconnectTimer) {
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, RECONNECT_DELAY_MS);
+    }
+  }
+
+  async publish(envelope: ChatBusEnvelope) {
+    const payload = JSON.stringify(envelope);
+    if (Buffer.byteLength(payload) > NOTIFY_PAYLOAD_LIMIT) {
+      console.warn(`⚠️ Chat bus frame '${envelope.data?.type}' is too large for NOTIFY; delivered on this instance only`);
+      return;
+    }
+
+    if (!this.client) {
+      await this.connect();
+    }
+    if (!this.client) {
+      console.warn('⚠️ Chat bus is disconnected; frame delivered on this instance only');
+      return;
+    }
+
+    try {
+      await this.client.query('SELECT pg_notify($1, $2)', [POSTGRES_CHANNEL, payload]);
+    } catch (error) {
+      console.error('❌ Chat bus publish failed:', error);
+    }
+  }
+
+  subscribe(handler: ChatBusHandler) {
+    this.handlers.push(handler);
+  }
+
+  async close() {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    await this.connecting;
+    const client = this.client;
+    this.client = null;
+    this.handlers = [];
+    if (client) {
+      client.removeAllListeners();
+      await client.end().catch(() => {});
+    }
+  }
+}
+
+/**
+ * CHAT_BUS=postgres shares chat rooms between instances through DATABASE_URL;
+ * anything else keeps them in this process (single instance, development)
+ */
+export function createChatBus(): ChatBus {
+  if (process.env.CHAT_BUS === 'postgres') {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('CHAT_BUS=postgres requires DATABASE_URL');
+    }
+    return new PostgresChatBus(process.env.DATABASE_URL);
+  }
+  return new InProcessChatBus();
+}
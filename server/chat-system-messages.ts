@@ -0,0 +1,120 @@
+import { storage } from './storage';
+import { getChatServer } from './websocket-server';
+import type { ChatSystemEvent } from '@shared/schema';
+import { EVENT_REMINDER_HOURS, describeChatSystemEvent } from '@shared/chat-system-messages';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Stores a 'system' message in the event chat and broadcasts it to the room.
+ * sender_id is the user the entry is about (the organizer for event updates and reminders).
+ */
+export async function postSystemMessage(eventId: number, senderId: number, systemEvent: ChatSystemEvent) {
+  const message = await storage.insertChatMessage({
+    eventId,
+    senderId,
+    content: describeChatSystemEvent(systemEvent),
+    messageType: 'system',
+    systemEvent
+  });
+
+  await getChatServer()?.publishNewMessage(eventId, message.id);
+  return message;
+}
+
+// Lifecycle hooks never fail the request that triggered them
+async function postSafely(eventId: number, senderId: number, systemEvent: ChatSystemEvent) {
+  try {
+    await postSystemMessage(eventId, senderId, systemEvent);
+    console.log(`🤖 System message (${systemEvent.kind}) posted in event ${eventId}`);
+  } catch (error) {
+    console.error('❌ Error posting system message:', error);
+  }
+}
+
+const getDisplayName = async (userId: number) => {
+  const user = await storage.getUserById(userId);
+  return user?.name || user?.username || 'Alguien';
+};
+
+export async function announceAttendeeJoined(eventId: number, userId: number) {
+  await postSafely(eventId, userId, { kind: 'attendee_joined', userId, userName: await getDisplayName(userId) });
+}
+
+export async function announceAttendeeLeft(eventId: number, userId: number) {
+  await postSafely(eventId, userId, { kind: 'attendee_left', userId, userName: await getDisplayName(userId) });
+}
+
+const sameInstant = (a: any, b: any) =>
+  (a ? new Date(a).getTime() : null) === (b ? new Date(b).getTime() : null);
+
+/**
+ * Date, time and location changes between two versions of an event, or null when none of them changed
+ */
+export function getEventChanges(previous: any, updated: any) {
+  if (!previous || !updated) return null;
+
+  const changes: Extract<ChatSystemEvent, { kind: 'event_updated' }>['changes'] = {};
+  if (!sameInstant(previous.date, updated.date)) {
+    changes.date = new Date(updated.date).toISOString();
+  }
+  if (!sameInstant(previous.end_time, updated.end_time) && updated.end_time) {
+    changes.endTime = new Date(updated.end_time).toISOString();
+  }
+  if (previous.location_name !== updated.location_name || previous.location_address !== updated.location_address) {
+    changes.locationName = updated.location_name;
+    changes.locationAddress = updated.location_address;
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Posts one message listing the date, time and location changes between two versions of an event
+ */
+export async function announceEventChanges(previous: any, updated: any) {
+  const changes = getEventChanges(previous, updated);
+  if (!changes) return;
+  await postSafely(updated.id, updated.organizer_id, { kind: 'event_updated', changes });
+}
+
+// Last message of a cancelled event's chat, which is read-only from then on
+export async function announceEventCancelled(event: any) {
+  await postSafely(event.id, event.organizer_id, { kind: 'event_cancelled' });
+}
+
+/**
+ * Posts the 24h and 1h reminders for events starting soon. Each reminder is claimed in
+ * event_chat_reminders first, so it is posted once even with several instances running.
+ */
+export async function sendDueEventReminders(now: Date = new Date()) {
+  const horizon = new Date(now.getTime() + Math.max(...EVENT_REMINDER_HOURS) * HOUR_MS);
+  // A failed query fails the run, so the job scheduler retries it
+  const events = await storage.getEventsStartingBetween(now, horizon);
+
+  let sent = 0;
+  for (const event of events) {
+    const startsAt = new Date(event.date);
+    const hoursLeft = (startsAt.getTime() - now.getTime()) / HOUR_MS;
+    // Only the closest reminder that is due: an event created 30 minutes before start gets the 1h one only
+    const hoursBefore = Math.min(...EVENT_REMINDER_HOURS.filter(hours => hoursLeft <= hours));
+
+    let claimed: boolean;
+    try {
+      claimed = await storage.claimEventChatReminder(event.id, hoursBefore, startsAt);
+    } catch (claimError) {
+      console.error('❌ Error claiming event reminder:', claimError.message);
+      continue;
+    }
+    if (!claimed) continue;
+
+    await postSafely(event.id, event.organizer_id, {
+      kind: 'event_reminder',
+      hoursBefore,
+      startsAt: startsAt.toISOString()
+    });
+    sent++;
+  }
+
+  return sent;
+}
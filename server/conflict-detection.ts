@@ -1,4 +1,5 @@
-import { supabase } from './supabase-client';
+import { storage } from './storage';
+import { generateOccurrences, type RecurrenceRuleInput } from '@shared/recurrence';
 
 export interface ConflictCheckParams {
   userId: number;
@@ -6,6 +7,9 @@ export interface ConflictCheckParams {
   endTime: Date;
   paymentType: 'free' | 'paid';
   excludeEventId?: number; // For editing events
+  excludeSeriesId?: number; // For editing "all future occurrences" of a series
+  recurrence?: RecurrenceRuleInput | null; // When set, every occurrence of the series is checked
+  windows?: Array<{ index: number; startTime: Date; endTime: Date }>; // Explicit windows, e.g. occurrences moved by an edit
 }
 
 export interface ConflictResult {
@@ -17,111 +21,106 @@ export interface ConflictResult {
     endTime: Date;
     paymentType: string;
     role: 'creator' | 'attendee';
+    occurrenceIndex?: number; // Occurrence of the new series that overlaps
   }>;
   message?: string;
 }
 
+/**
+ * Find the first time window that overlaps with an existing event
+ */
+function findOverlappingWindow(
+  windows: Array<{ index: number; startTime: Date; endTime: Date }>,
+  eventStart: Date,
+  eventEnd: Date
+) {
+  return windows.find(({ startTime, endTime }) => (
+    (startTime >= eventStart && startTime < eventEnd) ||
+    (endTime > eventStart && endTime <= eventEnd) ||
+    (startTime <= eventStart && endTime >= eventEnd)
+  ));
+}
+
 /**
  * Check for scheduling conflicts for a user
  * Rules:
  * 1. Users cannot create or attend events that overlap in time
  * 2. Paid event creators cannot create overlapping events  
  * 3. Free event creators cannot create overlapping events
+ * 4. Recurring series are checked occurrence by occurrence
  */
 export async function checkEventConflicts(params: ConflictCheckParams): Promise<ConflictResult> {
-  const { userId, startTime, endTime, paymentType, excludeEventId } = params;
+  const { userId, startTime, endTime, paymentType, excludeEventId, excludeSeriesId, recurrence } = params;
+  const explicitWindows = params.windows;
 
   try {
     console.log(`🕐 Checking conflicts for user ${userId} from ${startTime.toISOString()} to ${endTime.toISOString()}`);
 
-    // Get events the user created
-    let createdEventsQuery = supabase
-      .from('events')
-      .select('id, title, date, end_time, payment_type')
-      .eq('organizer_id', userId);
+    // Time windows to check: the given ones, one per occurrence of the series, or a single one
+    const windows = explicitWindows
+      ? explicitWindows
+      : recurrence
+        ? generateOccurrences(startTime, endTime, recurrence)
+        : [{ index: 0, startTime, endTime }];
 
-    if (excludeEventId) {
-      createdEventsQuery = createdEventsQuery.neq('id', excludeEventId);
+    if (windows.length > 1) {
+      console.log(`🕐 Checking ${windows.length} occurrences of recurring series`);
     }
 
-    const { data: createdEvents, error: createdError } = await createdEventsQuery;
-
-    if (createdError) {
-      console.error('Error fetching created events:', createdError);
-      throw createdError;
-    }
+    // Get events the user created
+    const createdEvents = (await storage.getUserCreatedEvents(userId)).filter(event =>
+      event.id !== excludeEventId && (!excludeSeriesId || event.series_id !== excludeSeriesId)
+    );
 
     // Get events the user is attending
-    let attendingEventsQuery = supabase
-      .from('event_attendees')
-      .select(`
-        events!inner(id, title, date, end_time, payment_type)
-      `)
-      .eq('user_id', userId)
-      .eq('status', 'approved');
-
-    const { data: attendingEvents, error: attendingError } = await attendingEventsQuery;
-
-    if (attendingError) {
-      console.error('Error fetching attending events:', attendingError);
-      throw attendingError;
-    }
+    const attendingEvents = await storage.getApprovedAttendances(userId);
 
     const conflictingEvents: ConflictResult['conflictingEvents'] = [];
 
     // Check conflicts with created events
-    if (createdEvents) {
-      for (const event of createdEvents) {
-        if (!event.end_time) continue; // Skip events without end time
-        
-        const eventStart = new Date(event.date);
-        const eventEnd = new Date(event.end_time);
-
-        // Check for overlap: events conflict if they overlap in any way
-        const hasOverlap = (
-          (startTime >= eventStart && startTime < eventEnd) ||
-          (endTime > eventStart && endTime <= eventEnd) ||
-          (startTime <= eventStart && endTime >= eventEnd)
-        );
-
-        if (hasOverlap) {
-          conflictingEvents.push({
-            id: event.id,
-            title: event.title,
-            startTime: eventStart,
-            endTime: eventEnd,
-            paymentType: event.payment_type,
-            role: 'creator'
-          });
-        }
+    for (const event of createdEvents) {
+      if (!event.end_time) continue; // Skip events without end time
+      if (event.status === 'cancelled') continue; // Cancelled events free up the slot
+      
+      const eventStart = new Date(event.date);
+      const eventEnd = new Date(event.end_time);
+
+      // Check for overlap: events conflict if they overlap in any way
+      const overlapping = findOverlappingWindow(windows, eventStart, eventEnd);
+
+      if (overlapping) {
+        conflictingEvents.push({
+          id: event.id,
+          title: event.title,
+          startTime: eventStart,
+          endTime: eventEnd,
+          paymentType: event.payment_type,
+          role: 'creator',
+          occurrenceIndex: windows.length > 1 ? overlapping.index : undefined
+        });
       }
     }
 
     // Check conflicts with attending events
-    if (attendingEvents) {
-      for (const attendeeRecord of attendingEvents) {
-        const event = attendeeRecord.events;
-        if (!event || !event.end_time) continue;
-
-        const eventStart = new Date(event.date);
-        const eventEnd = new Date(event.end_time);
-
-        const hasOverlap = (
-          (startTime >= eventStart && startTime < eventEnd) ||
-          (endTime > eventStart && endTime <= eventEnd) ||
-          (startTime <= eventStart && endTime >= eventEnd)
-        );
-
-        if (hasOverlap) {
-          conflictingEvents.push({
-            id: event.id,
-            title: event.title,
-            startTime: eventStart,
-            endTime: eventEnd,
-            paymentType: event.payment_type,
-            role: 'attendee'
-          });
-        }
+    for (const attendeeRecord of attendingEvents) {
+      const event = attendeeRecord.event;
+      if (!event || !event.end_time || event.status === 'cancelled') continue;
+
+      const eventStart = new Date(event.date);
+      const eventEnd = new Date(event.end_time);
+
+      const overlapping = findOverlappingWindow(windows, eventStart, eventEnd);
+
+      if (overlapping) {
+        conflictingEvents.push({
+          id: event.id,
+          title: event.title,
+          startTime: eventStart,
+          endTime: eventEnd,
+          paymentType: event.payment_type,
+          role: 'attendee',
+          occurrenceIndex: windows.length > 1 ? overlapping.index : undefined
+        });
       }
     }
 
@@ -165,13 +164,9 @@ export async function checkEventConflicts(params: ConflictCheckParams): Promise<
 export async function canUserAttendEvent(userId: number, eventId: number): Promise<ConflictResult> {
   try {
     // Get the event details
-    const { data: event, error } = await supabase
-      .from('events')
-      .select('date, end_time, payment_type')
-      .eq('id', eventId)
-      .single();
+    const event = await storage.getEventById(eventId);
 
-    if (error || !event) {
+    if (!event) {
       return {
         hasConflict: true,
         conflictingEvents: [],
@@ -216,20 +211,9 @@ export async function removeFinishedEvents(): Promise<void> {
     
     console.log(`🕐 Removing events that ended before ${now.toISOString()}`);
 
-    // For now, we'll mark events as "ended" instead of deleting them
-    // This can be used by the frontend to filter out ended events
-    const { error } = await supabase
-      .from('events')
-      .update({ 
-        // We could add an "ended" status field, but for now just log
-      })
-      .lt('end_time', now.toISOString());
-
-    if (error) {
-      console.error('Error removing finished events:', error);
-    } else {
-      console.log('🕐 Finished events processing completed');
-    }
+    // Ended events stay in the database; every event query (search_events, tiles)
+    // already leaves out events whose end_time has passed
+    console.log('🕐 Finished events processing completed');
 
   } catch (error) {
     console.error('Error in removeFinishedEvents:', error);
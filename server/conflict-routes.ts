@@ -1,12 +1,13 @@
 import express from 'express';
 import { checkEventConflicts, canUserAttendEvent } from './conflict-detection';
+import { recurrenceRuleSchema } from '@shared/schema';
 
 const router = express.Router();
 
 // Check for conflicts when creating/editing events
 router.post('/check-conflicts', async (req, res) => {
   try {
-    const { startTime, endTime, paymentType, excludeEventId } = req.body;
+    const { startTime, endTime, paymentType, excludeEventId, excludeSeriesId, recurrence } = req.body;
     
     if (!req.user) {
       return res.status(401).json({ message: 'Authentication required' });
@@ -16,12 +17,24 @@ router.post('/check-conflicts', async (req, res) => {
       return res.status(400).json({ message: 'Start time and end time are required' });
     }
 
+    // Validate the recurrence rule when checking a whole series
+    let recurrenceRule = null;
+    if (recurrence) {
+      const parsedRule = recurrenceRuleSchema.safeParse(recurrence);
+      if (!parsedRule.success) {
+        return res.status(400).json({ message: 'Invalid recurrence rule', errors: parsedRule.error.errors });
+      }
+      recurrenceRule = parsedRule.data;
+    }
+
     const result = await checkEventConflicts({
       userId: req.user.id,
       startTime: new Date(startTime),
       endTime: new Date(endTime),
       paymentType: paymentType || 'free',
-      excludeEventId
+      excludeEventId,
+      excludeSeriesId,
+      recurrence: recurrenceRule
     });
 
     res.json(result);
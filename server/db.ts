@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import { supabaseService } from './supabase-client';
+import { getPostgresPool } from './postgres';
 
 // Load environment variables
 dotenv.config();
@@ -219,6 +220,17 @@ export const db = {
   execute: async (query: any) => {
     // CRITICAL FIX: Actually execute SQL using Supabase service client
     console.log("Executing SQL:", typeof query === 'string' ? query.substring(0, 100) + '...' : query.toString());
+
+    // Queries go to the same database as the selected storage backend
+    if (process.env.STORAGE_BACKEND === 'postgres') {
+      const result: any = await getPostgresPool().query(typeof query === 'string' ? query : query.sql);
+      // Several statements in one string return one result each
+      const last = Array.isArray(result) ? result[result.length - 1] : result;
+      return { rows: last?.rows || [] };
+    }
+    if (process.env.STORAGE_BACKEND === 'memory') {
+      return { rows: [] };
+    }
     
     if (typeof query === 'object' && query.sql) {
       // Handle Drizzle-style query objects
@@ -0,0 +1,171 @@
+import express, { Request, Response } from 'express';
+import { storage } from './storage';
+import { requireAuth } from './identity';
+import { getChatServer } from './websocket-server';
+import {
+  isParticipant,
+  respondToMessageRequest,
+  sendDirectMessage,
+  serializeConversation,
+  serializeDirectMessage
+} from './direct-messages';
+
+// Router para mensajes directos entre usuarios y la lista de bloqueados
+const directMessageRouter = express.Router();
+
+// Conversaciones del usuario con el último mensaje y los no leídos
+directMessageRouter.get('/api/conversations', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const conversations = await storage.getUserConversations(user.id);
+
+    res.json(conversations.map((conversation: any) => ({
+      id: conversation.id,
+      status: conversation.status,
+      requestedBy: conversation.requested_by,
+      isIncomingRequest: conversation.status === 'request' && conversation.requested_by !== user.id,
+      otherUser: conversation.other_user,
+      lastMessageAt: conversation.last_message_at,
+      lastMessage: conversation.last_message_id ? {
+        id: conversation.last_message_id,
+        senderId: conversation.last_message_sender_id,
+        content: conversation.last_message_content
+      } : null,
+      unreadCount: conversation.unread_count
+    })));
+  } catch (error) {
+    console.error("Error fetching conversations:", error);
+    res.status(500).json({ message: "Failed to fetch conversations" });
+  }
+});
+
+// Primer mensaje a un usuario: crea la conversación (o una solicitud si no comparten eventos)
+directMessageRouter.post('/api/conversations', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const recipientId = parseInt(req.body.userId);
+    if (isNaN(recipientId)) {
+      return res.status(400).json({ message: "userId is required" });
+    }
+
+    const result = await sendDirectMessage(user.id, { recipientId }, req.body.content);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.reason });
+    }
+
+    getChatServer()?.publishDirectMessage(result.conversation, result.message);
+    res.status(201).json({
+      conversation: serializeConversation(result.conversation, user.id),
+      message: serializeDirectMessage(result.message)
+    });
+  } catch (error) {
+    console.error("Error starting conversation:", error);
+    res.status(500).json({ message: "Failed to send message" });
+  }
+});
+
+// Conversación existente con un usuario (null si nunca hablaron) y estado de bloqueo
+directMessageRouter.get('/api/users/:id/conversation', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const otherUserId = parseInt(req.params.id);
+
+    const [conversation, block, shareEvent] = await Promise.all([
+      storage.getConversationBetween(user.id, otherUserId),
+      storage.getBlockBetween(user.id, otherUserId),
+      storage.usersShareEvent(user.id, otherUserId)
+    ]);
+
+    res.json({
+      conversation: conversation ? serializeConversation(conversation, user.id) : null,
+      blockedByMe: block.blockedByMe,
+      blockedMe: block.blockedMe,
+      // Without a shared event the first message is sent as a message request
+      requiresRequest: !conversation && !shareEvent
+    });
+  } catch (error) {
+    console.error("Error fetching conversation:", error);
+    res.status(500).json({ message: "Failed to fetch conversation" });
+  }
+});
+
+directMessageRouter.get('/api/conversations/:id/messages', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const conversation = await storage.getConversationById(parseInt(req.params.id));
+    if (!conversation || !isParticipant(conversation, user.id)) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    const beforeId = req.query.beforeId ? parseInt(req.query.beforeId as string) : undefined;
+    const messages = await storage.getDirectMessages(conversation.id, 50, beforeId);
+    res.json(messages.map(serializeDirectMessage).reverse());
+  } catch (error) {
+    console.error("Error fetching direct messages:", error);
+    res.status(500).json({ message: "Failed to fetch messages" });
+  }
+});
+
+const answerRequest = (accept: boolean) => async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const result = await respondToMessageRequest(user.id, parseInt(req.params.id), accept);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.reason });
+    }
+
+    getChatServer()?.publishConversationUpdate(result.conversation);
+    res.json(serializeConversation(result.conversation, user.id));
+  } catch (error) {
+    console.error("Error answering message request:", error);
+    res.status(500).json({ message: "Failed to answer message request" });
+  }
+};
+
+directMessageRouter.post('/api/conversations/:id/accept', requireAuth, answerRequest(true));
+directMessageRouter.post('/api/conversations/:id/decline', requireAuth, answerRequest(false));
+
+// Lista de bloqueados: sin mensajes directos en ninguna dirección
+directMessageRouter.get('/api/users/blocked', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const blocks = await storage.getBlockedUsers(user.id);
+    res.json(blocks.map((block: any) => ({ ...block.user, blockedAt: block.created_at })));
+  } catch (error) {
+    console.error("Error fetching blocked users:", error);
+    res.status(500).json({ message: "Failed to fetch blocked users" });
+  }
+});
+
+directMessageRouter.post('/api/users/:id/block', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    const blockedId = parseInt(req.params.id);
+    if (isNaN(blockedId) || blockedId === user.id) {
+      return res.status(400).json({ message: "Invalid user" });
+    }
+    if (!(await storage.getUserById(blockedId))) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    await storage.blockUser(user.id, blockedId);
+    console.log(`🚫 User ${user.id} blocked user ${blockedId}`);
+    res.json({ blocked: true });
+  } catch (error) {
+    console.error("Error blocking user:", error);
+    res.status(500).json({ message: "Failed to block user" });
+  }
+});
+
+directMessageRouter.delete('/api/users/:id/block', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = req.user as any;
+    await storage.unblockUser(user.id, parseInt(req.params.id));
+    res.json({ blocked: false });
+  } catch (error) {
+    console.error("Error unblocking user:", error);
+    res.status(500).json({ message: "Failed to unblock user" });
+  }
+});
+
+export { directMessageRouter };
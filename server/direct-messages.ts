@@ -0,0 +1,135 @@
+import { storage } from './storage';
+
+export const MAX_DIRECT_MESSAGE_LENGTH = 2000;
+
+// Until the recipient accepts, a message request holds this many messages from the requester
+export const MAX_REQUEST_MESSAGES = 1;
+
+export type DirectMessageTarget = { conversationId: number } | { recipientId: number };
+
+// status and reason are set when ok is false
+export interface DirectMessageResult {
+  ok: boolean;
+  status?: number;
+  reason?: string;
+  conversation?: any;
+  message?: any;
+}
+
+const fail = (status: number, reason: string): DirectMessageResult => ({ ok: false, status, reason });
+
+export function isParticipant(conversation: any, userId: number) {
+  return conversation.user_a_id === userId || conversation.user_b_id === userId;
+}
+
+export function getOtherParticipantId(conversation: any, userId: number): number {
+  return conversation.user_a_id === userId ? conversation.user_b_id : conversation.user_a_id;
+}
+
+export function serializeDirectMessage(row: any) {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    senderId: row.sender_id,
+    content: row.content,
+    readAt: row.read_at,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Conversation as seen by one participant: the other user and whether it's a request waiting for them
+ */
+export function serializeConversation(conversation: any, userId: number) {
+  const otherUser = conversation.user_a_id === userId ? conversation.user_b : conversation.user_a;
+  return {
+    id: conversation.id,
+    status: conversation.status,
+    requestedBy: conversation.requested_by,
+    isIncomingRequest: conversation.status === 'request' && conversation.requested_by !== userId,
+    otherUser: otherUser || { id: getOtherParticipantId(conversation, userId) },
+    lastMessageAt: conversation.last_message_at,
+    createdAt: conversation.created_at
+  };
+}
+
+async function findConversation(senderId: number, target: DirectMessageTarget) {
+  if ('conversationId' in target) {
+    const conversation = await storage.getConversationById(target.conversationId);
+    return conversation && isParticipant(conversation, senderId) ? conversation : null;
+  }
+  return storage.getConversationBetween(senderId, target.recipientId);
+}
+
+/**
+ * Sends a direct message, creating the conversation on the first one.
+ * Users who share an event talk freely; otherwise the first message opens a request
+ * that the recipient accepts (or answers) before the requester can write again.
+ */
+export async function sendDirectMessage(senderId: number, target: DirectMessageTarget, rawContent: unknown): Promise<DirectMessageResult> {
+  const content = typeof rawContent === 'string' ? rawContent.trim() : '';
+  if (!content) {
+    return fail(400, 'Message content is required');
+  }
+  if (content.length > MAX_DIRECT_MESSAGE_LENGTH) {
+    return fail(400, `Messages can't be longer than ${MAX_DIRECT_MESSAGE_LENGTH} characters`);
+  }
+
+  let conversation = await findConversation(senderId, target);
+  if (!conversation && 'conversationId' in target) {
+    return fail(404, 'Conversation not found');
+  }
+
+  const recipientId = conversation ? getOtherParticipantId(conversation, senderId) : (target as { recipientId: number }).recipientId;
+  if (recipientId === senderId) {
+    return fail(400, 'You cannot message yourself');
+  }
+  if (!conversation && !(await storage.getUserById(recipientId))) {
+    return fail(404, 'User not found');
+  }
+
+  const block = await storage.getBlockBetween(senderId, recipientId);
+  if (block.blockedByMe || block.blockedMe) {
+    return fail(403, 'You cannot message this user');
+  }
+
+  if (!conversation) {
+    const shareEvent = await storage.usersShareEvent(senderId, recipientId);
+    conversation = await storage.createConversation(senderId, recipientId, shareEvent ? 'active' : 'request');
+  } else if (conversation.status !== 'active') {
+    const isRequester = conversation.requested_by === senderId;
+
+    if (!isRequester) {
+      // Replying to a request (or to one declined earlier) accepts it
+      conversation = await storage.updateConversation(conversation.id, { status: 'active' });
+    } else if (await storage.usersShareEvent(senderId, recipientId)) {
+      // They met at an event since the request was sent
+      conversation = await storage.updateConversation(conversation.id, { status: 'active' });
+    } else if (conversation.status === 'declined') {
+      return fail(403, 'Your message request was declined');
+    } else if (await storage.countDirectMessagesFrom(conversation.id, senderId) >= MAX_REQUEST_MESSAGES) {
+      return fail(403, 'Wait until your message request is accepted');
+    }
+  }
+
+  const message = await storage.insertDirectMessage(conversation.id, senderId, content);
+  conversation = await storage.updateConversation(conversation.id, { lastMessageAt: new Date(message.created_at) });
+
+  return { ok: true, conversation, message };
+}
+
+/**
+ * The recipient of a message request accepts or declines it
+ */
+export async function respondToMessageRequest(userId: number, conversationId: number, accept: boolean): Promise<DirectMessageResult> {
+  const conversation = await storage.getConversationById(conversationId);
+  if (!conversation || !isParticipant(conversation, userId)) {
+    return fail(404, 'Conversation not found');
+  }
+  if (conversation.status !== 'request' || conversation.requested_by === userId) {
+    return fail(400, 'There is no message request to answer');
+  }
+
+  const updated = await storage.updateConversation(conversationId, { status: accept ? 'active' : 'declined' });
+  return { ok: true, conversation: updated };
+}
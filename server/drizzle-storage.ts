@@ -0,0 +1,1209 @@
+import { and, asc, count, desc, eq, getTableColumns, gt, gte, inArray, isNotNull, isNull, lt, lte, ne, or, sql } from 'drizzle-orm';
+import {
+  users,
+  events,
+  eventSeries,
+  eventAttendees,
+  userInterests,
+  notifications,
+  userRatings,
+  chatMessages,
+  chatReadCursors,
+  eventChatReminders,
+  eventReminderNotifications,
+  conversations,
+  directMessages,
+  userBlocks,
+  scheduledJobs,
+  authSessions,
+  httpSessions,
+  type User,
+  type Event,
+  type EventAttendee,
+  type EventStatus,
+  type InsertUser,
+  type InsertEvent,
+  type InsertEventAttendee
+} from '@shared/schema';
+import type { PostgresDb } from './postgres';
+import type {
+  Storage,
+  AttendeePaymentUpdate,
+  AttendeeRefund,
+  BoundingBox,
+  CapacityApproval,
+  CapacityApprovalSource,
+  ConversationChanges,
+  EventSearchFilters,
+  EventTileCluster,
+  EventTiles,
+  JobRunResult,
+  NewAuthSession,
+  NewChatMessage,
+  NewEventSeries,
+  NewNotification,
+  EventOccurrenceUpdate,
+  RatingSummary
+} from './storage-types';
+import {
+  DEFAULT_EVENT_DURATION_MS,
+  DEFAULT_SEARCH_RADIUS_KM,
+  EVENT_TILES_CLUSTER_MAX_ZOOM,
+  MAX_CHAT_MESSAGES_PAGE_SIZE,
+  MAX_EVENTS_PAGE_SIZE,
+  MAX_EVENTS_PER_TILE_REQUEST,
+  clampEventsPageSize,
+  collectEventPages,
+  decodeEventsCursor,
+  encodeEventsCursor,
+  orderedPair,
+  sortEventMediaItems,
+  tileCellSize,
+  toSnakeCase
+} from './storage-helpers';
+
+// Relations embedded in results; every other nested object (jsonb columns) is returned as stored
+const RELATION_KEYS = new Set(['organizer', 'series', 'attendees', 'user', 'event', 'sender', 'replyTo', 'userA', 'userB', 'blocked']);
+
+/**
+ * Drizzle results to the row shape every backend returns (the one PostgREST sends):
+ * snake_case keys and timestamps as ISO strings
+ */
+const toRow = (value: any): any => {
+  if (Array.isArray(value)) return value.map(toRow);
+  if (!value || typeof value !== 'object') return value;
+
+  const row: Record<string, any> = {};
+  for (const [key, field] of Object.entries(value)) {
+    row[toSnakeCase(key)] = field instanceof Date
+      ? field.toISOString()
+      : RELATION_KEYS.has(key) ? toRow(field) : field;
+  }
+  return row;
+};
+
+/**
+ * Insert and update data (camelCase fields or snake_case columns, as the routes send them) to
+ * Drizzle values. Unknown keys are dropped, ISO strings become dates and numbers become decimals.
+ * Typed `any` because Drizzle only infers insert types with strictNullChecks, which we leave off.
+ */
+const toColumnValues = (table: any, data: Record<string, any>): any => {
+  const columns: Record<string, any> = getTableColumns(table);
+  const propertiesByColumn = new Map(Object.entries(columns).map(([property, column]) => [column.name, property]));
+
+  const values: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const property = key in columns ? key : propertiesByColumn.get(key);
+    if (!property || value === undefined) continue;
+
+    const column = columns[property];
+    if (value !== null && column.dataType === 'date' && !(value instanceof Date)) {
+      values[property] = new Date(value);
+    } else if (typeof value === 'number' && column.columnType === 'PgNumeric') {
+      values[property] = value.toString();
+    } else {
+      values[property] = value;
+    }
+  }
+  return values;
+};
+
+const USER_SUMMARY_COLUMNS = { id: true, name: true, username: true, avatar: true } as const;
+
+const EVENT_WITH = {
+  organizer: true,
+  attendees: { with: { user: true } }
+} as const;
+
+const MESSAGE_WITH = {
+  sender: { columns: USER_SUMMARY_COLUMNS },
+  replyTo: {
+    columns: { id: true, senderId: true, content: true, messageType: true, deletedAt: true },
+    with: { sender: { columns: USER_SUMMARY_COLUMNS } }
+  }
+} as const;
+
+const CONVERSATION_WITH = {
+  userA: { columns: USER_SUMMARY_COLUMNS },
+  userB: { columns: USER_SUMMARY_COLUMNS }
+} as const;
+
+/**
+ * Storage over DATABASE_URL with Drizzle and @shared/schema (STORAGE_BACKEND=postgres).
+ * Search, map tiles, unread counts and conversation summaries call the same SQL functions
+ * the Supabase backend uses through RPC, which the startup DDL creates in this database too.
+ */
+export class DrizzleStorage implements Storage {
+  constructor(private db: PostgresDb) {}
+
+  // Users
+  private async findUser(condition: any) {
+    const [user] = await this.db.select().from(users).where(condition).limit(1);
+    return user ? toRow(user) : null;
+  }
+
+  async getUserById(id: number) {
+    return this.findUser(eq(users.id, id));
+  }
+
+  async getUserByEmail(email: string) {
+    return this.findUser(eq(users.email, email));
+  }
+
+  async getUserByUsername(username: string) {
+    return this.findUser(eq(users.username, username));
+  }
+
+  async getUserBySupabaseId(supabaseId: string) {
+    return this.findUser(eq(users.supabaseId, supabaseId));
+  }
+
+  async insertUser(user: InsertUser) {
+    try {
+      const [created] = await this.db.insert(users).values(toColumnValues(users, user)).returning();
+      return toRow(created);
+    } catch (error: any) {
+      console.log('insertUser error:', error.message);
+      return null;
+    }
+  }
+
+  async updateUser(id: number, userData: Partial<User>) {
+    const [updated] = await this.db
+      .update(users)
+      .set({ ...toColumnValues(users, userData), updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return updated ? toRow(updated) : null;
+  }
+
+  async updateStripeCustomerId(userId: number, stripeCustomerId: string) {
+    return this.updateUser(userId, { stripeCustomerId });
+  }
+
+  async updateUserStripeInfo(userId: number, stripeInfo: { stripeCustomerId: string; stripeSubscriptionId: string }) {
+    return this.updateUser(userId, stripeInfo);
+  }
+
+  async updateUserLastLocation(userId: number, lat: number, lng: number) {
+    await this.db
+      .update(users)
+      .set(toColumnValues(users, { lastLatitude: lat.toString(), lastLongitude: lng.toString(), lastLocationAt: new Date() }))
+      .where(eq(users.id, userId));
+  }
+
+  // Events
+  async getEventById(id: number) {
+    const event = await this.db.query.events.findFirst({
+      where: eq(events.id, id),
+      with: { ...EVENT_WITH, series: true }
+    });
+    return event ? sortEventMediaItems(toRow(event)) : null;
+  }
+
+  // Full events (with organizer and attendees) in the order of the given ids
+  private async loadEvents(ids: number[]) {
+    if (ids.length === 0) return [];
+    const rows = await this.db.query.events.findMany({
+      where: inArray(events.id, ids),
+      with: EVENT_WITH
+    });
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return ids
+      .map(id => byId.get(id))
+      .filter(Boolean)
+      .map(row => sortEventMediaItems(toRow(row)));
+  }
+
+  async searchEvents(filters: EventSearchFilters = {}) {
+    const limit = clampEventsPageSize(filters.limit);
+    const cursor = filters.cursor ? decodeEventsCursor(filters.cursor) : null;
+    if (filters.cursor && !cursor) {
+      throw new Error("Invalid cursor");
+    }
+
+    const hasLocation = filters.lat !== undefined && filters.lng !== undefined && !isNaN(filters.lat) && !isNaN(filters.lng);
+    const search = filters.searchTerm?.trim() || null;
+    const categories = filters.category?.length ? filters.category : null;
+    const paymentTypes = filters.paymentType?.length ? filters.paymentType : null;
+
+    // Ask for one extra row to know whether there is a next page
+    const result = await this.db.execute(sql`
+      SELECT id FROM search_events(
+        ${search}::text,
+        ${categories}::text[],
+        ${paymentTypes}::text[],
+        ${hasLocation ? filters.lat : null}::float8,
+        ${hasLocation ? filters.lng : null}::float8,
+        ${hasLocation ? (filters.radius || DEFAULT_SEARCH_RADIUS_KM) : null}::float8,
+        ${cursor?.date || null}::timestamptz,
+        ${cursor?.id || null}::integer,
+        ${limit + 1}::integer
+      )
+    `);
+
+    const ids = result.rows.map((row: any) => Number(row.id));
+    const pageEvents = await this.loadEvents(ids.slice(0, limit));
+    const nextCursor = ids.length > limit ? encodeEventsCursor(pageEvents[pageEvents.length - 1]) : null;
+
+    console.log(`📍 searchEvents: ${pageEvents.length} events${nextCursor ? ' (more available)' : ''}`);
+    return { events: pageEvents, nextCursor };
+  }
+
+  async getEvents(filters?: Pick<EventSearchFilters, 'category' | 'paymentType' | 'searchTerm'>) {
+    try {
+      const events = await collectEventPages(cursor => this.searchEvents({ ...filters, limit: MAX_EVENTS_PAGE_SIZE, cursor }));
+      return events;
+    } catch (error) {
+      console.error("getEvents exception:", error);
+      return [];
+    }
+  }
+
+  async getNearbyEvents(lat: number, lng: number, radius: number = DEFAULT_SEARCH_RADIUS_KM) {
+    try {
+      const events = await collectEventPages(cursor => this.searchEvents({ lat, lng, radius, limit: MAX_EVENTS_PAGE_SIZE, cursor }));
+      return events;
+    } catch (error) {
+      console.error("getNearbyEvents exception:", error);
+      return [];
+    }
+  }
+
+  async getEventTiles(bbox: BoundingBox, zoom: number): Promise<EventTiles> {
+    if (zoom < EVENT_TILES_CLUSTER_MAX_ZOOM) {
+      const result = await this.db.execute(sql`
+        SELECT * FROM event_clusters_in_bbox(
+          ${bbox.minLng}::float8, ${bbox.minLat}::float8, ${bbox.maxLng}::float8, ${bbox.maxLat}::float8,
+          ${tileCellSize(zoom)}::float8
+        )
+      `);
+      const clusters: EventTileCluster[] = result.rows.map((row: any) => ({
+        latitude: Number(row.latitude),
+        longitude: Number(row.longitude),
+        count: Number(row.count),
+        categories: row.categories || {},
+      }));
+      console.log(`📍 getEventTiles: ${clusters.length} clusters at zoom ${zoom}`);
+      return { type: 'clusters', clusters };
+    }
+
+    const result = await this.db.execute(sql`
+      SELECT id FROM events_in_bbox(
+        ${bbox.minLng}::float8, ${bbox.minLat}::float8, ${bbox.maxLng}::float8, ${bbox.maxLat}::float8,
+        ${MAX_EVENTS_PER_TILE_REQUEST}::integer
+      )
+    `);
+    const tileEvents = await this.loadEvents(result.rows.map((row: any) => Number(row.id)));
+    console.log(`📍 getEventTiles: ${tileEvents.length} events at zoom ${zoom}`);
+    return { type: 'events', events: tileEvents };
+  }
+
+  async getEventsStartingBetween(from: Date, to: Date) {
+    const rows = await this.db
+      .select()
+      .from(events)
+      .where(and(eq(events.status, 'published'), gt(events.date, from), lte(events.date, to)));
+    return toRow(rows);
+  }
+
+  async getUpcomingEvents(from: Date, options: { excludeOrganizerId?: number; limit: number }) {
+    const rows = await this.db.query.events.findMany({
+      where: and(
+        eq(events.status, 'published'),
+        gte(events.date, from),
+        options.excludeOrganizerId !== undefined ? ne(events.organizerId, options.excludeOrganizerId) : undefined
+      ),
+      orderBy: [asc(events.date)],
+      limit: options.limit,
+      with: EVENT_WITH
+    });
+    return rows.map(row => sortEventMediaItems(toRow(row)));
+  }
+
+  private eventValues(event: InsertEvent) {
+    return toColumnValues(events, {
+      title: event.title,
+      description: event.description,
+      category: event.category,
+      date: new Date(event.date),
+      endTime: event.endTime ? new Date(event.endTime) : null,
+      latitude: event.latitude.toString(),
+      longitude: event.longitude.toString(),
+      locationName: event.locationName,
+      locationAddress: event.locationAddress,
+      paymentType: event.paymentType || 'free',
+      price: event.price ? event.price.toString() : null,
+      maxCapacity: event.maxCapacity,
+      privacyType: event.privacyType || 'public',
+      privateAccessType: event.privateAccessType || 'solicitud',
+      applicationQuestions: event.applicationQuestions || null,
+      genderPreference: event.genderPreference || 'all_people',
+      mediaItems: event.mediaItems,
+      mainMediaType: event.mainMediaType,
+      mainMediaUrl: event.mainMediaUrl,
+      organizerId: Number(event.organizerId),
+      seriesId: event.seriesId || null,
+      occurrenceIndex: event.occurrenceIndex ?? null,
+      cancellationPolicy: event.cancellationPolicy || 'full_refund',
+      refundDeadlineHours: event.refundDeadlineHours ?? 24,
+      partialRefundPercent: event.partialRefundPercent ?? 50,
+      status: event.status || 'published'
+    });
+  }
+
+  async insertEvent(event: InsertEvent) {
+    const [created] = await this.db.insert(events).values(this.eventValues(event)).returning();
+    return toRow(created);
+  }
+
+  async updateEvent(id: number, eventData: Partial<Event>) {
+    const [updated] = await this.db
+      .update(events)
+      .set({ ...toColumnValues(events, eventData), updatedAt: new Date() })
+      .where(eq(events.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("No event was updated - event may not exist");
+    }
+    return toRow(updated);
+  }
+
+  async updateEventOccurrences(updates: EventOccurrenceUpdate[]) {
+    return this.db.transaction(async (tx) => {
+      const updated = [];
+      for (const { id, changes } of updates) {
+        const [row] = await tx
+          .update(events)
+          .set({ ...toColumnValues(events, changes), updatedAt: new Date() })
+          .where(eq(events.id, id))
+          .returning();
+        if (!row) {
+          throw new Error(`Event ${id} not found`);
+        }
+        updated.push(toRow(row));
+      }
+      return updated;
+    });
+  }
+
+  async setEventStatus(id: number, status: EventStatus) {
+    const [updated] = await this.db
+      .update(events)
+      .set(toColumnValues(events, {
+        status,
+        ...(status === 'cancelled' ? { cancelledAt: new Date() } : {}),
+        updatedAt: new Date()
+      }))
+      .where(eq(events.id, id))
+      .returning();
+    return updated ? toRow(updated) : null;
+  }
+
+  async completeEndedEvents(now: Date) {
+    const defaultEnd = sql`${events.date} + ${`${DEFAULT_EVENT_DURATION_MS} milliseconds`}::interval`;
+    const rows = await this.db
+      .update(events)
+      .set(toColumnValues(events, { status: 'completed', updatedAt: new Date() }))
+      .where(and(eq(events.status, 'published'), sql`COALESCE(${events.endTime}, ${defaultEnd}) < ${now}`))
+      .returning();
+    return toRow(rows);
+  }
+
+  async getEventMediaReferences() {
+    const rows = await this.db
+      .select({ id: events.id, mediaItems: events.mediaItems, mainMediaUrl: events.mainMediaUrl })
+      .from(events);
+    return toRow(rows);
+  }
+
+  async deleteEvent(id: number) {
+    await this.db.delete(eventAttendees).where(eq(eventAttendees.eventId, id));
+    const [deleted] = await this.db.delete(events).where(eq(events.id, id)).returning();
+    console.log("Event deleted successfully:", id);
+    return { id, deleted: true, data: deleted ? toRow(deleted) : null };
+  }
+
+  async deleteAllEvents() {
+    await this.db.delete(eventAttendees);
+    await this.db.delete(events);
+    console.log("All events and attendees deleted successfully");
+    return { message: "All events and attendees deleted successfully" };
+  }
+
+  async insertEventSeries(series: NewEventSeries, occurrences: InsertEvent[]) {
+    return this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(eventSeries).values(toColumnValues(eventSeries, {
+        organizerId: series.organizerId,
+        frequency: series.frequency,
+        interval: series.interval,
+        startDate: series.startDate,
+        untilDate: series.untilDate || null,
+        occurrenceCount: series.occurrenceCount || null
+      })).returning();
+
+      const createdEvents = await tx
+        .insert(events)
+        .values(occurrences.map(occurrence => this.eventValues({ ...occurrence, seriesId: created.id })))
+        .returning();
+
+      return { series: toRow(created), occurrences: toRow(createdEvents) };
+    });
+  }
+
+  async getEventSeriesById(seriesId: number) {
+    const [series] = await this.db.select().from(eventSeries).where(eq(eventSeries.id, seriesId));
+    return series ? toRow(series) : null;
+  }
+
+  async getSeriesOccurrences(seriesId: number, fromDate?: Date) {
+    const rows = await this.db
+      .select()
+      .from(events)
+      .where(and(eq(events.seriesId, seriesId), fromDate ? sql`${events.date} >= ${fromDate}` : undefined))
+      .orderBy(asc(events.date));
+    return toRow(rows);
+  }
+
+  async getUserCreatedEvents(userId: number) {
+    const rows = await this.db.query.events.findMany({
+      where: eq(events.organizerId, userId),
+      with: { attendees: true },
+      orderBy: desc(events.date)
+    });
+    return toRow(rows);
+  }
+
+  async getUserAttendingEvents(userId: number) {
+    const rows = await this.db.query.eventAttendees.findMany({
+      where: eq(eventAttendees.userId, userId),
+      with: { event: { with: { organizer: true } } },
+      orderBy: desc(eventAttendees.createdAt)
+    });
+    return toRow(rows);
+  }
+
+  // Attendees
+  async joinEvent(attendee: InsertEventAttendee) {
+    return this.insertEventAttendee(attendee);
+  }
+
+  async leaveEvent(eventId: number, userId: number) {
+    await this.db.delete(eventAttendees).where(and(eq(eventAttendees.eventId, eventId), eq(eventAttendees.userId, userId)));
+    console.log("✅ User left event successfully:", { eventId, userId });
+    return { eventId, userId, removed: true };
+  }
+
+  async getEventAttendees(eventId: number) {
+    const rows = await this.db.query.eventAttendees.findMany({
+      where: eq(eventAttendees.eventId, eventId),
+      with: { user: true }
+    });
+    return toRow(rows);
+  }
+
+  async getEventAttendee(eventId: number, userId: number) {
+    const [attendee] = await this.db
+      .select()
+      .from(eventAttendees)
+      .where(and(eq(eventAttendees.eventId, eventId), eq(eventAttendees.userId, userId)));
+    return attendee ? toRow(attendee) : null;
+  }
+
+  async insertEventAttendee(attendeeData: InsertEventAttendee) {
+    const [created] = await this.db.insert(eventAttendees).values(toColumnValues(eventAttendees, {
+      status: 'approved',
+      paymentStatus: 'pending',
+      ...attendeeData
+    })).returning();
+    return toRow(created);
+  }
+
+  async getEventAttendeeById(id: number) {
+    const attendee = await this.db.query.eventAttendees.findFirst({
+      where: eq(eventAttendees.id, id),
+      with: { user: true, event: true }
+    });
+    return attendee ? toRow(attendee) : null;
+  }
+
+  private async updateAttendeeWhere(condition: any, values: Record<string, any>) {
+    const [updated] = await this.db.update(eventAttendees).set(values).where(condition).returning();
+    return updated ? toRow(updated) : null;
+  }
+
+  async updateEventAttendee(id: number, attendeeData: Partial<EventAttendee>) {
+    return this.updateAttendeeWhere(eq(eventAttendees.id, id), toColumnValues(eventAttendees, attendeeData));
+  }
+
+  async updatePaymentStatus(eventId: number, userId: number, paymentStatus: string, paymentIntentId: string) {
+    return this.updateAttendeePayment(eventId, userId, { paymentStatus, paymentIntentId });
+  }
+
+  async updateAttendeePayment(eventId: number, userId: number, payment: AttendeePaymentUpdate) {
+    const values: Record<string, any> = { paymentStatus: payment.paymentStatus };
+    if (payment.status) {
+      values.status = payment.status;
+    }
+    if (payment.paymentIntentId !== undefined) {
+      values.paymentIntentId = payment.paymentIntentId;
+    }
+    return this.updateAttendeeWhere(and(eq(eventAttendees.eventId, eventId), eq(eventAttendees.userId, userId)), values);
+  }
+
+  async recordAttendeeRefund(attendeeId: number, refund: AttendeeRefund) {
+    return this.updateAttendeeWhere(eq(eventAttendees.id, attendeeId), {
+      status: 'cancelled',
+      refundAmount: refund.refundAmount.toFixed(2),
+      refundStatus: refund.refundStatus,
+      refundId: refund.refundId,
+      refundedAt: refund.refundStatus === 'refunded' ? new Date() : null,
+      ...(refund.refundStatus === 'refunded' && { paymentStatus: refund.partial ? 'partially_refunded' : 'refunded' })
+    });
+  }
+
+  async getUserTickets(userId: number) {
+    const rows = await this.db.query.eventAttendees.findMany({
+      where: and(eq(eventAttendees.userId, userId), eq(eventAttendees.status, 'approved')),
+      with: {
+        event: {
+          columns: { id: true, title: true, date: true, endTime: true, locationName: true, locationAddress: true, mainMediaUrl: true }
+        }
+      },
+      orderBy: desc(eventAttendees.createdAt)
+    });
+    return toRow(rows);
+  }
+
+  async checkInAttendee(attendeeId: number) {
+    // Only set checked_in_at the first time, so scanning twice keeps the original time
+    return this.updateAttendeeWhere(
+      and(eq(eventAttendees.id, attendeeId), isNull(eventAttendees.checkedInAt)),
+      { checkedInAt: new Date(), noShow: false }
+    );
+  }
+
+  async setAttendeeNoShow(attendeeId: number, noShow: boolean) {
+    return this.updateAttendeeWhere(eq(eventAttendees.id, attendeeId), { noShow });
+  }
+
+  async getEventCheckIns(eventId: number) {
+    const rows = await this.db.query.eventAttendees.findMany({
+      columns: { id: true, userId: true, checkedInAt: true, noShow: true },
+      where: and(eq(eventAttendees.eventId, eventId), eq(eventAttendees.status, 'approved')),
+      with: { user: { columns: USER_SUMMARY_COLUMNS } },
+      orderBy: sql`${eventAttendees.checkedInAt} DESC NULLS LAST`
+    });
+    return toRow(rows);
+  }
+
+  async getApprovedAttendances(userId: number, eventIds?: number[]) {
+    if (eventIds && eventIds.length === 0) return [];
+
+    const rows = await this.db.query.eventAttendees.findMany({
+      where: and(
+        eq(eventAttendees.userId, userId),
+        eq(eventAttendees.status, 'approved'),
+        eventIds ? inArray(eventAttendees.eventId, eventIds) : undefined
+      ),
+      with: { event: true }
+    });
+    return toRow(rows);
+  }
+
+  async getEventIdsWithCheckIns(eventIds: number[]) {
+    if (eventIds.length === 0) return [];
+
+    const rows = await this.db
+      .selectDistinct({ eventId: eventAttendees.eventId })
+      .from(eventAttendees)
+      .where(and(inArray(eventAttendees.eventId, eventIds), isNotNull(eventAttendees.checkedInAt)));
+    return rows.map(row => row.eventId);
+  }
+
+  async getApprovedAttendeeUserIds(eventIds: number[]) {
+    if (eventIds.length === 0) return [];
+
+    const rows = await this.db
+      .selectDistinct({ userId: eventAttendees.userId })
+      .from(eventAttendees)
+      .where(and(inArray(eventAttendees.eventId, eventIds), eq(eventAttendees.status, 'approved')));
+    return rows.map(row => row.userId);
+  }
+
+  async getPendingEventRequests(eventId: number) {
+    const rows = await this.db.query.eventAttendees.findMany({
+      where: and(eq(eventAttendees.eventId, eventId), eq(eventAttendees.status, 'pending')),
+      with: {
+        user: { columns: { id: true, name: true, username: true, email: true, avatar: true } },
+        event: { columns: { id: true, title: true, date: true, privacyType: true, privateAccessType: true } }
+      },
+      orderBy: desc(eventAttendees.createdAt)
+    });
+    return toRow(rows);
+  }
+
+  async getAllPendingRequestsForUser(organizerId: number) {
+    const organizerEvents = this.db.select({ id: events.id }).from(events).where(eq(events.organizerId, organizerId));
+    const rows = await this.db.query.eventAttendees.findMany({
+      where: and(eq(eventAttendees.status, 'pending'), inArray(eventAttendees.eventId, organizerEvents)),
+      with: {
+        user: { columns: { id: true, name: true, email: true, avatar: true } },
+        event: { columns: { id: true, title: true, date: true } }
+      },
+      orderBy: desc(eventAttendees.createdAt)
+    });
+    return toRow(rows);
+  }
+
+  async approveAttendeeWithinCapacity(attendeeId: number, payment: { paymentStatus: string; paymentIntentId?: string | null }, fromStatus: CapacityApprovalSource = 'pending') {
+    return this.db.transaction(async (tx): Promise<CapacityApproval> => {
+      const [attendee] = await tx.select().from(eventAttendees).where(eq(eventAttendees.id, attendeeId));
+      if (!attendee) {
+        return { approved: false, reason: 'not_pending' };
+      }
+
+      // Locking the event serializes approvals for it until this transaction ends
+      const [event] = await tx
+        .select({ maxCapacity: events.maxCapacity })
+        .from(events)
+        .where(eq(events.id, attendee.eventId))
+        .for('update');
+
+      if (event?.maxCapacity) {
+        const [result] = await tx
+          .select({ count: count() })
+          .from(eventAttendees)
+          .where(and(eq(eventAttendees.eventId, attendee.eventId), eq(eventAttendees.status, 'approved')));
+        if (Number(result?.count || 0) >= event.maxCapacity) {
+          return { approved: false, reason: 'event_full' };
+        }
+      }
+
+      const [approved] = await tx
+        .update(eventAttendees)
+        .set(toColumnValues(eventAttendees, {
+          status: 'approved',
+          paymentStatus: payment.paymentStatus,
+          ...(payment.paymentIntentId ? { paymentIntentId: payment.paymentIntentId } : {})
+        }))
+        .where(and(eq(eventAttendees.id, attendeeId), eq(eventAttendees.status, fromStatus)))
+        .returning();
+
+      return approved
+        ? { approved: true, attendee: toRow(approved) }
+        : { approved: false, reason: 'not_pending' };
+    });
+  }
+
+  async rejectEventAttendee(eventId: number, userId: number) {
+    // Rejected requests are removed, so the user can ask again
+    await this.db.delete(eventAttendees).where(and(eq(eventAttendees.eventId, eventId), eq(eventAttendees.userId, userId)));
+    return true;
+  }
+
+  async countApprovedAttendees(eventId: number) {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(eventAttendees)
+      .where(and(eq(eventAttendees.eventId, eventId), eq(eventAttendees.status, 'approved')));
+    return Number(result?.count || 0);
+  }
+
+  private waitlist(eventId: number) {
+    return this.db
+      .select()
+      .from(eventAttendees)
+      .where(and(eq(eventAttendees.eventId, eventId), eq(eventAttendees.status, 'waitlisted')))
+      .orderBy(asc(eventAttendees.createdAt), asc(eventAttendees.id));
+  }
+
+  async getWaitlistPosition(eventId: number, userId: number) {
+    const index = (await this.waitlist(eventId)).findIndex(entry => entry.userId === userId);
+    return index === -1 ? null : index + 1;
+  }
+
+  async promoteNextWaitlistedAttendee(eventId: number) {
+    const [next] = await this.waitlist(eventId).limit(1);
+    if (!next) {
+      return null;
+    }
+
+    // Takes the spot under the event lock, and only if the row is still waitlisted
+    const approval = await this.approveAttendeeWithinCapacity(next.id, { paymentStatus: 'completed' }, 'waitlisted');
+    if (!approval.approved) {
+      return null;
+    }
+    console.log(`⏫ Promoted user ${approval.attendee.user_id} from waitlist of event ${eventId}`);
+    return approval.attendee;
+  }
+
+  async expirePendingRequests(now: Date) {
+    const startedEvents = this.db.select({ id: events.id }).from(events).where(lte(events.date, now));
+    const rows = await this.db
+      .update(eventAttendees)
+      .set(toColumnValues(eventAttendees, { status: 'rejected' }))
+      .where(and(eq(eventAttendees.status, 'pending'), inArray(eventAttendees.eventId, startedEvents)))
+      .returning();
+    return toRow(rows);
+  }
+
+  // Interests
+  async getUserInterests(userId: number) {
+    const rows = await this.db
+      .select()
+      .from(userInterests)
+      .where(eq(userInterests.userId, userId))
+      .orderBy(desc(userInterests.createdAt));
+    return toRow(rows);
+  }
+
+  async addUserInterest(userId: number, category: string) {
+    const [created] = await this.db.insert(userInterests).values({ userId, category: category as any }).returning();
+    return toRow(created);
+  }
+
+  async removeUserInterest(interestId: number) {
+    await this.db.delete(userInterests).where(eq(userInterests.id, interestId));
+  }
+
+  // Notifications
+  private findNotifications(condition: any) {
+    return this.db.query.notifications.findMany({
+      where: condition,
+      with: { event: { columns: { title: true } } },
+      orderBy: desc(notifications.createdAt)
+    });
+  }
+
+  async createNotification(notification: NewNotification) {
+    const [created] = await this.db.insert(notifications).values(toColumnValues(notifications, {
+      userId: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      eventId: notification.eventId || null,
+      requestId: notification.requestId || null
+    })).returning({ id: notifications.id });
+
+    const [row] = await this.findNotifications(eq(notifications.id, created.id));
+    return toRow(row);
+  }
+
+  async getUserNotifications(userId: number) {
+    return toRow(await this.findNotifications(eq(notifications.userId, userId)));
+  }
+
+  async countUnreadNotifications(userId: number) {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+    return Number(result?.count || 0);
+  }
+
+  async markAllNotificationsRead(userId: number) {
+    await this.db
+      .update(notifications)
+      .set(toColumnValues(notifications, { isRead: true }))
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+  }
+
+  // Ratings
+  async getUserRatingSummary(userId: number) {
+    const [result] = await this.db
+      .select({ average: sql<string | null>`avg(${userRatings.rating})`, count: count() })
+      .from(userRatings)
+      .where(eq(userRatings.ratedUserId, userId));
+    return { average: Number(result?.average || 0), count: Number(result?.count || 0) };
+  }
+
+  async getUserRatingSummaries(userIds: number[]) {
+    const summaries: Record<number, RatingSummary> = {};
+    if (userIds.length === 0) return summaries;
+
+    const rows = await this.db
+      .select({ userId: userRatings.ratedUserId, average: sql<string | null>`avg(${userRatings.rating})`, count: count() })
+      .from(userRatings)
+      .where(inArray(userRatings.ratedUserId, userIds))
+      .groupBy(userRatings.ratedUserId);
+    rows.forEach(row => {
+      summaries[row.userId] = { average: Number(row.average || 0), count: Number(row.count) };
+    });
+    return summaries;
+  }
+
+  async upsertUserRating(raterUserId: number, ratedUserId: number, rating: number) {
+    await this.db
+      .insert(userRatings)
+      .values({ ratedUserId, raterUserId, rating })
+      .onConflictDoUpdate({
+        target: [userRatings.ratedUserId, userRatings.raterUserId],
+        set: toColumnValues(userRatings, { rating, updatedAt: new Date() })
+      });
+  }
+
+  // Event chat
+  async getChatMessages(eventId: number, page: { limit?: number; offset?: number } = {}) {
+    const rows = await this.db.query.chatMessages.findMany({
+      where: eq(chatMessages.eventId, eventId),
+      with: MESSAGE_WITH,
+      orderBy: desc(chatMessages.createdAt),
+      limit: Math.min(page.limit || 50, MAX_CHAT_MESSAGES_PAGE_SIZE),
+      offset: page.offset || 0
+    });
+    return toRow(rows);
+  }
+
+  async getChatMessageById(messageId: number) {
+    const message = await this.db.query.chatMessages.findFirst({
+      where: eq(chatMessages.id, messageId),
+      with: MESSAGE_WITH
+    });
+    return message ? toRow(message) : null;
+  }
+
+  async getLatestChatMessages(eventIds: number[]) {
+    if (eventIds.length === 0) return [];
+
+    const latest = await this.db
+      .selectDistinctOn([chatMessages.eventId], { id: chatMessages.id })
+      .from(chatMessages)
+      .where(and(inArray(chatMessages.eventId, eventIds), isNull(chatMessages.deletedAt)))
+      .orderBy(chatMessages.eventId, desc(chatMessages.createdAt));
+    if (latest.length === 0) return [];
+
+    const rows = await this.db.query.chatMessages.findMany({
+      where: inArray(chatMessages.id, latest.map(row => row.id)),
+      with: MESSAGE_WITH
+    });
+    return toRow(rows);
+  }
+
+  async insertChatMessage(message: NewChatMessage) {
+    const [created] = await this.db.insert(chatMessages).values(toColumnValues(chatMessages, {
+      eventId: message.eventId,
+      senderId: message.senderId,
+      content: message.content,
+      messageType: message.messageType || 'text',
+      replyToId: message.replyToId || null,
+      attachment: message.attachment || null,
+      systemEvent: message.systemEvent || null
+    })).returning({ id: chatMessages.id });
+    return this.getChatMessageById(created.id);
+  }
+
+  async editChatMessage(messageId: number, content: string) {
+    const now = new Date();
+    await this.db
+      .update(chatMessages)
+      .set(toColumnValues(chatMessages, { content, edited: true, editedAt: now, updatedAt: now }))
+      .where(eq(chatMessages.id, messageId));
+    return this.getChatMessageById(messageId);
+  }
+
+  async softDeleteChatMessage(messageId: number) {
+    const now = new Date();
+    await this.db.update(chatMessages).set(toColumnValues(chatMessages, { deletedAt: now, updatedAt: now })).where(eq(chatMessages.id, messageId));
+  }
+
+  async markChatRead(userId: number, eventId: number, messageId: number) {
+    // The cursor only moves forward, so an older read frame can't mark messages unread again
+    const [cursor] = await this.db
+      .insert(chatReadCursors)
+      .values(toColumnValues(chatReadCursors, { userId, eventId, lastReadMessageId: messageId, readAt: new Date() }))
+      .onConflictDoUpdate({
+        target: [chatReadCursors.userId, chatReadCursors.eventId],
+        set: toColumnValues(chatReadCursors, {
+          lastReadMessageId: sql`GREATEST(${chatReadCursors.lastReadMessageId}, excluded.last_read_message_id)`,
+          readAt: new Date()
+        })
+      })
+      .returning();
+    return cursor ? toRow(cursor) : null;
+  }
+
+  async getChatReadCursors(eventId: number) {
+    const rows = await this.db.query.chatReadCursors.findMany({
+      columns: { userId: true, lastReadMessageId: true, readAt: true },
+      where: eq(chatReadCursors.eventId, eventId),
+      with: { user: { columns: USER_SUMMARY_COLUMNS } }
+    });
+    return toRow(rows);
+  }
+
+  async getChatUnreadCounts(userId: number, eventIds?: number[]) {
+    const result = await this.db.execute(sql`
+      SELECT * FROM chat_unread_counts(${userId}::integer, ${eventIds?.length ? eventIds : null}::integer[])
+    `);
+
+    const counts: Record<number, number> = {};
+    for (const row of result.rows as any[]) {
+      counts[row.event_id] = Number(row.unread_count);
+    }
+    return counts;
+  }
+
+  async claimEventChatReminder(eventId: number, hoursBefore: number, startsAt: Date) {
+    const claimed = await this.db
+      .insert(eventChatReminders)
+      .values({ eventId, hoursBefore, startsAt })
+      .onConflictDoNothing()
+      .returning({ eventId: eventChatReminders.eventId });
+    return claimed.length > 0;
+  }
+
+  async claimEventReminderNotification(eventId: number, minutesBefore: number, startsAt: Date) {
+    const claimed = await this.db
+      .insert(eventReminderNotifications)
+      .values({ eventId, minutesBefore, startsAt })
+      .onConflictDoNothing()
+      .returning({ eventId: eventReminderNotifications.eventId });
+    return claimed.length > 0;
+  }
+
+  // Direct messages and blocks
+  private async findConversation(condition: any) {
+    const conversation = await this.db.query.conversations.findFirst({ where: condition, with: CONVERSATION_WITH });
+    return conversation ? toRow(conversation) : null;
+  }
+
+  async getConversationById(conversationId: number) {
+    return this.findConversation(eq(conversations.id, conversationId));
+  }
+
+  async getConversationBetween(userId: number, otherUserId: number) {
+    const [userAId, userBId] = orderedPair(userId, otherUserId);
+    return this.findConversation(and(eq(conversations.userAId, userAId), eq(conversations.userBId, userBId)));
+  }
+
+  async createConversation(userId: number, otherUserId: number, status: 'active' | 'request') {
+    const [userAId, userBId] = orderedPair(userId, otherUserId);
+    const [created] = await this.db.insert(conversations).values(toColumnValues(conversations, {
+      userAId,
+      userBId,
+      status,
+      requestedBy: status === 'request' ? userId : null
+    })).returning({ id: conversations.id });
+    return this.getConversationById(created.id);
+  }
+
+  async updateConversation(conversationId: number, changes: ConversationChanges) {
+    const values: Record<string, any> = { updatedAt: new Date() };
+    if (changes.status !== undefined) values.status = changes.status;
+    if (changes.requestedBy !== undefined) values.requestedBy = changes.requestedBy;
+    if (changes.lastMessageAt !== undefined) values.lastMessageAt = changes.lastMessageAt;
+
+    await this.db.update(conversations).set(values).where(eq(conversations.id, conversationId));
+    return this.getConversationById(conversationId);
+  }
+
+  async getUserConversations(userId: number) {
+    const result = await this.db.execute(sql`SELECT * FROM direct_conversation_summaries(${userId}::integer)`);
+    const summaries = toRow(result.rows) as any[];
+    if (summaries.length === 0) return [];
+
+    const otherUsers = await this.db
+      .select({ id: users.id, name: users.name, username: users.username, avatar: users.avatar })
+      .from(users)
+      .where(inArray(users.id, summaries.map(summary => summary.other_user_id)));
+
+    return summaries.map(summary => ({
+      ...summary,
+      unread_count: Number(summary.unread_count),
+      other_user: otherUsers.find(user => user.id === summary.other_user_id) || null
+    }));
+  }
+
+  async insertDirectMessage(conversationId: number, senderId: number, content: string) {
+    const [created] = await this.db.insert(directMessages).values({ conversationId, senderId, content }).returning();
+    return toRow(created);
+  }
+
+  async countDirectMessagesFrom(conversationId: number, senderId: number) {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(directMessages)
+      .where(and(eq(directMessages.conversationId, conversationId), eq(directMessages.senderId, senderId)));
+    return Number(result?.count || 0);
+  }
+
+  async getDirectMessages(conversationId: number, limit = 50, beforeId?: number) {
+    const rows = await this.db
+      .select()
+      .from(directMessages)
+      .where(and(
+        eq(directMessages.conversationId, conversationId),
+        beforeId ? sql`${directMessages.id} < ${beforeId}` : undefined
+      ))
+      .orderBy(desc(directMessages.id))
+      .limit(limit);
+    return toRow(rows);
+  }
+
+  async markDirectMessagesRead(conversationId: number, userId: number) {
+    const updated = await this.db
+      .update(directMessages)
+      .set(toColumnValues(directMessages, { readAt: new Date() }))
+      .where(and(
+        eq(directMessages.conversationId, conversationId),
+        ne(directMessages.senderId, userId),
+        isNull(directMessages.readAt)
+      ))
+      .returning({ id: directMessages.id });
+    return updated.length;
+  }
+
+  async usersShareEvent(userId: number, otherUserId: number) {
+    const result = await this.db.execute(sql`SELECT users_share_event(${userId}::integer, ${otherUserId}::integer) AS shared`);
+    return !!(result.rows[0] as any)?.shared;
+  }
+
+  async blockUser(blockerId: number, blockedId: number) {
+    await this.db.insert(userBlocks).values({ blockerId, blockedId }).onConflictDoNothing();
+  }
+
+  async unblockUser(blockerId: number, blockedId: number) {
+    await this.db.delete(userBlocks).where(and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, blockedId)));
+  }
+
+  async getBlockedUsers(blockerId: number) {
+    const rows = await this.db.query.userBlocks.findMany({
+      where: eq(userBlocks.blockerId, blockerId),
+      with: { blocked: { columns: USER_SUMMARY_COLUMNS } },
+      orderBy: desc(userBlocks.createdAt)
+    });
+    return rows.map(block => ({
+      blocked_id: block.blockedId,
+      created_at: block.createdAt.toISOString(),
+      user: block.blocked || null
+    }));
+  }
+
+  async getBlockBetween(userId: number, otherUserId: number) {
+    const blocks = await this.db
+      .select({ blockerId: userBlocks.blockerId })
+      .from(userBlocks)
+      .where(or(
+        and(eq(userBlocks.blockerId, userId), eq(userBlocks.blockedId, otherUserId)),
+        and(eq(userBlocks.blockerId, otherUserId), eq(userBlocks.blockedId, userId))
+      ));
+    return {
+      blockedByMe: blocks.some(block => block.blockerId === userId),
+      blockedMe: blocks.some(block => block.blockerId === otherUserId),
+    };
+  }
+
+  // Background jobs
+  async ensureScheduledJob(name: string, firstRunAt: Date) {
+    await this.db
+      .insert(scheduledJobs)
+      .values({ name, nextRunAt: firstRunAt })
+      .onConflictDoNothing();
+  }
+
+  async acquireJobLease(name: string, owner: string, now: Date, leaseExpiresAt: Date) {
+    // A single conditional UPDATE, so two instances can't both take the lease
+    const [leased] = await this.db
+      .update(scheduledJobs)
+      .set(toColumnValues(scheduledJobs, { leaseOwner: owner, leaseExpiresAt, lastStartedAt: now, updatedAt: now }))
+      .where(and(
+        eq(scheduledJobs.name, name),
+        lte(scheduledJobs.nextRunAt, now),
+        or(isNull(scheduledJobs.leaseExpiresAt), lt(scheduledJobs.leaseExpiresAt, now))
+      ))
+      .returning();
+    return leased ? toRow(leased) : null;
+  }
+
+  async finishJobRun(name: string, owner: string, result: JobRunResult) {
+    const [finished] = await this.db
+      .update(scheduledJobs)
+      .set(toColumnValues(scheduledJobs, {
+        nextRunAt: result.nextRunAt,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        attempts: result.attempts,
+        lastFinishedAt: result.finishedAt,
+        ...(result.error ? {} : { lastSucceededAt: result.finishedAt }),
+        lastError: result.error,
+        updatedAt: result.finishedAt
+      }))
+      .where(and(eq(scheduledJobs.name, name), eq(scheduledJobs.leaseOwner, owner)))
+      .returning();
+    return finished ? toRow(finished) : null;
+  }
+
+  async getScheduledJobs() {
+    const jobs = await this.db.select().from(scheduledJobs).orderBy(asc(scheduledJobs.name));
+    return toRow(jobs);
+  }
+
+  // Login sessions and express-session data
+  async insertAuthSession(session: NewAuthSession) {
+    await this.db.insert(authSessions).values(toColumnValues(authSessions, session));
+  }
+
+  async getAuthSession(sessionId: string) {
+    const [session] = await this.db.select().from(authSessions).where(eq(authSessions.id, sessionId));
+    return session ? toRow(session) : null;
+  }
+
+  async touchAuthSession(sessionId: string, lastActivityAt: Date) {
+    await this.db.update(authSessions).set(toColumnValues(authSessions, { lastActivityAt })).where(eq(authSessions.id, sessionId));
+  }
+
+  async deleteAuthSession(sessionId: string) {
+    await this.db.delete(authSessions).where(eq(authSessions.id, sessionId));
+  }
+
+  async deleteUserAuthSessions(userId: number) {
+    const deleted = await this.db
+      .delete(authSessions)
+      .where(eq(authSessions.userId, userId))
+      .returning({ id: authSessions.id });
+    return deleted.length;
+  }
+
+  async getUserAuthSessions(userId: number) {
+    const sessions = await this.db
+      .select()
+      .from(authSessions)
+      .where(eq(authSessions.userId, userId))
+      .orderBy(desc(authSessions.lastActivityAt));
+    return toRow(sessions);
+  }
+
+  async getHttpSession(sid: string) {
+    const [session] = await this.db.select().from(httpSessions).where(eq(httpSessions.sid, sid));
+    return session ? toRow(session) : null;
+  }
+
+  async saveHttpSession(sid: string, data: object, expiresAt: Date) {
+    await this.db
+      .insert(httpSessions)
+      .values(toColumnValues(httpSessions, { sid, data, expiresAt }))
+      .onConflictDoUpdate({ target: httpSessions.sid, set: toColumnValues(httpSessions, { data, expiresAt }) });
+  }
+
+  async touchHttpSession(sid: string, expiresAt: Date) {
+    await this.db.update(httpSessions).set(toColumnValues(httpSessions, { expiresAt })).where(eq(httpSessions.sid, sid));
+  }
+
+  async deleteHttpSession(sid: string) {
+    await this.db.delete(httpSessions).where(eq(httpSessions.sid, sid));
+  }
+
+  async deleteExpiredSessions(now: Date) {
+    const expiredAuth = await this.db
+      .delete(authSessions)
+      .where(lt(authSessions.expiresAt, now))
+      .returning({ id: authSessions.id });
+    const expiredHttp = await this.db
+      .delete(httpSessions)
+      .where(lt(httpSessions.expiresAt, now))
+      .returning({ sid: httpSessions.sid });
+    return expiredAuth.length + expiredHttp.length;
+  }
+}
@@ -0,0 +1,101 @@
+import { storage } from './storage';
+import { hasPaidAttendance, refundAllAttendees, refundAttendee } from './refunds';
+import { announceEventCancelled } from './chat-system-messages';
+import { isEventEditable } from '@shared/event-status';
+
+// Attendees who still expect the event to happen
+const ACTIVE_ATTENDEE_STATUSES = ['approved', 'pending', 'waitlisted'];
+
+/**
+ * Cancels a draft or published event. The event stays in everyone's history: paid attendees
+ * get a full refund (and the refund notification), the rest an 'event_cancelled' notification,
+ * and the chat gets a last system message before turning read-only.
+ */
+export async function cancelEvent(event: any) {
+  if (!isEventEditable(event)) {
+    return { cancelled: false as const, reason: 'not_cancellable' as const };
+  }
+
+  const cancelledEvent = await storage.setEventStatus(event.id, 'cancelled');
+  const attendees = event.attendees || await storage.getEventAttendees(event.id);
+
+  const refunds = await refundAllAttendees({ ...event, attendees });
+
+  const toNotify = attendees.filter((attendee: any) =>
+    ACTIVE_ATTENDEE_STATUSES.includes(attendee.status) &&
+    !hasPaidAttendance(attendee) &&
+    attendee.user_id !== event.organizer_id
+  );
+  for (const attendee of toNotify) {
+    try {
+      await storage.createNotification({
+        userId: attendee.user_id,
+        type: 'event_cancelled',
+        title: 'Evento cancelado',
+        message: `El organizador canceló "${event.title}"`,
+        eventId: event.id
+      });
+    } catch (notificationError) {
+      console.error('Error creating cancellation notification:', notificationError);
+    }
+  }
+
+  await announceEventCancelled(event);
+
+  console.log(`🚫 Event ${event.id} cancelled: ${refunds.length} refunds, ${toNotify.length} attendees notified`);
+  return {
+    cancelled: true as const,
+    event: cancelledEvent,
+    refundedAttendees: refunds.length,
+    notifiedAttendees: toNotify.length
+  };
+}
+
+/**
+ * Marks published events whose end time has passed as completed
+ */
+export async function completeEndedEvents(now: Date = new Date()) {
+  const completed = await storage.completeEndedEvents(now);
+  if (completed.length > 0) {
+    console.log(`🏁 ${completed.length} events completed: ${completed.map(event => event.id).join(', ')}`);
+  }
+  return completed;
+}
+
+/**
+ * Requests nobody answered before the event started can't be approved anymore: they are
+ * rejected, a paid request gets its money back, and the requester is told it expired
+ */
+export async function expirePendingRequests(now: Date = new Date()) {
+  const expired = await storage.expirePendingRequests(now);
+  const events = new Map<number, any>();
+
+  for (const attendee of expired) {
+    try {
+      if (!events.has(attendee.event_id)) {
+        events.set(attendee.event_id, await storage.getEventById(attendee.event_id));
+      }
+      const event = events.get(attendee.event_id);
+
+      if (hasPaidAttendance(attendee)) {
+        await refundAttendee(event, attendee, { fullRefund: true });
+      }
+
+      await storage.createNotification({
+        userId: attendee.user_id,
+        type: 'request_rejected',
+        title: 'Solicitud expirada',
+        message: `Tu solicitud para unirte a "${event?.title || 'el evento'}" expiró porque el evento ya comenzó`,
+        eventId: attendee.event_id
+      });
+    } catch (error) {
+      // The request is already rejected; one failed refund or notification doesn't stop the rest
+      console.error(`Error finishing expired request ${attendee.id}:`, error);
+    }
+  }
+
+  if (expired.length > 0) {
+    console.log(`⌛ ${expired.length} pending requests expired: ${expired.map(attendee => attendee.id).join(', ')}`);
+  }
+  return expired;
+}
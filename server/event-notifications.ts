@@ -0,0 +1,112 @@
+import { storage } from './storage';
+import type { NewNotification } from './storage-types';
+import { getEventChanges } from './chat-system-messages';
+import { describeChatSystemEvent, formatSystemDate } from '@shared/chat-system-messages';
+
+const MINUTE_MS = 60 * 1000;
+
+// Reminder notifications go out this many minutes before events.date, set as a comma separated list in EVENT_REMINDER_OFFSETS_MINUTES
+export const EVENT_REMINDER_OFFSETS_MINUTES = (() => {
+  const offsets = (process.env.EVENT_REMINDER_OFFSETS_MINUTES || '1440,60')
+    .split(',')
+    .map(offset => parseInt(offset.trim()))
+    .filter(offset => !isNaN(offset) && offset > 0);
+  return Array.from(new Set(offsets));
+})();
+
+const describeTimeLeft = (minutesBefore: number) => {
+  if (minutesBefore % 1440 === 0) {
+    const days = minutesBefore / 1440;
+    return days === 1 ? '24 horas' : `${days} días`;
+  }
+  if (minutesBefore % 60 === 0) {
+    const hours = minutesBefore / 60;
+    return hours === 1 ? '1 hora' : `${hours} horas`;
+  }
+  return minutesBefore === 1 ? '1 minuto' : `${minutesBefore} minutos`;
+};
+
+// One notification per user; a failed one is logged and doesn't stop the rest
+async function notifyUsers(userIds: number[], notification: Omit<NewNotification, 'userId'>) {
+  let sent = 0;
+  for (const userId of Array.from(new Set(userIds))) {
+    try {
+      await storage.createNotification({ ...notification, userId });
+      sent++;
+    } catch (notificationError) {
+      console.error(`Error creating ${notification.type} notification:`, notificationError);
+    }
+  }
+  return sent;
+}
+
+const getApprovedAttendeeIds = async (eventId: number) =>
+  (await storage.getEventAttendees(eventId))
+    .filter(attendee => attendee.status === 'approved')
+    .map(attendee => attendee.user_id);
+
+/**
+ * Sends the 'event_reminder' notifications to the organizer and approved attendees of events
+ * starting soon. Each reminder is claimed in event_reminder_notifications first, so it is sent
+ * once even with several instances running.
+ */
+export async function sendDueReminderNotifications(now: Date = new Date()) {
+  if (EVENT_REMINDER_OFFSETS_MINUTES.length === 0) return 0;
+
+  const horizon = new Date(now.getTime() + Math.max(...EVENT_REMINDER_OFFSETS_MINUTES) * MINUTE_MS);
+  // A failed query fails the run, so the job scheduler retries it
+  const events = await storage.getEventsStartingBetween(now, horizon);
+
+  let sent = 0;
+  for (const event of events) {
+    const startsAt = new Date(event.date);
+    const minutesLeft = (startsAt.getTime() - now.getTime()) / MINUTE_MS;
+    // Only the closest reminder that is due: an event created 30 minutes before start gets the 1h one only
+    const minutesBefore = Math.min(...EVENT_REMINDER_OFFSETS_MINUTES.filter(minutes => minutesLeft <= minutes));
+
+    let claimed: boolean;
+    try {
+      claimed = await storage.claimEventReminderNotification(event.id, minutesBefore, startsAt);
+    } catch (claimError) {
+      console.error('❌ Error claiming reminder notification:', claimError.message);
+      continue;
+    }
+    if (!claimed) continue;
+
+    const recipients = [event.organizer_id, ...await getApprovedAttendeeIds(event.id)];
+    sent += await notifyUsers(recipients, {
+      type: 'event_reminder',
+      title: `"${event.title}" empieza pronto`,
+      message: `Empieza en ${describeTimeLeft(minutesBefore)}, ${formatSystemDate(startsAt.toISOString())}`,
+      eventId: event.id
+    });
+  }
+
+  if (sent > 0) {
+    console.log(`🔔 ${sent} event reminder notifications sent`);
+  }
+  return sent;
+}
+
+/**
+ * Lets approved attendees know the date, time or location of an event changed
+ */
+export async function notifyEventChanges(previous: any, updated: any) {
+  const changes = getEventChanges(previous, updated);
+  if (!changes) return 0;
+
+  try {
+    const recipients = (await getApprovedAttendeeIds(updated.id))
+      .filter(userId => userId !== updated.organizer_id);
+    return await notifyUsers(recipients, {
+      type: 'event_updated',
+      title: `Cambios en "${updated.title}"`,
+      message: describeChatSystemEvent({ kind: 'event_updated', changes }),
+      eventId: updated.id
+    });
+  } catch (error) {
+    // Never fails the update that triggered it
+    console.error('❌ Error notifying event changes:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,177 @@
+import { storage } from "./storage";
+import { MAX_RATING } from "@shared/schema";
+
+/**
+ * Ranking for GET /api/events/recommended
+ * Each upcoming event gets points from four signals: the user's interest
+ * categories, distance from their last known location, past co-attendees
+ * joining it and the organizer's aura. The strongest signal becomes the reason
+ */
+const INTEREST_WEIGHT = 3;
+const DISTANCE_WEIGHT = 2;
+const CO_ATTENDEE_WEIGHT = 1;
+const AURA_WEIGHT = 1.5;
+
+// Events further than this from the user get no distance points
+const MAX_RECOMMENDATION_DISTANCE_KM = 25;
+// Co-attendee points stop growing after this many known people
+const MAX_COUNTED_CO_ATTENDEES = 3;
+const MAX_CANDIDATE_EVENTS = 200;
+
+// Labels for the reason text, the UI is in Spanish
+const CATEGORY_REASON_LABELS: Record<string, string> = {
+  social: "los eventos sociales",
+  music: "la música",
+  spiritual: "lo espiritual",
+  education: "aprender cosas nuevas",
+  sports: "los deportes",
+  food: "la comida",
+  art: "el arte",
+  technology: "la tecnología",
+  games: "los juegos",
+  outdoor: "el aire libre",
+  networking: "el networking",
+  workshop: "los talleres",
+  conference: "las conferencias",
+  party: "las fiestas",
+  fair: "las ferias",
+  exhibition: "las exposiciones",
+};
+
+export interface RecommendedEvent {
+  event: any;
+  score: number;
+  reason: string;
+}
+
+function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * (Math.PI / 180);
+  const dLng = (lng2 - lng1) * (Math.PI / 180);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * (Math.PI / 180)) * Math.cos(lat2 * (Math.PI / 180)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Users who were approved attendees of the same past events as `userId`
+ */
+async function getPastCoAttendeeIds(userId: number, now: Date) {
+  const attendances = await storage.getApprovedAttendances(userId);
+  const pastEventIds = attendances
+    .filter((attendance: any) => attendance.event && new Date(attendance.event.date).getTime() < now.getTime())
+    .map(attendance => attendance.event_id);
+
+  const coAttendeeIds = await storage.getApprovedAttendeeUserIds(pastEventIds);
+  return new Set(coAttendeeIds.filter(id => id !== userId));
+}
+
+/**
+ * Average rating per organizer, only for organizers with ratings
+ */
+async function getOrganizerAuras(organizerIds: number[]) {
+  const auras = new Map<number, number>();
+  if (organizerIds.length === 0) {
+    return auras;
+  }
+
+  try {
+    const summaries = await storage.getUserRatingSummaries(organizerIds);
+    Object.entries(summaries).forEach(([organizerId, summary]) => auras.set(Number(organizerId), summary.average));
+  } catch (error) {
+    // Without ratings the aura signal is just skipped
+    console.error('Error fetching organizer ratings for recommendations:', error);
+  }
+
+  return auras;
+}
+
+export async function getRecommendedEvents(
+  user: any,
+  options: { limit?: number; now?: Date } = {}
+): Promise<RecommendedEvent[]> {
+  const limit = options.limit || 10;
+  const now = options.now || new Date();
+
+  const interests = await storage.getUserInterests(user.id);
+  const interestCategories = new Set(interests.map(interest => interest.category as string));
+
+  const candidates = await storage.getUpcomingEvents(now, {
+    excludeOrganizerId: user.id,
+    limit: MAX_CANDIDATE_EVENTS,
+  });
+
+  // Events the user already joined (or asked to join) are not recommended
+  const upcomingEvents = candidates.filter((event: any) =>
+    !(event.attendees || []).some((attendee: any) => attendee.user_id === user.id)
+  );
+  if (upcomingEvents.length === 0) {
+    return [];
+  }
+
+  const coAttendeeIds = await getPastCoAttendeeIds(user.id, now);
+  const auras = await getOrganizerAuras(Array.from(new Set(upcomingEvents.map((event: any) => event.organizer_id))));
+
+  const lastLat = user.last_latitude != null ? parseFloat(user.last_latitude) : NaN;
+  const lastLng = user.last_longitude != null ? parseFloat(user.last_longitude) : NaN;
+  const hasLocation = !isNaN(lastLat) && !isNaN(lastLng);
+
+  const ranked = upcomingEvents.map((event: any) => {
+    const signals: { points: number; reason: string }[] = [];
+
+    if (interestCategories.has(event.category)) {
+      signals.push({
+        points: INTEREST_WEIGHT,
+        reason: `Porque te gusta ${CATEGORY_REASON_LABELS[event.category] || event.category}`,
+      });
+    }
+
+    if (hasLocation) {
+      const distance = distanceKm(lastLat, lastLng, parseFloat(event.latitude), parseFloat(event.longitude));
+      if (distance < MAX_RECOMMENDATION_DISTANCE_KM) {
+        signals.push({
+          points: DISTANCE_WEIGHT * (1 - distance / MAX_RECOMMENDATION_DISTANCE_KM),
+          reason: distance < 1 ? "Muy cerca de ti" : `A ${Math.round(distance)} km de ti`,
+        });
+      }
+    }
+
+    // Only approved attendees: a pending request is private to the requester and the organizer
+    const knownAttendees = (event.attendees || []).filter((attendee: any) =>
+      coAttendeeIds.has(attendee.user_id) && attendee.status === 'approved'
+    );
+    if (knownAttendees.length > 0) {
+      const firstName = knownAttendees[0].user?.name?.split(' ')[0] || 'Alguien';
+      signals.push({
+        points: CO_ATTENDEE_WEIGHT * Math.min(knownAttendees.length, MAX_COUNTED_CO_ATTENDEES),
+        reason: knownAttendees.length === 1
+          ? `${firstName}, con quien fuiste a un evento, se unió`
+          : `${firstName} y ${knownAttendees.length - 1} más que conoces se unieron`,
+      });
+    }
+
+    const aura = auras.get(event.organizer_id);
+    if (aura !== undefined) {
+      signals.push({
+        points: AURA_WEIGHT * (aura / MAX_RATING),
+        reason: `Organizado por alguien con aura ${aura.toFixed(1)}`,
+      });
+    }
+
+    const score = signals.reduce((total, signal) => total + signal.points, 0);
+    const strongest = signals.sort((a, b) => b.points - a.points)[0];
+
+    return {
+      event,
+      score: parseFloat(score.toFixed(2)),
+      reason: strongest?.reason || "",
+    };
+  });
+
+  return ranked
+    .filter(recommendation => recommendation.score > 0)
+    .sort((a, b) => b.score - a.score || new Date(a.event.date).getTime() - new Date(b.event.date).getTime())
+    .slice(0, limit);
+}
@@ -0,0 +1,108 @@
+import { storage } from './storage';
+import { generateOccurrences } from '@shared/recurrence';
+import type { RecurrenceRuleInput } from '@shared/recurrence';
+import { DEFAULT_EVENT_DURATION_MS } from './storage-helpers';
+
+// Columns that identify an occurrence and must never be copied across a series
+const OCCURRENCE_ONLY_FIELDS = ['id', 'date', 'end_time', 'endTime', 'series_id', 'seriesId', 'occurrence_index', 'occurrenceIndex', 'created_at', 'createdAt'];
+
+/**
+ * Create a recurring series and one event row per occurrence
+ * Each occurrence is a regular event, so people join them one at a time
+ */
+export async function createEventSeries(eventData: any, rule: RecurrenceRuleInput) {
+  const startTime = new Date(eventData.date);
+  const endTime = eventData.endTime ? new Date(eventData.endTime) : null;
+  const occurrences = generateOccurrences(startTime, endTime, rule);
+
+  if (occurrences.length === 0) {
+    throw new Error("Recurrence rule does not produce any occurrence");
+  }
+
+  console.log(`🔁 Creating series with ${occurrences.length} occurrences for organizer ${eventData.organizerId}`);
+
+  // The series and its occurrences are created in one transaction, so a failure leaves nothing behind
+  const { series, occurrences: createdEvents } = await storage.insertEventSeries({
+    organizerId: eventData.organizerId,
+    frequency: rule.frequency,
+    interval: rule.interval || 1,
+    startDate: startTime,
+    untilDate: rule.until ? new Date(rule.until) : null,
+    occurrenceCount: rule.count || null
+  }, occurrences.map(occurrence => ({
+    ...eventData,
+    date: occurrence.startTime,
+    endTime: occurrence.endTime,
+    occurrenceIndex: occurrence.index
+  })));
+
+  console.log(`🔁 Series ${series.id} created with ${createdEvents.length} events`);
+  return { series, occurrences: createdEvents };
+}
+
+// Events without end_time last two hours
+export const getEventEnd = (event: any) => event.end_time
+  ? new Date(event.end_time)
+  : new Date(new Date(event.date).getTime() + DEFAULT_EVENT_DURATION_MS);
+
+/**
+ * New start and end of every later occurrence of a series after an edit on one occurrence.
+ * A date change is applied as a shift, so each occurrence keeps its own day, and a new
+ * duration (end_time in the edit) is carried over to each of them.
+ */
+export async function getFutureOccurrenceTimes(event: any, updateData: any) {
+  const seriesId = event.series_id || event.seriesId;
+  if (!seriesId) {
+    return [];
+  }
+
+  const originalStart = new Date(event.date);
+  const newStart = updateData.date ? new Date(updateData.date) : originalStart;
+  const shiftMs = newStart.getTime() - originalStart.getTime();
+  const newDurationMs = updateData.end_time ? new Date(updateData.end_time).getTime() - newStart.getTime() : null;
+
+  const futureOccurrences = (await storage.getSeriesOccurrences(seriesId, originalStart))
+    .filter((occurrence: any) => occurrence.id !== event.id);
+
+  return futureOccurrences.map((occurrence: any) => {
+    const date = new Date(new Date(occurrence.date).getTime() + shiftMs);
+    const endTime = newDurationMs !== null
+      ? new Date(date.getTime() + newDurationMs)
+      : occurrence.end_time ? new Date(new Date(occurrence.end_time).getTime() + shiftMs) : null;
+    return { occurrence, date, endTime };
+  });
+}
+
+/**
+ * Save an edit made on one occurrence on it and on every later occurrence of its series.
+ * Everything is written in one transaction, so a failure leaves the whole series as it was.
+ * Returns the edited occurrence followed by the later ones.
+ */
+export async function updateThisAndFutureOccurrences(event: any, updateData: any) {
+  const seriesId = event.series_id || event.seriesId;
+  if (!seriesId) {
+    return [await storage.updateEvent(event.id, updateData)];
+  }
+
+  const sharedData: any = { ...updateData };
+  OCCURRENCE_ONLY_FIELDS.forEach(field => delete sharedData[field]);
+
+  const futureOccurrences = await getFutureOccurrenceTimes(event, updateData);
+
+  console.log(`🔁 Applying changes to ${futureOccurrences.length} future occurrences of series ${seriesId}`);
+
+  const updates = futureOccurrences.map(({ occurrence, date, endTime }) => {
+    const occurrenceData: any = { ...sharedData };
+
+    if (date.getTime() !== new Date(occurrence.date).getTime()) {
+      occurrenceData.date = date.toISOString();
+    }
+    if (endTime && (!occurrence.end_time || endTime.getTime() !== new Date(occurrence.end_time).getTime())) {
+      occurrenceData.end_time = endTime.toISOString();
+    }
+
+    return { id: occurrence.id, changes: occurrenceData };
+  });
+
+  return storage.updateEventOccurrences([{ id: event.id, changes: updateData }, ...updates]);
+}
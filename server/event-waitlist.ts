@@ -0,0 +1,71 @@
+import { storage } from './storage';
+import { announceAttendeeJoined } from './chat-system-messages';
+
+/**
+ * Check whether an event has no approved spots left
+ * Events without maxCapacity never fill up
+ */
+export async function isEventFull(event: any) {
+  const maxCapacity = event.maxCapacity ?? event.max_capacity;
+  if (!maxCapacity) {
+    return false;
+  }
+
+  const approvedCount = await storage.countApprovedAttendees(event.id);
+  return approvedCount >= maxCapacity;
+}
+
+/**
+ * Add someone who doesn't need approval. The row is inserted on the waitlist and then takes a
+ * spot under the event lock, so two people joining at once can't both get the last one.
+ * Returns the row, approved or still waitlisted when the event is full.
+ */
+export async function joinWithinCapacity(attendee: { eventId: number; userId: number; applicationAnswers?: string | null }) {
+  const waitlisted = await storage.insertEventAttendee({
+    eventId: attendee.eventId,
+    userId: attendee.userId,
+    status: 'waitlisted',
+    paymentStatus: 'pending',
+    paymentIntentId: null,
+    applicationAnswers: attendee.applicationAnswers ?? null
+  });
+
+  const approval = await storage.approveAttendeeWithinCapacity(waitlisted.id, { paymentStatus: 'completed' }, 'waitlisted');
+  return approval.approved ? approval.attendee : waitlisted;
+}
+
+/**
+ * Promote waitlisted attendees in FIFO order while the event has free spots
+ * Every promoted user gets a notification
+ */
+export async function promoteFromWaitlist(event: any) {
+  const promoted = [];
+
+  while (true) {
+    // null once the event is full again or nobody is waiting
+    const attendee = await storage.promoteNextWaitlistedAttendee(event.id);
+    if (!attendee) {
+      break;
+    }
+    promoted.push(attendee);
+
+    try {
+      await storage.createNotification({
+        userId: attendee.user_id,
+        type: 'waitlist_promoted',
+        title: 'Tienes un lugar en el evento',
+        message: `Se liberó un lugar y ya formas parte de "${event.title}"`,
+        eventId: event.id,
+        requestId: attendee.id
+      });
+      console.log(`📧 Created waitlist promotion notification for user ${attendee.user_id}`);
+    } catch (notificationError) {
+      console.error('Error creating waitlist promotion notification:', notificationError);
+      // Don't fail the promotion if notification creation fails
+    }
+
+    await announceAttendeeJoined(event.id, attendee.user_id);
+  }
+
+  return promoted;
+}
@@ -0,0 +1,176 @@
+import type { IncomingMessage } from 'http';
+import type { Request, Response, NextFunction } from 'express';
+import type { User as SchemaUser } from '@shared/schema';
+import { supabase } from './supabase-client';
+import { storage } from './storage';
+import { SESSION_COOKIE, getSession } from './session-auth';
+
+export type AuthenticatedUser = Omit<SchemaUser, 'password'>;
+
+// How the request proved who it is
+export type AuthMethod = 'express_session' | 'login_session' | 'bearer_token';
+
+export interface Principal {
+  userId: number;
+  user: AuthenticatedUser;
+  method: AuthMethod;
+  loginSessionId?: string;
+  supabaseUserId?: string;
+}
+
+declare global {
+  namespace Express {
+    interface User extends AuthenticatedUser {}
+
+    interface Request {
+      principal?: Principal;
+    }
+  }
+}
+
+/**
+ * Credentials the resolver understands, read from an Express request or a raw upgrade request
+ */
+export interface Credentials {
+  expressSession?: any;
+  loginSessionId?: string | null;
+  bearerToken?: string | null;
+}
+
+const withoutPassword = (user: any): AuthenticatedUser => {
+  const { password, ...rest } = user;
+  return rest;
+};
+
+const toPrincipal = (user: any, method: AuthMethod, extra: Partial<Principal> = {}): Principal | null =>
+  user ? { userId: user.id, user: withoutPassword(user), method, ...extra } : null;
+
+/**
+ * Resolves credentials to the real user from storage, trying the express session,
+ * then the login session (pipol_sid cookie or x-session-id header), then a Supabase JWT
+ */
+export async function resolvePrincipal(credentials: Credentials): Promise<Principal | null> {
+  const { expressSession, loginSessionId, bearerToken } = credentials;
+
+  const sessionUserId = parseInt(expressSession?.passport?.user ?? expressSession?.userId);
+  if (!isNaN(sessionUserId)) {
+    const principal = toPrincipal(await storage.getUserById(sessionUserId), 'express_session', {
+      loginSessionId: expressSession.authSessionId,
+      supabaseUserId: expressSession.supabaseUserId,
+    });
+    if (principal) return principal;
+  }
+
+  if (loginSessionId) {
+    const session = await getSession(loginSessionId);
+    if (session) {
+      const principal = toPrincipal(await storage.getUserById(session.userId), 'login_session', { loginSessionId });
+      if (principal) return principal;
+    }
+  }
+
+  if (bearerToken) {
+    const { data, error } = await supabase.auth.getUser(bearerToken);
+    if (!error && data.user) {
+      const user = await storage.getUserBySupabaseId(data.user.id)
+        || (data.user.email ? await storage.getUserByEmail(data.user.email) : null);
+      const principal = toPrincipal(user, 'bearer_token', { supabaseUserId: data.user.id });
+      if (principal) return principal;
+    }
+  }
+
+  return null;
+}
+
+const getBearerToken = (authorization: string | undefined) =>
+  authorization && authorization.startsWith('Bearer ') ? authorization.substring(7) : null;
+
+export function getRequestCredentials(req: Request): Credentials {
+  return {
+    expressSession: (req as any).session,
+    loginSessionId: req.cookies?.[SESSION_COOKIE] || (req.headers['x-session-id'] as string) || null,
+    bearerToken: getBearerToken(req.headers.authorization),
+  };
+}
+
+/**
+ * Same credentials for a WebSocket upgrade; browsers can't set headers there, so the JWT may come as ?token=
+ */
+export function getUpgradeCredentials(req: IncomingMessage): Credentials {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const cookies = Object.fromEntries(
+    (req.headers.cookie || '').split(';')
+      .map(part => part.trim().split('='))
+      .filter(([name]) => name)
+      .map(([name, ...value]) => [name, decodeURIComponent(value.join('='))])
+  );
+
+  return {
+    expressSession: (req as any).session,
+    loginSessionId: cookies[SESSION_COOKIE] || null,
+    bearerToken: url.searchParams.get('token') || getBearerToken(req.headers.authorization),
+  };
+}
+
+export async function resolveIdentity(req: Request): Promise<Principal | null> {
+  if (req.principal) return req.principal;
+
+  const principal = await resolvePrincipal(getRequestCredentials(req));
+  if (principal) {
+    req.principal = principal;
+    req.user = principal.user;
+  }
+  return principal;
+}
+
+/**
+ * Rejects the request with 401 unless it resolves to a user
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const principal = await resolveIdentity(req);
+    if (!principal) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    next();
+  } catch (error) {
+    console.error('❌ Error resolving identity:', error);
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+}
+
+/**
+ * Sets req.user when the request carries valid credentials, but lets anonymous requests through
+ */
+export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    await resolveIdentity(req);
+  } catch (error) {
+    console.error('❌ Error resolving identity:', error);
+  }
+  next();
+}
+
+// Users allowed into /api/admin, as a comma separated list of ids in ADMIN_USER_IDS
+const adminUserIds = () => new Set(
+  (process.env.ADMIN_USER_IDS || '').split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id))
+);
+
+/**
+ * Like requireAuth, but also rejects with 403 users that are not in ADMIN_USER_IDS
+ */
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const principal = await resolveIdentity(req);
+    if (!principal) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    if (!adminUserIds().has(principal.userId)) {
+      return res.status(403).json({ message: 'Admin access required' });
+    }
+    next();
+  } catch (error) {
+    console.error('❌ Error resolving identity:', error);
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+}
@@ -4,9 +4,14 @@ import cookieParser from "cookie-parser";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { mediaRouter } from "./media-routes";
+import { chatAttachmentRouter } from "./chat-attachments";
+import { directMessageRouter } from "./direct-message-routes";
+import { adminRouter } from "./admin-routes";
 // Supabase integration enabled
-import { supabase, supabaseService, testSupabaseConnection } from "./supabase-client";
-import { isAuthenticatedMiddleware } from './supabase-auth';
+import { testSupabaseConnection } from "./supabase-client";
+import { requireAuth } from './identity';
+import { HttpSessionStore, revokedSessionMiddleware } from './session-auth';
+import { initializeStorage } from './supabase-storage';
 import { supabaseRoutes } from "./supabase-routes";
 import conflictRoutes from "./conflict-routes";
 import { db } from "./db";
@@ -22,7 +27,7 @@ const app = express();
 app.use(cookieParser());
 
 // Configure session management for persistent authentication
-app.use(session({
+const sessionMiddleware = session({
   secret: process.env.SESSION_SECRET || 'pipol-session-secret-key-2025',
   resave: false,
   saveUninitialized: false,
@@ -34,8 +39,10 @@ app.use(session({
     sameSite: 'lax'
   },
   rolling: true, // Extend session on activity
-  store: undefined // Use memory store for development
-}));
+  store: new HttpSessionStore() // http_sessions table, survives restarts and is shared between instances
+});
+app.use(sessionMiddleware);
+app.use(revokedSessionMiddleware);
 
 // Configure passport for session management
 app.use(passport.initialize());
@@ -55,43 +62,12 @@ passport.deserializeUser(async (id: any, done) => {
       return done(null, false);
     }
     
-    // Query Supabase directly to check if user exists using service client
-    console.log("Querying Supabase for user ID:", userId);
-    const { data: users, error, count } = await supabaseService
-      .from('users')
-      .select('*', { count: 'exact' })
-      .eq('id', userId);
-    
-    console.log("Supabase query result:", { 
-      error: error?.message || null, 
-      userCount: count, 
-      hasUsers: users && users.length > 0,
-      firstUser: users && users.length > 0 ? { id: users[0].id, name: users[0].name, email: users[0].email } : null
-    });
-    
-    if (error) {
-      console.error("Supabase query error:", error.message);
-      return done(null, false);
-    }
-    
-    if (users && users.length > 0) {
-      const user = users[0]; // Take first user if multiple exist
+    const user = await storage.getUserById(userId);
+    if (user) {
       console.log("User deserialized successfully:", user.id, user.name);
-      done(null, user);
+      done(null, user as any);
     } else {
       console.log("User not found during deserialization for ID:", userId);
-      
-      // Debug: Check if any users exist in the table
-      const { data: allUsers, error: allError } = await supabaseService
-        .from('users')
-        .select('id, name, email')
-        .limit(5);
-      
-      console.log("Debug: Sample users in database:", { 
-        error: allError?.message || null,
-        sampleUsers: allUsers || []
-      });
-      
       done(null, false);
     }
   } catch (error) {
@@ -129,13 +105,16 @@ passport.use(new LocalStrategy({
     }
     
     console.log("Local strategy: Authentication successful for user:", email);
-    return done(null, user);
+    return done(null, user as any);
   } catch (error) {
     console.error("Local strategy: Authentication error:", error);
     return done(error);
   }
 }));
 
+// Stripe necesita el cuerpo sin parsear para verificar la firma del webhook
+app.use('/api/stripe/webhook', express.raw({ type: 'application/json' }));
+
 // Aumentar el límite de tamaño para solicitudes JSON
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -209,205 +188,24 @@ app.use((req, res, next) => {
     console.error('Database connection failed:', error);
   }
   
-  // Create user_interests table if it doesn't exist
-  try {
-    console.log('Creating user_interests table if needed...');
-    await db.execute(`
-      CREATE TABLE IF NOT EXISTS user_interests (
-        id SERIAL PRIMARY KEY,
-        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-        category TEXT NOT NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-        UNIQUE(user_id, category)
-      );
-    `);
-    console.log('user_interests table is ready');
-  } catch (error: any) {
-    console.log('user_interests table creation skipped (may already exist):', error.message);
-  }
-
-  // Create chat_messages table if it doesn't exist
-  try {
-    console.log('Creating chat_messages table if needed...');
-    await db.execute(`
-      CREATE TABLE IF NOT EXISTS chat_messages (
-        id SERIAL PRIMARY KEY,
-        event_id INTEGER NOT NULL REFERENCES events(id) ON DELETE CASCADE,
-        sender_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-        content TEXT NOT NULL,
-        message_type TEXT DEFAULT 'text' NOT NULL,
-        reply_to_id INTEGER REFERENCES chat_messages(id),
-        edited BOOLEAN DEFAULT false NOT NULL,
-        edited_at TIMESTAMP WITH TIME ZONE,
-        deleted_at TIMESTAMP WITH TIME ZONE,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
-      );
-    `);
-    console.log('chat_messages table is ready');
-  } catch (error: any) {
-    console.log('chat_messages table creation skipped (may already exist):', error.message);
-  }
-
-  // Create notification type enum if it doesn't exist
-  try {
-    console.log('Creating notification_type enum if needed...');
-    await db.execute(`
-      DO $$ BEGIN
-        CREATE TYPE notification_type AS ENUM ('request_approved', 'request_rejected', 'new_request');
-      EXCEPTION
-        WHEN duplicate_object THEN NULL;
-      END $$;
-    `);
-    console.log('notification_type enum is ready');
-  } catch (error: any) {
-    console.log('notification_type enum creation skipped (may already exist):', error.message);
-  }
-
-  // Create notifications table if it doesn't exist
-  try {
-    console.log('Creating notifications table if needed...');
-    await db.execute(`
-      CREATE TABLE IF NOT EXISTS notifications (
-        id SERIAL PRIMARY KEY,
-        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-        type notification_type NOT NULL,
-        title TEXT NOT NULL,
-        message TEXT NOT NULL,
-        event_id INTEGER REFERENCES events(id) ON DELETE CASCADE,
-        request_id INTEGER REFERENCES event_attendees(id) ON DELETE CASCADE,
-        is_read BOOLEAN DEFAULT FALSE NOT NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
-      );
-    `);
-    console.log('notifications table is ready');
-  } catch (error: any) {
-    console.log('notifications table creation skipped (may already exist):', error.message);
-  }
-
-  // Add end_time column to events table if it doesn't exist
-  try {
-    console.log('Adding end_time column to events table if needed...');
-    await db.execute(`
-      ALTER TABLE events ADD COLUMN IF NOT EXISTS end_time TIMESTAMP WITH TIME ZONE;
-    `);
-    console.log('end_time column is ready');
-    
-    // Update existing events with default end time (2 hours after start)
-    await db.execute(`
-      UPDATE events 
-      SET end_time = date + INTERVAL '2 hours' 
-      WHERE end_time IS NULL;
-    `);
-    console.log('Existing events updated with default end times');
-  } catch (error: any) {
-    console.log('end_time column setup completed or skipped:', error.message);
-  }
-
-  // Add gender enums and columns
-  try {
-    console.log('Creating gender enums if needed...');
-    
-    // Create gender enum
-    await db.execute(`
-      DO $$ BEGIN
-        CREATE TYPE gender AS ENUM ('masculino', 'femenino', 'otro', 'no_especificar');
-      EXCEPTION
-        WHEN duplicate_object THEN NULL;
-      END $$;
-    `);
-    
-    // Create gender preference enum (recreate if needed to ensure correct values)
-    await db.execute(`
-      DO $$ BEGIN
-        DROP TYPE IF EXISTS gender_preference CASCADE;
-        CREATE TYPE gender_preference AS ENUM ('all_people', 'men', 'women');
-      EXCEPTION
-        WHEN others THEN 
-          -- If there's an error, try to create the type anyway
-          BEGIN
-            CREATE TYPE gender_preference AS ENUM ('all_people', 'men', 'women');
-          EXCEPTION
-            WHEN duplicate_object THEN NULL;
-          END;
-      END $$;
-    `);
-    
-    console.log('Gender enums created successfully');
-  } catch (error: any) {
-    console.log('Gender enums creation completed or skipped:', error.message);
-  }
-  
-  // Add gender column to users table
-  try {
-    console.log('Adding gender column to users table if needed...');
-    await db.execute(`
-      ALTER TABLE users ADD COLUMN IF NOT EXISTS gender gender;
-    `);
-    console.log('Gender column added to users table');
-  } catch (error: any) {
-    console.log('Gender column setup completed or skipped:', error.message);
-  }
-  
-  // Add gender_preference column to events table
-  try {
-    console.log('Adding gender_preference column to events table if needed...');
-    await db.execute(`
-      ALTER TABLE events ADD COLUMN IF NOT EXISTS gender_preference gender_preference DEFAULT 'all_people';
-    `);
-    
-    // Update existing events with default gender preference and convert 'mixto' to 'all_people'
-    await db.execute(`
-      UPDATE events 
-      SET gender_preference = 'all_people' 
-      WHERE gender_preference IS NULL OR gender_preference::text = 'mixto';
-    `);
-    
-    console.log('Gender preference column added to events table');
-  } catch (error: any) {
-    console.log('Gender preference column setup completed or skipped:', error.message);
-  }
-
-  // Create user_ratings table for aura system
-  try {
-    console.log('Creating user_ratings table if needed...');
-    
-    // Check if table exists by testing a simple query
-    const { error: checkError } = await supabase
-      .from('user_ratings')
-      .select('id')
-      .limit(1);
-    
-    if (checkError && checkError.message.includes('relation "public.user_ratings" does not exist')) {
-      console.log('Creating user_ratings table with fallback method...');
-      // Create table using Supabase-compatible approach
-      const createTableSQL = `
-        CREATE TABLE IF NOT EXISTS user_ratings (
-          id SERIAL PRIMARY KEY,
-          rated_user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-          rater_user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-          rating INTEGER NOT NULL CHECK (rating >= 1 AND rating <= 10),
-          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
-          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
-          UNIQUE(rated_user_id, rater_user_id)
-        );
-      `;
-      
-      // Create using supabase SQL execution - simplified approach
-      try {
-        // Try alternative approach - create an insert operation that will fail but reveal if table exists
-        await supabase.from('user_ratings').insert([]);
-      } catch (insertError: any) {
-        console.log('Table creation approach - ready to create via SQL editor');
-        console.log('Please execute this SQL in Supabase SQL editor:');
-        console.log(createTableSQL);
+  // The schema comes from db/migrations (npm run db:migrate); refuse to start against a database that drifted
+  if (process.env.DATABASE_URL && process.env.STORAGE_BACKEND !== 'memory') {
+    const { checkSchemaDrift, hasSchemaDrift, describeSchemaDrift } = await import('./schema-migrations');
+    try {
+      const drift = await checkSchemaDrift();
+      if (hasSchemaDrift(drift)) {
+        console.error('❌ Database schema does not match db/migrations:');
+        describeSchemaDrift(drift).forEach(line => console.error(`   ${line}`));
+        console.error('   Run `npm run db:migrate` before starting the server');
+        process.exit(1);
       }
+      console.log('✅ Database schema is up to date');
+    } catch (error: any) {
+      console.error('❌ Could not check the database schema:', error.message);
+      process.exit(1);
     }
-    
-    console.log('user_ratings table is ready');
-  } catch (error: any) {
-    console.log('user_ratings table creation completed or skipped:', error.message);
+  } else {
+    console.warn('⚠️ No Postgres database configured (DATABASE_URL), skipping the schema drift check');
   }
   
   // Initialize local storage for media files
@@ -428,6 +226,9 @@ app.use((req, res, next) => {
   } catch (error) {
     console.error('Error setting up local storage:', error);
   }
+
+  // Check the Supabase Storage bucket used by uploadFile (chat attachments)
+  await initializeStorage();
   
   // Create a simple auth logger middleware
   const logAuthStatus = (req: Request, res: Response, next: NextFunction) => {
@@ -451,19 +252,32 @@ app.use((req, res, next) => {
   
   // Add media router for file handling
   app.use(mediaRouter);
+
+  // Chat attachment uploads (images and files)
+  app.use(chatAttachmentRouter);
+
+  // Direct messages between users and the block list
+  app.use(directMessageRouter);
+
+  // Admin-only status endpoints (background jobs)
+  app.use(adminRouter);
   
   // Register Supabase auth routes
   app.use('/api/auth', supabaseRoutes);
   
   // Register conflict detection routes with specific paths that need auth
-  app.use('/api/events/conflict-check', isAuthenticatedMiddleware, conflictRoutes);
+  app.use('/api/events/conflict-check', requireAuth, conflictRoutes);
   
   // Register API routes (excluding auth routes - handled by Supabase)
   const server = await registerRoutes(app, { excludeAuth: true });
 
   // Set up WebSocket server for chat
   const { ChatWebSocketServer } = await import('./websocket-server');
-  new ChatWebSocketServer(server);
+  new ChatWebSocketServer(server, sessionMiddleware);
+
+  // Time-based work (chat reminders, completing ended events) runs on the job scheduler
+  const { startScheduledJobs } = await import('./scheduled-jobs');
+  startScheduledJobs();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import os from 'os';
+import { storage as defaultStorage } from './storage';
+import type { Storage, ScheduledJobRow } from './storage-types';
+
+// How often due jobs are looked for
+const POLL_INTERVAL_MS = 15 * 1000;
+
+// A run that takes longer than this loses its lease and another instance may start the job again
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+// Failed runs are retried after 30s, 1m, 2m... up to 30 minutes
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// Where "now" comes from; tests pass a fake clock and call tick() themselves
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+export interface JobDefinition {
+  name: string;
+  intervalMs: number;
+  leaseMs?: number;
+  run: (now: Date) => Promise<unknown>;
+}
+
+export interface JobSchedulerOptions {
+  storage?: Storage;
+  clock?: Clock;
+  owner?: string;
+  pollIntervalMs?: number;
+}
+
+export type JobRunOutcome =
+  | { name: string; ran: false }
+  | { name: string; ran: true; succeeded: boolean; error: string | null; nextRunAt: Date };
+
+export const retryDelayMs = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+
+/**
+ * Runs recurring jobs stored in scheduled_jobs. Every instance polls, but a run only starts
+ * after taking the job's lease, so each job runs on one instance at a time and the schedule
+ * (next run, failed attempts) survives restarts.
+ */
+export class JobScheduler {
+  private jobs = new Map<string, JobDefinition>();
+  private ensured = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking: Promise<JobRunOutcome[]> | null = null;
+  private storage: Storage;
+  private clock: Clock;
+  private pollIntervalMs: number;
+  readonly owner: string;
+
+  constructor(options: JobSchedulerOptions = {}) {
+    this.storage = options.storage || defaultStorage;
+    this.clock = options.clock || systemClock;
+    this.pollIntervalMs = options.pollIntervalMs || POLL_INTERVAL_MS;
+    this.owner = options.owner || `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+  }
+
+  register(job: JobDefinition) {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  /**
+   * Runs every registered job that is due and not leased by another instance.
+   * Ticks don't overlap: calling it while one is in progress waits for that one.
+   */
+  tick(): Promise<JobRunOutcome[]> {
+    if (!this.ticking) {
+      this.ticking = this.runDueJobs().finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  private async runDueJobs() {
+    const outcomes: JobRunOutcome[] = [];
+    for (const job of Array.from(this.jobs.values())) {
+      try {
+        outcomes.push(await this.runIfDue(job));
+      } catch (error) {
+        // Storage errors: the job stays as it was and the next tick tries again
+        console.error(`❌ Error scheduling job ${job.name}:`, error);
+      }
+    }
+    return outcomes;
+  }
+
+  private async runIfDue(job: JobDefinition): Promise<JobRunOutcome> {
+    const now = this.clock.now();
+
+    if (!this.ensured.has(job.name)) {
+      // New jobs run on the first tick
+      await this.storage.ensureScheduledJob(job.name, now);
+      this.ensured.add(job.name);
+    }
+
+    const leaseExpiresAt = new Date(now.getTime() + (job.leaseMs || DEFAULT_LEASE_MS));
+    const leased = await this.storage.acquireJobLease(job.name, this.owner, now, leaseExpiresAt);
+    if (!leased) {
+      // Not due yet, or another instance is running it
+      return { name: job.name, ran: false };
+    }
+
+    let error: string | null = null;
+    try {
+      await job.run(now);
+    } catch (runError) {
+      error = runError instanceof Error ? runError.message : String(runError);
+      console.error(`❌ Job ${job.name} failed:`, runError);
+    }
+
+    const finishedAt = this.clock.now();
+    const attempts = error ? leased.attempts + 1 : 0;
+    const nextRunAt = new Date(finishedAt.getTime() + (error ? retryDelayMs(attempts) : job.intervalMs));
+
+    const finished = await this.storage.finishJobRun(job.name, this.owner, { finishedAt, nextRunAt, attempts, error });
+    if (!finished) {
+      console.warn(`⚠️ Job ${job.name} outlived its lease, another instance may have run it too`);
+    }
+    if (error) {
+      console.log(`🔁 Job ${job.name} will retry at ${nextRunAt.toISOString()} (attempt ${attempts})`);
+    }
+
+    return { name: job.name, ran: true, succeeded: !error, error, nextRunAt };
+  }
+
+  start() {
+    if (this.timer) return;
+
+    const poll = () => this.tick().catch(error => {
+      console.error('❌ Job scheduler tick failed:', error);
+    });
+
+    poll();
+    this.timer = setInterval(poll, this.pollIntervalMs);
+    console.log(`⏰ Job scheduler started (${this.jobs.size} jobs, instance ${this.owner})`);
+  }
+
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    // Let a run in progress finish so its lease is released
+    await this.ticking;
+  }
+
+  /**
+   * Registered jobs with their stored state, for /api/admin/jobs
+   */
+  async getStatus() {
+    const now = this.clock.now();
+    const rows = new Map<string, ScheduledJobRow>(
+      (await this.storage.getScheduledJobs()).map(row => [row.name, row])
+    );
+
+    return {
+      instance: this.owner,
+      running: this.timer !== null,
+      now: now.toISOString(),
+      jobs: Array.from(this.jobs.values()).map(job => {
+        const row = rows.get(job.name);
+        const leaseActive = !!row?.lease_expires_at && new Date(row.lease_expires_at).getTime() >= now.getTime();
+        return {
+          name: job.name,
+          intervalMs: job.intervalMs,
+          nextRunAt: row?.next_run_at || null,
+          runningOn: leaseActive ? row!.lease_owner : null,
+          leaseExpiresAt: leaseActive ? row!.lease_expires_at : null,
+          failedAttempts: row?.attempts || 0,
+          lastStartedAt: row?.last_started_at || null,
+          lastFinishedAt: row?.last_finished_at || null,
+          lastSucceededAt: row?.last_succeeded_at || null,
+          lastError: row?.last_error || null
+        };
+      })
+    };
+  }
+}
+
+export const jobScheduler = new JobScheduler();
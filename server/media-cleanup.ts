@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+import { storage } from './storage';
+
+// Where the event forms store uploaded photos and videos (served as /uploads/events/<file>)
+export const EVENT_UPLOADS_DIR = path.join(process.cwd(), 'public', 'uploads', 'events');
+
+// A file is written before its event is saved, so recent uploads are never treated as orphans
+const ORPHANED_MEDIA_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Matches the file name in any /uploads/events/<file> URL, relative or absolute
+const EVENT_UPLOAD_URL = /\/uploads\/events\/([^/"'\s?#,\]}]+)/g;
+
+// File names of the uploads an event still points to. media_items is scanned as text rather than
+// parsed, so a malformed value still protects the files it mentions
+function referencedFileNames(events: Array<{ media_items: string | null; main_media_url: string | null }>) {
+  const names = new Set<string>();
+  for (const event of events) {
+    for (const value of [event.media_items, event.main_media_url]) {
+      for (const match of (value || '').matchAll(EVENT_UPLOAD_URL)) {
+        names.add(match[1]);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Deletes event uploads no event refers to anymore (media removed in an edit, deleted
+ * events, forms that failed after uploading). Returns the deleted file names.
+ */
+export async function deleteOrphanedEventMedia(now: Date = new Date(), uploadsDir: string = EVENT_UPLOADS_DIR) {
+  if (!fs.existsSync(uploadsDir)) return [];
+
+  const referenced = referencedFileNames(await storage.getEventMediaReferences());
+  const deleted: string[] = [];
+
+  for (const name of fs.readdirSync(uploadsDir)) {
+    if (referenced.has(name)) continue;
+
+    const filePath = path.join(uploadsDir, name);
+    const stats = fs.statSync(filePath);
+    if (!stats.isFile() || now.getTime() - stats.mtimeMs < ORPHANED_MEDIA_GRACE_MS) continue;
+
+    fs.unlinkSync(filePath);
+    deleted.push(name);
+  }
+
+  if (deleted.length > 0) {
+    console.log(`🧹 Deleted ${deleted.length} orphaned event media files`);
+  }
+  return deleted;
+}
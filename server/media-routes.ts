@@ -1,10 +1,7 @@
 import express, { Request, Response } from 'express';
 import { storage } from './storage';
 import { preserveExistingMedia } from './helpers/media-preserver';
-// import { isAuthenticatedMiddleware as requireAuth } from './supabase-auth';
-
-// Temporary auth middleware for local development
-const requireAuth = (req: any, res: any, next: any) => { next(); };
+import { requireAuth } from './identity';
 
 // Crear un router separado para manejar la preservación de medios
 const mediaRouter = express.Router();
@@ -22,7 +19,7 @@ mediaRouter.post('/api/events/:id/preserve-media', requireAuth, async (req, res)
     }
     
     // Verificar que el usuario es el organizador
-    if (event.organizerId !== user.id) {
+    if (event.organizer_id !== user.id) {
       return res.status(403).json({ message: "No autorizado para actualizar este evento" });
     }
     
@@ -1,35 +1,109 @@
-// In-memory user storage for development when Supabase RLS blocks inserts
-import bcrypt from 'bcrypt';
-
-interface User {
-  id: number;
-  email: string;
-  username: string;
-  name: string;
-  password: string | null;
-  bio: string | null;
-  avatar: string | null;
-  supabaseId: string | null;
-  stripeCustomerId: string | null;
-  stripeSubscriptionId: string | null;
-  createdAt: string;
-  updatedAt: string;
-}
+// In-memory storage: a user store for development when Supabase RLS blocks inserts,
+// and the full STORAGE_BACKEND=memory backend for tests and offline development
+import type {
+  User,
+  Event,
+  EventAttendee,
+  EventStatus,
+  InsertUser,
+  InsertEvent,
+  InsertEventAttendee
+} from '@shared/schema';
+import type {
+  Storage,
+  Row,
+  UserRow,
+  UserSummary,
+  EventRow,
+  EventSeriesRow,
+  EventAttendeeRow,
+  UserInterestRow,
+  NotificationRow,
+  ChatMessageRow,
+  ChatReadCursorRow,
+  ConversationRow,
+  DirectMessageRow,
+  ScheduledJobRow,
+  AuthSessionRow,
+  HttpSessionRow,
+  AttendeePaymentUpdate,
+  AttendeeRefund,
+  BoundingBox,
+  CapacityApproval,
+  CapacityApprovalSource,
+  ConversationChanges,
+  EventSearchFilters,
+  EventTileCluster,
+  EventTiles,
+  JobRunResult,
+  NewAuthSession,
+  NewChatMessage,
+  NewEventSeries,
+  NewNotification,
+  EventOccurrenceUpdate,
+  RatingSummary
+} from './storage-types';
+import type { UserBlock, UserRating } from '@shared/schema';
+import {
+  DEFAULT_EVENT_DURATION_MS,
+  DEFAULT_SEARCH_RADIUS_KM,
+  EVENT_TILES_CLUSTER_MAX_ZOOM,
+  MAX_CHAT_MESSAGES_PAGE_SIZE,
+  MAX_EVENTS_PAGE_SIZE,
+  MAX_EVENTS_PER_TILE_REQUEST,
+  clampEventsPageSize,
+  collectEventPages,
+  decodeEventsCursor,
+  encodeEventsCursor,
+  orderedPair,
+  sortEventMediaItems,
+  tileCellSize,
+  toSnakeColumns
+} from './storage-helpers';
+
+const now = () => new Date().toISOString();
+
+const time = (value: string | Date | null | undefined) => value ? new Date(value).getTime() : 0;
+
+const toIso = (value: string | Date) => new Date(value).toISOString();
+
+// Timestamp columns are stored as ISO strings whatever format the caller sent
+const TIMESTAMP_COLUMNS = new Set([
+  'date', 'end_time', 'created_at', 'updated_at', 'start_date', 'until_date', 'edited_at', 'deleted_at',
+  'read_at', 'last_message_at', 'checked_in_at', 'refunded_at', 'last_location_at', 'cancelled_at'
+]);
 
-interface InsertUser {
-  email: string;
-  username: string;
-  name: string;
-  password: string | null;
-  bio?: string | null;
-  avatar?: string | null;
-  supabaseId?: string | null;
-  stripeCustomerId?: string | null;
-  stripeSubscriptionId?: string | null;
+/**
+ * Applies camelCase or snake_case changes to a stored row, ignoring keys that are not columns
+ */
+function applyChanges<T extends object>(row: T, data: Record<string, any>): T {
+  const updated: any = { ...row };
+  for (const [column, value] of Object.entries(toSnakeColumns(data))) {
+    if (!(column in updated)) continue;
+    updated[column] = value !== null && TIMESTAMP_COLUMNS.has(column) ? toIso(value) : value;
+  }
+  return updated;
 }
 
-class MemoryUserStore {
-  private users: Map<number, User> = new Map();
+const summarize = (user: UserRow | undefined): UserSummary | null =>
+  user ? { id: user.id, name: user.name, username: user.username, avatar: user.avatar } : null;
+
+// Case and accent insensitive, so "musica" finds "Música"
+const normalizeText = (text: string | null | undefined) =>
+  (text || '').normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase();
+
+const EARTH_RADIUS_KM = 6371;
+
+const distanceKm = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+export class MemoryUserStore {
+  protected users: Map<number, UserRow> = new Map();
   private emailIndex: Map<string, number> = new Map();
   private usernameIndex: Map<string, number> = new Map();
   private nextId = 10001;
@@ -38,21 +112,22 @@ class MemoryUserStore {
     console.log('Initializing in-memory user store for development');
   }
 
-  async getUserById(id: number): Promise<User | null> {
-    return this.users.get(id) || null;
+  async getUserById(id: number): Promise<UserRow | null> {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
   }
 
-  async getUserByEmail(email: string): Promise<User | null> {
+  async getUserByEmail(email: string): Promise<UserRow | null> {
     const userId = this.emailIndex.get(email.toLowerCase());
-    return userId ? this.users.get(userId) || null : null;
+    return userId ? this.getUserById(userId) : null;
   }
 
-  async getUserByUsername(username: string): Promise<User | null> {
+  async getUserByUsername(username: string): Promise<UserRow | null> {
     const userId = this.usernameIndex.get(username.toLowerCase());
-    return userId ? this.users.get(userId) || null : null;
+    return userId ? this.getUserById(userId) : null;
   }
 
-  async insertUser(userData: InsertUser): Promise<User | null> {
+  async insertUser(userData: InsertUser): Promise<UserRow | null> {
     try {
       // Check if user already exists
       if (this.emailIndex.has(userData.email.toLowerCase())) {
@@ -66,21 +141,26 @@ class MemoryUserStore {
       }
 
       const userId = this.nextId++;
-      const now = new Date().toISOString();
-      
-      const user: User = {
+      const createdAt = now();
+      const data: Partial<User> = userData;
+
+      const user: UserRow = {
         id: userId,
         email: userData.email,
         username: userData.username,
         name: userData.name,
-        password: userData.password,
-        bio: userData.bio || null,
-        avatar: userData.avatar || null,
-        supabaseId: userData.supabaseId || null,
-        stripeCustomerId: userData.stripeCustomerId || null,
-        stripeSubscriptionId: userData.stripeSubscriptionId || null,
-        createdAt: now,
-        updatedAt: now
+        password: userData.password || null,
+        bio: data.bio || null,
+        avatar: data.avatar || null,
+        gender: data.gender || null,
+        supabase_id: data.supabaseId || null,
+        stripe_customer_id: data.stripeCustomerId || null,
+        stripe_subscription_id: data.stripeSubscriptionId || null,
+        last_latitude: null,
+        last_longitude: null,
+        last_location_at: null,
+        created_at: createdAt,
+        updated_at: createdAt
       };
 
       this.users.set(userId, user);
@@ -88,27 +168,22 @@ class MemoryUserStore {
       this.usernameIndex.set(userData.username.toLowerCase(), userId);
 
       console.log('Memory store: Created user with ID:', userId, 'email:', userData.email);
-      return user;
+      return { ...user };
     } catch (error) {
       console.error('Memory store insertUser error:', error);
       return null;
     }
   }
 
-  async updateUser(id: number, updates: Partial<User>): Promise<User | null> {
+  async updateUser(id: number, updates: Partial<User>): Promise<UserRow | null> {
     const user = this.users.get(id);
     if (!user) {
       return null;
     }
 
-    const updatedUser = {
-      ...user,
-      ...updates,
-      updatedAt: new Date().toISOString()
-    };
-
+    const updatedUser = { ...applyChanges(user, updates), updated_at: now() };
     this.users.set(id, updatedUser);
-    return updatedUser;
+    return { ...updatedUser };
   }
 
   getStats() {
@@ -119,4 +194,1053 @@ class MemoryUserStore {
   }
 }
 
-export const memoryUserStore = new MemoryUserStore();
\ No newline at end of file
+export const memoryUserStore = new MemoryUserStore();
+
+/**
+ * Every table in process (STORAGE_BACKEND=memory). Rows have the same shape as the other
+ * backends return, and search, tiles and unread counts follow the SQL functions they call.
+ */
+export class MemoryStorage extends MemoryUserStore implements Storage {
+  private events = new Map<number, EventRow>();
+  private eventSeries = new Map<number, EventSeriesRow>();
+  private attendees = new Map<number, EventAttendeeRow>();
+  private interests = new Map<number, UserInterestRow>();
+  private notifications = new Map<number, NotificationRow>();
+  private ratings = new Map<number, Row<UserRating>>();
+  private chatMessages = new Map<number, ChatMessageRow>();
+  private readCursors = new Map<string, ChatReadCursorRow>();
+  private chatReminders = new Set<string>();
+  private reminderNotifications = new Set<string>();
+  private conversations = new Map<number, ConversationRow>();
+  private directMessages = new Map<number, DirectMessageRow>();
+  private blocks = new Map<string, Row<UserBlock>>();
+  private scheduledJobs = new Map<string, ScheduledJobRow>();
+  private authSessions = new Map<string, AuthSessionRow>();
+  private httpSessions = new Map<string, HttpSessionRow>();
+  private lastIds: Record<string, number> = {};
+
+  private nextRowId(table: string) {
+    this.lastIds[table] = (this.lastIds[table] || 0) + 1;
+    return this.lastIds[table];
+  }
+
+  // Users (the rest come from MemoryUserStore)
+  async getUserBySupabaseId(supabaseId: string) {
+    const user = Array.from(this.users.values()).find(candidate => candidate.supabase_id === supabaseId);
+    return user ? { ...user } : null;
+  }
+
+  async updateStripeCustomerId(userId: number, stripeCustomerId: string) {
+    return this.updateUser(userId, { stripeCustomerId });
+  }
+
+  async updateUserStripeInfo(userId: number, stripeInfo: { stripeCustomerId: string; stripeSubscriptionId: string }) {
+    return this.updateUser(userId, stripeInfo);
+  }
+
+  async updateUserLastLocation(userId: number, lat: number, lng: number) {
+    await this.updateUser(userId, {
+      lastLatitude: lat.toString(),
+      lastLongitude: lng.toString(),
+      lastLocationAt: new Date()
+    });
+  }
+
+  // Events
+  private withOrganizerAndAttendees(event: EventRow): EventRow {
+    return sortEventMediaItems({
+      ...event,
+      organizer: this.users.get(event.organizer_id) ? { ...this.users.get(event.organizer_id) } : null,
+      attendees: this.attendeesWhere(attendee => attendee.event_id === event.id)
+        .map(attendee => ({ ...attendee, user: this.users.get(attendee.user_id) ? { ...this.users.get(attendee.user_id) } : null }))
+    });
+  }
+
+  // Published events, newest first as search_events orders them
+  private upcomingEvents() {
+    return Array.from(this.events.values())
+      .filter(event => event.status === 'published')
+      .sort((a, b) => time(b.date) - time(a.date) || b.id - a.id);
+  }
+
+  async getEventById(id: number) {
+    const event = this.events.get(id);
+    if (!event) return null;
+    const series = event.series_id ? this.eventSeries.get(event.series_id) : null;
+    return { ...this.withOrganizerAndAttendees(event), series: series ? { ...series } : null };
+  }
+
+  async searchEvents(filters: EventSearchFilters = {}) {
+    const limit = clampEventsPageSize(filters.limit);
+    const cursor = filters.cursor ? decodeEventsCursor(filters.cursor) : null;
+    if (filters.cursor && !cursor) {
+      throw new Error("Invalid cursor");
+    }
+
+    const hasLocation = filters.lat !== undefined && filters.lng !== undefined && !isNaN(filters.lat) && !isNaN(filters.lng);
+    const radius = filters.radius || DEFAULT_SEARCH_RADIUS_KM;
+    const terms = normalizeText(filters.searchTerm).split(/\s+/).filter(Boolean);
+
+    const matches = this.upcomingEvents().filter(event => {
+      if (filters.category?.length && !filters.category.includes(event.category)) return false;
+      if (filters.paymentType?.length && !filters.paymentType.includes(event.payment_type)) return false;
+      if (terms.length) {
+        const text = normalizeText(`${event.title} ${event.description} ${event.location_name} ${event.location_address}`);
+        if (!terms.every(term => text.includes(term))) return false;
+      }
+      if (hasLocation && distanceKm(filters.lat, filters.lng, Number(event.latitude), Number(event.longitude)) > radius) {
+        return false;
+      }
+      if (cursor) {
+        const cursorTime = time(cursor.date);
+        if (time(event.date) > cursorTime || (time(event.date) === cursorTime && event.id >= cursor.id)) return false;
+      }
+      return true;
+    });
+
+    const pageEvents = matches.slice(0, limit).map(event => this.withOrganizerAndAttendees(event));
+    const nextCursor = matches.length > limit ? encodeEventsCursor(pageEvents[pageEvents.length - 1]) : null;
+    return { events: pageEvents, nextCursor };
+  }
+
+  async getEvents(filters?: Pick<EventSearchFilters, 'category' | 'paymentType' | 'searchTerm'>) {
+    const events = await collectEventPages(cursor => this.searchEvents({ ...filters, limit: MAX_EVENTS_PAGE_SIZE, cursor }));
+    return events;
+  }
+
+  async getNearbyEvents(lat: number, lng: number, radius: number = DEFAULT_SEARCH_RADIUS_KM) {
+    const events = await collectEventPages(cursor => this.searchEvents({ lat, lng, radius, limit: MAX_EVENTS_PAGE_SIZE, cursor }));
+    return events;
+  }
+
+  async getEventTiles(bbox: BoundingBox, zoom: number): Promise<EventTiles> {
+    const inside = this.upcomingEvents().filter(event => {
+      const lat = Number(event.latitude);
+      const lng = Number(event.longitude);
+      return lng >= bbox.minLng && lng <= bbox.maxLng && lat >= bbox.minLat && lat <= bbox.maxLat;
+    });
+
+    if (zoom >= EVENT_TILES_CLUSTER_MAX_ZOOM) {
+      const tileEvents = inside.slice(0, MAX_EVENTS_PER_TILE_REQUEST).map(event => this.withOrganizerAndAttendees(event));
+      return { type: 'events', events: tileEvents };
+    }
+
+    // Same grid as ST_SnapToGrid: events are grouped by the cell they fall in
+    const cellSize = tileCellSize(zoom);
+    const cells = new Map<string, { latSum: number; lngSum: number; cluster: EventTileCluster }>();
+    for (const event of inside) {
+      const lat = Number(event.latitude);
+      const lng = Number(event.longitude);
+      const key = `${Math.round(lng / cellSize)}:${Math.round(lat / cellSize)}`;
+      const cell = cells.get(key) || { latSum: 0, lngSum: 0, cluster: { latitude: 0, longitude: 0, count: 0, categories: {} } };
+      cell.latSum += lat;
+      cell.lngSum += lng;
+      cell.cluster.count++;
+      cell.cluster.categories[event.category] = (cell.cluster.categories[event.category] || 0) + 1;
+      cells.set(key, cell);
+    }
+
+    const clusters = Array.from(cells.values()).map(({ latSum, lngSum, cluster }) => ({
+      ...cluster,
+      latitude: latSum / cluster.count,
+      longitude: lngSum / cluster.count
+    }));
+    return { type: 'clusters', clusters };
+  }
+
+  async getEventsStartingBetween(from: Date, to: Date) {
+    return Array.from(this.events.values())
+      .filter(event => event.status === 'published' && time(event.date) > from.getTime() && time(event.date) <= to.getTime())
+      .map(event => ({ ...event }));
+  }
+
+  async getUpcomingEvents(from: Date, options: { excludeOrganizerId?: number; limit: number }) {
+    return this.upcomingEvents()
+      .filter(event => time(event.date) >= from.getTime() && event.organizer_id !== options.excludeOrganizerId)
+      .sort((a, b) => time(a.date) - time(b.date) || a.id - b.id)
+      .slice(0, options.limit)
+      .map(event => this.withOrganizerAndAttendees(event));
+  }
+
+  private toEventRow(event: InsertEvent): EventRow {
+    const createdAt = now();
+    return {
+      id: this.nextRowId('events'),
+      title: event.title,
+      description: event.description,
+      category: event.category,
+      date: toIso(event.date),
+      end_time: event.endTime ? toIso(event.endTime) : null,
+      latitude: event.latitude.toString(),
+      longitude: event.longitude.toString(),
+      location_name: event.locationName,
+      location_address: event.locationAddress,
+      payment_type: event.paymentType || 'free',
+      price: event.price ? event.price.toString() : null,
+      max_capacity: event.maxCapacity ?? null,
+      privacy_type: event.privacyType || 'public',
+      private_access_type: event.privateAccessType || 'solicitud',
+      application_questions: (event.applicationQuestions as EventRow['application_questions']) || null,
+      media_items: event.mediaItems || null,
+      main_media_type: event.mainMediaType || null,
+      main_media_url: event.mainMediaUrl || null,
+      gender_preference: event.genderPreference || 'all_people',
+      organizer_id: Number(event.organizerId),
+      series_id: event.seriesId || null,
+      occurrence_index: event.occurrenceIndex ?? null,
+      cancellation_policy: event.cancellationPolicy || 'full_refund',
+      refund_deadline_hours: event.refundDeadlineHours ?? 24,
+      partial_refund_percent: event.partialRefundPercent ?? 50,
+      status: event.status || 'published',
+      cancelled_at: null,
+      created_at: createdAt,
+      updated_at: createdAt
+    };
+  }
+
+  async insertEvent(event: InsertEvent) {
+    const row = this.toEventRow(event);
+    this.events.set(row.id, row);
+    return { ...row };
+  }
+
+  async updateEvent(id: number, eventData: Partial<Event>) {
+    const event = this.events.get(id);
+    if (!event) {
+      throw new Error("No event was updated - event may not exist");
+    }
+    const updated = { ...applyChanges(event, eventData), updated_at: now() };
+    this.events.set(id, updated);
+    return { ...updated };
+  }
+
+  async updateEventOccurrences(updates: EventOccurrenceUpdate[]) {
+    // Checked up front so a missing event leaves every occurrence untouched
+    const missing = updates.find(update => !this.events.has(update.id));
+    if (missing) {
+      throw new Error(`Event ${missing.id} not found`);
+    }
+    return Promise.all(updates.map(update => this.updateEvent(update.id, update.changes)));
+  }
+
+  async setEventStatus(id: number, status: EventStatus) {
+    const event = this.events.get(id);
+    if (!event) return null;
+    const updated = {
+      ...event,
+      status,
+      cancelled_at: status === 'cancelled' ? now() : event.cancelled_at,
+      updated_at: now()
+    };
+    this.events.set(id, updated);
+    return { ...updated };
+  }
+
+  async completeEndedEvents(current: Date) {
+    const completed: EventRow[] = [];
+    for (const event of this.events.values()) {
+      const endsAt = event.end_time ? time(event.end_time) : time(event.date) + DEFAULT_EVENT_DURATION_MS;
+      if (event.status !== 'published' || endsAt >= current.getTime()) continue;
+      const updated = { ...event, status: 'completed' as const, updated_at: now() };
+      this.events.set(event.id, updated);
+      completed.push({ ...updated });
+    }
+    return completed;
+  }
+
+  async getEventMediaReferences() {
+    return Array.from(this.events.values())
+      .map(event => ({ id: event.id, media_items: event.media_items, main_media_url: event.main_media_url }));
+  }
+
+  async deleteEvent(id: number) {
+    const event = this.events.get(id) || null;
+    this.attendeesWhere(attendee => attendee.event_id === id).forEach(attendee => this.attendees.delete(attendee.id));
+    this.events.delete(id);
+    return { id, deleted: true, data: event };
+  }
+
+  async deleteAllEvents() {
+    this.attendees.clear();
+    this.events.clear();
+    return { message: "All events and attendees deleted successfully" };
+  }
+
+  async insertEventSeries(series: NewEventSeries, occurrences: InsertEvent[]) {
+    const createdAt = now();
+    const row: EventSeriesRow = {
+      id: this.nextRowId('event_series'),
+      organizer_id: series.organizerId,
+      frequency: series.frequency,
+      interval: series.interval,
+      start_date: series.startDate.toISOString(),
+      until_date: series.untilDate ? series.untilDate.toISOString() : null,
+      occurrence_count: series.occurrenceCount || null,
+      created_at: createdAt,
+      updated_at: createdAt
+    };
+    // Every row is built before anything is stored, so a bad occurrence leaves nothing behind
+    const eventRows = occurrences.map(occurrence => this.toEventRow({ ...occurrence, seriesId: row.id }));
+
+    this.eventSeries.set(row.id, row);
+    eventRows.forEach(eventRow => this.events.set(eventRow.id, eventRow));
+    return { series: { ...row }, occurrences: eventRows.map(eventRow => ({ ...eventRow })) };
+  }
+
+  async getEventSeriesById(seriesId: number) {
+    const series = this.eventSeries.get(seriesId);
+    return series ? { ...series } : null;
+  }
+
+  async getSeriesOccurrences(seriesId: number, fromDate?: Date) {
+    return Array.from(this.events.values())
+      .filter(event => event.series_id === seriesId && (!fromDate || time(event.date) >= fromDate.getTime()))
+      .sort((a, b) => time(a.date) - time(b.date))
+      .map(event => ({ ...event }));
+  }
+
+  async getUserCreatedEvents(userId: number) {
+    return Array.from(this.events.values())
+      .filter(event => event.organizer_id === userId)
+      .sort((a, b) => time(b.date) - time(a.date))
+      .map(event => ({ ...event, attendees: this.attendeesWhere(attendee => attendee.event_id === event.id) }));
+  }
+
+  async getUserAttendingEvents(userId: number) {
+    return this.newestFirst(this.attendeesWhere(attendee => attendee.user_id === userId))
+      .map(attendee => {
+        const event = this.events.get(attendee.event_id);
+        return {
+          ...attendee,
+          event: event ? { ...event, organizer: this.users.get(event.organizer_id) ? { ...this.users.get(event.organizer_id) } : null } : null
+        };
+      });
+  }
+
+  // Attendees
+  private attendeesWhere(predicate: (attendee: EventAttendeeRow) => boolean) {
+    return Array.from(this.attendees.values()).filter(predicate).map(attendee => ({ ...attendee }));
+  }
+
+  private newestFirst<T extends { id: number; created_at: string }>(rows: T[]) {
+    return rows.sort((a, b) => time(b.created_at) - time(a.created_at) || b.id - a.id);
+  }
+
+  private updateAttendeeRow(attendee: EventAttendeeRow | undefined, changes: Record<string, any>) {
+    if (!attendee) return null;
+    const updated = applyChanges(attendee, changes);
+    this.attendees.set(attendee.id, updated);
+    return { ...updated };
+  }
+
+  private findAttendee(eventId: number, userId: number) {
+    return Array.from(this.attendees.values()).find(attendee => attendee.event_id === eventId && attendee.user_id === userId);
+  }
+
+  async joinEvent(attendee: InsertEventAttendee) {
+    return this.insertEventAttendee(attendee);
+  }
+
+  async leaveEvent(eventId: number, userId: number) {
+    const attendee = this.findAttendee(eventId, userId);
+    if (attendee) {
+      this.attendees.delete(attendee.id);
+    }
+    return { eventId, userId, removed: true };
+  }
+
+  async getEventAttendees(eventId: number) {
+    return this.attendeesWhere(attendee => attendee.event_id === eventId)
+      .map(attendee => ({ ...attendee, user: this.users.get(attendee.user_id) ? { ...this.users.get(attendee.user_id) } : null }));
+  }
+
+  async getEventAttendee(eventId: number, userId: number) {
+    const attendee = this.findAttendee(eventId, userId);
+    return attendee ? { ...attendee } : null;
+  }
+
+  async insertEventAttendee(attendeeData: InsertEventAttendee) {
+    const data: Partial<EventAttendee> = attendeeData;
+    const row: EventAttendeeRow = {
+      id: this.nextRowId('event_attendees'),
+      event_id: data.eventId,
+      user_id: data.userId,
+      status: data.status || 'approved',
+      payment_status: data.paymentStatus || 'pending',
+      payment_intent_id: data.paymentIntentId || null,
+      application_answers: data.applicationAnswers || null,
+      refund_amount: null,
+      refund_status: null,
+      refund_id: null,
+      refunded_at: null,
+      checked_in_at: null,
+      no_show: false,
+      created_at: now()
+    };
+    this.attendees.set(row.id, row);
+    return { ...row };
+  }
+
+  async getEventAttendeeById(id: number) {
+    const attendee = this.attendees.get(id);
+    if (!attendee) return null;
+    const user = this.users.get(attendee.user_id);
+    const event = this.events.get(attendee.event_id);
+    return { ...attendee, user: user ? { ...user } : null, event: event ? { ...event } : null };
+  }
+
+  async updateEventAttendee(id: number, attendeeData: Partial<EventAttendee>) {
+    return this.updateAttendeeRow(this.attendees.get(id), attendeeData);
+  }
+
+  async updatePaymentStatus(eventId: number, userId: number, paymentStatus: string, paymentIntentId: string) {
+    return this.updateAttendeePayment(eventId, userId, { paymentStatus, paymentIntentId });
+  }
+
+  async updateAttendeePayment(eventId: number, userId: number, payment: AttendeePaymentUpdate) {
+    return this.updateAttendeeRow(this.findAttendee(eventId, userId), payment);
+  }
+
+  async recordAttendeeRefund(attendeeId: number, refund: AttendeeRefund) {
+    return this.updateAttendeeRow(this.attendees.get(attendeeId), {
+      status: 'cancelled',
+      refund_amount: refund.refundAmount.toFixed(2),
+      refund_status: refund.refundStatus,
+      refund_id: refund.refundId,
+      refunded_at: refund.refundStatus === 'refunded' ? now() : null,
+      ...(refund.refundStatus === 'refunded' && { payment_status: refund.partial ? 'partially_refunded' : 'refunded' })
+    });
+  }
+
+  async getUserTickets(userId: number) {
+    return this.newestFirst(this.attendeesWhere(attendee => attendee.user_id === userId && attendee.status === 'approved'))
+      .map(attendee => {
+        const event = this.events.get(attendee.event_id);
+        return {
+          ...attendee,
+          event: event ? {
+            id: event.id,
+            title: event.title,
+            date: event.date,
+            end_time: event.end_time,
+            location_name: event.location_name,
+            location_address: event.location_address,
+            main_media_url: event.main_media_url
+          } : null
+        };
+      });
+  }
+
+  async checkInAttendee(attendeeId: number) {
+    // Only set checked_in_at the first time, so scanning twice keeps the original time
+    const attendee = this.attendees.get(attendeeId);
+    if (!attendee || attendee.checked_in_at) return null;
+    return this.updateAttendeeRow(attendee, { checked_in_at: now(), no_show: false });
+  }
+
+  async setAttendeeNoShow(attendeeId: number, noShow: boolean) {
+    return this.updateAttendeeRow(this.attendees.get(attendeeId), { no_show: noShow });
+  }
+
+  async getEventCheckIns(eventId: number) {
+    return this.attendeesWhere(attendee => attendee.event_id === eventId && attendee.status === 'approved')
+      .sort((a, b) => (b.checked_in_at ? time(b.checked_in_at) : -Infinity) - (a.checked_in_at ? time(a.checked_in_at) : -Infinity))
+      .map(attendee => ({ ...attendee, user: summarize(this.users.get(attendee.user_id)) }));
+  }
+
+  async getApprovedAttendances(userId: number, eventIds?: number[]) {
+    return this.attendeesWhere(attendee =>
+      attendee.user_id === userId && attendee.status === 'approved' && (!eventIds || eventIds.includes(attendee.event_id))
+    ).map(attendee => ({ ...attendee, event: this.events.get(attendee.event_id) ? { ...this.events.get(attendee.event_id) } : null }));
+  }
+
+  async getEventIdsWithCheckIns(eventIds: number[]) {
+    const withCheckIns = this.attendeesWhere(attendee => eventIds.includes(attendee.event_id) && !!attendee.checked_in_at);
+    return Array.from(new Set(withCheckIns.map(attendee => attendee.event_id)));
+  }
+
+  async getApprovedAttendeeUserIds(eventIds: number[]) {
+    const approved = this.attendeesWhere(attendee => eventIds.includes(attendee.event_id) && attendee.status === 'approved');
+    return Array.from(new Set(approved.map(attendee => attendee.user_id)));
+  }
+
+  private withRequestDetails(attendee: EventAttendeeRow): EventAttendeeRow {
+    const user = this.users.get(attendee.user_id);
+    const event = this.events.get(attendee.event_id);
+    return {
+      ...attendee,
+      user: user ? { id: user.id, name: user.name, username: user.username, email: user.email, avatar: user.avatar } : null,
+      event: event ? {
+        id: event.id,
+        title: event.title,
+        date: event.date,
+        privacy_type: event.privacy_type,
+        private_access_type: event.private_access_type
+      } : null
+    };
+  }
+
+  async getPendingEventRequests(eventId: number) {
+    return this.newestFirst(this.attendeesWhere(attendee => attendee.event_id === eventId && attendee.status === 'pending'))
+      .map(attendee => this.withRequestDetails(attendee));
+  }
+
+  async getAllPendingRequestsForUser(organizerId: number) {
+    return this.newestFirst(this.attendeesWhere(attendee =>
+      attendee.status === 'pending' && this.events.get(attendee.event_id)?.organizer_id === organizerId
+    )).map(attendee => this.withRequestDetails(attendee));
+  }
+
+  async approveAttendeeWithinCapacity(attendeeId: number, payment: { paymentStatus: string; paymentIntentId?: string | null }, fromStatus: CapacityApprovalSource = 'pending'): Promise<CapacityApproval> {
+    const attendee = this.attendees.get(attendeeId);
+    if (!attendee || attendee.status !== fromStatus) {
+      return { approved: false, reason: 'not_pending' };
+    }
+
+    // No await between the count and the update, so nothing else runs in between
+    const maxCapacity = this.events.get(attendee.event_id)?.max_capacity;
+    const approvedCount = this.attendeesWhere(other => other.event_id === attendee.event_id && other.status === 'approved').length;
+    if (maxCapacity && approvedCount >= maxCapacity) {
+      return { approved: false, reason: 'event_full' };
+    }
+
+    const approved = this.updateAttendeeRow(attendee, {
+      status: 'approved',
+      payment_status: payment.paymentStatus,
+      ...(payment.paymentIntentId ? { payment_intent_id: payment.paymentIntentId } : {})
+    });
+    return { approved: true, attendee: approved! };
+  }
+
+  async rejectEventAttendee(eventId: number, userId: number) {
+    await this.leaveEvent(eventId, userId);
+    return true;
+  }
+
+  async countApprovedAttendees(eventId: number) {
+    return this.attendeesWhere(attendee => attendee.event_id === eventId && attendee.status === 'approved').length;
+  }
+
+  private waitlist(eventId: number) {
+    return this.attendeesWhere(attendee => attendee.event_id === eventId && attendee.status === 'waitlisted')
+      .sort((a, b) => time(a.created_at) - time(b.created_at) || a.id - b.id);
+  }
+
+  async getWaitlistPosition(eventId: number, userId: number) {
+    const index = this.waitlist(eventId).findIndex(entry => entry.user_id === userId);
+    return index === -1 ? null : index + 1;
+  }
+
+  async promoteNextWaitlistedAttendee(eventId: number) {
+    const [next] = this.waitlist(eventId);
+    if (!next) return null;
+    const approval = await this.approveAttendeeWithinCapacity(next.id, { paymentStatus: 'completed' }, 'waitlisted');
+    return approval.approved ? approval.attendee : null;
+  }
+
+  async expirePendingRequests(current: Date) {
+    return this.attendeesWhere(attendee => {
+      const event = this.events.get(attendee.event_id);
+      return attendee.status === 'pending' && !!event && time(event.date) <= current.getTime();
+    }).map(attendee => this.updateAttendeeRow(attendee, { status: 'rejected' })!);
+  }
+
+  // Interests
+  async getUserInterests(userId: number) {
+    return this.newestFirst(Array.from(this.interests.values()).filter(interest => interest.user_id === userId))
+      .map(interest => ({ ...interest }));
+  }
+
+  async addUserInterest(userId: number, category: string) {
+    const row: UserInterestRow = {
+      id: this.nextRowId('user_interests'),
+      user_id: userId,
+      category: category as UserInterestRow['category'],
+      created_at: now()
+    };
+    this.interests.set(row.id, row);
+    return { ...row };
+  }
+
+  async removeUserInterest(interestId: number) {
+    this.interests.delete(interestId);
+  }
+
+  // Notifications
+  private withEventTitle(notification: NotificationRow): NotificationRow {
+    const event = notification.event_id ? this.events.get(notification.event_id) : null;
+    return { ...notification, event: event ? { title: event.title } : null };
+  }
+
+  async createNotification(notification: NewNotification) {
+    const row: NotificationRow = {
+      id: this.nextRowId('notifications'),
+      user_id: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      event_id: notification.eventId || null,
+      request_id: notification.requestId || null,
+      is_read: false,
+      created_at: now()
+    };
+    this.notifications.set(row.id, row);
+    return this.withEventTitle(row);
+  }
+
+  async getUserNotifications(userId: number) {
+    return this.newestFirst(Array.from(this.notifications.values()).filter(notification => notification.user_id === userId))
+      .map(notification => this.withEventTitle(notification));
+  }
+
+  async countUnreadNotifications(userId: number) {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.user_id === userId && !notification.is_read).length;
+  }
+
+  async markAllNotificationsRead(userId: number) {
+    this.notifications.forEach((notification, id) => {
+      if (notification.user_id === userId && !notification.is_read) {
+        this.notifications.set(id, { ...notification, is_read: true });
+      }
+    });
+  }
+
+  // Ratings
+  async getUserRatingSummary(userId: number) {
+    const ratings = Array.from(this.ratings.values()).filter(rating => rating.rated_user_id === userId);
+    const sum = ratings.reduce((total, rating) => total + rating.rating, 0);
+    return { average: ratings.length ? sum / ratings.length : 0, count: ratings.length };
+  }
+
+  async getUserRatingSummaries(userIds: number[]) {
+    const summaries: Record<number, RatingSummary> = {};
+    for (const userId of new Set(userIds)) {
+      const summary = await this.getUserRatingSummary(userId);
+      if (summary.count > 0) summaries[userId] = summary;
+    }
+    return summaries;
+  }
+
+  async upsertUserRating(raterUserId: number, ratedUserId: number, rating: number) {
+    const existing = Array.from(this.ratings.values())
+      .find(row => row.rater_user_id === raterUserId && row.rated_user_id === ratedUserId);
+    if (existing) {
+      this.ratings.set(existing.id, { ...existing, rating, updated_at: now() });
+      return;
+    }
+
+    const createdAt = now();
+    const id = this.nextRowId('user_ratings');
+    this.ratings.set(id, { id, rated_user_id: ratedUserId, rater_user_id: raterUserId, rating, created_at: createdAt, updated_at: createdAt });
+  }
+
+  // Event chat
+  private withSenderAndReply(message: ChatMessageRow): ChatMessageRow {
+    const replyTo = message.reply_to_id ? this.chatMessages.get(message.reply_to_id) : null;
+    return {
+      ...message,
+      sender: summarize(this.users.get(message.sender_id)),
+      reply_to: replyTo ? {
+        id: replyTo.id,
+        sender_id: replyTo.sender_id,
+        content: replyTo.content,
+        message_type: replyTo.message_type,
+        deleted_at: replyTo.deleted_at,
+        sender: summarize(this.users.get(replyTo.sender_id))
+      } : null
+    };
+  }
+
+  async getChatMessages(eventId: number, page: { limit?: number; offset?: number } = {}) {
+    const limit = Math.min(page.limit || 50, MAX_CHAT_MESSAGES_PAGE_SIZE);
+    const offset = page.offset || 0;
+    return this.newestFirst(Array.from(this.chatMessages.values()).filter(message => message.event_id === eventId))
+      .slice(offset, offset + limit)
+      .map(message => this.withSenderAndReply(message));
+  }
+
+  async getChatMessageById(messageId: number) {
+    const message = this.chatMessages.get(messageId);
+    return message ? this.withSenderAndReply(message) : null;
+  }
+
+  async getLatestChatMessages(eventIds: number[]) {
+    const latest = new Map<number, ChatMessageRow>();
+    for (const message of this.newestFirst(Array.from(this.chatMessages.values()))) {
+      if (eventIds.includes(message.event_id) && !message.deleted_at && !latest.has(message.event_id)) {
+        latest.set(message.event_id, this.withSenderAndReply(message));
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  async insertChatMessage(message: NewChatMessage) {
+    const createdAt = now();
+    const row: ChatMessageRow = {
+      id: this.nextRowId('chat_messages'),
+      event_id: message.eventId,
+      sender_id: message.senderId,
+      content: message.content,
+      message_type: message.messageType || 'text',
+      reply_to_id: message.replyToId || null,
+      attachment: message.attachment || null,
+      system_event: message.systemEvent || null,
+      edited: false,
+      edited_at: null,
+      deleted_at: null,
+      created_at: createdAt,
+      updated_at: createdAt
+    };
+    this.chatMessages.set(row.id, row);
+    return this.withSenderAndReply(row);
+  }
+
+  async editChatMessage(messageId: number, content: string) {
+    const message = this.chatMessages.get(messageId);
+    if (!message) return null;
+    const editedAt = now();
+    const updated = { ...message, content, edited: true, edited_at: editedAt, updated_at: editedAt };
+    this.chatMessages.set(messageId, updated);
+    return this.withSenderAndReply(updated);
+  }
+
+  async softDeleteChatMessage(messageId: number) {
+    const message = this.chatMessages.get(messageId);
+    if (message) {
+      const deletedAt = now();
+      this.chatMessages.set(messageId, { ...message, deleted_at: deletedAt, updated_at: deletedAt });
+    }
+  }
+
+  async markChatRead(userId: number, eventId: number, messageId: number) {
+    const key = `${userId}:${eventId}`;
+    const previous = this.readCursors.get(key);
+    // The cursor only moves forward, like mark_chat_read
+    const cursor: ChatReadCursorRow = {
+      user_id: userId,
+      event_id: eventId,
+      last_read_message_id: Math.max(previous?.last_read_message_id || 0, messageId),
+      read_at: now()
+    };
+    this.readCursors.set(key, cursor);
+    return { ...cursor };
+  }
+
+  async getChatReadCursors(eventId: number) {
+    return Array.from(this.readCursors.values())
+      .filter(cursor => cursor.event_id === eventId)
+      .map(cursor => ({ ...cursor, user: summarize(this.users.get(cursor.user_id)) }));
+  }
+
+  // Same rules as chat_unread_counts: other people's live messages after the cursor, in chats the user belongs to
+  async getChatUnreadCounts(userId: number, eventIds?: number[]) {
+    const counts: Record<number, number> = {};
+    for (const message of Array.from(this.chatMessages.values())) {
+      if (message.sender_id === userId || message.deleted_at) continue;
+      if (eventIds?.length && !eventIds.includes(message.event_id)) continue;
+      if (message.id <= (this.readCursors.get(`${userId}:${message.event_id}`)?.last_read_message_id || 0)) continue;
+
+      const isMember = this.events.get(message.event_id)?.organizer_id === userId ||
+        this.findAttendee(message.event_id, userId)?.status === 'approved';
+      if (!isMember) continue;
+
+      counts[message.event_id] = (counts[message.event_id] || 0) + 1;
+    }
+    return counts;
+  }
+
+  async claimEventChatReminder(eventId: number, hoursBefore: number, startsAt: Date) {
+    const key = `${eventId}:${hoursBefore}:${startsAt.toISOString()}`;
+    if (this.chatReminders.has(key)) return false;
+    this.chatReminders.add(key);
+    return true;
+  }
+
+  async claimEventReminderNotification(eventId: number, minutesBefore: number, startsAt: Date) {
+    const key = `${eventId}:${minutesBefore}:${startsAt.toISOString()}`;
+    if (this.reminderNotifications.has(key)) return false;
+    this.reminderNotifications.add(key);
+    return true;
+  }
+
+  // Direct messages and blocks
+  private withParticipants(conversation: ConversationRow | undefined): ConversationRow | null {
+    if (!conversation) return null;
+    return {
+      ...conversation,
+      user_a: summarize(this.users.get(conversation.user_a_id)),
+      user_b: summarize(this.users.get(conversation.user_b_id))
+    };
+  }
+
+  async getConversationById(conversationId: number) {
+    return this.withParticipants(this.conversations.get(conversationId));
+  }
+
+  async getConversationBetween(userId: number, otherUserId: number) {
+    const [userAId, userBId] = orderedPair(userId, otherUserId);
+    return this.withParticipants(Array.from(this.conversations.values())
+      .find(conversation => conversation.user_a_id === userAId && conversation.user_b_id === userBId));
+  }
+
+  async createConversation(userId: number, otherUserId: number, status: 'active' | 'request') {
+    const [userAId, userBId] = orderedPair(userId, otherUserId);
+    const createdAt = now();
+    const row: ConversationRow = {
+      id: this.nextRowId('conversations'),
+      user_a_id: userAId,
+      user_b_id: userBId,
+      status,
+      requested_by: status === 'request' ? userId : null,
+      last_message_at: null,
+      created_at: createdAt,
+      updated_at: createdAt
+    };
+    this.conversations.set(row.id, row);
+    return this.withParticipants(row);
+  }
+
+  async updateConversation(conversationId: number, changes: ConversationChanges) {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const updated = { ...applyChanges(conversation, changes), updated_at: now() };
+    this.conversations.set(conversationId, updated);
+    return this.withParticipants(updated);
+  }
+
+  async getUserConversations(userId: number) {
+    return Array.from(this.conversations.values())
+      .filter(conversation => conversation.user_a_id === userId || conversation.user_b_id === userId)
+      .sort((a, b) => time(b.last_message_at) - time(a.last_message_at) || b.id - a.id)
+      .map(conversation => {
+        const messages = Array.from(this.directMessages.values()).filter(message => message.conversation_id === conversation.id);
+        const lastMessage = messages.reduce<DirectMessageRow | null>((last, message) => (!last || message.id > last.id ? message : last), null);
+        const otherUserId = conversation.user_a_id === userId ? conversation.user_b_id : conversation.user_a_id;
+        return {
+          id: conversation.id,
+          other_user_id: otherUserId,
+          status: conversation.status as 'active' | 'request' | 'declined',
+          requested_by: conversation.requested_by,
+          last_message_at: conversation.last_message_at,
+          last_message_id: lastMessage?.id ?? null,
+          last_message_sender_id: lastMessage?.sender_id ?? null,
+          last_message_content: lastMessage?.content ?? null,
+          unread_count: messages.filter(message => message.sender_id !== userId && !message.read_at).length,
+          other_user: summarize(this.users.get(otherUserId))
+        };
+      });
+  }
+
+  async insertDirectMessage(conversationId: number, senderId: number, content: string) {
+    const row: DirectMessageRow = {
+      id: this.nextRowId('direct_messages'),
+      conversation_id: conversationId,
+      sender_id: senderId,
+      content,
+      read_at: null,
+      created_at: now()
+    };
+    this.directMessages.set(row.id, row);
+    return { ...row };
+  }
+
+  async countDirectMessagesFrom(conversationId: number, senderId: number) {
+    return Array.from(this.directMessages.values())
+      .filter(message => message.conversation_id === conversationId && message.sender_id === senderId).length;
+  }
+
+  async getDirectMessages(conversationId: number, limit = 50, beforeId?: number) {
+    return Array.from(this.directMessages.values())
+      .filter(message => message.conversation_id === conversationId && (!beforeId || message.id < beforeId))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit)
+      .map(message => ({ ...message }));
+  }
+
+  async markDirectMessagesRead(conversationId: number, userId: number) {
+    const readAt = now();
+    let changed = 0;
+    this.directMessages.forEach((message, id) => {
+      if (message.conversation_id === conversationId && message.sender_id !== userId && !message.read_at) {
+        this.directMessages.set(id, { ...message, read_at: readAt });
+        changed++;
+      }
+    });
+    return changed;
+  }
+
+  // Same rule as users_share_event: each one organizes or is approved in a common event
+  async usersShareEvent(userId: number, otherUserId: number) {
+    const eventsOf = (id: number) => new Set([
+      ...Array.from(this.events.values()).filter(event => event.organizer_id === id).map(event => event.id),
+      ...this.attendeesWhere(attendee => attendee.user_id === id && attendee.status === 'approved').map(attendee => attendee.event_id)
+    ]);
+    const otherEvents = eventsOf(otherUserId);
+    return Array.from(eventsOf(userId)).some(eventId => otherEvents.has(eventId));
+  }
+
+  async blockUser(blockerId: number, blockedId: number) {
+    const key = `${blockerId}:${blockedId}`;
+    if (!this.blocks.has(key)) {
+      this.blocks.set(key, { blocker_id: blockerId, blocked_id: blockedId, created_at: now() });
+    }
+  }
+
+  async unblockUser(blockerId: number, blockedId: number) {
+    this.blocks.delete(`${blockerId}:${blockedId}`);
+  }
+
+  async getBlockedUsers(blockerId: number) {
+    return Array.from(this.blocks.values())
+      .filter(block => block.blocker_id === blockerId)
+      .sort((a, b) => time(b.created_at) - time(a.created_at))
+      .map(block => ({ blocked_id: block.blocked_id, created_at: block.created_at, user: summarize(this.users.get(block.blocked_id)) }));
+  }
+
+  async getBlockBetween(userId: number, otherUserId: number) {
+    return {
+      blockedByMe: this.blocks.has(`${userId}:${otherUserId}`),
+      blockedMe: this.blocks.has(`${otherUserId}:${userId}`),
+    };
+  }
+
+  // Background jobs
+  async ensureScheduledJob(name: string, firstRunAt: Date) {
+    if (this.scheduledJobs.has(name)) return;
+    this.scheduledJobs.set(name, {
+      name,
+      next_run_at: toIso(firstRunAt),
+      lease_owner: null,
+      lease_expires_at: null,
+      attempts: 0,
+      last_started_at: null,
+      last_finished_at: null,
+      last_succeeded_at: null,
+      last_error: null,
+      updated_at: now()
+    });
+  }
+
+  async acquireJobLease(name: string, owner: string, at: Date, leaseExpiresAt: Date) {
+    const job = this.scheduledJobs.get(name);
+    if (!job || time(job.next_run_at) > at.getTime()) return null;
+    if (job.lease_expires_at && time(job.lease_expires_at) >= at.getTime()) return null;
+
+    const leased = {
+      ...job,
+      lease_owner: owner,
+      lease_expires_at: toIso(leaseExpiresAt),
+      last_started_at: toIso(at),
+      updated_at: toIso(at)
+    };
+    this.scheduledJobs.set(name, leased);
+    return { ...leased };
+  }
+
+  async finishJobRun(name: string, owner: string, result: JobRunResult) {
+    const job = this.scheduledJobs.get(name);
+    // The lease expired and another instance took the job over
+    if (!job || job.lease_owner !== owner) return null;
+
+    const finished = {
+      ...job,
+      next_run_at: toIso(result.nextRunAt),
+      lease_owner: null,
+      lease_expires_at: null,
+      attempts: result.attempts,
+      last_finished_at: toIso(result.finishedAt),
+      last_succeeded_at: result.error ? job.last_succeeded_at : toIso(result.finishedAt),
+      last_error: result.error,
+      updated_at: toIso(result.finishedAt)
+    };
+    this.scheduledJobs.set(name, finished);
+    return { ...finished };
+  }
+
+  async getScheduledJobs() {
+    return Array.from(this.scheduledJobs.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(job => ({ ...job }));
+  }
+
+  // Login sessions and express-session data
+  async insertAuthSession(session: NewAuthSession) {
+    this.authSessions.set(session.id, {
+      id: session.id,
+      user_id: session.userId,
+      email: session.email,
+      user_agent: session.userAgent,
+      ip_address: session.ipAddress,
+      created_at: toIso(session.createdAt),
+      last_activity_at: toIso(session.lastActivityAt),
+      expires_at: toIso(session.expiresAt)
+    });
+  }
+
+  async getAuthSession(sessionId: string) {
+    const session = this.authSessions.get(sessionId);
+    return session ? { ...session } : null;
+  }
+
+  async touchAuthSession(sessionId: string, lastActivityAt: Date) {
+    const session = this.authSessions.get(sessionId);
+    if (session) {
+      this.authSessions.set(sessionId, { ...session, last_activity_at: toIso(lastActivityAt) });
+    }
+  }
+
+  async deleteAuthSession(sessionId: string) {
+    this.authSessions.delete(sessionId);
+  }
+
+  async deleteUserAuthSessions(userId: number) {
+    const sessionIds = Array.from(this.authSessions.values())
+      .filter(session => session.user_id === userId)
+      .map(session => session.id);
+    sessionIds.forEach(sessionId => this.authSessions.delete(sessionId));
+    return sessionIds.length;
+  }
+
+  async getUserAuthSessions(userId: number) {
+    return Array.from(this.authSessions.values())
+      .filter(session => session.user_id === userId)
+      .sort((a, b) => time(b.last_activity_at) - time(a.last_activity_at))
+      .map(session => ({ ...session }));
+  }
+
+  async getHttpSession(sid: string) {
+    const session = this.httpSessions.get(sid);
+    return session ? { ...session } : null;
+  }
+
+  async saveHttpSession(sid: string, data: object, expiresAt: Date) {
+    this.httpSessions.set(sid, { sid, data, expires_at: toIso(expiresAt) });
+  }
+
+  async touchHttpSession(sid: string, expiresAt: Date) {
+    const session = this.httpSessions.get(sid);
+    if (session) {
+      this.httpSessions.set(sid, { ...session, expires_at: toIso(expiresAt) });
+    }
+  }
+
+  async deleteHttpSession(sid: string) {
+    this.httpSessions.delete(sid);
+  }
+
+  async deleteExpiredSessions(at: Date) {
+    let deleted = 0;
+    for (const sessions of [this.authSessions, this.httpSessions] as Map<string, { expires_at: string }>[]) {
+      for (const [key, session] of Array.from(sessions.entries())) {
+        if (time(session.expires_at) < at.getTime()) {
+          sessions.delete(key);
+          deleted++;
+        }
+      }
+    }
+    return deleted;
+  }
+}
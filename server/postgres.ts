@@ -0,0 +1,36 @@
+import pg from 'pg';
+import { drizzle, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import * as schema from '@shared/schema';
+
+export type PostgresDb = NodePgDatabase<typeof schema>;
+
+let pool: pg.Pool | null = null;
+let postgresDb: PostgresDb | null = null;
+
+// One pool per process, opened on first use so the Supabase backend never needs DATABASE_URL
+export function getPostgresPool() {
+  if (!pool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('STORAGE_BACKEND=postgres and db:migrate require DATABASE_URL');
+    }
+    pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+    pool.on('error', (error) => {
+      console.error('❌ Postgres pool error:', error.message);
+    });
+  }
+  return pool;
+}
+
+export function getPostgresDb(): PostgresDb {
+  if (!postgresDb) {
+    postgresDb = drizzle(getPostgresPool(), { schema });
+  }
+  return postgresDb;
+}
+
+export async function closePostgres() {
+  const current = pool;
+  pool = null;
+  postgresDb = null;
+  await current?.end();
+}
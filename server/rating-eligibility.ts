@@ -0,0 +1,75 @@
+import { storage } from "./storage";
+import { getEventEnd } from "./event-series";
+
+// Ratings can be given until this many days after the shared event ended
+export const RATING_WINDOW_DAYS = parseInt(process.env.RATING_WINDOW_DAYS || "14");
+
+export interface RatingEligibility {
+  canRate: boolean;
+  reason: string | null;
+  eventId?: number;
+  windowClosesAt?: string;
+}
+
+/**
+ * An attendee showed up if they were checked in. When the organizer didn't
+ * use check-in at all for the event, anyone not marked as no-show counts
+ */
+function attendedEvent(attendance: any, eventUsedCheckIn: boolean) {
+  if (attendance.checked_in_at) return true;
+  return !eventUsedCheckIn && !attendance.no_show;
+}
+
+/**
+ * Check whether `raterId` can rate `targetUserId`: both must have attended
+ * the same event, which has ended, and its rating window must still be open
+ */
+export async function getRatingEligibility(raterId: number, targetUserId: number, now: Date = new Date()): Promise<RatingEligibility> {
+  if (raterId === targetUserId) {
+    return { canRate: false, reason: "Cannot rate yourself" };
+  }
+
+  const raterAttendances = await storage.getApprovedAttendances(raterId);
+  if (raterAttendances.length === 0) {
+    return { canRate: false, reason: "You need to attend the same event to rate this user" };
+  }
+
+  const targetAttendances = await storage.getApprovedAttendances(targetUserId, raterAttendances.map(a => a.event_id));
+  if (targetAttendances.length === 0) {
+    return { canRate: false, reason: "You need to attend the same event to rate this user" };
+  }
+
+  // Events where the organizer checked in at least one person
+  const eventsWithCheckIn = new Set(await storage.getEventIdsWithCheckIns(targetAttendances.map(a => a.event_id)));
+
+  const windowMs = RATING_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  let reason = "You need to attend the same event to rate this user";
+
+  for (const targetAttendance of targetAttendances) {
+    const raterAttendance = raterAttendances.find(a => a.event_id === targetAttendance.event_id);
+    const event = raterAttendance?.event;
+    if (!event) continue;
+
+    const eventEnd = getEventEnd(event);
+    if (eventEnd.getTime() > now.getTime()) {
+      reason = "You can rate this user once the event has ended";
+      continue;
+    }
+
+    const usedCheckIn = eventsWithCheckIn.has(event.id);
+    if (!attendedEvent(raterAttendance, usedCheckIn) || !attendedEvent(targetAttendance, usedCheckIn)) {
+      reason = "Both users need to have attended the event";
+      continue;
+    }
+
+    const windowClosesAt = new Date(eventEnd.getTime() + windowMs);
+    if (windowClosesAt.getTime() < now.getTime()) {
+      reason = "The rating window for your shared events has closed";
+      continue;
+    }
+
+    return { canRate: true, reason: null, eventId: event.id, windowClosesAt: windowClosesAt.toISOString() };
+  }
+
+  return { canRate: false, reason };
+}
@@ -0,0 +1,117 @@
+import { storage } from "./storage";
+import { stripe } from "./stripe-payments";
+import { calculateRefundAmount } from "@shared/cancellation-policy";
+
+const REFUNDED_PAYMENT_STATUSES = ['refunded', 'partially_refunded'];
+
+/**
+ * Check whether an attendee paid for their spot through Stripe and still holds it
+ * Cancelled rows already went through refundAttendee (refunded, not refundable or failed)
+ */
+export function hasPaidAttendance(attendee: any) {
+  return attendee?.status !== 'cancelled' && attendee?.payment_status === 'succeeded' && !!attendee.payment_intent_id;
+}
+
+/**
+ * Check whether the attendee's current payment was already refunded, in full or in part
+ */
+export function hasRefundedPayment(attendee: any) {
+  return REFUNDED_PAYMENT_STATUSES.includes(attendee?.payment_status);
+}
+
+const recordFailedRefund = (attendee: any) =>
+  storage.recordAttendeeRefund(attendee.id, {
+    refundAmount: 0,
+    refundStatus: 'failed',
+    refundId: null,
+  });
+
+/**
+ * Refund a paid attendee and record the result on the attendee row
+ * `fullRefund` skips the cancellation policy (used when the organizer cancels)
+ * Stripe errors don't throw: the refund is recorded as 'failed' so it can be handled by hand
+ */
+export async function refundAttendee(event: any, attendee: any, options: { fullRefund?: boolean } = {}) {
+  if (!stripe) {
+    console.error(`❌ Can't refund user ${attendee.user_id} on event ${event.id}: Stripe is not configured`);
+    return recordFailedRefund(attendee);
+  }
+
+  try {
+    const paymentIntent = await stripe.paymentIntents.retrieve(attendee.payment_intent_id);
+    const amountPaid = (paymentIntent.amount_received || 0) / 100;
+
+    const refundAmount = options.fullRefund
+      ? amountPaid
+      : calculateRefundAmount(amountPaid, new Date(event.date), {
+          cancellationPolicy: event.cancellation_policy,
+          refundDeadlineHours: event.refund_deadline_hours,
+          partialRefundPercent: event.partial_refund_percent,
+        });
+
+    if (refundAmount <= 0) {
+      console.log(`💸 No refund for user ${attendee.user_id} on event ${event.id} (policy: ${event.cancellation_policy})`);
+      return storage.recordAttendeeRefund(attendee.id, {
+        refundAmount: 0,
+        refundStatus: 'not_refundable',
+        refundId: null,
+      });
+    }
+
+    const refund = await stripe.refunds.create({
+      payment_intent: attendee.payment_intent_id,
+      amount: Math.round(refundAmount * 100),
+      metadata: {
+        eventId: String(event.id),
+        userId: String(attendee.user_id),
+      },
+    });
+
+    console.log(`💸 Refunded ${refundAmount} to user ${attendee.user_id} on event ${event.id}`);
+    return storage.recordAttendeeRefund(attendee.id, {
+      refundAmount,
+      refundStatus: 'refunded',
+      refundId: refund.id,
+      partial: refundAmount < amountPaid,
+    });
+  } catch (error) {
+    console.error(`Error refunding user ${attendee.user_id} on event ${event.id}:`, error);
+    return recordFailedRefund(attendee);
+  }
+}
+
+/**
+ * Refund every paid attendee in full and notify them (organizer cancelled the event)
+ */
+export async function refundAllAttendees(event: any) {
+  const attendees = event.attendees || (await storage.getEventById(event.id))?.attendees || [];
+  const paidAttendees = attendees.filter((attendee: any) => hasPaidAttendance(attendee));
+
+  const refunds = [];
+  for (const attendee of paidAttendees) {
+    // One attendee's failure (even recording it) doesn't stop the refunds of the rest
+    let refunded = null;
+    try {
+      refunded = await refundAttendee(event, attendee, { fullRefund: true });
+    } catch (refundError) {
+      console.error(`❌ Error refunding user ${attendee.user_id} on event ${event.id}:`, refundError);
+    }
+    refunds.push(refunded);
+
+    try {
+      await storage.createNotification({
+        userId: attendee.user_id,
+        type: 'refund_issued',
+        title: 'Evento cancelado',
+        message: refunded?.refund_status === 'refunded'
+          ? `El organizador canceló "${event.title}". Te reembolsamos $${Number(refunded.refund_amount).toFixed(2)}`
+          : `El organizador canceló "${event.title}". No pudimos procesar tu reembolso automáticamente, contáctanos.`,
+        eventId: event.id
+      });
+    } catch (notificationError) {
+      console.error('Error creating refund notification:', notificationError);
+    }
+  }
+
+  return refunds;
+}
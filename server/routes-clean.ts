@@ -157,7 +157,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const hashedPassword = await bcrypt.hash(password, 10);
 
       // Create user
-      const userId = await storage.insertUser({
+      const created = await storage.insertUser({
         username,
         email,
         password: hashedPassword,
@@ -169,13 +169,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         stripeSubscriptionId: null,
       });
 
-      const user = await storage.getUserById(userId);
+      const user = created ? await storage.getUserById(created.id) : null;
       if (!user) {
         return res.status(500).json({ message: "Failed to create user" });
       }
 
       // Log the user in using req.login
-      req.login(user, (err) => {
+      req.login(user as any, (err) => {
         if (err) {
           console.error("Login error:", err);
           return res.status(500).json({ message: "Login failed after registration" });
@@ -185,7 +185,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.session.authenticated = true;
         req.session.userEmail = user.email;
         req.session.userId = user.id;
-        req.session.supabaseUserId = user.supabaseId;
+        req.session.supabaseUserId = user.supabase_id;
         
         return res.json({
           id: user.id,
@@ -218,7 +218,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: info?.message || "Invalid credentials" });
       }
 
-      req.login(user, (err) => {
+      req.login(user as any, (err) => {
         if (err) {
           console.error("Login error:", err);
           return res.status(500).json({ message: "Login failed" });
@@ -228,7 +228,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.session.authenticated = true;
         req.session.userEmail = user.email;
         req.session.userId = user.id;
-        req.session.supabaseUserId = user.supabaseId;
+        req.session.supabaseUserId = user.supabase_id;
         
         return res.json({
           id: user.id,
@@ -389,8 +389,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         eventData.mediaItems = JSON.stringify(mediaItems);
       }
 
-      const eventId = await storage.insertEvent(eventData);
-      const newEvent = await storage.getEventById(eventId);
+      const created = await storage.insertEvent(eventData);
+      const newEvent = await storage.getEventById(created.id);
 
       res.status(201).json(newEvent);
     } catch (error) {
@@ -440,7 +440,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check authorization
-      if (parseInt(event.organizerId.toString()) !== parseInt(user.id.toString())) {
+      if (parseInt(event.organizer_id.toString()) !== parseInt(user.id.toString())) {
         return res.status(403).json({ message: "Not authorized to update this event" });
       }
       
@@ -613,7 +613,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Event not found" });
       }
       
-      if (event.organizerId !== user.id) {
+      if (event.organizer_id !== user.id) {
         return res.status(403).json({ message: "Not authorized to delete this event" });
       }
       
@@ -644,8 +644,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         paymentIntentId: null,
       };
       
-      const attendeeId = await storage.insertEventAttendee(attendeeData);
-      const attendee = await storage.getEventAttendeeById(attendeeId);
+      const created = await storage.insertEventAttendee(attendeeData);
+      const attendee = await storage.getEventAttendeeById(created.id);
       
       res.status(201).json(attendee);
     } catch (error) {
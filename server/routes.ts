@@ -3,26 +3,34 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import bcrypt from "bcrypt";
 import passport from "passport";
-import { loginUserSchema, insertUserSchema, insertEventSchema, insertEventAttendeeSchema } from "@shared/schema";
+import { loginUserSchema, insertUserSchema, insertEventSchema, insertEventAttendeeSchema, recurrenceRuleSchema, applicationQuestionsSchema } from "@shared/schema";
+import { getEventApplicationQuestions, parseApplicationAnswers, validateApplicationAnswers } from "@shared/application-questions";
+import type { RecurrenceRuleInput } from "@shared/recurrence";
+import { DEFAULT_PARTIAL_REFUND_PERCENT, DEFAULT_REFUND_DEADLINE_HOURS, findInvalidCancellationPolicyField } from "@shared/cancellation-policy";
 import { z } from "zod";
-import Stripe from "stripe";
 // WebSocket imports removed to prevent conflicts
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import { isAuthenticatedMiddleware } from "./supabase-auth";
-import { supabase } from "./supabase-client";
+import { requireAuth, optionalAuth } from "./identity";
+import { checkEventConflicts } from "./conflict-detection";
+import { createEventSeries, updateThisAndFutureOccurrences, getFutureOccurrenceTimes, getEventEnd } from "./event-series";
+import { isEventFull, joinWithinCapacity, promoteFromWaitlist } from "./event-waitlist";
+import { announceAttendeeJoined, announceAttendeeLeft, announceEventChanges } from "./chat-system-messages";
+import { stripe, createEventCheckoutSession, constructWebhookEvent, handleStripeWebhookEvent } from "./stripe-payments";
+import { hasPaidAttendance, refundAttendee } from "./refunds";
+import { cancelEvent } from "./event-lifecycle";
+import { notifyEventChanges } from "./event-notifications";
+import { isEventOpen, isEventEditable, getEventStatus } from "@shared/event-status";
+import { createTicketToken, verifyTicketToken } from "./tickets";
+import { getRatingEligibility } from "./rating-eligibility";
+import { getRecommendedEvents } from "./event-recommendations";
+import { MAX_EVENTS_PAGE_SIZE, collectEventPages, mergeEventTiles, splitAtAntimeridian } from "./storage-helpers";
 
 if (!process.env.SESSION_SECRET) {
   console.warn("No SESSION_SECRET provided, using default secret. This is insecure!");
 }
 
-// Payment functionality is disabled for this app
-console.log("Payment functionality is disabled in this version of the app.");
-
-// Set stripe to null - all events will be free
-const stripe = null;
-
 // Configurar almacenamiento para multer
 const storage_uploads = multer.diskStorage({
   destination: function (req, file, cb) {
@@ -118,70 +126,24 @@ const multerErrorHandler = (err: any, req: Request, res: Response, next: Functio
   });
 };
 
-export async function registerRoutes(app: Express, options: { excludeAuth?: boolean } = {}): Promise<Server> {
-  
-  const isAuthenticated = async (req: Request, res: Response, next: Function) => {
-    console.log("Auth check for", req.method, req.path, ": ", req.user ? "Authenticated" : "Not authenticated");
-    
-    // Check if user is already set by passport
-    if (req.user) {
-      return next();
-    }
-    
-    // Check if user is in session (passport session)
-    if (req.session && (req.session as any).passport && (req.session as any).passport.user) {
-      console.log("Found user in session, attempting to deserialize user ID:", (req.session as any).passport.user);
-      
-      try {
-        // Manually deserialize user using direct Supabase query
-        const userId = (req.session as any).passport.user;
-        console.log("Manual deserialization for user ID:", userId);
-        const { data: users, error } = await supabase
-          .from('users')
-          .select('*')
-          .eq('id', parseInt(userId))
-          .single(); // Use single() for better error handling
-        
-        console.log("Manual deserialization result:", { 
-          error: error?.message || null, 
-          hasUser: !!users
-        });
-        
-        if (error) {
-          console.error("Manual deserialization Supabase error:", error.message);
-          // Still check if error is about no rows found vs actual error
-          if (error.code !== 'PGRST116') { // PGRST116 is "no rows found"
-            return res.status(500).json({ message: "Database authentication error" });
-          }
-        } else if (users) {
-          console.log("Manual deserialization successful:", users.id, users.name);
-          req.user = users;
-          return next();
-        }
-      } catch (error) {
-        console.error("Error during manual deserialization:", error);
-      }
-    }
-    
-    // If all else fails, try one more check with passport's isAuthenticated
-    if (req.isAuthenticated && req.isAuthenticated()) {
-      console.log("Passport isAuthenticated() returned true, proceeding");
-      return next();
+// Application questions arrive as a JSON string in multipart forms
+const parseApplicationQuestionsField = (value: unknown) => {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch (error) {
+      return { success: false as const, errors: [{ message: "applicationQuestions must be valid JSON" }] };
     }
-    
-    // Check session data for debugging
-    console.log("Checking session data:", {
-      sessionExists: !!req.session,
-      sessionId: req.sessionID,
-      cookieExists: !!req.headers.cookie,
-      passportSession: !!(req.session && (req.session as any).passport),
-      passportUser: req.session && (req.session as any).passport ? (req.session as any).passport.user : null,
-      passportIsAuthenticated: req.isAuthenticated ? req.isAuthenticated() : 'N/A'
-    });
-    
-    return res.status(401).json({ message: "Authentication required" });
-  };
+  }
+  const parsed = applicationQuestionsSchema.safeParse(raw);
+  return parsed.success
+    ? { success: true as const, questions: parsed.data }
+    : { success: false as const, errors: parsed.error.errors };
+};
 
+export async function registerRoutes(app: Express, options: { excludeAuth?: boolean } = {}): Promise<Server> {
+  
   // Auth routes (only if not excluded)
   if (!options.excludeAuth) {
     app.post("/api/auth/register", async (req, res) => {
@@ -229,7 +191,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         (req.session as any).authenticated = true;
         (req.session as any).userEmail = user.email;
         (req.session as any).userId = user.id;
-        (req.session as any).supabaseUserId = user.supabaseId;
+        (req.session as any).supabaseUserId = user.supabase_id;
         
         return res.json({
           id: user.id,
@@ -322,7 +284,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
     });
 
     // Get current user
-    app.get("/api/auth/me", isAuthenticated, (req, res) => {
+    app.get("/api/auth/me", requireAuth, (req, res) => {
       if (!req.user) {
         return res.status(401).json({ message: "Authentication required" });
       }
@@ -341,7 +303,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   } // End of excludeAuth conditional block
 
   // Get latest message for events - MUST BE BEFORE /:id route
-  app.get("/api/events/latest-messages", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/events/latest-messages", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
       const { eventIds } = req.query;
@@ -363,54 +325,98 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         return res.status(400).json({ message: 'No valid event IDs provided' });
       }
 
-      // Get latest message for each event
-      const { data: messages, error } = await supabase
-        .from('chat_messages')
-        .select(`
-          id,
-          event_id,
-          sender_id,
-          content,
-          message_type,
-          created_at,
-          sender:users!sender_id (
-            id,
-            name,
-            username
-          )
-        `)
-        .in('event_id', eventIdArray)
-        .is('deleted_at', null)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching latest messages:', error);
-        return res.status(500).json({ message: 'Error fetching messages' });
-      }
-
-      // Group messages by event_id and get the latest one for each event
+      // Latest message of each event, keyed by event id
+      const messages = await storage.getLatestChatMessages(eventIdArray);
+      console.log('Found messages:', messages.length);
+
       const latestMessages: { [eventId: number]: any } = {};
-      
-      if (messages) {
-        console.log('Found messages:', messages.length);
-        messages.forEach(message => {
-          const eventId = message.event_id;
-          if (!latestMessages[eventId] || new Date(message.created_at) > new Date(latestMessages[eventId].created_at)) {
-            latestMessages[eventId] = message;
-          }
-        });
-      }
+      messages.forEach(message => {
+        latestMessages[message.event_id] = message;
+      });
+
+      const unreadCounts = await storage.getChatUnreadCounts(user.id, eventIdArray);
 
       console.log('Returning latest messages:', latestMessages);
-      res.json(latestMessages);
+      res.json({ messages: latestMessages, unreadCounts });
     } catch (error) {
       console.error('Error in latest messages endpoint:', error);
       res.status(500).json({ message: 'Error fetching messages' });
     }
   });
 
-  // Get event by ID (PUBLIC ROUTE)
-  app.get("/api/events/:id", async (req, res) => {
+  // Total unread chat messages across every event chat the user belongs to (bottom-nav badge)
+  app.get("/api/chats/unread-count", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const [unreadCounts, conversations] = await Promise.all([
+        storage.getChatUnreadCounts(user.id),
+        storage.getUserConversations(user.id)
+      ]);
+      // Direct messages count too, except in declined message requests
+      const count = Object.values(unreadCounts).reduce((total, unread) => total + unread, 0)
+        + conversations
+          .filter((conversation: any) => conversation.status !== 'declined')
+          .reduce((total: number, conversation: any) => total + conversation.unread_count, 0);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error fetching unread chat count:", error);
+      res.status(500).json({ message: "Failed to fetch unread count" });
+    }
+  });
+
+  // Events inside the map viewport: bbox=minLng,minLat,maxLng,maxLat&zoom=N
+  // Low zoom levels get clusters with counts per category instead of events
+  app.get("/api/events/tiles", async (req, res) => {
+    try {
+      const bbox = String(req.query.bbox || "").split(",").map(parseFloat);
+      const zoom = parseFloat(req.query.zoom as string);
+
+      if (bbox.length !== 4 || bbox.some(isNaN) || isNaN(zoom)) {
+        return res.status(400).json({ message: "bbox (minLng,minLat,maxLng,maxLat) and zoom are required" });
+      }
+
+      // minLng > maxLng is a viewport crossing the 180° meridian, not an error
+      const [minLng, minLat, maxLng, maxLat] = bbox;
+      if (minLat > maxLat) {
+        return res.status(400).json({ message: "Invalid bbox" });
+      }
+
+      const boxes = splitAtAntimeridian({ minLng, minLat, maxLng, maxLat });
+      const tiles = mergeEventTiles(await Promise.all(boxes.map(box => storage.getEventTiles(box, zoom))));
+
+      res.json({ ...tiles, zoom });
+    } catch (error) {
+      console.error("Error fetching event tiles:", error);
+      res.status(500).json({ message: "Failed to fetch event tiles" });
+    }
+  });
+
+  // Upcoming events ranked for the current user, each with a score and a reason
+  // Optional lat/lng update the user's last known location before ranking
+  app.get("/api/events/recommended", requireAuth, async (req, res) => {
+    try {
+      const user = { ...(req.user as any) };
+      const lat = parseFloat(req.query.lat as string);
+      const lng = parseFloat(req.query.lng as string);
+      const limit = req.query.limit ? Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50) : 10;
+
+      if (!isNaN(lat) && !isNaN(lng)) {
+        await storage.updateUserLastLocation(user.id, lat, lng);
+        user.last_latitude = lat;
+        user.last_longitude = lng;
+      }
+
+      const recommendations = await getRecommendedEvents(user, { limit });
+      console.log(`✨ ${recommendations.length} recommended events for user ${user.id}`);
+      res.json(recommendations);
+    } catch (error) {
+      console.error("Error fetching recommended events:", error);
+      res.status(500).json({ message: "Failed to fetch recommended events" });
+    }
+  });
+
+  // Get event by ID (PUBLIC ROUTE, drafts are only visible to their organizer)
+  app.get("/api/events/:id", optionalAuth, async (req, res) => {
     try {
       const eventId = parseInt(req.params.id);
       if (isNaN(eventId)) {
@@ -418,7 +424,8 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       }
       
       const event = await storage.getEventById(eventId);
-      if (!event) {
+      const user = req.user as any;
+      if (!event || (getEventStatus(event) === 'draft' && event.organizer_id !== user?.id)) {
         return res.status(404).json({ message: "Event not found" });
       }
       
@@ -431,7 +438,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
 
   // Create events
   app.post("/api/events", [
-    isAuthenticated,
+    requireAuth,
     multer({ 
       storage: storage_uploads, 
       fileFilter: fileFilter,
@@ -469,6 +476,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         description: req.body.description,
         category: req.body.category,
         date: new Date(req.body.date),
+        endTime: req.body.endTime ? new Date(req.body.endTime) : null,
         latitude: parseFloat(req.body.latitude),
         longitude: parseFloat(req.body.longitude),
         locationName: req.body.locationName,
@@ -479,11 +487,33 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         organizerId: parseInt(user.id.toString()),
         maxCapacity: req.body.maxCapacity ? parseInt(req.body.maxCapacity) : null,
         price: req.body.price ? parseFloat(req.body.price) : null,
+        cancellationPolicy: req.body.cancellationPolicy || 'full_refund',
+        refundDeadlineHours: req.body.refundDeadlineHours ? Number(req.body.refundDeadlineHours) : DEFAULT_REFUND_DEADLINE_HOURS,
+        partialRefundPercent: req.body.partialRefundPercent ? Number(req.body.partialRefundPercent) : DEFAULT_PARTIAL_REFUND_PERCENT,
         mainMediaUrl: null,
         mainMediaType: 'photo',
-        mediaItems: null
+        mediaItems: null,
+        // Drafts stay hidden until the organizer publishes them
+        status: req.body.status === 'draft' ? 'draft' : 'published'
       };
 
+      const invalidPolicyField = findInvalidCancellationPolicyField(eventData);
+      if (invalidPolicyField) {
+        return res.status(400).json({ message: `Invalid ${invalidPolicyField}` });
+      }
+
+      // Private events keep their access type, 'postulacion' events also their questions
+      if (eventData.privacyType === 'private') {
+        eventData.privateAccessType = req.body.privateAccessType || 'solicitud';
+      }
+      if (eventData.privateAccessType === 'postulacion' && req.body.applicationQuestions) {
+        const parsedQuestions = parseApplicationQuestionsField(req.body.applicationQuestions);
+        if (!parsedQuestions.success) {
+          return res.status(400).json({ message: "Invalid application questions", errors: parsedQuestions.errors });
+        }
+        eventData.applicationQuestions = parsedQuestions.questions.length > 0 ? parsedQuestions.questions : null;
+      }
+
       // Process media items without duplication
       let mediaItems: any[] = [];
       let mainMediaUrl = '';
@@ -616,6 +646,40 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         eventData.mediaItems = null;
       }
 
+      // Recurring events: create the series and one event per occurrence
+      if (req.body.recurrence) {
+        let rawRule: any;
+        try {
+          rawRule = typeof req.body.recurrence === 'string' ? JSON.parse(req.body.recurrence) : req.body.recurrence;
+        } catch (e) {
+          return res.status(400).json({ message: "Invalid recurrence rule" });
+        }
+
+        const parsedRule = recurrenceRuleSchema.safeParse(rawRule);
+        if (!parsedRule.success) {
+          return res.status(400).json({ message: "Invalid recurrence rule", errors: parsedRule.error.errors });
+        }
+        const recurrenceRule = parsedRule.data as RecurrenceRuleInput;
+
+        const conflictCheck = await checkEventConflicts({
+          userId: eventData.organizerId,
+          startTime: eventData.date,
+          endTime: eventData.endTime || new Date(eventData.date.getTime() + 2 * 60 * 60 * 1000),
+          paymentType: eventData.paymentType || 'free',
+          recurrence: recurrenceRule
+        });
+
+        if (conflictCheck.hasConflict) {
+          return res.status(409).json({
+            message: conflictCheck.message || "Schedule conflict",
+            conflictingEvents: conflictCheck.conflictingEvents
+          });
+        }
+
+        const { series, occurrences } = await createEventSeries(eventData, recurrenceRule);
+        return res.status(201).json({ ...occurrences[0], series, occurrenceCount: occurrences.length });
+      }
+
       const newEvent = await storage.insertEvent(eventData);
 
       res.status(201).json(newEvent);
@@ -627,7 +691,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
 
   // Update events  
   app.patch("/api/events/:id", [
-    isAuthenticated,
+    requireAuth,
     multer({ 
       storage: storage_uploads, 
       fileFilter: fileFilter,
@@ -668,13 +732,13 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       // Debug logging to understand event structure
       console.log("Event object keys:", Object.keys(event));
       console.log("Event organizer info:", {
-        organizerId: event.organizerId,
+        organizerId: event.organizer_id,
         organizer_id: event.organizer_id,
         organizer: event.organizer
       });
       
       // Check authorization - handle different possible property names
-      const eventOrganizerId = event.organizerId || event.organizer_id || event.organizer?.id;
+      const eventOrganizerId = event.organizer_id;
       if (!eventOrganizerId) {
         console.error("Could not find organizer ID in event:", event);
         return res.status(403).json({ message: "Event organizer information not found" });
@@ -685,9 +749,22 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         return res.status(403).json({ message: "Not authorized to update this event" });
       }
       
+      if (!isEventEditable(event)) {
+        return res.status(409).json({ message: "Cancelled and completed events can't be edited" });
+      }
+      
       const files = (req.files as { [fieldname: string]: Express.Multer.File[] }) || {};
       const updateData: any = { ...req.body };
       
+      // Status only changes through /publish and /cancel
+      delete updateData.status;
+      delete updateData.cancelledAt;
+      delete updateData.cancelled_at;
+      
+      // For recurring events: 'this' edits only this occurrence, 'future' also updates later ones
+      const editScope = updateData.editScope === 'future' ? 'future' : 'this';
+      delete updateData.editScope;
+      
       // Convert field names from camelCase to snake_case to match database schema
       if (updateData.locationName) {
         updateData.location_name = updateData.locationName;
@@ -710,11 +787,21 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         delete updateData.privacyType;
       }
       if (updateData.privateAccessType) {
-        // Note: privateAccessType column doesn't exist in current database schema
-        // Skip this field to prevent database errors
-        console.log("Skipping privateAccessType field - not implemented in database schema");
+        updateData.private_access_type = updateData.privateAccessType;
         delete updateData.privateAccessType;
       }
+      if (updateData.applicationQuestions !== undefined) {
+        if (updateData.applicationQuestions) {
+          const parsedQuestions = parseApplicationQuestionsField(updateData.applicationQuestions);
+          if (!parsedQuestions.success) {
+            return res.status(400).json({ message: "Invalid application questions", errors: parsedQuestions.errors });
+          }
+          updateData.application_questions = parsedQuestions.questions.length > 0 ? parsedQuestions.questions : null;
+        } else {
+          updateData.application_questions = null;
+        }
+        delete updateData.applicationQuestions;
+      }
       if (updateData.mainMediaType) {
         updateData.main_media_type = updateData.mainMediaType;
         delete updateData.mainMediaType;
@@ -743,15 +830,80 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         updateData.gender_preference = updateData.genderPreference;
         delete updateData.genderPreference;
       }
+      const policySettings = {
+        cancellationPolicy: updateData.cancellationPolicy,
+        refundDeadlineHours: updateData.refundDeadlineHours !== undefined ? Number(updateData.refundDeadlineHours) : undefined,
+        partialRefundPercent: updateData.partialRefundPercent !== undefined ? Number(updateData.partialRefundPercent) : undefined
+      };
+      const invalidPolicyField = findInvalidCancellationPolicyField(policySettings);
+      if (invalidPolicyField) {
+        return res.status(400).json({ message: `Invalid ${invalidPolicyField}` });
+      }
+      if (policySettings.cancellationPolicy !== undefined) {
+        updateData.cancellation_policy = policySettings.cancellationPolicy;
+        delete updateData.cancellationPolicy;
+      }
+      if (policySettings.refundDeadlineHours !== undefined) {
+        updateData.refund_deadline_hours = policySettings.refundDeadlineHours;
+        delete updateData.refundDeadlineHours;
+      }
+      if (policySettings.partialRefundPercent !== undefined) {
+        updateData.partial_refund_percent = policySettings.partialRefundPercent;
+        delete updateData.partialRefundPercent;
+      }
       
       // Convert date string to Date object if provided
       if (updateData.date && typeof updateData.date === 'string') {
         updateData.date = new Date(updateData.date);
       }
+      if (updateData.endTime !== undefined) {
+        updateData.end_time = updateData.endTime ? new Date(updateData.endTime) : null;
+        delete updateData.endTime;
+      }
+      
+      // A new date or end time can't overlap the organizer's other events, on any occurrence it moves
+      const startTime = updateData.date ? new Date(updateData.date) : new Date(event.date);
+      const endTime = updateData.end_time
+        ? new Date(updateData.end_time)
+        : new Date(getEventEnd(event).getTime() + startTime.getTime() - new Date(event.date).getTime());
+      const timesChanged = startTime.getTime() !== new Date(event.date).getTime() ||
+        endTime.getTime() !== getEventEnd(event).getTime();
+      
+      if (timesChanged) {
+        const windows = [{ index: event.occurrence_index ?? 0, startTime, endTime }];
+        
+        const isFutureEdit = editScope === 'future' && !!event.series_id;
+        if (isFutureEdit) {
+          (await getFutureOccurrenceTimes(event, updateData)).forEach(({ occurrence, date, endTime: occurrenceEnd }) => {
+            windows.push({
+              index: occurrence.occurrence_index ?? windows.length,
+              startTime: date,
+              endTime: occurrenceEnd || getEventEnd({ date })
+            });
+          });
+        }
+        
+        const conflictCheck = await checkEventConflicts({
+          userId: user.id,
+          startTime,
+          endTime,
+          paymentType: updateData.payment_type || event.payment_type || 'free',
+          excludeEventId: event.id,
+          excludeSeriesId: isFutureEdit ? event.series_id : undefined,
+          windows
+        });
+        
+        if (conflictCheck.hasConflict) {
+          return res.status(409).json({
+            message: conflictCheck.message || "Schedule conflict",
+            conflictingEvents: conflictCheck.conflictingEvents
+          });
+        }
+      }
       
       // Parse existing mediaItems with improved error handling - check both field names
       let mediaItems: any[] = [];
-      const existingMediaItems = event.media_items || event.mediaItems;
+      const existingMediaItems = event.media_items;
       if (existingMediaItems) {
         try {
           if (typeof existingMediaItems === 'string') {
@@ -925,8 +1077,23 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         privacyType: updateData.privacy_type
       });
 
-      await storage.updateEvent(eventId, updateData);
+      if (editScope === 'future' && event.series_id) {
+        await updateThisAndFutureOccurrences(event, updateData);
+      } else {
+        await storage.updateEvent(eventId, updateData);
+      }
+      
+      // A larger capacity frees spots for people on the waitlist
+      const previousCapacity = event.max_capacity;
+      if (updateData.max_capacity && (!previousCapacity || parseInt(updateData.max_capacity) > previousCapacity)) {
+        await promoteFromWaitlist({ ...event, max_capacity: parseInt(updateData.max_capacity) });
+      }
+      
       const updatedEvent = await storage.getEventById(eventId);
+      
+      // Date, time and location changes are announced in the event chat and notified to attendees
+      await announceEventChanges(event, updatedEvent);
+      await notifyEventChanges(event, updatedEvent);
 
       console.log("Event updated successfully");
       res.json(updatedEvent);
@@ -942,43 +1109,57 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Get all events
+  // Pass `limit` (and then `cursor`) to get { events, nextCursor } pages instead of a plain array
   app.get("/api/events", async (req, res) => {
     try {
-      const { lat, lng, radius, category, paymentType, search } = req.query;
+      const { lat, lng, radius, category, paymentType, search, cursor, limit } = req.query;
+      
+      console.log("📍 GET /api/events query params:", { lat, lng, radius, category, paymentType, search, cursor, limit });
+      
+      const filters: any = {};
+      
+      if (category) {
+        filters.category = Array.isArray(category) ? category : [category as string];
+      }
       
-      console.log("📍 GET /api/events query params:", { lat, lng, radius, category, paymentType, search });
+      if (paymentType) {
+        filters.paymentType = Array.isArray(paymentType) ? paymentType : [paymentType as string];
+      }
       
-      let events;
+      if (search) {
+        filters.searchTerm = search as string;
+        console.log("📍 Adding search filter:", search);
+      }
       
-      // If lat and lng are provided, get nearby events
+      // If lat and lng are provided, only return events within the radius
       if (lat && lng) {
-        console.log("📍 Using nearby events path");
-        events = await storage.getNearbyEvents(
-          parseFloat(lat as string),
-          parseFloat(lng as string),
-          radius ? parseFloat(radius as string) : 10
-        );
-      } else {
-        // Otherwise get all events with filters
-        const filters: any = {};
-        
-        if (category) {
-          filters.category = Array.isArray(category) ? category : [category as string];
-        }
-        
-        if (paymentType) {
-          filters.paymentType = Array.isArray(paymentType) ? paymentType : [paymentType as string];
-        }
+        filters.lat = parseFloat(lat as string);
+        filters.lng = parseFloat(lng as string);
+        filters.radius = radius ? parseFloat(radius as string) : 10;
+      }
+      
+      if (limit || cursor) {
+        filters.limit = limit ? parseInt(limit as string) : undefined;
+        filters.cursor = cursor as string | undefined;
         
-        if (search) {
-          filters.searchTerm = search as string;
-          console.log("📍 Adding search filter:", search);
+        try {
+          const page = await storage.searchEvents(filters);
+          console.log(`📍 Found ${page.events.length} events`);
+          return res.json(page);
+        } catch (error: any) {
+          if (error.message === "Invalid cursor") {
+            return res.status(400).json({ message: "Invalid cursor" });
+          }
+          throw error;
         }
-        
-        console.log("📍 Using filtered events path with filters:", filters);
-        events = await storage.getEvents(filters);
       }
       
+      // Without limit or cursor the response stays the full list, read page by page
+      console.log("📍 Using filtered events path with filters:", filters);
+      const events = await collectEventPages(nextCursor =>
+        storage.searchEvents({ ...filters, limit: MAX_EVENTS_PAGE_SIZE, cursor: nextCursor })
+      );
+      
       console.log(`📍 Found ${events.length} events`);
       res.json(events);
     } catch (error) {
@@ -1001,7 +1182,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Delete event
-  app.delete("/api/events/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/events/:id", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const eventId = parseInt(req.params.id);
@@ -1014,7 +1195,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       }
       
       // Get organizer ID from both possible field names (snake_case from DB, camelCase from processed)
-      const eventOrganizerId = event.organizer_id || event.organizerId;
+      const eventOrganizerId = event.organizer_id;
       
       console.log(`Event found - Organizer ID: ${eventOrganizerId} (type: ${typeof eventOrganizerId})`);
       console.log(`Authorization check: ${eventOrganizerId} === ${user.id} -> ${eventOrganizerId === user.id}`);
@@ -1030,6 +1211,11 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         return res.status(403).json({ message: "Not authorized to delete this event" });
       }
       
+      // Published events have attendees and a chat history, so they're cancelled instead
+      if (getEventStatus(event) !== 'draft') {
+        return res.status(409).json({ message: "Only drafts can be deleted, cancel the event instead" });
+      }
+      
       console.log(`Authorization successful - deleting event ${eventId}`);
       await storage.deleteEvent(eventId);
       res.json({ message: "Event deleted successfully" });
@@ -1039,8 +1225,68 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
     }
   });
 
+  // Publish a draft (organizer only)
+  app.post("/api/events/:id/publish", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const eventId = parseInt(req.params.id);
+      
+      const event = await storage.getEventById(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (event.organizer_id !== user.id) {
+        return res.status(403).json({ message: "Only the organizer can publish this event" });
+      }
+      
+      if (getEventStatus(event) !== 'draft') {
+        return res.status(409).json({ message: "Only drafts can be published" });
+      }
+      
+      const publishedEvent = await storage.setEventStatus(eventId, 'published');
+      console.log(`📢 Event ${eventId} published by organizer ${user.id}`);
+      res.json(publishedEvent);
+    } catch (error) {
+      console.error("Error publishing event:", error);
+      res.status(500).json({ message: "Failed to publish event" });
+    }
+  });
+
+  // Cancel an event (organizer only): attendees are refunded or notified and the chat turns read-only
+  app.post("/api/events/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const eventId = parseInt(req.params.id);
+      
+      const event = await storage.getEventById(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (event.organizer_id !== user.id) {
+        return res.status(403).json({ message: "Only the organizer can cancel this event" });
+      }
+      
+      const result = await cancelEvent(event);
+      if (!result.cancelled) {
+        return res.status(409).json({ message: "This event can no longer be cancelled" });
+      }
+      
+      res.json({
+        message: "Event cancelled successfully",
+        event: result.event,
+        refundedAttendees: result.refundedAttendees,
+        notifiedAttendees: result.notifiedAttendees
+      });
+    } catch (error) {
+      console.error("Error cancelling event:", error);
+      res.status(500).json({ message: "Failed to cancel event" });
+    }
+  });
+
   // Event attendance
-  app.post("/api/events/:id/attend", isAuthenticated, async (req, res) => {
+  app.post("/api/events/:id/attend", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const eventId = parseInt(req.params.id);
@@ -1050,15 +1296,16 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         return res.status(404).json({ message: "Event not found" });
       }
       
-      const attendeeData = {
-        eventId,
-        userId: user.id,
-        status: "approved" as const,
-        paymentStatus: "completed",
-        paymentIntentId: null,
-      };
+      if (!isEventOpen(event)) {
+        return res.status(409).json({ message: "This event is not open for registration" });
+      }
       
-      const attendee = await storage.insertEventAttendee(attendeeData);
+      // Full events put new attendees on the waitlist
+      const attendee = await joinWithinCapacity({ eventId, userId: user.id });
+      
+      if (attendee.status === "approved") {
+        await announceAttendeeJoined(eventId, user.id);
+      }
       
       res.status(201).json(attendee);
     } catch (error) {
@@ -1068,7 +1315,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Join event (alias for attend)
-  app.post("/api/events/:id/join", isAuthenticated, async (req, res) => {
+  app.post("/api/events/:id/join", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const eventId = parseInt(req.params.id);
@@ -1082,8 +1329,12 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         return res.status(404).json({ message: "Event not found" });
       }
       
-      console.log(`📋 Event found: ${event.title}, organizer: ${event.organizerId}, user requesting: ${user.id}`);
-      console.log(`🔍 Event privacy: ${event.privacyType || event.privacy_type}, access type: ${event.privateAccessType || event.private_access_type}`);
+      if (!isEventOpen(event)) {
+        return res.status(409).json({ message: "This event is not open for registration" });
+      }
+      
+      console.log(`📋 Event found: ${event.title}, organizer: ${event.organizer_id}, user requesting: ${user.id}`);
+      console.log(`🔍 Event privacy: ${event.privacy_type}, access type: ${event.private_access_type}`);
       
       // Check if user is already attending
       const existingAttendee = await storage.getEventAttendee(eventId, user.id);
@@ -1092,12 +1343,12 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       }
       
       // Determine status based on event privacy and access type
-      let status: "approved" | "pending" = "approved";
+      let status: "approved" | "pending" | "waitlisted" = "approved";
       let isPendingApproval = false;
       
       // For private events, check the access type (handle both camelCase and snake_case)
-      const eventPrivacy = event.privacyType || event.privacy_type;
-      const eventAccessType = event.privateAccessType || event.private_access_type;
+      const eventPrivacy = event.privacy_type;
+      const eventAccessType = event.private_access_type;
       
       if (eventPrivacy === "private") {
         // Default private events to "solicitud" if no access type is specified
@@ -1117,22 +1368,37 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         }
       }
       
-      const attendeeData = {
-        eventId,
-        userId: user.id,
-        status,
-        paymentStatus: status === "approved" ? "completed" : "pending",
-        paymentIntentId: null,
-        applicationAnswers: answers ? JSON.stringify(answers) : null,
-      };
-      
-      const attendee = await storage.insertEventAttendee(attendeeData);
+      // Applicants of 'postulacion' events must answer the event's questions
+      let applicationAnswers: string | null = null;
+      if (eventPrivacy === "private" && eventAccessType === "postulacion") {
+        const validation = validateApplicationAnswers(getEventApplicationQuestions(event), answers);
+        if (validation.valid === false) {
+          return res.status(400).json({ message: "Invalid application answers", errors: validation.errors });
+        }
+        applicationAnswers = JSON.stringify(validation.answers);
+      }
+      
+      let attendee;
+      if (status === "pending") {
+        attendee = await storage.insertEventAttendee({
+          eventId,
+          userId: user.id,
+          status,
+          paymentStatus: "pending",
+          paymentIntentId: null,
+          applicationAnswers,
+        });
+      } else {
+        // Once the event is full, people who would be approved join the waitlist instead
+        attendee = await joinWithinCapacity({ eventId, userId: user.id, applicationAnswers });
+        status = attendee.status as "approved" | "waitlisted";
+      }
       
       if (isPendingApproval) {
         // Create notification for the event organizer about new join request
         try {
           await storage.createNotification({
-            userId: event.organizerId,
+            userId: event.organizer_id,
             type: 'new_request',
             title: 'Nueva solicitud de evento',
             message: `${user.name} quiere unirse a "${event.title}"`,
@@ -1152,7 +1418,20 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
           isPendingApproval: true,
           status: "pending"
         });
+      } else if (status === "waitlisted") {
+        const waitlistPosition = await storage.getWaitlistPosition(eventId, user.id);
+        
+        console.log(`⏳ User ${user.username} added to waitlist of event ${eventId} at position ${waitlistPosition}`);
+        res.status(201).json({ 
+          message: "Event is full, added to waitlist", 
+          attendee,
+          isPendingApproval: false,
+          isWaitlisted: true,
+          waitlistPosition,
+          status: "waitlisted"
+        });
       } else {
+        await announceAttendeeJoined(eventId, user.id);
         console.log(`✅ User ${user.username} joined event ${eventId} successfully`);
         res.status(201).json({ 
           message: "Successfully joined event", 
@@ -1168,7 +1447,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Get pending requests for an event (organizers only)
-  app.get("/api/events/:id/requests", isAuthenticated, async (req, res) => {
+  app.get("/api/events/:id/requests", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const eventId = parseInt(req.params.id);
@@ -1179,12 +1458,18 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       }
       
       // Only organizer can see pending requests
-      if (event.organizerId !== user.id) {
+      if (event.organizer_id !== user.id) {
         return res.status(403).json({ message: "Only organizer can view requests" });
       }
       
       const pendingRequests = await storage.getPendingEventRequests(eventId);
-      res.json(pendingRequests);
+      
+      // Answers are parsed so the organizer can compare applicants side by side
+      const questions = getEventApplicationQuestions(event);
+      res.json(pendingRequests.map((request: any) => ({
+        ...request,
+        applicationAnswers: parseApplicationAnswers(request.application_answers, questions)
+      })));
     } catch (error) {
       console.error("Error fetching requests:", error);
       res.status(500).json({ message: "Failed to fetch requests" });
@@ -1192,7 +1477,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Approve event join request (organizers only)
-  app.post("/api/events/:id/requests/:userId/approve", isAuthenticated, async (req, res) => {
+  app.post("/api/events/:id/requests/:userId/approve", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const eventId = parseInt(req.params.id);
@@ -1206,14 +1491,26 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       }
       
       // Only organizer can approve requests
-      if (event.organizerId !== user.id) {
+      if (event.organizer_id !== user.id) {
         return res.status(403).json({ message: "Only organizer can approve requests" });
       }
       
-      // Update attendee status to approved
-      const result = await storage.approveEventAttendee(eventId, userId);
+      if (!isEventOpen(event)) {
+        return res.status(409).json({ message: "This event is not open for registration" });
+      }
       
-      if (result) {
+      const request = await storage.getEventAttendee(eventId, userId);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+      
+      // The capacity check and the approval happen in one step, so two approvals can't take the last spot
+      const result = await storage.approveAttendeeWithinCapacity(request.id, { paymentStatus: 'completed' });
+      if (result.approved === false && result.reason === 'event_full') {
+        return res.status(409).json({ message: "Event is full" });
+      }
+      
+      if (result.approved) {
         // Create notification for the approved user
         try {
           const approvedUser = await storage.getUserById(userId);
@@ -1230,6 +1527,8 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
           // Don't fail the approval if notification creation fails
         }
 
+        await announceAttendeeJoined(eventId, userId);
+
         console.log(`✅ User ${userId} approved for event ${eventId}`);
         res.json({ message: "Request approved successfully" });
       } else {
@@ -1242,7 +1541,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Reject event join request (organizers only)
-  app.post("/api/events/:id/requests/:userId/reject", isAuthenticated, async (req, res) => {
+  app.post("/api/events/:id/requests/:userId/reject", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const eventId = parseInt(req.params.id);
@@ -1256,7 +1555,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       }
       
       // Only organizer can reject requests
-      if (event.organizerId !== user.id) {
+      if (event.organizer_id !== user.id) {
         return res.status(403).json({ message: "Only organizer can reject requests" });
       }
       
@@ -1291,8 +1590,8 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
     }
   });
 
-  // Create payment for private paid events
-  app.post("/api/events/:id/pay", isAuthenticated, async (req, res) => {
+  // Create a Stripe Checkout Session for private paid events
+  app.post("/api/events/:id/pay", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const eventId = parseInt(req.params.id);
@@ -1302,35 +1601,67 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         return res.status(404).json({ message: "Event not found" });
       }
       
+      if (!isEventOpen(event)) {
+        return res.status(409).json({ message: "This event is not open for registration" });
+      }
+      
       // Check if event requires payment
-      if (event.privacyType !== "private" || event.privateAccessType !== "paga") {
+      const eventPrivacy = event.privacy_type;
+      const eventAccessType = event.private_access_type;
+      if (eventPrivacy !== "private" || eventAccessType !== "paga") {
         return res.status(400).json({ message: "Event does not require payment" });
       }
       
-      // Check if user is already attending
-      const existingAttendee = await storage.getEventAttendee(eventId, user.id);
-      if (existingAttendee) {
+      if (!stripe) {
+        return res.status(503).json({ message: "Payments are not available" });
+      }
+      
+      // Users with a pending or failed payment can retry and users who cancelled can buy a spot again,
+      // everyone else already joined
+      let existingAttendee = await storage.getEventAttendee(eventId, user.id);
+      if (existingAttendee && existingAttendee.status !== "cancelled" &&
+          (existingAttendee.status !== "pending" || existingAttendee.payment_status === "succeeded")) {
         return res.status(400).json({ message: "Already joined this event" });
       }
       
-      // For now, simulate successful payment (since Stripe is disabled)
-      // In production, this would create a Stripe payment intent
-      const attendeeData = {
+      // Paid spots are not waitlisted, so don't charge once the event is full
+      if (await isEventFull(event)) {
+        return res.status(409).json({ message: "Event is full" });
+      }
+      
+      // A cancelled row starts a new checkout; its refund columns stay as the record of the old payment
+      if (existingAttendee?.status === "cancelled") {
+        existingAttendee = await storage.updateAttendeePayment(eventId, user.id, {
+          status: "pending",
+          paymentStatus: "pending",
+          paymentIntentId: null,
+        });
+      }
+      
+      const attendee = existingAttendee || await storage.insertEventAttendee({
         eventId,
         userId: user.id,
-        status: "approved" as const,
-        paymentStatus: "completed",
-        paymentIntentId: "sim_" + Date.now(), // Simulated payment ID
+        status: "pending",
+        paymentStatus: "pending",
+        paymentIntentId: null,
         applicationAnswers: null,
-      };
+      });
+      
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const session = await createEventCheckoutSession(event, user, attendee.id, baseUrl);
       
-      const attendee = await storage.insertEventAttendee(attendeeData);
+      // Keep the session id until the webhook gives us the payment intent
+      await storage.updateAttendeePayment(eventId, user.id, {
+        paymentStatus: "pending",
+        paymentIntentId: session.id,
+      });
       
-      console.log(`💳 User ${user.username} completed payment for private event ${eventId}`);
+      console.log(`💳 Created checkout session ${session.id} for user ${user.username} on event ${eventId}`);
       res.status(201).json({ 
-        message: "Payment successful and joined event", 
-        attendee,
-        paymentSuccess: true 
+        message: "Checkout session created", 
+        checkoutUrl: session.url,
+        sessionId: session.id,
+        paymentStatus: "pending"
       });
       
     } catch (error) {
@@ -1339,8 +1670,57 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
     }
   });
 
+  // Payment status of the current user for a paid event
+  app.get("/api/events/:id/payment-status", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const eventId = parseInt(req.params.id);
+      
+      const event = await storage.getEventById(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      const attendee = await storage.getEventAttendee(eventId, user.id);
+      res.json({
+        eventId,
+        eventTitle: event.title,
+        price: event.price,
+        status: attendee?.status || null,
+        paymentStatus: attendee?.payment_status || null
+      });
+    } catch (error) {
+      console.error("Error fetching payment status:", error);
+      res.status(500).json({ message: "Failed to fetch payment status" });
+    }
+  });
+
+  // Stripe webhook (raw body, verified with the Stripe-Signature header)
+  app.post("/api/stripe/webhook", async (req, res) => {
+    const signature = req.headers['stripe-signature'];
+    if (!signature || typeof signature !== 'string') {
+      return res.status(400).json({ message: "Missing Stripe signature" });
+    }
+    
+    let stripeEvent;
+    try {
+      stripeEvent = constructWebhookEvent(req.body, signature);
+    } catch (error: any) {
+      console.error("Stripe webhook signature verification failed:", error.message);
+      return res.status(400).json({ message: "Invalid Stripe signature" });
+    }
+    
+    try {
+      await handleStripeWebhookEvent(stripeEvent);
+      res.json({ received: true });
+    } catch (error) {
+      console.error("Error handling Stripe webhook:", error);
+      res.status(500).json({ message: "Failed to handle webhook" });
+    }
+  });
+
   // Leave event (remove attendance)
-  app.delete("/api/events/:id/leave", isAuthenticated, async (req, res) => {
+  app.delete("/api/events/:id/leave", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const eventId = parseInt(req.params.id);
@@ -1355,12 +1735,30 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       
       // Check if user is currently attending
       const existingAttendee = await storage.getEventAttendee(eventId, user.id);
-      if (!existingAttendee) {
+      if (!existingAttendee || existingAttendee.status === 'cancelled') {
         return res.status(400).json({ message: "You are not attending this event" });
       }
       
-      // Remove user from event
-      const result = await storage.leaveEvent(eventId, user.id);
+      // Paid attendees keep their row as cancelled, with the refund their policy allows
+      let result;
+      if (hasPaidAttendance(existingAttendee)) {
+        const refunded = await refundAttendee(event, existingAttendee);
+        result = {
+          eventId,
+          userId: user.id,
+          removed: true,
+          refundStatus: refunded?.refund_status,
+          refundAmount: refunded?.refund_amount
+        };
+      } else {
+        result = await storage.leaveEvent(eventId, user.id);
+      }
+      
+      // A freed approved spot goes to the next person on the waitlist
+      if (existingAttendee.status === 'approved') {
+        await announceAttendeeLeft(eventId, user.id);
+        await promoteFromWaitlist(event);
+      }
       
       console.log(`✅ User ${user.username} left event ${eventId} successfully`);
       res.json({ message: "Successfully left event", result });
@@ -1371,7 +1769,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Get event attendance status for current user
-  app.get("/api/events/:id/status", isAuthenticated, async (req, res) => {
+  app.get("/api/events/:id/status", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const eventId = parseInt(req.params.id);
@@ -1382,17 +1780,20 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       }
       
       // Check if user is the organizer
-      const isOrganizer = event.organizerId === user.id;
+      const isOrganizer = event.organizer_id === user.id;
       
       // Check if user is attending
       const attendee = await storage.getEventAttendee(eventId, user.id);
-      const isAttending = !!attendee;
+      const isWaitlisted = attendee?.status === 'waitlisted';
+      const isAttending = !!attendee && !isWaitlisted && attendee.status !== 'cancelled';
       
       res.json({
         isOrganizer,
         isAttending,
+        isWaitlisted,
+        waitlistPosition: isWaitlisted ? await storage.getWaitlistPosition(eventId, user.id) : null,
         status: attendee?.status || null,
-        paymentStatus: attendee?.paymentStatus || null
+        paymentStatus: attendee?.payment_status || null
       });
     } catch (error) {
       console.error("Error fetching event status:", error);
@@ -1400,6 +1801,168 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
     }
   });
 
+  // Tickets of the current user (one signed token per approved attendance)
+  app.get("/api/user/tickets", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const attendances = await storage.getUserTickets(user.id);
+      
+      const tickets = attendances
+        .filter((attendance: any) => attendance.event)
+        .map((attendance: any) => ({
+          attendeeId: attendance.id,
+          token: createTicketToken(attendance),
+          checkedInAt: attendance.checked_in_at,
+          event: {
+            id: attendance.event.id,
+            title: attendance.event.title,
+            date: attendance.event.date,
+            endTime: attendance.event.end_time,
+            locationName: attendance.event.location_name,
+            locationAddress: attendance.event.location_address,
+            mainMediaUrl: attendance.event.main_media_url
+          }
+        }));
+      
+      res.json(tickets);
+    } catch (error) {
+      console.error("Error fetching tickets:", error);
+      res.status(500).json({ message: "Failed to fetch tickets" });
+    }
+  });
+
+  // Check in an attendee by scanning their ticket (organizers only)
+  app.post("/api/events/:id/check-in", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const eventId = parseInt(req.params.id);
+      
+      const event = await storage.getEventById(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      const eventOrganizerId = event.organizer_id;
+      if (parseInt(String(eventOrganizerId)) !== parseInt(String(user.id))) {
+        return res.status(403).json({ message: "Only organizer can check in attendees" });
+      }
+      
+      if (typeof req.body.token !== "string" || !req.body.token.trim()) {
+        return res.status(400).json({ message: "Ticket token is required" });
+      }
+      const ticket = verifyTicketToken(req.body.token);
+      if (!ticket) {
+        return res.status(400).json({ message: "Invalid ticket" });
+      }
+      if (ticket.eventId !== eventId) {
+        return res.status(400).json({ message: "Ticket belongs to another event" });
+      }
+      
+      // The attendance may have been cancelled since the ticket was issued
+      const attendee = await storage.getEventAttendee(eventId, ticket.userId);
+      if (!attendee || attendee.id !== ticket.attendeeId || attendee.status !== "approved") {
+        return res.status(400).json({ message: "Ticket is no longer valid" });
+      }
+      
+      const attendeeUser = await storage.getUserById(ticket.userId);
+      const attendeeInfo = attendeeUser
+        ? { id: attendeeUser.id, name: attendeeUser.name, avatar: attendeeUser.avatar }
+        : { id: ticket.userId };
+      
+      if (attendee.checked_in_at) {
+        return res.json({ 
+          message: "Attendee already checked in", 
+          alreadyCheckedIn: true,
+          checkedInAt: attendee.checked_in_at,
+          attendee: attendeeInfo
+        });
+      }
+      
+      const checkedIn = await storage.checkInAttendee(attendee.id);
+      
+      console.log(`🎟️ User ${ticket.userId} checked in to event ${eventId}`);
+      res.json({ 
+        message: "Attendee checked in", 
+        alreadyCheckedIn: false,
+        checkedInAt: checkedIn?.checked_in_at || new Date().toISOString(),
+        attendee: attendeeInfo
+      });
+    } catch (error) {
+      console.error("Error checking in attendee:", error);
+      res.status(500).json({ message: "Failed to check in attendee" });
+    }
+  });
+
+  // Mark or unmark an approved attendee as a no-show (organizers only)
+  app.post("/api/events/:id/no-show", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const eventId = parseInt(req.params.id);
+      const attendeeId = parseInt(req.body.attendeeId);
+      const noShow = req.body.noShow !== false;
+      
+      const event = await storage.getEventById(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      const eventOrganizerId = event.organizer_id;
+      if (parseInt(String(eventOrganizerId)) !== parseInt(String(user.id))) {
+        return res.status(403).json({ message: "Only organizer can mark no-shows" });
+      }
+      
+      const attendee = (event.attendees || []).find((a: any) => a.id === attendeeId);
+      if (!attendee || attendee.status !== "approved") {
+        return res.status(404).json({ message: "Attendee not found" });
+      }
+      if (noShow && attendee.checked_in_at) {
+        return res.status(400).json({ message: "Attendee is already checked in" });
+      }
+      
+      const updated = await storage.setAttendeeNoShow(attendeeId, noShow);
+      res.json({ attendeeId, noShow: updated?.no_show ?? noShow });
+    } catch (error) {
+      console.error("Error marking no-show:", error);
+      res.status(500).json({ message: "Failed to mark no-show" });
+    }
+  });
+
+  // Headcount of checked-in versus approved attendees (organizers only)
+  app.get("/api/events/:id/check-in", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const eventId = parseInt(req.params.id);
+      
+      const event = await storage.getEventById(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      const eventOrganizerId = event.organizer_id;
+      if (parseInt(String(eventOrganizerId)) !== parseInt(String(user.id))) {
+        return res.status(403).json({ message: "Only organizer can view check-ins" });
+      }
+      
+      const attendees = await storage.getEventCheckIns(eventId);
+      
+      res.json({
+        eventId,
+        eventTitle: event.title,
+        approvedCount: attendees.length,
+        checkedInCount: attendees.filter((attendee: any) => attendee.checked_in_at).length,
+        attendees: attendees.map((attendee: any) => ({
+          attendeeId: attendee.id,
+          user: attendee.user,
+          checkedInAt: attendee.checked_in_at,
+          noShow: attendee.no_show
+        }))
+      });
+    } catch (error) {
+      console.error("Error fetching check-ins:", error);
+      res.status(500).json({ message: "Failed to fetch check-ins" });
+    }
+  });
+
   // Get event attendees
   app.get("/api/events/:id/attendees", async (req, res) => {
     try {
@@ -1413,7 +1976,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Get events the authenticated user is attending
-  app.get("/api/user/events/attending", isAuthenticated, async (req, res) => {
+  app.get("/api/user/events/attending", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const attendingEvents = await storage.getUserAttendingEvents(user.id);
@@ -1466,7 +2029,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Get events created by the authenticated user
-  app.get("/api/user/events/created", isAuthenticated, async (req, res) => {
+  app.get("/api/user/events/created", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const createdEvents = await storage.getUserCreatedEvents(user.id);
@@ -1511,7 +2074,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Get user interests
-  app.get("/api/user/interests", isAuthenticated, async (req, res) => {
+  app.get("/api/user/interests", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const interests = await storage.getUserInterests(user.id);
@@ -1523,7 +2086,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Add user interest
-  app.post("/api/user/interests", isAuthenticated, async (req, res) => {
+  app.post("/api/user/interests", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const { category } = req.body;
@@ -1549,7 +2112,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Remove user interest
-  app.delete("/api/user/interests/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/user/interests/:id", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       const interestId = parseInt(req.params.id);
@@ -1715,39 +2278,13 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Notification endpoints
-  app.get("/api/notifications/count", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/notifications/count", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
       
-      // Count pending requests for events organized by this user
-      const { data: pendingRequests, error } = await supabase
-        .from('event_attendees')
-        .select(`
-          id, event_id,
-          events!inner(organizer_id)
-        `)
-        .eq('status', 'pending')
-        .eq('events.organizer_id', user.id);
-
-      if (error) {
-        console.error('Error fetching pending requests count:', error);
-        return res.status(500).json({ message: 'Error fetching notifications' });
-      }
-
-      // Count unread notifications for this user
-      const { data: unreadNotifications, error: notificationError } = await supabase
-        .from('notifications')
-        .select('id')
-        .eq('user_id', user.id)
-        .eq('is_read', false);
-
-      if (notificationError) {
-        console.error('Error fetching unread notifications count:', notificationError);
-        return res.status(500).json({ message: 'Error fetching notifications' });
-      }
-
-      const pendingRequestsCount = pendingRequests?.length || 0;
-      const unreadNotificationsCount = unreadNotifications?.length || 0;
+      // Pending requests for events organized by this user plus unread notifications
+      const pendingRequestsCount = (await storage.getAllPendingRequestsForUser(user.id)).length;
+      const unreadNotificationsCount = await storage.countUnreadNotifications(user.id);
       const totalCount = pendingRequestsCount + unreadNotificationsCount;
 
       res.json({ count: totalCount });
@@ -1758,23 +2295,14 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Mark all notifications as read
-  app.post("/api/notifications/mark-all-read", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.post("/api/notifications/mark-all-read", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
       
       console.log(`📖 Marking all notifications as read for user ${user.id}`);
       
       // Update all unread notifications for this user
-      const { data, error } = await supabase
-        .from('notifications')
-        .update({ is_read: true })
-        .eq('user_id', user.id)
-        .eq('is_read', false);
-
-      if (error) {
-        console.error('Error marking notifications as read:', error);
-        return res.status(500).json({ message: 'Error marking notifications as read' });
-      }
+      await storage.markAllNotificationsRead(user.id);
 
       console.log(`✅ Successfully marked notifications as read for user ${user.id}`);
       res.json({ success: true, message: 'Notifications marked as read' });
@@ -1785,46 +2313,20 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Get all notifications (combined pending requests and user notifications)
-  app.get("/api/notifications/all", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/notifications/all", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
       
       console.log(`📋 Fetching all notifications for user ${user.id}`);
       
       // Get user notifications
-      const { data: userNotifications, error: userNotificationsError } = await supabase
-        .from('notifications')
-        .select(`
-          id, type, title, message, event_id, request_id, is_read, created_at,
-          events(title)
-        `)
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (userNotificationsError) {
-        console.error('Error fetching user notifications:', userNotificationsError);
-        return res.status(500).json({ message: 'Error fetching notifications' });
-      }
+      const userNotifications = await storage.getUserNotifications(user.id);
 
       // Get pending requests for events organized by this user
-      const { data: pendingRequests, error: pendingError } = await supabase
-        .from('event_attendees')
-        .select(`
-          id, event_id, user_id, status, created_at,
-          events!inner(id, title, date, organizer_id),
-          users(id, name, email, avatar)
-        `)
-        .eq('status', 'pending')
-        .eq('events.organizer_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (pendingError) {
-        console.error('Error fetching pending requests:', pendingError);
-        return res.status(500).json({ message: 'Error fetching pending requests' });
-      }
+      const pendingRequests = await storage.getAllPendingRequestsForUser(user.id);
 
       // Format user notifications
-      const formattedUserNotifications = (userNotifications || []).map(notif => ({
+      const formattedUserNotifications = userNotifications.map(notif => ({
         type: 'user_notification',
         id: notif.id,
         notificationType: notif.type,
@@ -1834,27 +2336,27 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         requestId: notif.request_id,
         isRead: notif.is_read,
         createdAt: notif.created_at,
-        event: notif.events ? { title: (notif.events as any).title } : null
+        event: notif.event ? { title: notif.event.title } : null
       }));
 
       // Format pending requests
-      const formattedPendingRequests = (pendingRequests || []).map(req => ({
+      const formattedPendingRequests = pendingRequests.map(req => ({
         type: 'pending_request',
         id: req.id,
         eventId: req.event_id,
         userId: req.user_id,
         status: req.status,
         createdAt: req.created_at,
-        user: req.users ? {
-          id: (req.users as any).id,
-          name: (req.users as any).name,
-          email: (req.users as any).email,
-          avatar: (req.users as any).avatar
+        user: req.user ? {
+          id: req.user.id,
+          name: req.user.name,
+          email: req.user.email,
+          avatar: req.user.avatar
         } : null,
-        event: req.events ? {
-          id: (req.events as any).id,
-          title: (req.events as any).title,
-          date: (req.events as any).date
+        event: req.event ? {
+          id: req.event.id,
+          title: req.event.title,
+          date: req.event.date
         } : null
       }));
 
@@ -1870,79 +2372,23 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
     }
   });
 
-  app.get("/api/notifications/pending-requests", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/notifications/pending-requests", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
       console.log(`📋 Fetching pending requests for organizer ${user.id}`);
       
-      // Simplified direct query to avoid storage function issues
-      const { data: pendingRequests, error } = await supabase
-        .from('event_attendees')
-        .select(`
-          id, event_id, user_id, status, created_at
-        `)
-        .eq('status', 'pending');
-      
-      if (error) {
-        console.error('Error fetching pending requests from DB:', error);
-        return res.status(500).json({ message: 'Error fetching pending requests' });
-      }
-      
-      if (!pendingRequests || pendingRequests.length === 0) {
-        console.log(`📋 No pending requests found`);
-        return res.json({ requests: [] });
-      }
-      
-      // Get event details for filtering by organizer
-      const eventIds = Array.from(new Set(pendingRequests.map(req => req.event_id)));
-      const { data: events, error: eventsError } = await supabase
-        .from('events')
-        .select('id, title, date, organizer_id')
-        .in('id', eventIds)
-        .eq('organizer_id', user.id);
-      
-      if (eventsError) {
-        console.error('Error fetching events:', eventsError);
-        return res.status(500).json({ message: 'Error fetching events' });
-      }
-      
-      // Filter requests for events organized by this user
-      const userEventIds = events?.map(e => e.id) || [];
-      const filteredRequests = pendingRequests.filter(req => userEventIds.includes(req.event_id));
-      
-      if (filteredRequests.length === 0) {
-        console.log(`📋 No pending requests found for organizer ${user.id}`);
-        return res.json({ requests: [] });
-      }
-      
-      // Get user details for each request
-      const userIds = Array.from(new Set(filteredRequests.map(req => req.user_id)));
-      const { data: users, error: usersError } = await supabase
-        .from('users')
-        .select('id, name, email, avatar')
-        .in('id', userIds);
-      
-      if (usersError) {
-        console.error('Error fetching users:', usersError);
-        return res.status(500).json({ message: 'Error fetching users' });
-      }
-      
-      // Combine all data
-      const requests = filteredRequests.map(req => {
-        const event = events?.find(e => e.id === req.event_id);
-        const reqUser = users?.find(u => u.id === req.user_id);
-        
-        return {
-          id: req.id,
-          eventId: req.event_id,
-          userId: req.user_id,
-          status: req.status,
-          createdAt: req.created_at,
-          applicationAnswers: null, // Column doesn't exist in Supabase yet
-          user: reqUser,
-          event: event
-        };
-      });
+      const pendingRequests = await storage.getAllPendingRequestsForUser(user.id);
+
+      const requests = pendingRequests.map(req => ({
+        id: req.id,
+        eventId: req.event_id,
+        userId: req.user_id,
+        status: req.status,
+        createdAt: req.created_at,
+        applicationAnswers: req.application_answers,
+        user: req.user,
+        event: req.event
+      }));
 
       console.log(`📋 Returning ${requests.length} pending requests for organizer ${user.id}`);
       res.json({ requests });
@@ -1953,7 +2399,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Approve event request endpoint
-  app.post("/api/events/approve-attendee", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.post("/api/events/approve-attendee", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
       const { requestId } = req.body;
@@ -1963,173 +2409,50 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       }
 
       // Get the request details and verify organizer
-      const { data: request, error: fetchError } = await supabase
-        .from('event_attendees')
-        .select(`
-          id, event_id, user_id, status,
-          events!inner(organizer_id)
-        `)
-        .eq('id', requestId)
-        .eq('status', 'pending')
-        .eq('events.organizer_id', user.id)
-        .single();
-
-      if (fetchError || !request) {
+      const request = await storage.getEventAttendeeById(requestId);
+
+      if (!request || request.status !== 'pending' || request.event?.organizer_id !== user.id) {
         return res.status(404).json({ message: 'Request not found or not authorized' });
       }
 
-      // Update request status to approved
-      const { error: updateError } = await supabase
-        .from('event_attendees')
-        .update({ 
-          status: 'approved',
-          payment_status: 'completed'
-        })
-        .eq('id', requestId);
-
-      if (updateError) {
-        console.error('Error approving request:', updateError);
-        return res.status(500).json({ message: 'Error approving request' });
-      }
-
-      // Get event details for notification
-      const { data: eventData, error: eventError } = await supabase
-        .from('events')
-        .select('title')
-        .eq('id', request.event_id)
-        .single();
-
-      if (!eventError && eventData) {
-        // Create notification for the user who requested to join
-        const { error: notificationError } = await supabase
-          .from('notifications')
-          .insert({
-            user_id: request.user_id,
-            type: 'request_approved',
-            title: 'Solicitud aprobada',
-            message: `Tu solicitud para unirte a "${eventData.title}" ha sido aceptada`,
-            event_id: request.event_id,
-            request_id: requestId
-          });
-
-        if (notificationError) {
-          console.error('Error creating notification:', notificationError);
-        }
+      const requestEvent = await storage.getEventById(request.event_id);
+      if (requestEvent && !isEventOpen(requestEvent)) {
+        return res.status(409).json({ message: 'This event is not open for registration' });
       }
 
-      res.json({ message: 'Request approved successfully' });
-    } catch (error) {
-      console.error('Error approving request:', error);
-      res.status(500).json({ message: 'Error approving request' });
-    }
-  });
-
-  // Get all notifications for user (both pending requests and user notifications)
-  app.get("/api/notifications/all", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
-    try {
-      const user = req.user as any;
-      console.log(`📋 Fetching all notifications for user ${user.id}`);
-
-      // Get pending requests for events organized by this user
-      const { data: pendingRequests, error: pendingError } = await supabase
-        .from('event_attendees')
-        .select(`
-          id, event_id, user_id, status, created_at
-        `)
-        .eq('status', 'pending');
-
-      if (pendingError) {
-        console.error('Error fetching pending requests:', pendingError);
-        return res.status(500).json({ message: 'Error fetching notifications' });
-      }
-
-      // Filter and get event details for requests on events organized by this user
-      let organizerRequests: any[] = [];
-      if (pendingRequests && pendingRequests.length > 0) {
-        const eventIds = Array.from(new Set(pendingRequests.map(req => req.event_id)));
-        const { data: events, error: eventsError } = await supabase
-          .from('events')
-          .select('id, title, date, organizer_id')
-          .in('id', eventIds)
-          .eq('organizer_id', user.id);
-
-        if (!eventsError && events) {
-          const userEventIds = events.map(e => e.id);
-          const filteredRequests = pendingRequests.filter(req => userEventIds.includes(req.event_id));
-
-          if (filteredRequests.length > 0) {
-            // Get user details for each request
-            const userIds = Array.from(new Set(filteredRequests.map(req => req.user_id)));
-            const { data: users, error: usersError } = await supabase
-              .from('users')
-              .select('id, name, email, avatar')
-              .in('id', userIds);
-
-            if (!usersError && users) {
-              organizerRequests = filteredRequests.map(req => {
-                const event = events.find(e => e.id === req.event_id);
-                const reqUser = users.find(u => u.id === req.user_id);
-                return {
-                  type: 'pending_request',
-                  id: req.id,
-                  eventId: req.event_id,
-                  userId: req.user_id,
-                  status: req.status,
-                  createdAt: req.created_at,
-                  user: reqUser,
-                  event: event
-                };
-              });
-            }
-          }
-        }
+      // Capacity is checked in the same step that approves the request
+      const approval = await storage.approveAttendeeWithinCapacity(request.id, { paymentStatus: 'completed' });
+      if (approval.approved === false) {
+        return approval.reason === 'event_full'
+          ? res.status(409).json({ message: 'Event is full' })
+          : res.status(404).json({ message: 'Request not found or not authorized' });
       }
 
-      // Get user notifications (approvals, rejections, etc.)
-      const { data: userNotifications, error: notificationsError } = await supabase
-        .from('notifications')
-        .select(`
-          id, type, title, message, event_id, request_id, is_read, created_at,
-          events(title)
-        `)
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (notificationsError) {
-        console.error('Error fetching user notifications:', notificationsError);
-        return res.status(500).json({ message: 'Error fetching notifications' });
-      }
-
-      // Combine and format all notifications
-      const allNotifications = [
-        ...organizerRequests,
-        ...(userNotifications || []).map(notif => ({
-          type: 'user_notification',
-          id: notif.id,
-          notificationType: notif.type,
-          title: notif.title,
-          message: notif.message,
-          eventId: notif.event_id,
-          requestId: notif.request_id,
-          isRead: notif.is_read,
-          createdAt: notif.created_at,
-          event: notif.events
-        }))
-      ];
+      // Create notification for the user who requested to join
+      try {
+        await storage.createNotification({
+          userId: request.user_id,
+          type: 'request_approved',
+          title: 'Solicitud aprobada',
+          message: `Tu solicitud para unirte a "${request.event.title}" ha sido aceptada`,
+          eventId: request.event_id,
+          requestId: request.id
+        });
+      } catch (notificationError) {
+        console.error('Error creating notification:', notificationError);
+      }
 
-      // Sort by creation date (newest first)
-      allNotifications.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      await announceAttendeeJoined(request.event_id, request.user_id);
 
-      console.log(`📋 Returning ${allNotifications.length} total notifications for user ${user.id}`);
-      res.json({ notifications: allNotifications });
+      res.json({ message: 'Request approved successfully' });
     } catch (error) {
-      console.error('Error fetching all notifications:', error);
-      res.status(500).json({ message: 'Error fetching notifications' });
+      console.error('Error approving request:', error);
+      res.status(500).json({ message: 'Error approving request' });
     }
   });
 
   // Reject event request endpoint
-  app.post("/api/events/reject-attendee", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.post("/api/events/reject-attendee", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
       const { requestId } = req.body;
@@ -2139,31 +2462,13 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       }
 
       // Get the request details and verify organizer
-      const { data: request, error: fetchError } = await supabase
-        .from('event_attendees')
-        .select(`
-          id, event_id, user_id, status,
-          events!inner(organizer_id)
-        `)
-        .eq('id', requestId)
-        .eq('status', 'pending')
-        .eq('events.organizer_id', user.id)
-        .single();
-
-      if (fetchError || !request) {
+      const request = await storage.getEventAttendeeById(requestId);
+
+      if (!request || request.status !== 'pending' || request.event?.organizer_id !== user.id) {
         return res.status(404).json({ message: 'Request not found or not authorized' });
       }
 
-      // Update request status to rejected (or delete the record)
-      const { error: updateError } = await supabase
-        .from('event_attendees')
-        .update({ status: 'rejected' })
-        .eq('id', requestId);
-
-      if (updateError) {
-        console.error('Error rejecting request:', updateError);
-        return res.status(500).json({ message: 'Error rejecting request' });
-      }
+      await storage.updateEventAttendee(request.id, { status: 'rejected' });
 
       res.json({ message: 'Request rejected successfully' });
     } catch (error) {
@@ -2174,7 +2479,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
 
 
   // Get user profile by ID
-  app.get("/api/users/:userId", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/users/:userId", requireAuth, async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.userId);
       
@@ -2182,18 +2487,14 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         return res.status(400).json({ message: "Invalid user ID" });
       }
 
-      // Get user profile from Supabase
-      const { data: user, error } = await supabase
-        .from('users')
-        .select('id, name, email, username, bio, avatar, created_at')
-        .eq('id', userId)
-        .single();
+      const user = await storage.getUserById(userId);
 
-      if (error || !user) {
+      if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
 
-      res.json(user);
+      const { id, name, email, username, bio, avatar, created_at } = user;
+      res.json({ id, name, email, username, bio, avatar, created_at });
     } catch (error) {
       console.error('Error fetching user profile:', error);
       res.status(500).json({ message: 'Error fetching user profile' });
@@ -2201,7 +2502,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Get user interests by user ID
-  app.get("/api/users/:userId/interests", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/users/:userId/interests", requireAuth, async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.userId);
       
@@ -2209,18 +2510,8 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         return res.status(400).json({ message: "Invalid user ID" });
       }
 
-      // Get user interests from Supabase
-      const { data: interests, error } = await supabase
-        .from('user_interests')
-        .select('category')
-        .eq('user_id', userId);
-
-      if (error) {
-        console.error('Error fetching user interests:', error);
-        return res.status(500).json({ message: 'Error fetching user interests' });
-      }
-
-      const interestsList = interests ? interests.map(i => i.category) : [];
+      const interests = await storage.getUserInterests(userId);
+      const interestsList = interests.map(i => i.category);
       res.json({ interests: interestsList });
     } catch (error) {
       console.error('Error fetching user interests:', error);
@@ -2228,8 +2519,12 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
     }
   });
 
+  // Supabase reports the table as public.user_ratings, Postgres as user_ratings
+  const isMissingRatingsTable = (error: any) =>
+    /relation "(public\.)?user_ratings" does not exist/.test(error?.message || '');
+
   // Get user aura (average rating)
-  app.get("/api/users/:userId/aura", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/users/:userId/aura", requireAuth, async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.userId);
       
@@ -2238,29 +2533,19 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
       }
 
       // Get average rating for the user
-      const { data: ratings, error } = await supabase
-        .from('user_ratings')
-        .select('rating')
-        .eq('rated_user_id', userId);
-
-      if (error) {
+      let aura = 0;
+      let count = 0;
+      try {
+        ({ average: aura, count } = await storage.getUserRatingSummary(userId));
+      } catch (error) {
         console.error('Error fetching user ratings:', error);
-        
+
         // If table doesn't exist, return default values (no ratings yet)
-        if (error.message && error.message.includes('relation "public.user_ratings" does not exist')) {
+        if (isMissingRatingsTable(error)) {
           return res.json({ aura: 0, count: 0 });
         }
-        
-        return res.status(500).json({ message: 'Error fetching user aura' });
-      }
-
-      let aura = 0;
-      let count = 0;
 
-      if (ratings && ratings.length > 0) {
-        const sum = ratings.reduce((acc, rating) => acc + rating.rating, 0);
-        aura = sum / ratings.length;
-        count = ratings.length;
+        return res.status(500).json({ message: 'Error fetching user aura' });
       }
 
       res.json({ 
@@ -2274,7 +2559,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Check if current user can rate another user (have been in same event)
-  app.get("/api/users/:userId/can-rate", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/users/:userId/can-rate", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
       const targetUserId = parseInt(req.params.userId);
@@ -2287,38 +2572,10 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         return res.json({ canRate: false, reason: "Cannot rate yourself" });
       }
 
-      // First get events where current user was approved
-      const { data: userEvents, error: userEventsError } = await supabase
-        .from('event_attendees')
-        .select('event_id')
-        .eq('user_id', user.id)
-        .eq('status', 'approved');
-
-      if (userEventsError || !userEvents || userEvents.length === 0) {
-        return res.json({ canRate: false, reason: "You need to attend the same event to rate this user" });
-      }
-
-      const userEventIds = userEvents.map(e => e.event_id);
-
-      // Check if target user was also approved in any of these events
-      const { data: sharedEvents, error } = await supabase
-        .from('event_attendees')
-        .select('event_id')
-        .eq('user_id', targetUserId)
-        .eq('status', 'approved')
-        .in('event_id', userEventIds);
-
-      if (error) {
-        console.error('Error checking shared events:', error);
-        return res.status(500).json({ message: 'Error checking rating eligibility' });
-      }
-
-      const canRate = sharedEvents && sharedEvents.length > 0;
+      // Both users must have attended the same event, after it ended and within the rating window
+      const eligibility = await getRatingEligibility(user.id, targetUserId);
       
-      res.json({ 
-        canRate,
-        reason: canRate ? null : "You need to attend the same event to rate this user"
-      });
+      res.json(eligibility);
     } catch (error) {
       console.error('Error checking rating eligibility:', error);
       res.status(500).json({ message: 'Error checking rating eligibility' });
@@ -2326,7 +2583,7 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
   });
 
   // Rate a user
-  app.post("/api/users/:userId/rate", isAuthenticatedMiddleware, async (req: Request, res: Response) => {
+  app.post("/api/users/:userId/rate", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
       const targetUserId = parseInt(req.params.userId);
@@ -2344,52 +2601,21 @@ export async function registerRoutes(app: Express, options: { excludeAuth?: bool
         return res.status(400).json({ message: "Rating must be between 1 and 10" });
       }
 
-      // First get events where current user was approved
-      const { data: userEvents, error: userEventsError } = await supabase
-        .from('event_attendees')
-        .select('event_id')
-        .eq('user_id', user.id)
-        .eq('status', 'approved');
-
-      if (userEventsError || !userEvents || userEvents.length === 0) {
+      const eligibility = await getRatingEligibility(user.id, targetUserId);
+      if (!eligibility.canRate) {
         return res.status(403).json({ 
-          message: "You can only rate users you've attended events with" 
+          message: eligibility.reason || "You can only rate users you've attended events with" 
         });
       }
 
-      const userEventIds = userEvents.map(e => e.event_id);
-
-      // Check if target user was also approved in any of these events
-      const { data: sharedEvents, error: checkError } = await supabase
-        .from('event_attendees')
-        .select('event_id')
-        .eq('user_id', targetUserId)
-        .eq('status', 'approved')
-        .in('event_id', userEventIds);
-
-      if (checkError || !sharedEvents || sharedEvents.length === 0) {
-        return res.status(403).json({ 
-          message: "You can only rate users you've attended events with" 
-        });
-      }
-
-      // Insert or update rating (upsert) - allow modifications anytime
-      const { error: upsertError } = await supabase
-        .from('user_ratings')
-        .upsert({
-          rated_user_id: targetUserId,
-          rater_user_id: user.id,
-          rating: rating,
-          updated_at: new Date().toISOString()
-        }, {
-          onConflict: 'rated_user_id,rater_user_id'
-        });
-
-      if (upsertError) {
+      // Insert or update rating (upsert) - allowed while the rating window is open
+      try {
+        await storage.upsertUserRating(user.id, targetUserId, rating);
+      } catch (upsertError) {
         console.error('Error saving rating:', upsertError);
         
         // If table doesn't exist, inform user that admin needs to create it
-        if (upsertError.message && upsertError.message.includes('relation "public.user_ratings" does not exist')) {
+        if (isMissingRatingsTable(upsertError)) {
           return res.status(503).json({ 
             message: 'Rating system is not available yet. Please contact administrator.' 
           });
@@ -0,0 +1,62 @@
+import { jobScheduler, type JobScheduler } from './job-scheduler';
+import { sendDueEventReminders } from './chat-system-messages';
+import { completeEndedEvents, expirePendingRequests } from './event-lifecycle';
+import { sendDueReminderNotifications } from './event-notifications';
+import { deleteExpiredSessions } from './session-auth';
+import { deleteOrphanedEventMedia } from './media-cleanup';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Every recurring job the server runs. The names are the keys in scheduled_jobs,
+ * so renaming one starts it over with a fresh schedule.
+ */
+export function registerScheduledJobs(scheduler: JobScheduler = jobScheduler) {
+  // 24h and 1h reminders in event chats
+  scheduler.register({
+    name: 'event_chat_reminders',
+    intervalMs: MINUTE_MS,
+    run: sendDueEventReminders
+  });
+
+  // Reminder notifications at EVENT_REMINDER_OFFSETS_MINUTES before start
+  scheduler.register({
+    name: 'event_reminder_notifications',
+    intervalMs: MINUTE_MS,
+    run: sendDueReminderNotifications
+  });
+
+  // Published events become completed once they end
+  scheduler.register({
+    name: 'complete_ended_events',
+    intervalMs: MINUTE_MS,
+    run: completeEndedEvents
+  });
+
+  // Join requests still pending when their event starts
+  scheduler.register({
+    name: 'expire_pending_requests',
+    intervalMs: 5 * MINUTE_MS,
+    run: expirePendingRequests
+  });
+
+  // Login sessions and express sessions past their expiry
+  scheduler.register({
+    name: 'delete_expired_sessions',
+    intervalMs: HOUR_MS,
+    run: deleteExpiredSessions
+  });
+
+  // Event uploads no event refers to anymore
+  scheduler.register({
+    name: 'delete_orphaned_media',
+    intervalMs: 24 * HOUR_MS,
+    run: deleteOrphanedEventMedia
+  });
+}
+
+export function startScheduledJobs() {
+  registerScheduledJobs();
+  jobScheduler.start();
+}
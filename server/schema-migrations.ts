@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import type pg from 'pg';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import { getPostgresDb, getPostgresPool } from './postgres';
+
+// Generated from shared/schema.ts with `npx drizzle-kit generate` (see drizzle.config.ts)
+export const MIGRATIONS_FOLDER = path.join(process.cwd(), 'db', 'migrations');
+
+export interface SchemaDrift {
+  pendingMigrations: string[];
+  unknownMigrations: string[];
+  missingTables: string[];
+  missingColumns: string[];
+  mismatchedColumns: string[];
+}
+
+// Migration tags (e.g. 0001_hand_added_columns) in the order drizzle-kit wrote them
+const readJournalTags = (): string[] => {
+  const journal = JSON.parse(fs.readFileSync(path.join(MIGRATIONS_FOLDER, 'meta', '_journal.json'), 'utf8'));
+  return journal.entries.map((entry: { tag: string }) => entry.tag);
+};
+
+// Tables and column types of the newest drizzle-kit snapshot, i.e. what schema.ts looked like at the last migration
+const readLatestSnapshot = (): Record<string, Record<string, string>> => {
+  const tags = readJournalTags();
+  const index = tags[tags.length - 1].split('_')[0];
+  const snapshot = JSON.parse(fs.readFileSync(path.join(MIGRATIONS_FOLDER, 'meta', `${index}_snapshot.json`), 'utf8'));
+  const tables: Record<string, Record<string, string>> = {};
+  for (const table of Object.values<any>(snapshot.tables)) {
+    tables[table.name] = {};
+    for (const column of Object.values<any>(table.columns)) {
+      tables[table.name][column.name] = column.type;
+    }
+  }
+  return tables;
+};
+
+// Snapshot types whose information_schema udt_name is spelled differently; enums use their own name
+const UDT_NAMES: Record<string, string> = {
+  serial: 'int4',
+  integer: 'int4',
+  smallint: 'int2',
+  bigint: 'int8',
+  bigserial: 'int8',
+  boolean: 'bool',
+  real: 'float4',
+  'double precision': 'float8',
+  'timestamp with time zone': 'timestamptz',
+  'character varying': 'varchar',
+};
+
+// udt_name a snapshot column type is stored as, e.g. 'numeric(10, 6)' -> 'numeric', 'text[]' -> '_text'
+const toUdtName = (snapshotType: string): string => {
+  if (snapshotType.endsWith('[]')) return `_${toUdtName(snapshotType.slice(0, -2))}`;
+  const base = snapshotType.replace(/\s*\(.*\)$/, '').trim();
+  return UDT_NAMES[base] ?? base;
+};
+
+/** Applies every migration newer than the last one recorded in drizzle.__drizzle_migrations */
+export const runMigrations = async () => {
+  await migrate(getPostgresDb(), { migrationsFolder: MIGRATIONS_FOLDER });
+};
+
+/**
+ * Compares the database with db/migrations: migrations not applied yet, applied migrations
+ * this checkout doesn't know about, tables or columns from the schema that are missing, and
+ * columns whose type differs from the schema.
+ */
+export const checkSchemaDrift = async (pool: pg.Pool = getPostgresPool()): Promise<SchemaDrift> => {
+  const migrations = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+  const tags = readJournalTags();
+
+  const { rows: applied } = await pool.query<{ hash: string; created_at: string }>(`
+    SELECT hash, created_at FROM drizzle.__drizzle_migrations ORDER BY created_at
+  `).catch((error) => {
+    // No migrations table yet: nothing has been applied
+    if (error.code === '42P01' || error.code === '3F000') return { rows: [] };
+    throw error;
+  });
+
+  const lastApplied = applied.length > 0 ? Number(applied[applied.length - 1].created_at) : 0;
+  const knownHashes = new Set(migrations.map(migration => migration.hash));
+
+  const pendingMigrations = migrations
+    .map((migration, index) => ({ migration, tag: tags[index] }))
+    .filter(({ migration }) => migration.folderMillis > lastApplied)
+    .map(({ tag }) => tag);
+  const unknownMigrations = applied
+    .filter(row => !knownHashes.has(row.hash))
+    .map(row => `${row.hash.slice(0, 12)} (${new Date(Number(row.created_at)).toISOString()})`);
+
+  const { rows: columns } = await pool.query<{ table_name: string; column_name: string; udt_name: string }>(`
+    SELECT table_name, column_name, udt_name FROM information_schema.columns WHERE table_schema = 'public'
+  `);
+  const existing = new Map<string, Map<string, string>>();
+  for (const column of columns) {
+    if (!existing.has(column.table_name)) existing.set(column.table_name, new Map());
+    existing.get(column.table_name)!.set(column.column_name, column.udt_name);
+  }
+
+  const missingTables: string[] = [];
+  const missingColumns: string[] = [];
+  const mismatchedColumns: string[] = [];
+  for (const [table, tableColumns] of Object.entries(readLatestSnapshot())) {
+    const present = existing.get(table);
+    if (!present) {
+      missingTables.push(table);
+      continue;
+    }
+    for (const [column, type] of Object.entries(tableColumns)) {
+      const actual = present.get(column);
+      if (actual === undefined) {
+        missingColumns.push(`${table}.${column}`);
+      } else if (actual !== toUdtName(type)) {
+        mismatchedColumns.push(`${table}.${column} is ${actual}, expected ${toUdtName(type)}`);
+      }
+    }
+  }
+
+  return { pendingMigrations, unknownMigrations, missingTables, missingColumns, mismatchedColumns };
+};
+
+export const hasSchemaDrift = (drift: SchemaDrift) =>
+  drift.pendingMigrations.length > 0 ||
+  drift.unknownMigrations.length > 0 ||
+  drift.missingTables.length > 0 ||
+  drift.missingColumns.length > 0 ||
+  drift.mismatchedColumns.length > 0;
+
+export const describeSchemaDrift = (drift: SchemaDrift) => {
+  const lines: string[] = [];
+  if (drift.pendingMigrations.length > 0) lines.push(`Pending migrations: ${drift.pendingMigrations.join(', ')}`);
+  if (drift.unknownMigrations.length > 0) lines.push(`Applied migrations missing from db/migrations: ${drift.unknownMigrations.join(', ')}`);
+  if (drift.missingTables.length > 0) lines.push(`Missing tables: ${drift.missingTables.join(', ')}`);
+  if (drift.missingColumns.length > 0) lines.push(`Missing columns: ${drift.missingColumns.join(', ')}`);
+  if (drift.mismatchedColumns.length > 0) lines.push(`Columns with a different type: ${drift.mismatchedColumns.join(', ')}`);
+  return lines;
+};
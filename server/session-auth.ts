@@ -1,71 +1,305 @@
 import { Request, Response, NextFunction } from 'express';
+import session from 'express-session';
+import crypto from 'crypto';
 import { storage } from './storage';
+import type { AuthSessionRow } from './storage-types';
 
-// Simple in-memory session store for development
-const sessionStore = new Map<string, {
+// Cookie carrying the login session id (kept apart from express-session's pipol_session cookie)
+export const SESSION_COOKIE = 'pipol_sid';
+
+// Sessions end after this long without activity, and never live longer than the absolute timeout
+export const SESSION_IDLE_TIMEOUT_MS = Number(process.env.SESSION_IDLE_TIMEOUT_MS) || 7 * 24 * 60 * 60 * 1000;
+export const SESSION_ABSOLUTE_TIMEOUT_MS = Number(process.env.SESSION_ABSOLUTE_TIMEOUT_MS) || 30 * 24 * 60 * 60 * 1000;
+
+// Avoid a write on every request: last activity is only persisted once per minute
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+export interface SessionRecord {
+  id: string;
   userId: number;
   email: string;
-  authenticated: boolean;
-  lastActivity: Date;
-}>();
-
-// No session timeout - sessions persist until manual logout
-export function createSession(userId: number, email: string): string {
-  const sessionId = Math.random().toString(36).substr(2, 9);
-  sessionStore.set(sessionId, {
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastActivityAt: Date;
+  expiresAt: Date;
+}
+
+export interface SessionMeta {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+/**
+ * Backend for login sessions. The default keeps them in the auth_sessions table of the storage
+ * backend, so sessions survive restarts and are shared between instances; SESSION_STORE=memory
+ * keeps them in process.
+ */
+export interface SessionStore {
+  create(session: SessionRecord): Promise<void>;
+  get(sessionId: string): Promise<SessionRecord | null>;
+  touch(sessionId: string, lastActivityAt: Date): Promise<void>;
+  destroy(sessionId: string): Promise<void>;
+  destroyByUser(userId: number): Promise<number>;
+  listByUser(userId: number): Promise<SessionRecord[]>;
+}
+
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, SessionRecord>();
+
+  async create(session: SessionRecord) {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async get(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    return session ? { ...session } : null;
+  }
+
+  async touch(sessionId: string, lastActivityAt: Date) {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastActivityAt = lastActivityAt;
+    }
+  }
+
+  async destroy(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+
+  async destroyByUser(userId: number) {
+    let count = 0;
+    for (const [id, session] of Array.from(this.sessions.entries())) {
+      if (session.userId === userId) {
+        this.sessions.delete(id);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async listByUser(userId: number) {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId)
+      .map(session => ({ ...session }));
+  }
+}
+
+const mapSessionRow = (row: AuthSessionRow): SessionRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  email: row.email,
+  userAgent: row.user_agent,
+  ipAddress: row.ip_address,
+  createdAt: new Date(row.created_at),
+  lastActivityAt: new Date(row.last_activity_at),
+  expiresAt: new Date(row.expires_at),
+});
+
+// Storage errors are thrown rather than treated as a missing session, so a database hiccup doesn't log users out
+export class StorageSessionStore implements SessionStore {
+  async create(session: SessionRecord) {
+    await storage.insertAuthSession(session);
+  }
+
+  async get(sessionId: string) {
+    const row = await storage.getAuthSession(sessionId);
+    return row ? mapSessionRow(row) : null;
+  }
+
+  async touch(sessionId: string, lastActivityAt: Date) {
+    await storage.touchAuthSession(sessionId, lastActivityAt);
+  }
+
+  async destroy(sessionId: string) {
+    await storage.deleteAuthSession(sessionId);
+  }
+
+  async destroyByUser(userId: number) {
+    return storage.deleteUserAuthSessions(userId);
+  }
+
+  async listByUser(userId: number) {
+    return (await storage.getUserAuthSessions(userId)).map(mapSessionRow);
+  }
+}
+
+let sessionStore: SessionStore = process.env.SESSION_STORE === 'memory'
+  ? new MemorySessionStore()
+  : new StorageSessionStore();
+
+export function setSessionStore(store: SessionStore) {
+  sessionStore = store;
+}
+
+const generateSessionId = () => crypto.randomBytes(32).toString('base64url');
+
+const isSessionExpired = (session: SessionRecord, now: Date) =>
+  now >= session.expiresAt || now.getTime() - session.lastActivityAt.getTime() > SESSION_IDLE_TIMEOUT_MS;
+
+export function getSessionMeta(req: Request): SessionMeta {
+  return {
+    userAgent: req.headers['user-agent'] || null,
+    ipAddress: req.ip || null,
+  };
+}
+
+export function getSessionCookieOptions() {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    maxAge: SESSION_ABSOLUTE_TIMEOUT_MS,
+  };
+}
+
+export async function createSession(userId: number, email: string, meta: SessionMeta = {}): Promise<string> {
+  const now = new Date();
+  const session: SessionRecord = {
+    id: generateSessionId(),
     userId,
     email,
-    authenticated: true,
-    lastActivity: new Date()
-  });
-  return sessionId;
+    userAgent: meta.userAgent || null,
+    ipAddress: meta.ipAddress || null,
+    createdAt: now,
+    lastActivityAt: now,
+    expiresAt: new Date(now.getTime() + SESSION_ABSOLUTE_TIMEOUT_MS),
+  };
+  await sessionStore.create(session);
+  return session.id;
 }
 
-export function getSession(sessionId: string) {
-  const session = sessionStore.get(sessionId);
+/**
+ * Returns the session if it is still valid, destroying it once the idle or absolute timeout passed
+ */
+export async function getSession(sessionId: string): Promise<SessionRecord | null> {
+  if (!sessionId) return null;
+
+  const session = await sessionStore.get(sessionId);
   if (!session) return null;
-  
-  // Update last activity but don't check for expiration
-  session.lastActivity = new Date();
-  sessionStore.set(sessionId, session);
-  
+
+  const now = new Date();
+  if (isSessionExpired(session, now)) {
+    await sessionStore.destroy(sessionId);
+    return null;
+  }
+
+  if (now.getTime() - session.lastActivityAt.getTime() > ACTIVITY_WRITE_INTERVAL_MS) {
+    session.lastActivityAt = now;
+    try {
+      await sessionStore.touch(sessionId, now);
+    } catch (error) {
+      // The session is still valid; the activity is written again on the next request
+      console.error('❌ Error updating session activity:', error);
+    }
+  }
+
   return session;
 }
 
-export function destroySession(sessionId: string) {
-  sessionStore.delete(sessionId);
+/**
+ * Issues a fresh session id on login so an id set before authentication can't be reused
+ */
+export async function rotateSession(previousSessionId: string | undefined, userId: number, email: string, meta: SessionMeta = {}) {
+  if (previousSessionId) {
+    await sessionStore.destroy(previousSessionId);
+  }
+  return createSession(userId, email, meta);
+}
+
+export async function destroySession(sessionId: string) {
+  await sessionStore.destroy(sessionId);
 }
 
-export async function sessionAuthMiddleware(req: Request, res: Response, next: NextFunction) {
-  try {
-    // First try session-based authentication
-    const sessionId = req.headers['x-session-id'] as string;
-    if (sessionId) {
-      const session = getSession(sessionId);
-      if (session) {
-        // Temporarily skip database user lookup
-        req.user = {
-          id: session.userId,
-          email: session.email,
-          username: 'user',
-          name: 'User',
-          password: null,
-          bio: null,
-          avatar: null,
-          supabaseId: null,
-          stripeCustomerId: null,
-          stripeSubscriptionId: null,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        };
-        return next();
+export async function destroyUserSessions(userId: number) {
+  return sessionStore.destroyByUser(userId);
+}
+
+export async function listUserSessions(userId: number) {
+  const now = new Date();
+  const sessions = await sessionStore.listByUser(userId);
+  return sessions.filter(session => !isSessionExpired(session, now));
+}
+
+/**
+ * Express sessions created at login point to a login session (authSessionId).
+ * Once that session is revoked or expired, the express session is dropped before passport reads it.
+ */
+export async function dropRevokedExpressSession(req: Request) {
+  const authSessionId = (req as any).session?.authSessionId;
+  if (!authSessionId || await getSession(authSessionId)) {
+    return false;
+  }
+
+  await new Promise<void>((resolve) => {
+    req.session.destroy((err) => {
+      if (err) {
+        console.error('Error destroying revoked session:', err);
       }
-    }
-    
-    // If no session, continue to next middleware (token-based auth)
-    next();
+      resolve();
+    });
+  });
+  return true;
+}
+
+export async function revokedSessionMiddleware(req: Request, res: Response, next: NextFunction) {
+  try {
+    await dropRevokedExpressSession(req);
   } catch (error) {
-    console.error('Session auth error:', error);
-    next();
+    console.error('Revoked session check error:', error);
+  }
+  next();
+}
+
+const HTTP_SESSION_DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const getHttpSessionExpiry = (data: session.SessionData) =>
+  data.cookie?.expires ? new Date(data.cookie.expires) : new Date(Date.now() + HTTP_SESSION_DEFAULT_MAX_AGE_MS);
+
+/**
+ * express-session store on the http_sessions table of the storage backend, so the
+ * pipol_session cookie keeps working after a restart and on every instance
+ */
+export class HttpSessionStore extends session.Store {
+  get(sid: string, callback: (error: any, data?: session.SessionData | null) => void) {
+    storage.getHttpSession(sid)
+      .then(async (row) => {
+        if (!row) return callback(null, null);
+        if (new Date(row.expires_at) <= new Date()) {
+          await storage.deleteHttpSession(sid);
+          return callback(null, null);
+        }
+        callback(null, row.data as session.SessionData);
+      })
+      .catch(error => callback(error));
   }
-}
\ No newline at end of file
+
+  set(sid: string, data: session.SessionData, callback?: (error?: any) => void) {
+    storage.saveHttpSession(sid, data, getHttpSessionExpiry(data))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  touch(sid: string, data: session.SessionData, callback?: (error?: any) => void) {
+    storage.touchHttpSession(sid, getHttpSessionExpiry(data))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (error?: any) => void) {
+    storage.deleteHttpSession(sid)
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+}
+
+/**
+ * Deletes expired login sessions and express sessions (scheduled job)
+ */
+export async function deleteExpiredSessions(now: Date = new Date()) {
+  const deleted = await storage.deleteExpiredSessions(now);
+  if (deleted > 0) {
+    console.log(`🧹 ${deleted} expired sessions deleted`);
+  }
+  return deleted;
+}
@@ -0,0 +1,215 @@
+// Helpers shared by the storage backends (Supabase, Postgres and memory)
+import type { BoundingBox, EventTiles } from './storage-types';
+
+// Page sizes for event listing (the map asks for one page at a time)
+export const DEFAULT_EVENTS_PAGE_SIZE = 50;
+export const MAX_EVENTS_PAGE_SIZE = 200;
+
+// Radius used when a location search doesn't give one, in kilometers
+export const DEFAULT_SEARCH_RADIUS_KM = 10;
+
+// Below this zoom the map gets server-side clusters instead of single events
+export const EVENT_TILES_CLUSTER_MAX_ZOOM = 12;
+export const MAX_EVENTS_PER_TILE_REQUEST = 500;
+
+// Events without an end_time are over this long after they start (same as the end_time backfill)
+export const DEFAULT_EVENT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+// Chat history is loaded in pages of at most this many messages
+export const MAX_CHAT_MESSAGES_PAGE_SIZE = 100;
+
+export const clampEventsPageSize = (limit?: number) =>
+  Math.min(Math.max(limit || DEFAULT_EVENTS_PAGE_SIZE, 1), MAX_EVENTS_PAGE_SIZE);
+
+// Follows nextCursor to the last page, for callers that want every matching event
+export const collectEventPages = async <T>(
+  searchPage: (cursor?: string) => Promise<{ events: T[]; nextCursor: string | null }>
+): Promise<T[]> => {
+  const events: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await searchPage(cursor);
+    events.push(...page.events);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return events;
+};
+
+// Grid cell in degrees for clusters: about four cells per 256px tile
+export const tileCellSize = (zoom: number) => 360 / Math.pow(2, Math.floor(zoom)) / 4;
+
+// Longitudes past ±180 (a map panned around the world) wrap back into range
+const wrapLongitude = (lng: number) =>
+  lng >= -180 && lng <= 180 ? lng : ((lng + 180) % 360 + 360) % 360 - 180;
+
+// A viewport crossing the 180° meridian (minLng > maxLng once wrapped) is queried as two boxes, one on each side
+export const splitAtAntimeridian = (bbox: BoundingBox): BoundingBox[] => {
+  const latitudes = { minLat: Math.max(bbox.minLat, -90), maxLat: Math.min(bbox.maxLat, 90) };
+  if (bbox.maxLng - bbox.minLng >= 360) {
+    return [{ minLng: -180, maxLng: 180, ...latitudes }];
+  }
+
+  const minLng = wrapLongitude(bbox.minLng);
+  const maxLng = wrapLongitude(bbox.maxLng);
+  if (minLng <= maxLng) {
+    return [{ minLng, maxLng, ...latitudes }];
+  }
+  return [
+    { minLng, maxLng: 180, ...latitudes },
+    { minLng: -180, maxLng, ...latitudes },
+  ];
+};
+
+// Joins the tiles of the boxes from splitAtAntimeridian, keeping the per-request event limit
+// with the same order as events_in_bbox (newest date first, then highest id)
+export const mergeEventTiles = (parts: EventTiles[]): EventTiles => {
+  if (parts.length === 1) return parts[0];
+  if (parts.every(part => part.type === 'clusters')) {
+    return { type: 'clusters', clusters: parts.flatMap(part => part.type === 'clusters' ? part.clusters : []) };
+  }
+  const events = parts
+    .flatMap(part => part.type === 'events' ? part.events : [])
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || b.id - a.id)
+    .slice(0, MAX_EVENTS_PER_TILE_REQUEST);
+  return { type: 'events', events };
+};
+
+// Cursors are opaque to clients: base64url of the last event's date and id
+export const encodeEventsCursor = (event: { date: string; id: number }) =>
+  Buffer.from(JSON.stringify({ date: event.date, id: event.id })).toString('base64url');
+
+export const decodeEventsCursor = (cursor: string): { date: string; id: number } | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof decoded.date !== 'string' || !Number.isInteger(decoded.id)) return null;
+    return decoded;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Conversations store each pair once, lower user id first
+export const orderedPair = (userId: number, otherUserId: number) =>
+  userId < otherUserId ? [userId, otherUserId] : [otherUserId, userId];
+
+export const toSnakeCase = (key: string) => key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+
+// Cache for processed media items to avoid repetitive processing
+const mediaProcessingCache = new Map<string, any>();
+
+// Utility function to sort media items in events so main item appears first
+export const sortEventMediaItems = <T>(event: T): T => {
+  if (!event) return event;
+  const row: any = event;
+
+  // Generate cache key based on event ID and media items content
+  const mediaItemsField = row?.media_items || row?.mediaItems;
+  const cacheKey = `${row.id}-${JSON.stringify(mediaItemsField || '')}`;
+
+  // Check cache first to avoid repeated processing
+  if (mediaProcessingCache.has(cacheKey)) {
+    const cachedResult = mediaProcessingCache.get(cacheKey);
+    return { ...row, ...cachedResult };
+  }
+
+  if (!mediaItemsField) {
+    // Cache empty result
+    mediaProcessingCache.set(cacheKey, {
+      media_items: null,
+      mediaItems: null,
+      mainMediaUrl: row.main_media_url || row.mainMediaUrl,
+      mainMediaType: row.main_media_type || row.mainMediaType
+    });
+    return event;
+  }
+
+  try {
+    let mediaItems = [];
+
+    // Parse media items
+    if (typeof mediaItemsField === 'string') {
+      try {
+        mediaItems = JSON.parse(mediaItemsField);
+      } catch (parseError) {
+        console.warn(`Error parsing media items for event ${row.id}:`, parseError);
+        return event;
+      }
+    } else if (Array.isArray(mediaItemsField)) {
+      mediaItems = mediaItemsField;
+    }
+
+    if (Array.isArray(mediaItems) && mediaItems.length > 0) {
+      // Validate and clean media items
+      const validMediaItems = mediaItems.filter(item =>
+        item &&
+        typeof item === 'object' &&
+        item.url &&
+        (item.type === 'photo' || item.type === 'video')
+      );
+
+      if (validMediaItems.length === 0) {
+        console.warn(`No valid media items found for event ${row.id}`);
+        return event;
+      }
+
+      // Sort so main item appears first
+      const sortedItems = validMediaItems.sort((a, b) => {
+        // If one is main and the other is not, main goes first
+        if (a.isMain && !b.isMain) return -1;
+        if (!a.isMain && b.isMain) return 1;
+        // If both are main or neither is main, sort by order
+        return (a.order || 0) - (b.order || 0);
+      });
+
+      // Ensure at least one item is marked as main
+      if (!sortedItems.some(item => item.isMain)) {
+        sortedItems[0].isMain = true;
+      }
+
+      // Find main media info
+      const mainItem = sortedItems.find(item => item.isMain);
+      const mainMediaUrl = mainItem?.url || null;
+      const mainMediaType = mainItem?.type || null;
+
+      // Prepare result for caching
+      const result = {
+        media_items: JSON.stringify(sortedItems),
+        mediaItems: JSON.stringify(sortedItems),
+        mainMediaUrl: mainMediaUrl,
+        mainMediaType: mainMediaType,
+        main_media_url: mainMediaUrl,
+        main_media_type: mainMediaType
+      };
+
+      // Cache the result
+      mediaProcessingCache.set(cacheKey, result);
+
+      return { ...row, ...result };
+    }
+  } catch (error) {
+    console.warn(`Error processing media items for event ${row.id}:`, error);
+  }
+
+  return event;
+};
+
+// Clear cache periodically to prevent memory leaks
+setInterval(() => {
+  if (mediaProcessingCache.size > 1000) {
+    mediaProcessingCache.clear();
+    console.log('🧹 Cleared media processing cache');
+  }
+}, 300000).unref(); // Clear every 5 minutes if cache is too large
+
+/**
+ * camelCase fields (as in @shared/schema) to the snake_case columns PostgREST expects.
+ * Keys that are already snake_case pass through; dates become ISO strings.
+ */
+export const toSnakeColumns = (data: Record<string, any>) => {
+  const columns: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    columns[toSnakeCase(key)] = value instanceof Date ? value.toISOString() : value;
+  }
+  return columns;
+};
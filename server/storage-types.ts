@@ -0,0 +1,354 @@
+import type {
+  User,
+  Event,
+  EventAttendee,
+  EventSeries,
+  UserInterest,
+  Notification,
+  ChatMessage,
+  ChatReadCursor,
+  ChatAttachment,
+  ChatSystemEvent,
+  EventStatus,
+  Conversation,
+  DirectMessage,
+  ScheduledJob,
+  AuthSession,
+  HttpSession,
+  InsertUser,
+  InsertEvent,
+  InsertEventAttendee
+} from "@shared/schema";
+
+type SnakeCase<S extends string> = S extends `${infer Head}${infer Tail}`
+  ? `${Head extends Lowercase<Head> ? Head : `_${Lowercase<Head>}`}${SnakeCase<Tail>}`
+  : S;
+
+/**
+ * A table row the way every backend returns it: snake_case column names (as PostgREST
+ * sends them) and timestamps as ISO strings
+ */
+export type Row<T> = {
+  [K in keyof T as SnakeCase<K & string>]: T[K] extends Date ? string : T[K];
+};
+
+export type UserRow = Row<User>;
+export type UserSummary = Pick<UserRow, 'id' | 'name' | 'username' | 'avatar'>;
+export type EventSeriesRow = Row<EventSeries>;
+export type UserInterestRow = Row<UserInterest>;
+export type DirectMessageRow = Row<DirectMessage>;
+export type ScheduledJobRow = Row<ScheduledJob>;
+export type AuthSessionRow = Row<AuthSession>;
+export type HttpSessionRow = Row<HttpSession>;
+
+// Embedded relations are only present when the query asks for them
+export type EventRow = Row<Event> & {
+  // sortEventMediaItems also sets camelCase copies of the media fields
+  mediaItems?: Row<Event>['media_items'] | string | null;
+  mainMediaUrl?: string | null;
+  mainMediaType?: string | null;
+  organizer?: UserRow | null;
+  series?: EventSeriesRow | null;
+  attendees?: EventAttendeeRow[];
+};
+
+export type EventAttendeeRow = Row<EventAttendee> & {
+  user?: Partial<UserRow> | null;
+  event?: Partial<EventRow> | null;
+};
+
+export type NotificationRow = Row<Notification> & {
+  event?: { title: string } | null;
+};
+
+export type ChatMessageRow = Row<ChatMessage> & {
+  sender?: UserSummary | null;
+  reply_to?: (Pick<ChatMessageRow, 'id' | 'sender_id' | 'content' | 'message_type' | 'deleted_at'> & {
+    sender?: UserSummary | null;
+  }) | null;
+};
+
+export type ChatReadCursorRow = Row<ChatReadCursor> & {
+  user?: UserSummary | null;
+};
+
+export type ConversationRow = Row<Conversation> & {
+  user_a?: UserSummary | null;
+  user_b?: UserSummary | null;
+};
+
+export type ConversationStatus = 'active' | 'request' | 'declined';
+
+// One line of the conversation list, from the other participant's point of view
+export interface ConversationSummaryRow {
+  id: number;
+  other_user_id: number;
+  status: ConversationStatus;
+  requested_by: number | null;
+  last_message_at: string | null;
+  last_message_id: number | null;
+  last_message_sender_id: number | null;
+  last_message_content: string | null;
+  unread_count: number;
+  other_user: UserSummary | null;
+}
+
+export interface BlockedUserRow {
+  blocked_id: number;
+  created_at: string;
+  user: UserSummary | null;
+}
+
+export interface EventSearchFilters {
+  category?: string[];
+  paymentType?: string[];
+  searchTerm?: string;
+  lat?: number;
+  lng?: number;
+  radius?: number; // in kilometers
+  cursor?: string;
+  limit?: number;
+}
+
+export type EventTileCluster = {
+  latitude: number;
+  longitude: number;
+  count: number;
+  categories: Record<string, number>;
+};
+
+export interface BoundingBox {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+export type EventTiles = { type: 'clusters'; clusters: EventTileCluster[] } | { type: 'events'; events: EventRow[] };
+
+export interface NewEventSeries {
+  organizerId: number;
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  startDate: Date;
+  untilDate?: Date | null;
+  occurrenceCount?: number | null;
+}
+
+export interface EventOccurrenceUpdate {
+  id: number;
+  changes: Partial<Event>;
+}
+
+export type AttendeeStatus = 'pending' | 'approved' | 'rejected' | 'waitlisted' | 'cancelled';
+
+export interface AttendeePaymentUpdate {
+  status?: AttendeeStatus;
+  paymentStatus: string;
+  paymentIntentId?: string | null;
+}
+
+// Result of approving an attendee against the event's capacity
+export type CapacityApprovalSource = 'pending' | 'waitlisted';
+
+export type CapacityApproval =
+  | { approved: true; attendee: EventAttendeeRow }
+  | { approved: false; reason: 'event_full' | 'not_pending' };
+
+export interface AttendeeRefund {
+  refundAmount: number;
+  refundStatus: 'refunded' | 'not_refundable' | 'failed';
+  refundId: string | null;
+  // Less than the amount paid was refunded (payment_status becomes 'partially_refunded')
+  partial?: boolean;
+}
+
+export interface NewNotification {
+  userId: number;
+  type: Notification['type'];
+  title: string;
+  message: string;
+  eventId?: number;
+  requestId?: number;
+}
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+}
+
+export interface NewChatMessage {
+  eventId: number;
+  senderId: number;
+  content: string;
+  messageType?: 'text' | 'image' | 'file' | 'system';
+  replyToId?: number | null;
+  attachment?: ChatAttachment | null;
+  systemEvent?: ChatSystemEvent | null;
+}
+
+// How a job run ended; the lease is released and the next run scheduled in the same write
+export interface JobRunResult {
+  finishedAt: Date;
+  nextRunAt: Date;
+  attempts: number;
+  error: string | null;
+}
+
+export interface NewAuthSession {
+  id: string;
+  userId: number;
+  email: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastActivityAt: Date;
+  expiresAt: Date;
+}
+
+export interface ConversationChanges {
+  status?: ConversationStatus;
+  requestedBy?: number | null;
+  lastMessageAt?: Date;
+}
+
+/**
+ * Everything the server reads or writes in the database. STORAGE_BACKEND picks the
+ * implementation: the hosted Supabase API (default), Postgres through Drizzle, or memory.
+ */
+export interface Storage {
+  // Users
+  getUserById(id: number): Promise<UserRow | null>;
+  getUserByEmail(email: string): Promise<UserRow | null>;
+  getUserByUsername(username: string): Promise<UserRow | null>;
+  getUserBySupabaseId(supabaseId: string): Promise<UserRow | null>;
+  insertUser(user: InsertUser): Promise<UserRow | null>;
+  updateUser(id: number, userData: Partial<User>): Promise<UserRow | null>;
+  updateStripeCustomerId(userId: number, stripeCustomerId: string): Promise<UserRow | null>;
+  updateUserStripeInfo(userId: number, stripeInfo: { stripeCustomerId: string; stripeSubscriptionId: string }): Promise<UserRow | null>;
+  updateUserLastLocation(userId: number, lat: number, lng: number): Promise<void>;
+
+  // Events (lists embed organizer and attendees; getEventById also the series).
+  // Listings, tiles and reminders only include published events
+  getEventById(id: number): Promise<EventRow | null>;
+  getEvents(filters?: Pick<EventSearchFilters, 'category' | 'paymentType' | 'searchTerm'>): Promise<EventRow[]>;
+  getNearbyEvents(lat: number, lng: number, radius?: number): Promise<EventRow[]>;
+  searchEvents(filters?: EventSearchFilters): Promise<{ events: EventRow[]; nextCursor: string | null }>;
+  getEventTiles(bbox: BoundingBox, zoom: number): Promise<EventTiles>;
+  getEventsStartingBetween(from: Date, to: Date): Promise<EventRow[]>;
+  // Published events starting at or after `from`, soonest first
+  getUpcomingEvents(from: Date, options: { excludeOrganizerId?: number; limit: number }): Promise<EventRow[]>;
+  insertEvent(event: InsertEvent): Promise<EventRow>;
+  updateEvent(id: number, eventData: Partial<Event>): Promise<EventRow>;
+  // Edits several occurrences of a series in one transaction: every change is saved or none
+  updateEventOccurrences(updates: EventOccurrenceUpdate[]): Promise<EventRow[]>;
+  setEventStatus(id: number, status: EventStatus): Promise<EventRow | null>;
+  completeEndedEvents(now: Date): Promise<EventRow[]>;
+  // media_items and main_media_url of every event, whatever its status, to find unused uploads
+  getEventMediaReferences(): Promise<Array<Pick<EventRow, 'id' | 'media_items' | 'main_media_url'>>>;
+  deleteEvent(id: number): Promise<{ id: number; deleted: boolean; data: EventRow | null }>;
+  deleteAllEvents(): Promise<{ message: string }>;
+  // The series and its occurrences in one transaction: either all of them are created or none
+  insertEventSeries(series: NewEventSeries, occurrences: InsertEvent[]): Promise<{ series: EventSeriesRow; occurrences: EventRow[] }>;
+  getEventSeriesById(seriesId: number): Promise<EventSeriesRow | null>;
+  getSeriesOccurrences(seriesId: number, fromDate?: Date): Promise<EventRow[]>;
+  getUserCreatedEvents(userId: number): Promise<EventRow[]>;
+  getUserAttendingEvents(userId: number): Promise<EventAttendeeRow[]>;
+
+  // Attendees
+  joinEvent(attendee: InsertEventAttendee): Promise<EventAttendeeRow>;
+  leaveEvent(eventId: number, userId: number): Promise<{ eventId: number; userId: number; removed: boolean }>;
+  getEventAttendees(eventId: number): Promise<EventAttendeeRow[]>;
+  getEventAttendee(eventId: number, userId: number): Promise<EventAttendeeRow | null>;
+  insertEventAttendee(attendeeData: InsertEventAttendee): Promise<EventAttendeeRow>;
+  getEventAttendeeById(id: number): Promise<EventAttendeeRow | null>;
+  updateEventAttendee(id: number, attendeeData: Partial<EventAttendee>): Promise<EventAttendeeRow | null>;
+  updatePaymentStatus(eventId: number, userId: number, paymentStatus: string, paymentIntentId: string): Promise<EventAttendeeRow | null>;
+  updateAttendeePayment(eventId: number, userId: number, payment: AttendeePaymentUpdate): Promise<EventAttendeeRow | null>;
+  recordAttendeeRefund(attendeeId: number, refund: AttendeeRefund): Promise<EventAttendeeRow | null>;
+  getUserTickets(userId: number): Promise<EventAttendeeRow[]>;
+  checkInAttendee(attendeeId: number): Promise<EventAttendeeRow | null>;
+  setAttendeeNoShow(attendeeId: number, noShow: boolean): Promise<EventAttendeeRow | null>;
+  getEventCheckIns(eventId: number): Promise<EventAttendeeRow[]>;
+  getApprovedAttendances(userId: number, eventIds?: number[]): Promise<EventAttendeeRow[]>;
+  getEventIdsWithCheckIns(eventIds: number[]): Promise<number[]>;
+  getApprovedAttendeeUserIds(eventIds: number[]): Promise<number[]>;
+  getPendingEventRequests(eventId: number): Promise<EventAttendeeRow[]>;
+  getAllPendingRequestsForUser(organizerId: number): Promise<EventAttendeeRow[]>;
+  // Checks the capacity and approves a pending (or, for joins and promotions, waitlisted) attendee
+  // in one step, so concurrent approvals can't overbook
+  approveAttendeeWithinCapacity(attendeeId: number, payment: { paymentStatus: string; paymentIntentId?: string | null }, fromStatus?: CapacityApprovalSource): Promise<CapacityApproval>;
+  rejectEventAttendee(eventId: number, userId: number): Promise<boolean>;
+  countApprovedAttendees(eventId: number): Promise<number>;
+  getWaitlistPosition(eventId: number, userId: number): Promise<number | null>;
+  // Approves the first waitlisted attendee if a spot is free; null when the event is full or nobody waits
+  promoteNextWaitlistedAttendee(eventId: number): Promise<EventAttendeeRow | null>;
+  // Rejects the requests still pending once their event has started; returns the rejected rows
+  expirePendingRequests(now: Date): Promise<EventAttendeeRow[]>;
+
+  // Interests
+  getUserInterests(userId: number): Promise<UserInterestRow[]>;
+  addUserInterest(userId: number, category: string): Promise<UserInterestRow>;
+  removeUserInterest(interestId: number): Promise<void>;
+
+  // Notifications
+  createNotification(notification: NewNotification): Promise<NotificationRow>;
+  getUserNotifications(userId: number): Promise<NotificationRow[]>;
+  countUnreadNotifications(userId: number): Promise<number>;
+  markAllNotificationsRead(userId: number): Promise<void>;
+
+  // Ratings
+  getUserRatingSummary(userId: number): Promise<RatingSummary>;
+  // Only users with at least one rating are included
+  getUserRatingSummaries(userIds: number[]): Promise<Record<number, RatingSummary>>;
+  upsertUserRating(raterUserId: number, ratedUserId: number, rating: number): Promise<void>;
+
+  // Event chat (messages come with sender and the quoted message)
+  getChatMessages(eventId: number, page?: { limit?: number; offset?: number }): Promise<ChatMessageRow[]>;
+  getChatMessageById(messageId: number): Promise<ChatMessageRow | null>;
+  getLatestChatMessages(eventIds: number[]): Promise<ChatMessageRow[]>;
+  insertChatMessage(message: NewChatMessage): Promise<ChatMessageRow>;
+  editChatMessage(messageId: number, content: string): Promise<ChatMessageRow | null>;
+  softDeleteChatMessage(messageId: number): Promise<void>;
+  markChatRead(userId: number, eventId: number, messageId: number): Promise<ChatReadCursorRow | null>;
+  getChatReadCursors(eventId: number): Promise<ChatReadCursorRow[]>;
+  getChatUnreadCounts(userId: number, eventIds?: number[]): Promise<Record<number, number>>;
+  claimEventChatReminder(eventId: number, hoursBefore: number, startsAt: Date): Promise<boolean>;
+  claimEventReminderNotification(eventId: number, minutesBefore: number, startsAt: Date): Promise<boolean>;
+
+  // Direct messages and blocks
+  getConversationById(conversationId: number): Promise<ConversationRow | null>;
+  getConversationBetween(userId: number, otherUserId: number): Promise<ConversationRow | null>;
+  createConversation(userId: number, otherUserId: number, status: 'active' | 'request'): Promise<ConversationRow>;
+  updateConversation(conversationId: number, changes: ConversationChanges): Promise<ConversationRow>;
+  getUserConversations(userId: number): Promise<ConversationSummaryRow[]>;
+  insertDirectMessage(conversationId: number, senderId: number, content: string): Promise<DirectMessageRow>;
+  countDirectMessagesFrom(conversationId: number, senderId: number): Promise<number>;
+  getDirectMessages(conversationId: number, limit?: number, beforeId?: number): Promise<DirectMessageRow[]>;
+  markDirectMessagesRead(conversationId: number, userId: number): Promise<number>;
+  usersShareEvent(userId: number, otherUserId: number): Promise<boolean>;
+  blockUser(blockerId: number, blockedId: number): Promise<void>;
+  unblockUser(blockerId: number, blockedId: number): Promise<void>;
+  getBlockedUsers(blockerId: number): Promise<BlockedUserRow[]>;
+  getBlockBetween(userId: number, otherUserId: number): Promise<{ blockedByMe: boolean; blockedMe: boolean }>;
+
+  // Login sessions (pipol_sid cookie) and express-session data (pipol_session cookie)
+  insertAuthSession(session: NewAuthSession): Promise<void>;
+  getAuthSession(sessionId: string): Promise<AuthSessionRow | null>;
+  touchAuthSession(sessionId: string, lastActivityAt: Date): Promise<void>;
+  deleteAuthSession(sessionId: string): Promise<void>;
+  deleteUserAuthSessions(userId: number): Promise<number>;
+  getUserAuthSessions(userId: number): Promise<AuthSessionRow[]>;
+  getHttpSession(sid: string): Promise<HttpSessionRow | null>;
+  saveHttpSession(sid: string, data: object, expiresAt: Date): Promise<void>;
+  touchHttpSession(sid: string, expiresAt: Date): Promise<void>;
+  deleteHttpSession(sid: string): Promise<void>;
+  // Both kinds of session past their expires_at; returns how many were deleted
+  deleteExpiredSessions(now: Date): Promise<number>;
+
+  // Background jobs: a run only starts after taking the job's lease, so one instance runs it at a time
+  ensureScheduledJob(name: string, firstRunAt: Date): Promise<void>;
+  acquireJobLease(name: string, owner: string, now: Date, leaseExpiresAt: Date): Promise<ScheduledJobRow | null>;
+  finishJobRun(name: string, owner: string, result: JobRunResult): Promise<ScheduledJobRow | null>;
+  getScheduledJobs(): Promise<ScheduledJobRow[]>;
+}
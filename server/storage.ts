@@ -1,23 +1,55 @@
-import { db } from "./db";
-import { eq, and, desc, gte, lte, inArray } from "drizzle-orm";
-import {
-  users,
-  events,
-  eventAttendees,
-  userInterests,
-  notifications,
-  type User,
-  type Event,
-  type EventAttendee,
-  type InsertUser,
-  type InsertEvent,
-  type InsertEventAttendee
+import type {
+  User,
+  Event,
+  EventAttendee,
+  EventStatus,
+  InsertUser,
+  InsertEvent,
+  InsertEventAttendee
 } from "@shared/schema";
+import type {
+  Storage,
+  EventSearchFilters,
+  EventTileCluster,
+  NewEventSeries,
+  NewNotification,
+  NewChatMessage,
+  ConversationChanges,
+  JobRunResult,
+  NewAuthSession,
+  EventRow,
+  EventSeriesRow,
+  CapacityApproval,
+  CapacityApprovalSource,
+  EventOccurrenceUpdate,
+  AttendeeRefund,
+  RatingSummary
+} from "./storage-types";
+import {
+  DEFAULT_EVENT_DURATION_MS,
+  DEFAULT_SEARCH_RADIUS_KM,
+  EVENT_TILES_CLUSTER_MAX_ZOOM,
+  MAX_CHAT_MESSAGES_PAGE_SIZE,
+  MAX_EVENTS_PAGE_SIZE,
+  MAX_EVENTS_PER_TILE_REQUEST,
+  clampEventsPageSize,
+  collectEventPages,
+  decodeEventsCursor,
+  encodeEventsCursor,
+  orderedPair,
+  sortEventMediaItems,
+  tileCellSize,
+  toSnakeColumns
+} from "./storage-helpers";
 
 // User related storage functions using Supabase client directly
 import { supabase } from './supabase-client';
-import { memoryUserStore } from './memory-storage';
-import { createClient } from '@supabase/supabase-js';
+import { memoryUserStore, MemoryStorage } from './memory-storage';
+import { DrizzleStorage } from './drizzle-storage';
+import { getPostgresDb } from './postgres';
+
+export { EVENT_TILES_CLUSTER_MAX_ZOOM };
+export type { EventTileCluster };
 
 export const getUserById = async (id: number) => {
   try {
@@ -231,112 +263,26 @@ export const updateUserStripeInfo = async (userId: number, stripeInfo: { stripeC
   }
 };
 
-// Cache for processed media items to avoid repetitive processing
-const mediaProcessingCache = new Map<string, any>();
-
-// Utility function to sort media items in events so main item appears first
-const sortEventMediaItems = (event: any) => {
-  if (!event) return event;
-  
-  // Generate cache key based on event ID and media items content
-  const mediaItemsField = event?.media_items || event?.mediaItems;
-  const cacheKey = `${event.id}-${JSON.stringify(mediaItemsField || '')}`;
-  
-  // Check cache first to avoid repeated processing
-  if (mediaProcessingCache.has(cacheKey)) {
-    const cachedResult = mediaProcessingCache.get(cacheKey);
-    return { ...event, ...cachedResult };
-  }
-  
-  if (!mediaItemsField) {
-    // Cache empty result
-    mediaProcessingCache.set(cacheKey, { 
-      media_items: null, 
-      mediaItems: null,
-      mainMediaUrl: event.main_media_url || event.mainMediaUrl,
-      mainMediaType: event.main_media_type || event.mainMediaType
-    });
-    return event;
-  }
-  
+// Last known location, used to rank recommended events by distance
+export const updateUserLastLocation = async (userId: number, lat: number, lng: number) => {
   try {
-    let mediaItems = [];
-    
-    // Parse media items
-    if (typeof mediaItemsField === 'string') {
-      try {
-        mediaItems = JSON.parse(mediaItemsField);
-      } catch (parseError) {
-        console.warn(`Error parsing media items for event ${event.id}:`, parseError);
-        return event;
-      }
-    } else if (Array.isArray(mediaItemsField)) {
-      mediaItems = mediaItemsField;
-    }
-    
-    if (Array.isArray(mediaItems) && mediaItems.length > 0) {
-      // Validate and clean media items
-      const validMediaItems = mediaItems.filter(item => 
-        item && 
-        typeof item === 'object' && 
-        item.url && 
-        (item.type === 'photo' || item.type === 'video')
-      );
-      
-      if (validMediaItems.length === 0) {
-        console.warn(`No valid media items found for event ${event.id}`);
-        return event;
-      }
-      
-      // Sort so main item appears first
-      const sortedItems = validMediaItems.sort((a, b) => {
-        // If one is main and the other is not, main goes first
-        if (a.isMain && !b.isMain) return -1;
-        if (!a.isMain && b.isMain) return 1;
-        // If both are main or neither is main, sort by order
-        return (a.order || 0) - (b.order || 0);
-      });
-      
-      // Ensure at least one item is marked as main
-      if (!sortedItems.some(item => item.isMain)) {
-        sortedItems[0].isMain = true;
-      }
-      
-      // Find main media info
-      const mainItem = sortedItems.find(item => item.isMain);
-      const mainMediaUrl = mainItem?.url || null;
-      const mainMediaType = mainItem?.type || null;
-      
-      // Prepare result for caching
-      const result = {
-        media_items: JSON.stringify(sortedItems),
-        mediaItems: JSON.stringify(sortedItems),
-        mainMediaUrl: mainMediaUrl,
-        mainMediaType: mainMediaType,
-        main_media_url: mainMediaUrl,
-        main_media_type: mainMediaType
-      };
-      
-      // Cache the result
-      mediaProcessingCache.set(cacheKey, result);
-      
-      return { ...event, ...result };
+    const { error } = await supabase
+      .from('users')
+      .update({
+        last_latitude: lat.toString(),
+        last_longitude: lng.toString(),
+        last_location_at: new Date().toISOString()
+      })
+      .eq('id', userId);
+
+    if (error) {
+      console.log('updateUserLastLocation error:', error.message);
     }
-  } catch (error) {
-    console.warn(`Error processing media items for event ${event.id}:`, error);
+  } catch (err) {
+    console.log('updateUserLastLocation exception:', err);
   }
-  
-  return event;
 };
 
-// Clear cache periodically to prevent memory leaks
-setInterval(() => {
-  if (mediaProcessingCache.size > 1000) {
-    mediaProcessingCache.clear();
-    console.log('🧹 Cleared media processing cache');
-  }
-}, 300000); // Clear every 5 minutes if cache is too large
-
 // Event related storage functions
 export const getEventById = async (id: number) => {
   try {
@@ -348,6 +294,7 @@ export const getEventById = async (id: number) => {
       .select(`
         *,
         organizer:users!events_organizer_id_fkey(*),
+        series:event_series(*),
         attendees:event_attendees(
           *,
           user:users(*)
@@ -375,137 +322,162 @@ export const getEventById = async (id: number) => {
   }
 };
 
-export const getEvents = async (filters?: {
-  category?: string[];
-  paymentType?: string[];
-  minDate?: Date;
-  maxDate?: Date;
-  searchTerm?: string;
-  lat?: number;
-  lng?: number;
-  radius?: number; // in kilometers
-}) => {
-  try {
-    console.log("📍 getEvents: Using configured Supabase client...");
-    
-    const now = new Date().toISOString();
-    
-    const { data: allEvents, error } = await supabase
-      .from('events')
-      .select(`
-        *,
-        organizer:users!events_organizer_id_fkey(*),
-        attendees:event_attendees(
-          *,
-          user:users(*)
-        )
-      `)
-      .or(`end_time.gte.${now},end_time.is.null`)
-      .order('date', { ascending: false });
+/**
+ * Search published events in the database: Spanish full-text search over
+ * search_vector, PostGIS ST_DWithin for the radius and (date, id) cursor pagination
+ */
+export const searchEvents = async (filters: EventSearchFilters = {}) => {
+  const limit = clampEventsPageSize(filters.limit);
+  const cursor = filters.cursor ? decodeEventsCursor(filters.cursor) : null;
+  if (filters.cursor && !cursor) {
+    throw new Error("Invalid cursor");
+  }
 
-    if (error) {
-      console.error("getEvents Supabase error:", error);
-      return [];
-    }
+  const hasLocation = filters.lat !== undefined && filters.lng !== undefined && !isNaN(filters.lat) && !isNaN(filters.lng);
 
-    let filteredEvents = allEvents || [];
+  // Ask for one extra row to know whether there is a next page
+  const { data, error } = await supabase
+    .rpc('search_events', {
+      p_search: filters.searchTerm?.trim() || null,
+      p_categories: filters.category?.length ? filters.category : null,
+      p_payment_types: filters.paymentType?.length ? filters.paymentType : null,
+      p_lat: hasLocation ? filters.lat : null,
+      p_lng: hasLocation ? filters.lng : null,
+      p_radius_km: hasLocation ? (filters.radius || DEFAULT_SEARCH_RADIUS_KM) : null,
+      p_cursor_date: cursor?.date || null,
+      p_cursor_id: cursor?.id || null,
+      p_limit: limit + 1
+    })
+    .select(`
+      *,
+      organizer:users!events_organizer_id_fkey(*),
+      attendees:event_attendees(
+        *,
+        user:users(*)
+      )
+    `);
 
-    // Apply search filter if provided
-    if (filters?.searchTerm && filters.searchTerm.trim().length > 0) {
-      const searchTerm = filters.searchTerm.toLowerCase().trim();
-      console.log(`📍 Filtering events by search term: "${searchTerm}"`);
-      
-      filteredEvents = filteredEvents.filter(event => {
-        const titleMatch = event.title?.toLowerCase().includes(searchTerm);
-        const descriptionMatch = event.description?.toLowerCase().includes(searchTerm);
-        const locationMatch = event.locationName?.toLowerCase().includes(searchTerm) || 
-                             event.locationAddress?.toLowerCase().includes(searchTerm);
-        const categoryMatch = event.category?.toLowerCase().includes(searchTerm);
-        
-        return titleMatch || descriptionMatch || locationMatch || categoryMatch;
-      });
-      
-      console.log(`📍 Found ${filteredEvents.length} events matching search term`);
-    }
+  if (error) {
+    console.error("searchEvents Supabase error:", error);
+    throw error;
+  }
 
-    // Apply category filter if provided
-    if (filters?.category && filters.category.length > 0) {
-      filteredEvents = filteredEvents.filter(event => 
-        filters.category!.includes(event.category)
-      );
-    }
+  const rows: any[] = data || [];
+  const events = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeEventsCursor(events[events.length - 1]) : null;
 
-    // Apply payment type filter if provided
-    if (filters?.paymentType && filters.paymentType.length > 0) {
-      filteredEvents = filteredEvents.filter(event => 
-        filters.paymentType!.includes(event.paymentType)
-      );
-    }
+  console.log(`📍 searchEvents: ${events.length} events${nextCursor ? ' (more available)' : ''}`);
+  return { events: events.map(sortEventMediaItems), nextCursor };
+};
 
-    console.log(`📍 Found ${filteredEvents.length} events (filtered for non-ended events)`);
-    return filteredEvents.map(sortEventMediaItems);
+export const getEvents = async (filters?: Pick<EventSearchFilters, 'category' | 'paymentType' | 'searchTerm'>) => {
+  try {
+    const events = await collectEventPages(cursor => searchEvents({ ...filters, limit: MAX_EVENTS_PAGE_SIZE, cursor }));
+    return events;
   } catch (error: any) {
     console.error("getEvents exception:", error);
     return [];
   }
 };
 
-export const getNearbyEvents = async (lat: number, lng: number, radius: number = 10) => {
+export const getNearbyEvents = async (lat: number, lng: number, radius: number = DEFAULT_SEARCH_RADIUS_KM) => {
   try {
-    console.log("📍 getNearbyEvents: Using configured Supabase client...");
-    
-    // Use the already configured Supabase client
-    
-    console.log("📍 getNearbyEvents: Querying events table...");
-    const now = new Date().toISOString();
-    
-    const { data: allEvents, error } = await supabase
-      .from('events')
-      .select(`
-        *,
-        organizer:users!events_organizer_id_fkey(*)
-      `)
-      .or(`end_time.gte.${now},end_time.is.null`)
-      .order('date', { ascending: false });
+    const events = await collectEventPages(cursor => searchEvents({ lat, lng, radius, limit: MAX_EVENTS_PAGE_SIZE, cursor }));
+    return events;
+  } catch (error: any) {
+    console.error("getNearbyEvents exception:", error);
+    return [];
+  }
+};
+
+/**
+ * Events inside a map viewport. At low zoom the events are grouped on a grid
+ * (about four cells per 256px tile) and only counts per category are returned
+ */
+export const getEventTiles = async (
+  bbox: { minLng: number; minLat: number; maxLng: number; maxLat: number },
+  zoom: number
+): Promise<{ type: 'clusters'; clusters: EventTileCluster[] } | { type: 'events'; events: any[] }> => {
+  const bboxParams = {
+    p_min_lng: bbox.minLng,
+    p_min_lat: bbox.minLat,
+    p_max_lng: bbox.maxLng,
+    p_max_lat: bbox.maxLat,
+  };
+
+  if (zoom < EVENT_TILES_CLUSTER_MAX_ZOOM) {
+    const cellSize = tileCellSize(zoom);
+    const { data, error } = await supabase.rpc('event_clusters_in_bbox', {
+      ...bboxParams,
+      p_cell_size: cellSize,
+    });
 
     if (error) {
-      console.error("getNearbyEvents Supabase error:", error);
-      return [];
+      console.error("getEventTiles clusters Supabase error:", error);
+      throw error;
     }
 
-    if (!allEvents) {
-      return [];
-    }
+    const clusters: EventTileCluster[] = (data || []).map((row: any) => ({
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+      count: Number(row.count),
+      categories: row.categories || {},
+    }));
+    console.log(`📍 getEventTiles: ${clusters.length} clusters at zoom ${zoom}`);
+    return { type: 'clusters', clusters };
+  }
 
-    // Simplified distance calculation using the Haversine formula
-    // In a real app, this would be done at the database level
-    const filteredEvents = allEvents.filter(event => {
-      const eventLat = parseFloat(event.latitude.toString());
-      const eventLng = parseFloat(event.longitude.toString());
-      
-      // Haversine formula
-      const R = 6371; // Earth's radius in km
-      const dLat = (lat - eventLat) * Math.PI / 180;
-      const dLng = (lng - eventLng) * Math.PI / 180;
-      const a = 
-        Math.sin(dLat/2) * Math.sin(dLat/2) +
-        Math.cos(eventLat * Math.PI / 180) * Math.cos(lat * Math.PI / 180) * 
-        Math.sin(dLng/2) * Math.sin(dLng/2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-      const distance = R * c;
-      
-      return distance <= radius;
-    });
+  const { data, error } = await supabase
+    .rpc('events_in_bbox', { ...bboxParams, p_limit: MAX_EVENTS_PER_TILE_REQUEST })
+    .select(`
+      *,
+      organizer:users!events_organizer_id_fkey(*),
+      attendees:event_attendees(
+        *,
+        user:users(*)
+      )
+    `);
 
-    console.log(`📍 Found ${filteredEvents.length} nearby events (filtered for non-ended events)`);
-    // Sort media items for each event
-    return filteredEvents.map(sortEventMediaItems);
-  } catch (error: any) {
-    console.error("getNearbyEvents exception:", error);
-    return [];
+  if (error) {
+    console.error("getEventTiles events Supabase error:", error);
+    throw error;
   }
+
+  const events = (data || []).map(sortEventMediaItems);
+  console.log(`📍 getEventTiles: ${events.length} events at zoom ${zoom}`);
+  return { type: 'events', events };
 };
 
+// Convert to database-compatible format
+const toEventRecord = (event: InsertEvent) => ({
+  title: event.title,
+  description: event.description,
+  category: event.category,
+  date: event.date instanceof Date ? event.date.toISOString() : new Date(event.date).toISOString(),
+  end_time: event.endTime ? (event.endTime instanceof Date ? event.endTime.toISOString() : new Date(event.endTime).toISOString()) : null,
+  latitude: event.latitude.toString(),
+  longitude: event.longitude.toString(),
+  location_name: event.locationName,
+  location_address: event.locationAddress,
+  payment_type: event.paymentType || 'free',
+  price: event.price ? event.price.toString() : null,
+  max_capacity: event.maxCapacity,
+  privacy_type: event.privacyType || 'public',
+  private_access_type: event.privateAccessType || 'solicitud',
+  application_questions: event.applicationQuestions || null,
+  gender_preference: event.genderPreference || 'all_people',
+  media_items: event.mediaItems,
+  main_media_type: event.mainMediaType,
+  main_media_url: event.mainMediaUrl,
+  organizer_id: parseInt(event.organizerId.toString()),
+  series_id: event.seriesId || null,
+  occurrence_index: event.occurrenceIndex ?? null,
+  cancellation_policy: event.cancellationPolicy || 'full_refund',
+  refund_deadline_hours: event.refundDeadlineHours ?? 24,
+  partial_refund_percent: event.partialRefundPercent ?? 50,
+  status: event.status || 'published'
+});
+
 export const insertEvent = async (event: InsertEvent) => {
   try {
     console.log("🔥 insertEvent: Using configured Supabase client...");
@@ -514,28 +486,7 @@ export const insertEvent = async (event: InsertEvent) => {
     
     console.log("Insertando evento en DB:", JSON.stringify(event));
     
-    // Convert to database-compatible format
-    const eventData = {
-      title: event.title,
-      description: event.description,
-      category: event.category,
-      date: event.date instanceof Date ? event.date.toISOString() : new Date(event.date).toISOString(),
-      // Temporarily commenting out end_time until column is added to database
-      // end_time: event.endTime ? (event.endTime instanceof Date ? event.endTime.toISOString() : new Date(event.endTime).toISOString()) : null,
-      latitude: event.latitude.toString(),
-      longitude: event.longitude.toString(),
-      location_name: event.locationName,
-      location_address: event.locationAddress,
-      payment_type: event.paymentType || 'free',
-      price: event.price ? event.price.toString() : null,
-      max_capacity: event.maxCapacity,
-      privacy_type: event.privacyType || 'public',
-      gender_preference: event.genderPreference || 'all_people',
-      media_items: event.mediaItems,
-      main_media_type: event.mainMediaType,
-      main_media_url: event.mainMediaUrl,
-      organizer_id: parseInt(event.organizerId.toString())
-    };
+    const eventData = toEventRecord(event);
     
     console.log("Datos formateados para DB:", JSON.stringify(eventData));
     
@@ -558,13 +509,8 @@ export const insertEvent = async (event: InsertEvent) => {
   }
 };
 
-export const updateEvent = async (id: number, eventData: Partial<Event>) => {
-  console.log("Actualizando evento en la base de datos. ID:", id);
-  console.log("Datos de multimedia a guardar:");
-  console.log("- mediaItems:", eventData.mediaItems);
-  console.log("- mainMediaType:", eventData.mainMediaType);
-  console.log("- mainMediaUrl:", eventData.mainMediaUrl);
-  
+// Update data from the routes (camelCase or snake_case) to events columns
+const toEventUpdateRecord = (eventData: Partial<Event>) => {
   // CRITICAL FIX: Convert camelCase field names to snake_case to match database schema
   const dbData: any = { ...eventData };
   
@@ -655,6 +601,18 @@ export const updateEvent = async (id: number, eventData: Partial<Event>) => {
     console.log(`Corrigiendo mainMediaType de array a string: → ${firstType}`);
     dbData.main_media_type = firstType;
   }
+
+  return dbData;
+};
+
+export const updateEvent = async (id: number, eventData: Partial<Event>) => {
+  console.log("Actualizando evento en la base de datos. ID:", id);
+  console.log("Datos de multimedia a guardar:");
+  console.log("- mediaItems:", eventData.mediaItems);
+  console.log("- mainMediaType:", eventData.mainMediaType);
+  console.log("- mainMediaUrl:", eventData.mainMediaUrl);
+  
+  const dbData = toEventUpdateRecord(eventData);
   
   // Crear un timestamp de actualización
   const updateTimestamp = new Date();
@@ -699,6 +657,82 @@ export const updateEvent = async (id: number, eventData: Partial<Event>) => {
   }
 };
 
+export const updateEventOccurrences = async (updates: EventOccurrenceUpdate[]) => {
+  const { data, error } = await supabase.rpc('update_event_occurrences', {
+    p_updates: updates.map(update => ({ id: update.id, changes: toEventUpdateRecord(update.changes) }))
+  });
+
+  if (error) {
+    console.error("Error updating event occurrences:", error);
+    throw error;
+  }
+
+  return (data || []) as EventRow[];
+};
+
+export const setEventStatus = async (id: number, status: EventStatus) => {
+  const timestamp = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('events')
+    .update({
+      status,
+      ...(status === 'cancelled' ? { cancelled_at: timestamp } : {}),
+      updated_at: timestamp
+    })
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating event status:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Published events whose end (or start plus the default duration) has passed become completed
+export const completeEndedEvents = async (now: Date) => {
+  const defaultEndCutoff = new Date(now.getTime() - DEFAULT_EVENT_DURATION_MS).toISOString();
+  const { data, error } = await supabase
+    .from('events')
+    .update({ status: 'completed', updated_at: new Date().toISOString() })
+    .eq('status', 'published')
+    .or(`end_time.lt.${now.toISOString()},and(end_time.is.null,date.lt.${defaultEndCutoff})`)
+    .select();
+
+  if (error) {
+    console.error("Error completing ended events:", error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Media columns of every event, read in pages since Supabase caps a select at 1000 rows
+export const getEventMediaReferences = async () => {
+  const PAGE_SIZE = 1000;
+  const references: Array<Pick<EventRow, 'id' | 'media_items' | 'main_media_url'>> = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, media_items, main_media_url')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching event media:", error);
+      throw error;
+    }
+
+    references.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return references;
+};
+
 export const deleteEvent = async (id: number) => {
   try {
     console.log("Deleting event:", id);
@@ -737,11 +771,18 @@ export const deleteEvent = async (id: number) => {
 
 export const deleteAllEvents = async () => {
   try {
-    // First delete all attendees
-    await db.delete(eventAttendees);
-    
-    // Then delete all events
-    await db.delete(events);
+    // PostgREST refuses deletes without a filter, hence the always-true one
+    const { error: attendeesError } = await supabase
+      .from('event_attendees')
+      .delete()
+      .gte('id', 0);
+    if (attendeesError) throw attendeesError;
+
+    const { error: eventsError } = await supabase
+      .from('events')
+      .delete()
+      .gte('id', 0);
+    if (eventsError) throw eventsError;
     
     console.log("All events and attendees deleted successfully");
     return { message: "All events and attendees deleted successfully" };
@@ -751,10 +792,117 @@ export const deleteAllEvents = async () => {
   }
 };
 
+// Event series related storage functions
+// create_event_series inserts the series and every occurrence in one transaction
+export const insertEventSeries = async (series: NewEventSeries, occurrences: InsertEvent[]) => {
+  const { data, error } = await supabase.rpc('create_event_series', {
+    p_series: {
+      organizer_id: series.organizerId,
+      frequency: series.frequency,
+      interval: series.interval,
+      start_date: series.startDate.toISOString(),
+      until_date: series.untilDate ? series.untilDate.toISOString() : null,
+      occurrence_count: series.occurrenceCount || null
+    },
+    p_events: occurrences.map(toEventRecord)
+  });
+
+  if (error) {
+    console.error("Error inserting event series:", error);
+    throw error;
+  }
+
+  return data as { series: EventSeriesRow; occurrences: EventRow[] };
+};
+
+export const getEventSeriesById = async (seriesId: number) => {
+  const { data, error } = await supabase
+    .from('event_series')
+    .select('*')
+    .eq('id', seriesId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching event series:", error);
+    return null;
+  }
+
+  return data;
+};
+
+// Occurrences of a series, optionally only those starting at or after a date
+export const getSeriesOccurrences = async (seriesId: number, fromDate?: Date) => {
+  let query = supabase
+    .from('events')
+    .select('*')
+    .eq('series_id', seriesId)
+    .order('date', { ascending: true });
+
+  if (fromDate) {
+    query = query.gte('date', fromDate.toISOString());
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching series occurrences:", error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Events starting in (from, to], for reminders
+export const getEventsStartingBetween = async (from: Date, to: Date) => {
+  const { data, error } = await supabase
+    .from('events')
+    .select('*')
+    .eq('status', 'published')
+    .gt('date', from.toISOString())
+    .lte('date', to.toISOString());
+
+  if (error) {
+    console.error("Error fetching upcoming events:", error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Published events from a date on, soonest first, for recommendations
+export const getUpcomingEvents = async (from: Date, options: { excludeOrganizerId?: number; limit: number }) => {
+  let query = supabase
+    .from('events')
+    .select(`
+      *,
+      organizer:users!events_organizer_id_fkey(*),
+      attendees:event_attendees(
+        *,
+        user:users(*)
+      )
+    `)
+    .eq('status', 'published')
+    .gte('date', from.toISOString());
+
+  if (options.excludeOrganizerId !== undefined) {
+    query = query.neq('organizer_id', options.excludeOrganizerId);
+  }
+
+  const { data, error } = await query
+    .order('date', { ascending: true })
+    .limit(options.limit);
+
+  if (error) {
+    console.error("Error fetching upcoming events:", error);
+    throw error;
+  }
+
+  return (data || []).map(sortEventMediaItems);
+};
+
 // Event Attendees related storage functions
 export const joinEvent = async (attendee: InsertEventAttendee) => {
-  const [newAttendee] = await db.insert(eventAttendees).values(attendee).returning();
-  return newAttendee;
+  return insertEventAttendee(attendee);
 };
 
 export const leaveEvent = async (eventId: number, userId: number) => {
@@ -783,12 +931,17 @@ export const leaveEvent = async (eventId: number, userId: number) => {
 };
 
 export const getEventAttendees = async (eventId: number) => {
-  return db.query.eventAttendees.findMany({
-    where: eq(eventAttendees.eventId, eventId),
-    with: {
-      user: true
-    }
-  });
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .select('*, user:users(*)')
+    .eq('event_id', eventId);
+
+  if (error) {
+    console.error("❌ Error fetching attendees:", error);
+    throw error;
+  }
+
+  return data || [];
 };
 
 export const getEventAttendee = async (eventId: number, userId: number) => {
@@ -814,86 +967,114 @@ export const getEventAttendee = async (eventId: number, userId: number) => {
 };
 
 export const updateEventAttendee = async (id: number, attendeeData: Partial<EventAttendee>) => {
-  const [updatedAttendee] = await db
-    .update(eventAttendees)
-    .set(attendeeData)
-    .where(eq(eventAttendees.id, id))
-    .returning();
-  return updatedAttendee;
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .update(toSnakeColumns(attendeeData))
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("❌ Error updating attendee:", error);
+    throw error;
+  }
+
+  return data;
 };
 
 export const insertEventAttendee = async (attendeeData: InsertEventAttendee) => {
-  try {
-    // Use Drizzle ORM instead of direct Supabase to avoid schema cache issues
-    const [newAttendee] = await db.insert(eventAttendees).values({
-      eventId: attendeeData.eventId,
-      userId: attendeeData.userId,
+  const { data: newAttendee, error } = await supabase
+    .from('event_attendees')
+    .insert([{
+      event_id: attendeeData.eventId,
+      user_id: attendeeData.userId,
       status: attendeeData.status || 'approved',
-      paymentStatus: attendeeData.paymentStatus || 'pending',
-      paymentIntentId: attendeeData.paymentIntentId || null,
-      applicationAnswers: attendeeData.applicationAnswers || null,
-    }).returning();
-    
-    return newAttendee;
-  } catch (error) {
+      payment_status: attendeeData.paymentStatus || 'pending',
+      payment_intent_id: attendeeData.paymentIntentId || null,
+      application_answers: attendeeData.applicationAnswers || null
+    }])
+    .select()
+    .single();
+
+  if (error) {
     console.error('Error in insertEventAttendee:', error);
-    // Fallback to direct Supabase insert with minimal fields if Drizzle fails
-    try {
-      const dbData = {
-        event_id: attendeeData.eventId,
-        user_id: attendeeData.userId,
-        status: attendeeData.status || 'approved',
-        payment_status: attendeeData.paymentStatus || 'pending',
-        payment_intent_id: attendeeData.paymentIntentId || null,
-        created_at: new Date().toISOString()
-      };
+    throw error;
+  }
 
-      console.log('Fallback: Insert operation using minimal fields:', Object.keys(dbData));
-      
-      const { data: newAttendee, error } = await supabase
-        .from('event_attendees')
-        .insert([dbData])
-        .select()
-        .single();
-      
-      if (error) {
-        console.error('Fallback database insert error:', error);
-        throw error;
-      }
-      
-      return newAttendee;
-    } catch (fallbackError) {
-      console.error('Both Drizzle and Supabase insert failed:', fallbackError);
-      throw fallbackError;
-    }
-  }
+  return newAttendee;
 };
 
 export const getEventAttendeeById = async (id: number) => {
-  return db.query.eventAttendees.findFirst({
-    where: eq(eventAttendees.id, id),
-    with: {
-      user: true,
-      event: true
-    }
-  });
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .select('*, user:users(*), event:events(*)')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("❌ Error fetching attendee:", error);
+    return null;
+  }
+
+  return data;
 };
 
 export const updatePaymentStatus = async (eventId: number, userId: number, paymentStatus: string, paymentIntentId: string) => {
-  const [updatedAttendee] = await db
-    .update(eventAttendees)
-    .set({ 
-      paymentStatus,
-      paymentIntentId
+  return updateAttendeePayment(eventId, userId, { paymentStatus, paymentIntentId });
+};
+
+// Update payment fields of an attendee (used by the Stripe checkout and webhook)
+export const updateAttendeePayment = async (eventId: number, userId: number, payment: {
+  status?: 'pending' | 'approved' | 'rejected' | 'waitlisted' | 'cancelled';
+  paymentStatus: string;
+  paymentIntentId?: string | null;
+}) => {
+  const updateData: any = { payment_status: payment.paymentStatus };
+  if (payment.status) {
+    updateData.status = payment.status;
+  }
+  if (payment.paymentIntentId !== undefined) {
+    updateData.payment_intent_id = payment.paymentIntentId;
+  }
+
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .update(updateData)
+    .eq('event_id', eventId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating attendee payment:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Record the refund given to an attendee who cancelled (or whose event was cancelled)
+export const recordAttendeeRefund = async (attendeeId: number, refund: AttendeeRefund) => {
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .update({
+      status: 'cancelled',
+      refund_amount: refund.refundAmount.toFixed(2),
+      refund_status: refund.refundStatus,
+      refund_id: refund.refundId,
+      refunded_at: refund.refundStatus === 'refunded' ? new Date().toISOString() : null,
+      ...(refund.refundStatus === 'refunded' && { payment_status: refund.partial ? 'partially_refunded' : 'refunded' })
     })
-    .where(
-      and(
-        eq(eventAttendees.eventId, eventId),
-        eq(eventAttendees.userId, userId)
-      )
-    )
-    .returning();
-  return updatedAttendee;
+    .eq('id', attendeeId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error recording attendee refund:", error);
+    throw error;
+  }
+
+  return data;
 };
 
 // User Events
@@ -927,12 +1108,144 @@ export const getUserAttendingEvents = async (userId: number) => {
   return data || [];
 };
 
+// Tickets and check-in
+export const getUserTickets = async (userId: number) => {
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .select('*, event:events(id, title, date, end_time, location_name, location_address, main_media_url)')
+    .eq('user_id', userId)
+    .eq('status', 'approved')
+    .order('created_at', { ascending: false });
+  
+  if (error) {
+    console.error('Error fetching user tickets:', error);
+    throw error;
+  }
+  
+  return data || [];
+};
+
+export const checkInAttendee = async (attendeeId: number) => {
+  // Only set checked_in_at the first time, so scanning twice keeps the original time
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .update({ checked_in_at: new Date().toISOString(), no_show: false })
+    .eq('id', attendeeId)
+    .is('checked_in_at', null)
+    .select()
+    .maybeSingle();
+  
+  if (error) {
+    console.error('Error checking in attendee:', error);
+    throw error;
+  }
+  
+  return data;
+};
+
+export const setAttendeeNoShow = async (attendeeId: number, noShow: boolean) => {
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .update({ no_show: noShow })
+    .eq('id', attendeeId)
+    .select()
+    .maybeSingle();
+  
+  if (error) {
+    console.error('Error updating no-show:', error);
+    throw error;
+  }
+  
+  return data;
+};
+
+export const getEventCheckIns = async (eventId: number) => {
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .select('*, user:users(id, name, username, avatar)')
+    .eq('event_id', eventId)
+    .eq('status', 'approved')
+    .order('checked_in_at', { ascending: false, nullsFirst: false });
+  
+  if (error) {
+    console.error('Error fetching event check-ins:', error);
+    throw error;
+  }
+  
+  return data || [];
+};
+
+// Approved attendances of a user with their event, optionally only for some events
+export const getApprovedAttendances = async (userId: number, eventIds?: number[]) => {
+  let query = supabase
+    .from('event_attendees')
+    .select('*, event:events(*)')
+    .eq('user_id', userId)
+    .eq('status', 'approved');
+
+  if (eventIds) {
+    query = query.in('event_id', eventIds);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching approved attendances:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Events (among eventIds) where the organizer checked in at least one person
+export const getEventIdsWithCheckIns = async (eventIds: number[]) => {
+  if (eventIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .select('event_id')
+    .in('event_id', eventIds)
+    .not('checked_in_at', 'is', null);
+
+  if (error) {
+    console.error('Error fetching check-ins:', error);
+    throw error;
+  }
+
+  return Array.from(new Set((data || []).map(row => row.event_id as number)));
+};
+
+// Distinct users approved in any of the given events
+export const getApprovedAttendeeUserIds = async (eventIds: number[]) => {
+  if (eventIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .select('user_id')
+    .in('event_id', eventIds)
+    .eq('status', 'approved');
+
+  if (error) {
+    console.error('Error fetching approved attendees:', error);
+    throw error;
+  }
+
+  return Array.from(new Set((data || []).map(row => row.user_id as number)));
+};
+
 // User interests related storage functions
 export const getUserInterests = async (userId: number) => {
-  return db.query.userInterests.findMany({
-    where: eq(userInterests.userId, userId),
-    orderBy: desc(userInterests.createdAt)
-  });
+  const { data, error } = await supabase
+    .from('user_interests')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching user interests:', error);
+    throw error;
+  }
+
+  return data || [];
 };
 
 export const addUserInterest = async (userId: number, category: string) => {
@@ -956,7 +1269,15 @@ export const addUserInterest = async (userId: number, category: string) => {
 };
 
 export const removeUserInterest = async (interestId: number) => {
-  await db.delete(userInterests).where(eq(userInterests.id, interestId));
+  const { error } = await supabase
+    .from('user_interests')
+    .delete()
+    .eq('id', interestId);
+
+  if (error) {
+    console.error('Error removing user interest:', error);
+    throw error;
+  }
 };
 
 // Private event access control functions
@@ -1062,36 +1383,27 @@ export const getAllPendingRequestsForUser = async (organizerId: number) => {
   }
 };
 
-export const approveEventAttendee = async (eventId: number, userId: number) => {
-  try {
-    console.log(`✅ Approving attendee ${userId} for event ${eventId}`);
-    
-    const { data, error } = await supabase
-      .from('event_attendees')
-      .update({ 
-        status: 'approved',
-        payment_status: 'completed'
-      })
-      .eq('event_id', eventId)
-      .eq('user_id', userId)
-      .select()
-      .single();
-    
-    if (error) {
-      console.error("Error approving attendee:", error);
-      throw error;
-    }
-    
-    if (data) {
-      console.log(`✅ Successfully approved attendee ${userId} for event ${eventId}`);
-      return data;
-    }
-    
-    return null;
-  } catch (error) {
-    console.error("Exception in approveEventAttendee:", error);
+export const approveAttendeeWithinCapacity = async (
+  attendeeId: number,
+  payment: { paymentStatus: string; paymentIntentId?: string | null },
+  fromStatus: CapacityApprovalSource = 'pending'
+) => {
+  const { data, error } = await supabase.rpc('approve_attendee_within_capacity', {
+    p_attendee_id: attendeeId,
+    p_payment_status: payment.paymentStatus,
+    p_payment_intent_id: payment.paymentIntentId || null,
+    p_from_status: fromStatus
+  });
+
+  if (error) {
+    console.error("Error approving attendee:", error);
     throw error;
   }
+
+  if (data?.approved) {
+    console.log(`✅ Approved attendee ${attendeeId} for event ${data.attendee.event_id}`);
+  }
+  return data as CapacityApproval;
 };
 
 export const rejectEventAttendee = async (eventId: number, userId: number) => {
@@ -1118,63 +1430,1065 @@ export const rejectEventAttendee = async (eventId: number, userId: number) => {
   }
 };
 
-// Notification functions
-export const createNotification = async (notificationData: {
-  userId: number;
-  type: 'request_approved' | 'request_rejected' | 'new_request';
-  title: string;
-  message: string;
-  eventId?: number;
-  requestId?: number;
-}) => {
+// Waitlist functions
+export const countApprovedAttendees = async (eventId: number) => {
+  const { count, error } = await supabase
+    .from('event_attendees')
+    .select('id', { count: 'exact', head: true })
+    .eq('event_id', eventId)
+    .eq('status', 'approved');
+  
+  if (error) {
+    console.error("Error counting approved attendees:", error);
+    throw error;
+  }
+  
+  return count || 0;
+};
+
+export const getWaitlistPosition = async (eventId: number, userId: number) => {
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .select('user_id')
+    .eq('event_id', eventId)
+    .eq('status', 'waitlisted')
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+  
+  if (error) {
+    console.error("Error fetching waitlist:", error);
+    throw error;
+  }
+  
+  const index = (data || []).findIndex(entry => entry.user_id === userId);
+  return index === -1 ? null : index + 1;
+};
+
+// Promote the oldest waitlisted attendee (FIFO) to approved
+export const promoteNextWaitlistedAttendee = async (eventId: number) => {
   try {
-    const [newNotification] = await db.insert(notifications).values({
-      userId: notificationData.userId,
-      type: notificationData.type,
-      title: notificationData.title,
-      message: notificationData.message,
-      eventId: notificationData.eventId || null,
-      requestId: notificationData.requestId || null,
-    }).returning();
+    const { data: next, error } = await supabase
+      .from('event_attendees')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('status', 'waitlisted')
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    
+    if (error) {
+      console.error("Error fetching next waitlisted attendee:", error);
+      throw error;
+    }
+    
+    if (!next) {
+      return null;
+    }
+    
+    // Takes the spot under the event lock, and only if the row is still waitlisted
+    const approval = await approveAttendeeWithinCapacity(next.id, { paymentStatus: 'completed' }, 'waitlisted');
+    if (!approval.approved) {
+      return null;
+    }
     
-    return newNotification;
+    console.log(`⏫ Promoted user ${approval.attendee.user_id} from waitlist of event ${eventId}`);
+    return approval.attendee;
   } catch (error) {
-    console.error('Error creating notification:', error);
+    console.error("Exception in promoteNextWaitlistedAttendee:", error);
     throw error;
   }
 };
 
-export const storage = {
-  getUserById,
-  getUserByEmail,
-  getUserByUsername,
-  getUserBySupabaseId,
-  insertUser,
-  updateUser,
-  updateStripeCustomerId,
-  updateUserStripeInfo,
-  getEventById,
-  getEvents,
-  getNearbyEvents,
-  insertEvent,
-  updateEvent,
-  deleteEvent,
-  deleteAllEvents,
-  joinEvent,
-  leaveEvent,
-  getEventAttendees,
-  getEventAttendee,
-  insertEventAttendee,
-  getEventAttendeeById,
-  updateEventAttendee,
-  updatePaymentStatus,
-  getUserCreatedEvents,
-  getUserAttendingEvents,
-  getUserInterests,
-  addUserInterest,
-  removeUserInterest,
-  getPendingEventRequests,
-  approveEventAttendee,
-  rejectEventAttendee,
-  createNotification
+export const expirePendingRequests = async (now: Date) => {
+  const { data: pending, error: pendingError } = await supabase
+    .from('event_attendees')
+    .select('id, event:events!inner(date)')
+    .eq('status', 'pending')
+    .lte('event.date', now.toISOString());
+
+  if (pendingError) {
+    console.error('Error fetching expired requests:', pendingError);
+    throw pendingError;
+  }
+  if (!pending || pending.length === 0) return [];
+
+  // Still pending at update time, so a request approved meanwhile is left alone
+  const { data, error } = await supabase
+    .from('event_attendees')
+    .update({ status: 'rejected' })
+    .in('id', pending.map(row => row.id))
+    .eq('status', 'pending')
+    .select();
+
+  if (error) {
+    console.error('Error expiring requests:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Event chat messages
+// Columns sent with every chat message, including the quoted message for replies
+const MESSAGE_SELECT = `
+  *,
+  sender:users!sender_id (
+    id,
+    name,
+    username,
+    avatar
+  ),
+  reply_to:chat_messages!reply_to_id (
+    id,
+    sender_id,
+    content,
+    message_type,
+    deleted_at,
+    sender:users!sender_id (
+      id,
+      name,
+      username,
+      avatar
+    )
+  )
+`;
+
+// PostgREST may embed the quoted message as a one-item array
+const normalizeChatMessage = (row: any) => {
+  if (!row) return row;
+  const replyTo = Array.isArray(row.reply_to) ? row.reply_to[0] : row.reply_to;
+  return { ...row, reply_to: replyTo || null };
+};
+
+// Newest first; deleted messages are included so the chat can show a tombstone in their place
+export const getChatMessages = async (eventId: number, page: { limit?: number; offset?: number } = {}) => {
+  const limit = Math.min(page.limit || 50, MAX_CHAT_MESSAGES_PAGE_SIZE);
+  const offset = page.offset || 0;
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select(MESSAGE_SELECT)
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    console.error("getChatMessages Supabase error:", error);
+    throw error;
+  }
+  return (data || []).map(normalizeChatMessage);
+};
+
+export const getChatMessageById = async (messageId: number) => {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select(MESSAGE_SELECT)
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("getChatMessageById Supabase error:", error);
+    throw error;
+  }
+  return normalizeChatMessage(data);
 };
+
+// The newest non-deleted message of each event chat
+export const getLatestChatMessages = async (eventIds: number[]) => {
+  if (eventIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select(MESSAGE_SELECT)
+    .in('event_id', eventIds)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error("getLatestChatMessages Supabase error:", error);
+    throw error;
+  }
+
+  const latest = new Map<number, any>();
+  for (const message of data || []) {
+    if (!latest.has(message.event_id)) {
+      latest.set(message.event_id, normalizeChatMessage(message));
+    }
+  }
+  return Array.from(latest.values());
+};
+
+export const insertChatMessage = async (message: NewChatMessage) => {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      event_id: message.eventId,
+      sender_id: message.senderId,
+      content: message.content,
+      message_type: message.messageType || 'text',
+      reply_to_id: message.replyToId || null,
+      attachment: message.attachment || null,
+      system_event: message.systemEvent || null
+    })
+    .select(MESSAGE_SELECT)
+    .single();
+
+  if (error) {
+    console.error("insertChatMessage Supabase error:", error);
+    throw error;
+  }
+  return normalizeChatMessage(data);
+};
+
+export const editChatMessage = async (messageId: number, content: string) => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .update({ content, edited: true, edited_at: now, updated_at: now })
+    .eq('id', messageId)
+    .select(MESSAGE_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    console.error("editChatMessage Supabase error:", error);
+    throw error;
+  }
+  return normalizeChatMessage(data);
+};
+
+// Soft delete: the row stays so replies can still point to it
+export const softDeleteChatMessage = async (messageId: number) => {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('chat_messages')
+    .update({ deleted_at: now, updated_at: now })
+    .eq('id', messageId);
+
+  if (error) {
+    console.error("softDeleteChatMessage Supabase error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Records that a reminder was posted. Returns false when another instance already
+ * claimed it, so each reminder is posted once.
+ */
+export const claimEventChatReminder = async (eventId: number, hoursBefore: number, startsAt: Date) => {
+  const { data, error } = await supabase
+    .from('event_chat_reminders')
+    .upsert(
+      { event_id: eventId, hours_before: hoursBefore, starts_at: startsAt.toISOString() },
+      { onConflict: 'event_id,hours_before,starts_at', ignoreDuplicates: true }
+    )
+    .select('event_id');
+
+  if (error) {
+    console.error("claimEventChatReminder Supabase error:", error);
+    throw error;
+  }
+  return !!data && data.length > 0;
+};
+
+// Same as claimEventChatReminder, for the reminder notifications sent to attendees
+export const claimEventReminderNotification = async (eventId: number, minutesBefore: number, startsAt: Date) => {
+  const { data, error } = await supabase
+    .from('event_reminder_notifications')
+    .upsert(
+      { event_id: eventId, minutes_before: minutesBefore, starts_at: startsAt.toISOString() },
+      { onConflict: 'event_id,minutes_before,starts_at', ignoreDuplicates: true }
+    )
+    .select('event_id');
+
+  if (error) {
+    console.error("claimEventReminderNotification Supabase error:", error);
+    throw error;
+  }
+  return !!data && data.length > 0;
+};
+
+// Chat read cursors
+export const markChatRead = async (userId: number, eventId: number, messageId: number) => {
+  const { data, error } = await supabase
+    .rpc('mark_chat_read', { p_user_id: userId, p_event_id: eventId, p_message_id: messageId })
+    .maybeSingle();
+
+  if (error) {
+    console.error("markChatRead Supabase error:", error);
+    throw error;
+  }
+  return data as any;
+};
+
+export const getChatReadCursors = async (eventId: number) => {
+  const { data, error } = await supabase
+    .from('chat_read_cursors')
+    .select(`
+      *,
+      user:users!user_id (
+        id,
+        name,
+        username,
+        avatar
+      )
+    `)
+    .eq('event_id', eventId);
+
+  if (error) {
+    console.error("getChatReadCursors Supabase error:", error);
+    return [];
+  }
+  return data || [];
+};
+
+// Unread messages per event chat; without eventIds it covers every chat the user belongs to
+export const getChatUnreadCounts = async (userId: number, eventIds?: number[]) => {
+  const { data, error } = await supabase.rpc('chat_unread_counts', {
+    p_user_id: userId,
+    p_event_ids: eventIds?.length ? eventIds : null,
+  });
+
+  if (error) {
+    console.error("getChatUnreadCounts Supabase error:", error);
+    throw error;
+  }
+
+  const counts: Record<number, number> = {};
+  for (const row of (data || []) as any[]) {
+    counts[row.event_id] = Number(row.unread_count);
+  }
+  return counts;
+};
+
+// Direct message functions
+const CONVERSATION_SELECT = `
+  *,
+  user_a:users!user_a_id (
+    id,
+    name,
+    username,
+    avatar
+  ),
+  user_b:users!user_b_id (
+    id,
+    name,
+    username,
+    avatar
+  )
+`;
+
+export const getConversationById = async (conversationId: number) => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_SELECT)
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("getConversationById Supabase error:", error);
+    throw error;
+  }
+  return data as any;
+};
+
+export const getConversationBetween = async (userId: number, otherUserId: number) => {
+  const [userAId, userBId] = orderedPair(userId, otherUserId);
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_SELECT)
+    .eq('user_a_id', userAId)
+    .eq('user_b_id', userBId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("getConversationBetween Supabase error:", error);
+    throw error;
+  }
+  return data as any;
+};
+
+export const createConversation = async (userId: number, otherUserId: number, status: 'active' | 'request') => {
+  const [userAId, userBId] = orderedPair(userId, otherUserId);
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({
+      user_a_id: userAId,
+      user_b_id: userBId,
+      status,
+      requested_by: status === 'request' ? userId : null
+    })
+    .select(CONVERSATION_SELECT)
+    .single();
+
+  if (error) {
+    console.error("createConversation Supabase error:", error);
+    throw error;
+  }
+  return data as any;
+};
+
+export const updateConversation = async (conversationId: number, changes: ConversationChanges) => {
+  const updateData: any = { updated_at: new Date().toISOString() };
+  if (changes.status !== undefined) updateData.status = changes.status;
+  if (changes.requestedBy !== undefined) updateData.requested_by = changes.requestedBy;
+  if (changes.lastMessageAt !== undefined) updateData.last_message_at = changes.lastMessageAt.toISOString();
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .update(updateData)
+    .eq('id', conversationId)
+    .select(CONVERSATION_SELECT)
+    .single();
+
+  if (error) {
+    console.error("updateConversation Supabase error:", error);
+    throw error;
+  }
+  return data as any;
+};
+
+// Conversation list with the last message and unread count of each one
+export const getUserConversations = async (userId: number) => {
+  const { data, error } = await supabase.rpc('direct_conversation_summaries', { p_user_id: userId });
+
+  if (error) {
+    console.error("getUserConversations Supabase error:", error);
+    throw error;
+  }
+  const summaries = (data || []) as any[];
+  if (summaries.length === 0) return [];
+
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('id, name, username, avatar')
+    .in('id', summaries.map(summary => summary.other_user_id));
+
+  if (usersError) {
+    console.error("getUserConversations users Supabase error:", usersError);
+    throw usersError;
+  }
+
+  return summaries.map(summary => ({
+    ...summary,
+    unread_count: Number(summary.unread_count),
+    other_user: users?.find(user => user.id === summary.other_user_id) || null
+  }));
+};
+
+export const insertDirectMessage = async (conversationId: number, senderId: number, content: string) => {
+  const { data, error } = await supabase
+    .from('direct_messages')
+    .insert({
+      conversation_id: conversationId,
+      sender_id: senderId,
+      content
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("insertDirectMessage Supabase error:", error);
+    throw error;
+  }
+  return data as any;
+};
+
+export const countDirectMessagesFrom = async (conversationId: number, senderId: number) => {
+  const { count, error } = await supabase
+    .from('direct_messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('conversation_id', conversationId)
+    .eq('sender_id', senderId);
+
+  if (error) {
+    console.error("countDirectMessagesFrom Supabase error:", error);
+    throw error;
+  }
+  return count || 0;
+};
+
+// Newest first; pass beforeId to page back through older messages
+export const getDirectMessages = async (conversationId: number, limit = 50, beforeId?: number) => {
+  let query = supabase
+    .from('direct_messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (beforeId) {
+    query = query.lt('id', beforeId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("getDirectMessages Supabase error:", error);
+    throw error;
+  }
+  return data || [];
+};
+
+// Marks the other participant's messages as read and returns how many changed
+export const markDirectMessagesRead = async (conversationId: number, userId: number) => {
+  const { data, error } = await supabase
+    .from('direct_messages')
+    .update({ read_at: new Date().toISOString() })
+    .eq('conversation_id', conversationId)
+    .neq('sender_id', userId)
+    .is('read_at', null)
+    .select('id');
+
+  if (error) {
+    console.error("markDirectMessagesRead Supabase error:", error);
+    throw error;
+  }
+  return data?.length || 0;
+};
+
+export const usersShareEvent = async (userId: number, otherUserId: number) => {
+  const { data, error } = await supabase.rpc('users_share_event', { p_user_a: userId, p_user_b: otherUserId });
+
+  if (error) {
+    console.error("usersShareEvent Supabase error:", error);
+    throw error;
+  }
+  return !!data;
+};
+
+export const blockUser = async (blockerId: number, blockedId: number) => {
+  const { error } = await supabase
+    .from('user_blocks')
+    .upsert({ blocker_id: blockerId, blocked_id: blockedId }, { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true });
+
+  if (error) {
+    console.error("blockUser Supabase error:", error);
+    throw error;
+  }
+};
+
+export const unblockUser = async (blockerId: number, blockedId: number) => {
+  const { error } = await supabase
+    .from('user_blocks')
+    .delete()
+    .eq('blocker_id', blockerId)
+    .eq('blocked_id', blockedId);
+
+  if (error) {
+    console.error("unblockUser Supabase error:", error);
+    throw error;
+  }
+};
+
+export const getBlockedUsers = async (blockerId: number) => {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select(`
+      *,
+      user:users!blocked_id (
+        id,
+        name,
+        username,
+        avatar
+      )
+    `)
+    .eq('blocker_id', blockerId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error("getBlockedUsers Supabase error:", error);
+    return [];
+  }
+  return data || [];
+};
+
+// Who blocked whom between two users (either direction)
+export const getBlockBetween = async (userId: number, otherUserId: number) => {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('blocker_id, blocked_id')
+    .or(`and(blocker_id.eq.${userId},blocked_id.eq.${otherUserId}),and(blocker_id.eq.${otherUserId},blocked_id.eq.${userId})`);
+
+  if (error) {
+    console.error("getBlockBetween Supabase error:", error);
+    throw error;
+  }
+  return {
+    blockedByMe: !!data?.some(block => block.blocker_id === userId),
+    blockedMe: !!data?.some(block => block.blocker_id === otherUserId),
+  };
+};
+
+// Background jobs
+export const ensureScheduledJob = async (name: string, firstRunAt: Date) => {
+  const { error } = await supabase
+    .from('scheduled_jobs')
+    .upsert(
+      { name, next_run_at: firstRunAt.toISOString() },
+      { onConflict: 'name', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error("ensureScheduledJob Supabase error:", error);
+    throw error;
+  }
+};
+
+// A single conditional UPDATE, so two instances can't both take the lease
+export const acquireJobLease = async (name: string, owner: string, now: Date, leaseExpiresAt: Date) => {
+  const nowIso = now.toISOString();
+  const { data, error } = await supabase
+    .from('scheduled_jobs')
+    .update({
+      lease_owner: owner,
+      lease_expires_at: leaseExpiresAt.toISOString(),
+      last_started_at: nowIso,
+      updated_at: nowIso
+    })
+    .eq('name', name)
+    .lte('next_run_at', nowIso)
+    .or(`lease_expires_at.is.null,lease_expires_at.lt.${nowIso}`)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("acquireJobLease Supabase error:", error);
+    throw error;
+  }
+  return data;
+};
+
+export const finishJobRun = async (name: string, owner: string, result: JobRunResult) => {
+  const finishedAt = result.finishedAt.toISOString();
+  const { data, error } = await supabase
+    .from('scheduled_jobs')
+    .update({
+      next_run_at: result.nextRunAt.toISOString(),
+      lease_owner: null,
+      lease_expires_at: null,
+      attempts: result.attempts,
+      last_finished_at: finishedAt,
+      ...(result.error ? {} : { last_succeeded_at: finishedAt }),
+      last_error: result.error,
+      updated_at: finishedAt
+    })
+    .eq('name', name)
+    .eq('lease_owner', owner)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("finishJobRun Supabase error:", error);
+    throw error;
+  }
+  return data;
+};
+
+export const getScheduledJobs = async () => {
+  const { data, error } = await supabase
+    .from('scheduled_jobs')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error("getScheduledJobs Supabase error:", error);
+    throw error;
+  }
+  return data || [];
+};
+
+// Login sessions and express-session data
+export const insertAuthSession = async (session: NewAuthSession) => {
+  const { error } = await supabase.from('auth_sessions').insert({
+    id: session.id,
+    user_id: session.userId,
+    email: session.email,
+    user_agent: session.userAgent,
+    ip_address: session.ipAddress,
+    created_at: session.createdAt.toISOString(),
+    last_activity_at: session.lastActivityAt.toISOString(),
+    expires_at: session.expiresAt.toISOString(),
+  });
+
+  if (error) {
+    console.error("insertAuthSession Supabase error:", error);
+    throw error;
+  }
+};
+
+export const getAuthSession = async (sessionId: string) => {
+  const { data, error } = await supabase
+    .from('auth_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("getAuthSession Supabase error:", error);
+    throw error;
+  }
+  return data;
+};
+
+export const touchAuthSession = async (sessionId: string, lastActivityAt: Date) => {
+  const { error } = await supabase
+    .from('auth_sessions')
+    .update({ last_activity_at: lastActivityAt.toISOString() })
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error("touchAuthSession Supabase error:", error);
+    throw error;
+  }
+};
+
+export const deleteAuthSession = async (sessionId: string) => {
+  const { error } = await supabase.from('auth_sessions').delete().eq('id', sessionId);
+
+  if (error) {
+    console.error("deleteAuthSession Supabase error:", error);
+    throw error;
+  }
+};
+
+export const deleteUserAuthSessions = async (userId: number) => {
+  const { data, error } = await supabase
+    .from('auth_sessions')
+    .delete()
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    console.error("deleteUserAuthSessions Supabase error:", error);
+    throw error;
+  }
+  return data?.length || 0;
+};
+
+export const getUserAuthSessions = async (userId: number) => {
+  const { data, error } = await supabase
+    .from('auth_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('last_activity_at', { ascending: false });
+
+  if (error) {
+    console.error("getUserAuthSessions Supabase error:", error);
+    throw error;
+  }
+  return data || [];
+};
+
+export const getHttpSession = async (sid: string) => {
+  const { data, error } = await supabase
+    .from('http_sessions')
+    .select('*')
+    .eq('sid', sid)
+    .maybeSingle();
+
+  if (error) {
+    console.error("getHttpSession Supabase error:", error);
+    throw error;
+  }
+  return data;
+};
+
+export const saveHttpSession = async (sid: string, data: object, expiresAt: Date) => {
+  const { error } = await supabase
+    .from('http_sessions')
+    .upsert({ sid, data, expires_at: expiresAt.toISOString() }, { onConflict: 'sid' });
+
+  if (error) {
+    console.error("saveHttpSession Supabase error:", error);
+    throw error;
+  }
+};
+
+export const touchHttpSession = async (sid: string, expiresAt: Date) => {
+  const { error } = await supabase
+    .from('http_sessions')
+    .update({ expires_at: expiresAt.toISOString() })
+    .eq('sid', sid);
+
+  if (error) {
+    console.error("touchHttpSession Supabase error:", error);
+    throw error;
+  }
+};
+
+export const deleteHttpSession = async (sid: string) => {
+  const { error } = await supabase.from('http_sessions').delete().eq('sid', sid);
+
+  if (error) {
+    console.error("deleteHttpSession Supabase error:", error);
+    throw error;
+  }
+};
+
+export const deleteExpiredSessions = async (now: Date) => {
+  const nowIso = now.toISOString();
+  const [authResult, httpResult] = await Promise.all([
+    supabase.from('auth_sessions').delete().lt('expires_at', nowIso).select('id'),
+    supabase.from('http_sessions').delete().lt('expires_at', nowIso).select('sid'),
+  ]);
+
+  const error = authResult.error || httpResult.error;
+  if (error) {
+    console.error("deleteExpiredSessions Supabase error:", error);
+    throw error;
+  }
+  return (authResult.data?.length || 0) + (httpResult.data?.length || 0);
+};
+
+
+// Notification functions
+export const createNotification = async (notification: NewNotification) => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      event_id: notification.eventId || null,
+      request_id: notification.requestId || null
+    })
+    .select('*, event:events(title)')
+    .single();
+
+  if (error) {
+    console.error('Error creating notification:', error);
+    throw error;
+  }
+  return data;
+};
+
+// Newest first, with the title of the event they refer to
+export const getUserNotifications = async (userId: number) => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*, event:events(title)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching notifications:', error);
+    throw error;
+  }
+  return data || [];
+};
+
+export const countUnreadNotifications = async (userId: number) => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('is_read', false);
+
+  if (error) {
+    console.error('Error counting unread notifications:', error);
+    throw error;
+  }
+  return count || 0;
+};
+
+export const markAllNotificationsRead = async (userId: number) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ is_read: true })
+    .eq('user_id', userId)
+    .eq('is_read', false);
+
+  if (error) {
+    console.error('Error marking notifications as read:', error);
+    throw error;
+  }
+};
+
+// Rating (aura) functions
+export const getUserRatingSummary = async (userId: number) => {
+  const { data, error } = await supabase
+    .from('user_ratings')
+    .select('rating')
+    .eq('rated_user_id', userId);
+
+  if (error) {
+    console.error('Error fetching user ratings:', error);
+    throw error;
+  }
+
+  const ratings = data || [];
+  const sum = ratings.reduce((total, row) => total + row.rating, 0);
+  return { average: ratings.length ? sum / ratings.length : 0, count: ratings.length };
+};
+
+export const getUserRatingSummaries = async (userIds: number[]) => {
+  const summaries: Record<number, RatingSummary> = {};
+  if (userIds.length === 0) return summaries;
+
+  const { data, error } = await supabase
+    .from('user_ratings')
+    .select('rated_user_id, rating')
+    .in('rated_user_id', userIds);
+
+  if (error) {
+    console.error('Error fetching user ratings:', error);
+    throw error;
+  }
+
+  (data || []).forEach(row => {
+    const summary = summaries[row.rated_user_id] || { average: 0, count: 0 };
+    summary.average = (summary.average * summary.count + row.rating) / (summary.count + 1);
+    summary.count += 1;
+    summaries[row.rated_user_id] = summary;
+  });
+  return summaries;
+};
+
+// One rating per rater and rated user; rating again replaces it
+export const upsertUserRating = async (raterUserId: number, ratedUserId: number, rating: number) => {
+  const { error } = await supabase
+    .from('user_ratings')
+    .upsert({
+      rated_user_id: ratedUserId,
+      rater_user_id: raterUserId,
+      rating,
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'rated_user_id,rater_user_id'
+    });
+
+  if (error) {
+    console.error('Error saving rating:', error);
+    throw error;
+  }
+};
+
+export const supabaseStorage: Storage = {
+  getUserById,
+  getUserByEmail,
+  getUserByUsername,
+  getUserBySupabaseId,
+  insertUser,
+  updateUser,
+  updateStripeCustomerId,
+  updateUserStripeInfo,
+  updateUserLastLocation,
+  getEventById,
+  getEvents,
+  getNearbyEvents,
+  searchEvents,
+  getEventTiles,
+  getEventsStartingBetween,
+  getUpcomingEvents,
+  insertEvent,
+  updateEvent,
+  updateEventOccurrences,
+  setEventStatus,
+  completeEndedEvents,
+  getEventMediaReferences,
+  deleteEvent,
+  deleteAllEvents,
+  insertEventSeries,
+  getEventSeriesById,
+  getSeriesOccurrences,
+  getUserCreatedEvents,
+  getUserAttendingEvents,
+  joinEvent,
+  leaveEvent,
+  getEventAttendees,
+  getEventAttendee,
+  insertEventAttendee,
+  getEventAttendeeById,
+  updateEventAttendee,
+  updatePaymentStatus,
+  updateAttendeePayment,
+  recordAttendeeRefund,
+  getUserTickets,
+  checkInAttendee,
+  setAttendeeNoShow,
+  getEventCheckIns,
+  getApprovedAttendances,
+  getEventIdsWithCheckIns,
+  getApprovedAttendeeUserIds,
+  getPendingEventRequests,
+  getAllPendingRequestsForUser,
+  approveAttendeeWithinCapacity,
+  rejectEventAttendee,
+  countApprovedAttendees,
+  getWaitlistPosition,
+  promoteNextWaitlistedAttendee,
+  expirePendingRequests,
+  getUserInterests,
+  addUserInterest,
+  removeUserInterest,
+  createNotification,
+  getUserNotifications,
+  countUnreadNotifications,
+  markAllNotificationsRead,
+  getUserRatingSummary,
+  getUserRatingSummaries,
+  upsertUserRating,
+  getChatMessages,
+  getChatMessageById,
+  getLatestChatMessages,
+  insertChatMessage,
+  editChatMessage,
+  softDeleteChatMessage,
+  markChatRead,
+  getChatReadCursors,
+  getChatUnreadCounts,
+  claimEventChatReminder,
+  claimEventReminderNotification,
+  getConversationById,
+  getConversationBetween,
+  createConversation,
+  updateConversation,
+  getUserConversations,
+  insertDirectMessage,
+  countDirectMessagesFrom,
+  getDirectMessages,
+  markDirectMessagesRead,
+  usersShareEvent,
+  blockUser,
+  unblockUser,
+  getBlockedUsers,
+  getBlockBetween,
+  ensureScheduledJob,
+  acquireJobLease,
+  finishJobRun,
+  getScheduledJobs,
+  insertAuthSession,
+  getAuthSession,
+  touchAuthSession,
+  deleteAuthSession,
+  deleteUserAuthSessions,
+  getUserAuthSessions,
+  getHttpSession,
+  saveHttpSession,
+  touchHttpSession,
+  deleteHttpSession,
+  deleteExpiredSessions
+};
+
+/**
+ * STORAGE_BACKEND=postgres talks to DATABASE_URL through Drizzle, STORAGE_BACKEND=memory
+ * keeps everything in process (tests, offline development); the default is Supabase
+ */
+function createStorage(): Storage {
+  switch (process.env.STORAGE_BACKEND) {
+    case 'postgres':
+      console.log('🗄️ Storage backend: Postgres (Drizzle)');
+      return new DrizzleStorage(getPostgresDb());
+    case 'memory':
+      console.log('🗄️ Storage backend: in-memory');
+      return new MemoryStorage();
+    default:
+      return supabaseStorage;
+  }
+}
+
+export let storage: Storage = createStorage();
+
+export function setStorage(backend: Storage) {
+  storage = backend;
+}
@@ -0,0 +1,199 @@
+import Stripe from "stripe";
+import { storage } from "./storage";
+import { hasRefundedPayment, refundAttendee } from "./refunds";
+
+/**
+ * Stripe client for paid private events ('paga')
+ * STRIPE_API_HOST/PORT/PROTOCOL point the client at stripe-mock or a local fake
+ */
+const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+
+export const stripe = stripeSecretKey
+  ? new Stripe(stripeSecretKey, {
+      host: process.env.STRIPE_API_HOST || undefined,
+      port: process.env.STRIPE_API_PORT ? parseInt(process.env.STRIPE_API_PORT) : undefined,
+      protocol: process.env.STRIPE_API_PROTOCOL === 'http' ? 'http' : undefined,
+    })
+  : null;
+
+if (!stripe) {
+  console.warn("No STRIPE_SECRET_KEY provided, paid events can't be joined.");
+}
+
+const STRIPE_CURRENCY = process.env.STRIPE_CURRENCY || 'usd';
+
+/**
+ * Create a Checkout Session for a paid event
+ * The attendee stays pending until the webhook confirms the payment
+ */
+export async function createEventCheckoutSession(event: any, user: any, attendeeId: number, baseUrl: string) {
+  if (!stripe) {
+    throw new Error("Stripe is not configured");
+  }
+
+  const price = parseFloat(event.price);
+  if (!price || price <= 0) {
+    throw new Error("Event has no valid price");
+  }
+
+  const metadata = {
+    eventId: String(event.id),
+    userId: String(user.id),
+    attendeeId: String(attendeeId),
+  };
+
+  return stripe.checkout.sessions.create({
+    mode: 'payment',
+    customer_email: user.email || undefined,
+    client_reference_id: String(attendeeId),
+    line_items: [{
+      quantity: 1,
+      price_data: {
+        currency: STRIPE_CURRENCY,
+        unit_amount: Math.round(price * 100),
+        product_data: { name: event.title },
+      },
+    }],
+    metadata,
+    payment_intent_data: { metadata },
+    success_url: `${baseUrl}/payment/${event.id}?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${baseUrl}/payment/${event.id}?cancelled=1`,
+  });
+}
+
+/**
+ * Verify the Stripe-Signature header and parse the webhook event
+ */
+export function constructWebhookEvent(rawBody: Buffer | string, signature: string) {
+  if (!stripe) {
+    throw new Error("Stripe is not configured");
+  }
+  if (!process.env.STRIPE_WEBHOOK_SECRET) {
+    throw new Error("STRIPE_WEBHOOK_SECRET is not configured");
+  }
+
+  return stripe.webhooks.constructEvent(rawBody, signature, process.env.STRIPE_WEBHOOK_SECRET);
+}
+
+/**
+ * Reconcile attendee payment state from a verified webhook event
+ * Unknown event types are ignored so Stripe stops retrying them
+ */
+export async function handleStripeWebhookEvent(stripeEvent: Stripe.Event) {
+  switch (stripeEvent.type) {
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded': {
+      const session = stripeEvent.data.object as Stripe.Checkout.Session;
+      // Delayed payment methods complete the session before the money arrives
+      if (session.payment_status !== 'paid') {
+        return null;
+      }
+      return markPayment(session.metadata, 'succeeded', session.payment_intent as string);
+    }
+    case 'checkout.session.async_payment_failed':
+    case 'checkout.session.expired': {
+      const session = stripeEvent.data.object as Stripe.Checkout.Session;
+      return markPayment(session.metadata, 'failed', session.payment_intent as string);
+    }
+    case 'payment_intent.payment_failed': {
+      const paymentIntent = stripeEvent.data.object as Stripe.PaymentIntent;
+      return markPayment(paymentIntent.metadata, 'failed', paymentIntent.id);
+    }
+    default:
+      console.log(`💳 Ignoring Stripe event ${stripeEvent.type}`);
+      return null;
+  }
+}
+
+async function markPayment(metadata: Stripe.Metadata | null, paymentStatus: 'succeeded' | 'failed', paymentIntentId: string | null) {
+  const eventId = metadata?.eventId ? parseInt(metadata.eventId) : NaN;
+  const userId = metadata?.userId ? parseInt(metadata.userId) : NaN;
+  if (isNaN(eventId) || isNaN(userId)) {
+    console.warn("💳 Stripe event without event/user metadata, skipping");
+    return null;
+  }
+
+  const attendee = await storage.getEventAttendee(eventId, userId);
+  if (!attendee) {
+    console.warn(`💳 No attendee found for event ${eventId} and user ${userId}`);
+    return null;
+  }
+
+  // Never downgrade a payment that already succeeded (Stripe may deliver events out of order)
+  if ((attendee.payment_status === 'succeeded' || hasRefundedPayment(attendee)) && paymentStatus === 'failed') {
+    return attendee;
+  }
+
+  if (paymentStatus === 'failed' || attendee.status === 'approved') {
+    const updated = await storage.updateAttendeePayment(eventId, userId, {
+      paymentStatus,
+      paymentIntentId: paymentIntentId || attendee.payment_intent_id,
+    });
+    console.log(`💳 Payment ${paymentStatus} for user ${userId} on event ${eventId}`);
+    return updated;
+  }
+
+  // Several checkouts can be open for the last spot, so capacity is checked again here,
+  // in the same step that approves the attendee
+  const event = await storage.getEventById(eventId);
+  const approval = await storage.approveAttendeeWithinCapacity(attendee.id, {
+    paymentStatus: 'succeeded',
+    paymentIntentId: paymentIntentId || attendee.payment_intent_id,
+  });
+
+  if (approval.approved === false) {
+    return refundUnplacedPayment(event, attendee, paymentIntentId, approval.reason);
+  }
+
+  console.log(`💳 Payment succeeded for user ${userId} on event ${eventId}`);
+  try {
+    await storage.createNotification({
+      userId,
+      type: 'request_approved',
+      title: 'Pago confirmado',
+      message: `Tu pago fue confirmado y ya formas parte de "${event?.title || 'el evento'}"`,
+      eventId
+    });
+  } catch (notificationError) {
+    console.error('Error creating payment notification:', notificationError);
+  }
+
+  return approval.attendee;
+}
+
+/**
+ * The payment went through but the attendee couldn't get a spot (the event filled up while
+ * they were paying): refund it in full and let them know
+ */
+async function refundUnplacedPayment(event: any, attendee: any, paymentIntentId: string | null, reason: string) {
+  // The attendee left, the event was cancelled or an earlier delivery of this webhook already
+  // went through refundAttendee: refunding again would pay the attendee twice
+  if (attendee.status === 'cancelled' || hasRefundedPayment(attendee)) {
+    console.warn(`💳 Payment for user ${attendee.user_id} on event ${attendee.event_id} was already refunded, skipping`);
+    return attendee;
+  }
+
+  console.warn(`💳 Paid checkout for user ${attendee.user_id} on event ${attendee.event_id} couldn't be approved (${reason}), refunding`);
+
+  const paid = await storage.updateAttendeePayment(attendee.event_id, attendee.user_id, {
+    paymentStatus: 'succeeded',
+    paymentIntentId: paymentIntentId || attendee.payment_intent_id,
+  });
+  const refunded = await refundAttendee(event || { id: attendee.event_id }, paid, { fullRefund: true });
+
+  try {
+    await storage.createNotification({
+      userId: attendee.user_id,
+      type: 'refund_issued',
+      title: 'Evento lleno',
+      message: refunded?.refund_status === 'refunded'
+        ? `"${event?.title || 'El evento'}" se llenó mientras pagabas. Te reembolsamos $${Number(refunded.refund_amount).toFixed(2)}`
+        : `"${event?.title || 'El evento'}" se llenó mientras pagabas. No pudimos procesar tu reembolso automáticamente, contáctanos.`,
+      eventId: attendee.event_id
+    });
+  } catch (notificationError) {
+    console.error('Error creating refund notification:', notificationError);
+  }
+
+  return refunded;
+}
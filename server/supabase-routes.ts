@@ -1,16 +1,30 @@
 import { Router, Request, Response } from 'express';
-import { supabase } from './supabase-client';
+import { supabase, supabaseService } from './supabase-client';
 import { storage } from './storage';
-import { isAuthenticatedMiddleware as requireAuth } from './supabase-auth';
-import { createSession, destroySession } from './session-auth';
+import { requireAuth } from './identity';
+import {
+  SESSION_COOKIE,
+  destroySession,
+  destroyUserSessions,
+  getSession,
+  getSessionCookieOptions,
+  getSessionMeta,
+  listUserSessions,
+  rotateSession,
+} from './session-auth';
 import { z } from 'zod';
-import { loginUserSchema, insertUserSchema } from '@shared/schema';
+import { loginUserSchema, insertUserSchema, type InsertUser } from '@shared/schema';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 
 const router = Router();
 
+// Our user for a Supabase account: by Supabase id, or by email for accounts created before the id was stored
+async function findAccountUser(supabaseUserId: string, email: string) {
+  return (await storage.getUserBySupabaseId(supabaseUserId)) || (await storage.getUserByEmail(email));
+}
+
 // Register endpoint
 router.post('/register', async (req: Request, res: Response) => {
   try {
@@ -39,43 +53,33 @@ router.post('/register', async (req: Request, res: Response) => {
     }
 
     // Create user in our database with Supabase ID
-    const { data: dbUser, error: dbError } = await supabase
-      .from('users')
-      .insert([{
+    let dbUser = null;
+    try {
+      dbUser = await storage.insertUser({
         email: authData.user.email || email,
         username: username,
         name: name,
-        supabase_id: authData.user.id,
+        supabaseId: authData.user.id,
         password: null, // Not needed for Supabase auth
-        bio: null,
-        avatar: null,
-        stripe_customer_id: null,
-        stripe_subscription_id: null
-      }])
-      .select()
-      .single();
-
-    if (dbError) {
+      } as InsertUser);
+    } catch (dbError) {
       console.error('Database user creation error:', dbError);
-      // Continue with Supabase user data even if DB insert fails
+      // The user may already exist with this email or Supabase id
+      dbUser = await findAccountUser(authData.user.id, authData.user.email || email);
     }
 
-    const newUser = dbUser || {
-      id: parseInt(authData.user.id.slice(-8), 16) % 100000,
-      email: authData.user.email || email,
-      username: username,
-      name: name,
-      supabaseId: authData.user.id,
-    };
+    if (!dbUser) {
+      return res.status(500).json({ message: 'Failed to create user' });
+    }
 
     // Return user data and session
     return res.status(201).json({
       message: 'Registration successful',
       user: {
-        id: newUser.id,
-        email: newUser.email,
-        username: newUser.username,
-        name: newUser.name,
+        id: dbUser.id,
+        email: dbUser.email,
+        username: dbUser.username,
+        name: dbUser.name,
       },
       session: authData.session
     });
@@ -109,31 +113,26 @@ router.post('/login', async (req: Request, res: Response) => {
       return res.status(401).json({ message: 'Authentication failed' });
     }
 
-    // Try to get user from our database first
-    const { data: dbUser } = await supabase
-      .from('users')
-      .select('*')
-      .eq('supabase_id', data.user.id)
-      .single();
-
-    const user = dbUser || {
-      id: parseInt(data.user.id.slice(-8), 16) % 100000,
-      email: data.user.email || email,
-      username: email.split('@')[0],
-      name: email.split('@')[0],
-      supabaseId: data.user.id,
-    };
-
-    // Create a session with simplified user data
-    const sessionId = createSession(user.id, user.email);
-    
-    // Set session cookie that persists until manual logout
-    res.cookie('pipol_session', sessionId, {
-      httpOnly: true,
-      secure: false, // Set to true in production with HTTPS
-      // No maxAge set - persists until manual logout
-      sameSite: 'lax'
-    });
+    // Sessions are only ever created for a user that exists in our database
+    const user = await findAccountUser(data.user.id, data.user.email || email);
+    if (!user) {
+      console.warn(`🔐 No user found for Supabase account ${data.user.id}, login refused`);
+      return res.status(401).json({ message: 'Authentication failed' });
+    }
+
+    // Create a fresh session on every login (rotation), replacing any session the browser had
+    const sessionId = await rotateSession(req.cookies?.[SESSION_COOKIE], user.id, user.email, getSessionMeta(req));
+    res.cookie(SESSION_COOKIE, sessionId, getSessionCookieOptions());
+
+    // Regenerate the express session too so a pre-login session id is never promoted
+    if (req.session) {
+      await new Promise<void>((resolve) => req.session.regenerate((err) => {
+        if (err) {
+          console.error('Error regenerating session:', err);
+        }
+        resolve();
+      }));
+    }
 
     // IMPORTANT: Set the Express session data so authentication works for subsequent requests
     if (req.session) {
@@ -142,6 +141,7 @@ router.post('/login', async (req: Request, res: Response) => {
       (req.session as any).userId = user.id.toString();
       (req.session as any).supabaseUserId = data.user.id;
       (req.session as any).passport = { user: user.id }; // For compatibility with passport middleware
+      (req.session as any).authSessionId = sessionId; // Revoking the login session also ends this one
     }
 
     // Return user data and token
@@ -167,10 +167,10 @@ router.post('/login', async (req: Request, res: Response) => {
 router.post('/logout', async (req: Request, res: Response) => {
   try {
     // Clear session cookie
-    const sessionCookie = req.cookies?.pipol_session;
+    const sessionCookie = req.cookies?.[SESSION_COOKIE];
     if (sessionCookie) {
-      destroySession(sessionCookie);
-      res.clearCookie('pipol_session');
+      await destroySession(sessionCookie);
+      res.clearCookie(SESSION_COOKIE);
     }
 
     // Clear express session
@@ -196,76 +196,91 @@ router.post('/logout', async (req: Request, res: Response) => {
   }
 });
 
-// Get current user endpoint - using token authentication
-router.get('/me', async (req: Request, res: Response) => {
+// List the current user's active sessions (devices)
+router.get('/sessions', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const currentSessionId = req.cookies?.[SESSION_COOKIE] || (req.session as any)?.authSessionId;
+    const sessions = await listUserSessions(req.user!.id);
+
+    return res.status(200).json(sessions.map(session => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastActivityAt: session.lastActivityAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    })));
+  } catch (error) {
+    console.error('Error listing sessions:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Log out a single device
+router.delete('/sessions/:sessionId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const session = await getSession(req.params.sessionId);
+    if (!session || session.userId !== req.user!.id) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    await destroySession(session.id);
+    if (session.id === req.cookies?.[SESSION_COOKIE]) {
+      res.clearCookie(SESSION_COOKIE);
+    }
+
+    return res.status(200).json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Log out all devices, including this one
+router.post('/logout-all', requireAuth, async (req: Request, res: Response) => {
   try {
-    // Check Authorization header for Bearer token
+    const revoked = await destroyUserSessions(req.user!.id);
+    res.clearCookie(SESSION_COOKIE);
+
+    // Also revoke the Supabase refresh tokens so token-based clients can't renew their JWT
     const authHeader = req.headers.authorization;
     if (authHeader && authHeader.startsWith('Bearer ')) {
-      const token = authHeader.substring(7);
-      
-      // Verify token with Supabase
-      const { data: { user }, error } = await supabase.auth.getUser(token);
-      
-      if (!error && user) {
-        // Try to get user from database
-        const { data: dbUser } = await supabase
-          .from('users')
-          .select('*')
-          .eq('supabase_id', user.id)
-          .single();
-        
-        if (dbUser) {
-          return res.status(200).json({
-            id: dbUser.id,
-            email: dbUser.email,
-            username: dbUser.username,
-            name: dbUser.name,
-            bio: dbUser.bio,
-            avatar: dbUser.avatar
-          });
-        }
-        
-        // Return basic user info if not in database
-        return res.status(200).json({
-          id: parseInt(user.id.slice(-8), 16) % 100000,
-          email: user.email,
-          username: user.email?.split('@')[0] || 'user',
-          name: user.email?.split('@')[0] || 'User',
-          bio: null,
-          avatar: null
-        });
+      const { error } = await supabaseService.auth.admin.signOut(authHeader.substring(7), 'global');
+      if (error) {
+        console.error('Error revoking Supabase refresh tokens:', error);
       }
     }
-    
-    // Check session-based auth as fallback
-    if (req.session && (req.session as any).authenticated && (req.session as any).userId) {
-      const userId = (req.session as any).userId;
-      const { data: dbUser } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', userId)
-        .single();
-      
-      if (dbUser) {
-        return res.status(200).json({
-          id: dbUser.id,
-          email: dbUser.email,
-          username: dbUser.username,
-          name: dbUser.name,
-          bio: dbUser.bio,
-          avatar: dbUser.avatar
-        });
-      }
+
+    if (req.session) {
+      req.session.destroy((err) => {
+        if (err) {
+          console.error('Error destroying session:', err);
+        }
+      });
     }
-    
-    return res.status(401).json({ message: 'Authentication required' });
+
+    console.log(`🔒 Revoked ${revoked} sessions for user ${req.user!.id}`);
+    return res.status(200).json({ message: 'Logged out from all devices', revoked });
   } catch (error) {
-    console.error('Error getting current user:', error);
+    console.error('Error during logout-all:', error);
     return res.status(500).json({ message: 'Internal server error' });
   }
 });
 
+// Get current user endpoint
+router.get('/me', requireAuth, async (req: Request, res: Response) => {
+  const user = req.user!;
+  return res.status(200).json({
+    id: user.id,
+    email: user.email,
+    username: user.username,
+    name: user.name,
+    bio: user.bio,
+    avatar: user.avatar
+  });
+});
+
 
 
 const profileStorage = multer.diskStorage({
@@ -67,17 +67,17 @@ export async function initializeStorage() {
 export async function uploadFile(filePath: string, folder: string = ''): Promise<string> {
   try {
     if (!bucketAvailable) {
-      // Simulate upload if bucket is not available
-      console.log(`Simulating upload of ${filePath} to ${folder}`);
+      // Without the bucket, keep the file under public/uploads so the URL still works locally
+      console.log(`Bucket unavailable, storing ${filePath} locally in ${folder}`);
       const fileName = path.basename(filePath);
       const fileExtension = path.extname(fileName);
       const uniqueFileName = `${uuidv4()}${fileExtension}`;
       const storagePath = folder ? `${folder}/${uniqueFileName}` : uniqueFileName;
-      
-      // Generate a simulated URL
-      const simulatedUrl = `https://ngljgvnzkjqzhgkaukvu.supabase.co/storage/v1/object/public/${BUCKET_NAME}/${storagePath}`;
-      console.log(`Simulated upload URL: ${simulatedUrl}`);
-      return simulatedUrl;
+      const localPath = path.join('public', 'uploads', storagePath);
+
+      fs.mkdirSync(path.dirname(localPath), { recursive: true });
+      fs.copyFileSync(filePath, localPath);
+      return `/uploads/${storagePath}`;
     }
     
     // Read the file content
@@ -123,8 +123,13 @@ export async function uploadFile(filePath: string, folder: string = ''): Promise
 export async function deleteFile(fileUrl: string): Promise<boolean> {
   try {
     if (!bucketAvailable) {
-      // Simulate deletion if bucket is not available
-      console.log(`Simulating deletion of file: ${fileUrl}`);
+      // Files stored locally by uploadFile
+      if (fileUrl.startsWith('/uploads/')) {
+        const localPath = path.join('public', fileUrl);
+        if (fs.existsSync(localPath)) {
+          fs.unlinkSync(localPath);
+        }
+      }
       return true;
     }
     
@@ -164,6 +169,12 @@ function getContentType(extension: string): string {
     '.webm': 'video/webm',
     '.mov': 'video/quicktime',
     '.pdf': 'application/pdf',
+    '.txt': 'text/plain',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.xls': 'application/vnd.ms-excel',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.zip': 'application/zip',
   };
   
   return contentTypes[extension.toLowerCase()] || 'application/octet-stream';
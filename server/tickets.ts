@@ -0,0 +1,65 @@
+import crypto from "crypto";
+
+/**
+ * Signed ticket tokens for approved attendees
+ * The token is `<payload>.<signature>`, where the payload is base64url JSON
+ * and the signature is an HMAC-SHA256 of the payload with TICKET_SECRET
+ */
+if (!process.env.TICKET_SECRET) {
+  // Anyone who knows the fallback secret could forge tickets, so production never uses it
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("TICKET_SECRET must be set in production");
+  }
+  console.warn("No TICKET_SECRET provided, ticket signatures fall back to SESSION_SECRET.");
+}
+
+const TICKET_SECRET = process.env.TICKET_SECRET || process.env.SESSION_SECRET || "pipol-ticket-secret";
+
+export interface TicketPayload {
+  attendeeId: number;
+  eventId: number;
+  userId: number;
+}
+
+function sign(payload: string) {
+  return crypto.createHmac("sha256", TICKET_SECRET).update(payload).digest("base64url");
+}
+
+export function createTicketToken(attendee: { id: number; event_id: number; user_id: number }) {
+  const payload = Buffer.from(JSON.stringify({
+    attendeeId: attendee.id,
+    eventId: attendee.event_id,
+    userId: attendee.user_id,
+  })).toString("base64url");
+
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Verify a ticket token, returning its payload or null if it was tampered with
+ */
+export function verifyTicketToken(token: unknown): TicketPayload | null {
+  if (typeof token !== "string") {
+    return null;
+  }
+  const [payload, signature] = token.trim().split(".");
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (!Number.isInteger(decoded.attendeeId) || !Number.isInteger(decoded.eventId) || !Number.isInteger(decoded.userId)) {
+      return null;
+    }
+    return decoded;
+  } catch (error) {
+    return null;
+  }
+}
@@ -1,25 +1,66 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { Server as HttpServer } from 'http';
 import { IncomingMessage } from 'http';
+import type { RequestHandler } from 'express';
 import { storage } from './storage';
-import { supabase } from './supabase-client';
-import { desc, eq, and, isNull } from 'drizzle-orm';
+import { dropRevokedExpressSession } from './session-auth';
+import { getUpgradeCredentials, resolvePrincipal } from './identity';
+import {
+  isParticipant,
+  sendDirectMessage,
+  serializeConversation,
+  serializeDirectMessage
+} from './direct-messages';
 import crypto from 'crypto';
+import { createChatBus, type ChatBus, type ChatBusEnvelope, type ChatBusTarget } from './chat-bus';
+import type { ChatAttachment, ChatSystemEvent } from '@shared/schema';
+import { isEventChatReadOnly } from '@shared/event-status';
 
 interface AuthenticatedClient {
   ws: WebSocket;
   userId: number;
   userName: string;
+  avatar: string | null;
   clientId: string;
 }
 
+// One entry per user in a room, however many tabs they have open
+interface PresenceUser {
+  id: number;
+  name: string;
+  avatar: string | null;
+}
+
+// Each instance sends its presence again this often; one not heard from for PRESENCE_TTL_MS is dropped
+const PRESENCE_HEARTBEAT_MS = 30 * 1000;
+const PRESENCE_TTL_MS = 3 * PRESENCE_HEARTBEAT_MS;
+
+interface RemotePresence {
+  users: PresenceUser[];
+  receivedAt: number;
+}
+
 interface ChatMessage {
   id: number;
   eventId: number;
   senderId: number;
   content: string;
   messageType: string;
+  attachment?: ChatAttachment | null;
+  systemEvent?: ChatSystemEvent | null;
   replyToId?: number;
+  replyTo?: {
+    id: number;
+    senderId: number;
+    senderName: string;
+    content: string;
+    messageType: string;
+    deleted: boolean;
+  } | null;
+  edited: boolean;
+  editedAt?: Date | null;
+  deleted: boolean;
+  deletedAt?: Date | null;
   createdAt: Date;
   sender?: {
     id: number;
@@ -28,12 +69,63 @@ interface ChatMessage {
   };
 }
 
+// Deleted messages keep their row (soft delete) but their content is never sent to clients
+function serializeMessage(row: any): ChatMessage {
+  const replyTo = Array.isArray(row.reply_to) ? row.reply_to[0] : row.reply_to;
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    senderId: row.sender_id,
+    content: row.deleted_at ? '' : row.content,
+    messageType: row.message_type,
+    attachment: row.deleted_at ? null : row.attachment || null,
+    systemEvent: row.system_event || null,
+    replyToId: row.reply_to_id,
+    replyTo: replyTo ? {
+      id: replyTo.id,
+      senderId: replyTo.sender_id,
+      senderName: replyTo.sender?.name || replyTo.sender?.username || 'Unknown',
+      content: replyTo.deleted_at ? '' : replyTo.content,
+      messageType: replyTo.message_type,
+      deleted: !!replyTo.deleted_at
+    } : null,
+    edited: !!row.edited,
+    editedAt: row.edited_at,
+    deleted: !!row.deleted_at,
+    deletedAt: row.deleted_at,
+    createdAt: row.created_at,
+    sender: row.sender
+  };
+}
+
+interface HandshakeUser {
+  userId: number;
+  userName: string;
+  avatar: string | null;
+}
+
+type VerifyClientCallback = (result: boolean, code?: number, message?: string) => void;
+
+let chatServer: ChatWebSocketServer | null = null;
+
+// The running chat server, for HTTP routes that create messages (e.g. attachment uploads)
+export function getChatServer() {
+  return chatServer;
+}
+
 export class ChatWebSocketServer {
   private wss: WebSocketServer;
   private clients: Map<string, AuthenticatedClient> = new Map();
   private eventRooms: Map<number, Set<string>> = new Map(); // eventId -> Set of clientIds
-
-  constructor(server: HttpServer) {
+  private conversationRooms: Map<number, Set<string>> = new Map(); // conversationId -> Set of clientIds
+  private handshakeUsers: WeakMap<IncomingMessage, HandshakeUser> = new WeakMap();
+  // Identifies this instance on the chat bus, so it skips the frames it published itself
+  private readonly nodeId = crypto.randomUUID();
+  // Users the other instances have in each event room: nodeId -> eventId -> presence
+  private remotePresence: Map<string, Map<number, RemotePresence>> = new Map();
+  private presenceHeartbeat: NodeJS.Timeout;
+
+  constructor(server: HttpServer, private sessionMiddleware?: RequestHandler, private bus: ChatBus = createChatBus()) {
     this.wss = new WebSocketServer({ 
       server, 
       path: '/ws',
@@ -41,22 +133,95 @@ export class ChatWebSocketServer {
     });
 
     this.wss.on('connection', this.handleConnection.bind(this));
+    this.bus.subscribe((envelope) => {
+      if (envelope.origin !== this.nodeId) {
+        this.handleBusEnvelope(envelope);
+      }
+    });
+
+    // Ask the running instances who is in their rooms, then keep ours fresh for them
+    this.publishToBus({ kind: 'presence_request' }, null);
+    this.presenceHeartbeat = setInterval(() => {
+      this.publishAllPresence();
+      this.expireRemotePresence();
+    }, PRESENCE_HEARTBEAT_MS);
+    this.presenceHeartbeat.unref();
+
+    chatServer = this;
     console.log('💬 Chat WebSocket server initialized on /ws');
   }
 
-  private verifyClient(info: { req: IncomingMessage }) {
-    // Accept all connections for now, authentication happens after connection
-    return true;
+  /**
+   * Authenticates the upgrade request with the same credentials the REST API accepts:
+   * a Supabase JWT (`?token=` query param, since browsers can't set headers on WebSocket)
+   * or a session cookie. The resolved user is bound to the connection.
+   */
+  private verifyClient(info: { origin: string; secure: boolean; req: IncomingMessage }, callback: VerifyClientCallback) {
+    this.authenticateUpgrade(info.req)
+      .then((user) => {
+        if (!user) {
+          console.log('🚫 WebSocket handshake rejected: not authenticated');
+          return callback(false, 401, 'Authentication required');
+        }
+        this.handshakeUsers.set(info.req, user);
+        callback(true);
+      })
+      .catch((error) => {
+        console.error('❌ WebSocket handshake auth error:', error);
+        callback(false, 500, 'Authentication failed');
+      });
+  }
+
+  private async authenticateUpgrade(req: IncomingMessage): Promise<HandshakeUser | null> {
+    await this.loadExpressSession(req);
+    const principal = await resolvePrincipal(getUpgradeCredentials(req));
+    return principal
+      ? {
+          userId: principal.userId,
+          userName: principal.user.name || principal.user.username,
+          avatar: principal.user.avatar || null
+        }
+      : null;
+  }
+
+  private loadExpressSession(req: IncomingMessage): Promise<void> {
+    const sessionMiddleware = this.sessionMiddleware;
+    if (!sessionMiddleware || !req.headers.cookie) {
+      return Promise.resolve();
+    }
+
+    // Run express-session against the upgrade request to load the session from the cookie
+    return new Promise((resolve) => {
+      sessionMiddleware(req as any, {} as any, async (error?: any) => {
+        try {
+          if (!error && (req as any).session) {
+            await dropRevokedExpressSession(req as any);
+          }
+        } catch (sessionError) {
+          console.error('❌ WebSocket session lookup failed:', sessionError);
+        }
+        resolve();
+      });
+    });
   }
 
   private handleConnection(ws: WebSocket, req: IncomingMessage) {
     const clientId = crypto.randomUUID();
-    console.log(`🔌 New WebSocket connection: ${clientId}`);
+    const user = this.handshakeUsers.get(req);
+    if (!user) {
+      ws.close(4401, 'Authentication required');
+      return;
+    }
+    this.handshakeUsers.delete(req);
+
+    this.clients.set(clientId, { ws, clientId, ...user });
+    console.log(`🔌 New WebSocket connection: ${clientId} (user ${user.userId})`);
 
     // Send connection acknowledgment
     this.sendToClient(ws, {
       type: 'connection',
       clientId,
+      userId: user.userId,
       message: 'Connected to chat server'
     });
 
@@ -85,9 +250,33 @@ export class ChatWebSocketServer {
         case 'load_messages':
           await this.handleLoadMessages(clientId, message);
           break;
+        case 'edit_message':
+          await this.handleEditMessage(clientId, message);
+          break;
+        case 'delete_message':
+          await this.handleDeleteMessage(clientId, message);
+          break;
+        case 'mark_read':
+          await this.handleMarkRead(clientId, message);
+          break;
         case 'typing':
           await this.handleTyping(clientId, message);
           break;
+        case 'join_conversation':
+          await this.handleJoinConversation(clientId, message);
+          break;
+        case 'leave_conversation':
+          this.handleLeaveConversation(clientId, message);
+          break;
+        case 'send_direct_message':
+          await this.handleSendDirectMessage(clientId, message);
+          break;
+        case 'mark_conversation_read':
+          await this.handleMarkConversationRead(clientId, message);
+          break;
+        case 'direct_typing':
+          this.handleDirectTyping(clientId, message);
+          break;
         default:
           console.log(`❓ Unknown message type: ${message.type}`);
       }
@@ -100,51 +289,26 @@ export class ChatWebSocketServer {
     }
   }
 
+  // The identity is bound during the handshake; any userId sent in the frame is ignored
   private async handleAuth(clientId: string, ws: WebSocket, message: any) {
-    try {
-      const { userId, userName } = message;
-      
-      if (!userId || !userName) {
-        this.sendToClient(ws, {
-          type: 'auth_error',
-          message: 'Missing userId or userName'
-        });
-        return;
-      }
-
-      // Verify user exists in database
-      const user = await storage.getUserById(userId);
-      if (!user) {
-        this.sendToClient(ws, {
-          type: 'auth_error',
-          message: 'User not found'
-        });
-        return;
-      }
-
-      // Store authenticated client
-      this.clients.set(clientId, {
-        ws,
-        userId,
-        userName: user.name || user.username,
-        clientId
-      });
-
-      console.log(`✅ User authenticated: ${user.name || user.username} (${userId})`);
-
-      this.sendToClient(ws, {
-        type: 'auth_success',
-        userId,
-        userName: user.name || user.username
-      });
-
-    } catch (error) {
-      console.error('❌ Auth error:', error);
+    const client = this.clients.get(clientId);
+    if (!client) {
       this.sendToClient(ws, {
         type: 'auth_error',
-        message: 'Authentication failed'
+        message: 'Authentication required'
       });
+      return;
+    }
+
+    if (message.userId && Number(message.userId) !== client.userId) {
+      console.log(`⚠️ Ignoring client-supplied userId ${message.userId} for user ${client.userId}`);
     }
+
+    this.sendToClient(ws, {
+      type: 'auth_success',
+      userId: client.userId,
+      userName: client.userName
+    });
   }
 
   private async handleJoinEvent(clientId: string, message: any) {
@@ -176,27 +340,15 @@ export class ChatWebSocketServer {
       }
 
       // Leave all previous event rooms for this client
-      this.eventRooms.forEach((room, roomEventId) => {
+      for (const [roomEventId, room] of Array.from(this.eventRooms.entries())) {
         if (room.has(clientId) && roomEventId !== eventId) {
           console.log(`👋 User ${client.userName} leaving previous event ${roomEventId}`);
-          room.delete(clientId);
-          if (room.size === 0) {
-            this.eventRooms.delete(roomEventId);
-          }
-          
-          // Notify others in the previous room
-          this.broadcastToEventRoom(roomEventId, {
-            type: 'user_left',
-            eventId: roomEventId,
-            user: {
-              id: client.userId,
-              name: client.userName
-            }
-          }, clientId);
+          this.removeFromEventRoom(roomEventId, client);
         }
-      });
+      }
 
       // Add client to new event room
+      const presenceBefore = this.getEventRoomPresence(eventId);
       if (!this.eventRooms.has(eventId)) {
         this.eventRooms.set(eventId, new Set());
       }
@@ -204,21 +356,25 @@ export class ChatWebSocketServer {
 
       console.log(`✅ User ${client.userName} joined event ${eventId} successfully`);
 
+      const event = await storage.getEventById(Number(eventId));
       this.sendToClient(client.ws, {
         type: 'joined_event',
         eventId,
+        organizerId: event ? Number(event.organizer_id) : null,
+        readOnly: isEventChatReadOnly(event),
         message: `Joined event ${eventId} chat`
       });
 
-      // Notify other users in the room
-      this.broadcastToEventRoom(eventId, {
-        type: 'user_joined',
+      // Who is already here, then only the changes from now on
+      this.sendToClient(client.ws, {
+        type: 'presence_state',
         eventId,
-        user: {
-          id: client.userId,
-          name: client.userName
-        }
-      }, clientId);
+        users: this.getEventRoomPresence(eventId)
+      });
+
+      // Another tab of the same user (here or on another instance) joining doesn't change presence
+      this.deliverPresenceDiff(eventId, presenceBefore, clientId);
+      this.publishPresence(eventId);
 
     } catch (error) {
       console.error('❌ Error joining event:', error);
@@ -241,14 +397,7 @@ export class ChatWebSocketServer {
       return;
     }
 
-    // Remove client from event room
-    const room = this.eventRooms.get(eventId);
-    if (room) {
-      room.delete(clientId);
-      if (room.size === 0) {
-        this.eventRooms.delete(eventId);
-      }
-    }
+    this.removeFromEventRoom(eventId, client);
 
     console.log(`👋 User ${client.userName} left event ${eventId}`);
 
@@ -256,16 +405,6 @@ export class ChatWebSocketServer {
       type: 'left_event',
       eventId
     });
-
-    // Notify other users in the room
-    this.broadcastToEventRoom(eventId, {
-      type: 'user_left',
-      eventId,
-      user: {
-        id: client.userId,
-        name: client.userName
-      }
-    }, clientId);
   }
 
   private async handleSendMessage(clientId: string, message: any) {
@@ -274,6 +413,7 @@ export class ChatWebSocketServer {
       return;
     }
 
+    // The sender is always the user bound to the connection, never one sent in the frame
     const { eventId, content, replyToId } = message;
     
     if (!eventId || !content || content.trim() === '') {
@@ -297,67 +437,41 @@ export class ChatWebSocketServer {
         return;
       }
 
-      // Save message to database using Supabase
-      const { data: newMessage, error: insertError } = await supabase
-        .from('chat_messages')
-        .insert({
-          event_id: eventId,
-          sender_id: client.userId,
-          content: content.trim(),
-          message_type: 'text',
-          reply_to_id: replyToId || null
-        })
-        .select()
-        .single();
-
-      if (insertError) {
-        console.error('❌ Error inserting message:', insertError);
+      if (await this.isChatReadOnly(eventId)) {
         this.sendToClient(client.ws, {
           type: 'message_error',
-          message: 'Failed to save message'
+          message: 'This event chat is read-only'
         });
         return;
       }
 
-      // Get complete message with sender info
-      const { data: completeMessage, error: fetchError } = await supabase
-        .from('chat_messages')
-        .select(`
-          id,
-          event_id,
-          sender_id,
-          content,
-          message_type,
-          reply_to_id,
-          created_at,
-          sender:users!sender_id (
-            id,
-            name,
-            username
-          )
-        `)
-        .eq('id', newMessage.id)
-        .single();
-
-      if (fetchError) {
-        console.error('❌ Error fetching complete message:', fetchError);
-        return;
+      // Replies must point to a message in the same event chat
+      if (replyToId) {
+        const replyTarget = await storage.getChatMessageById(Number(replyToId));
+
+        if (!replyTarget || Number(replyTarget.event_id) !== Number(eventId)) {
+          this.sendToClient(client.ws, {
+            type: 'message_error',
+            message: 'Reply target not found'
+          });
+          return;
+        }
       }
 
+      // Save message to database; it comes back with sender info and the quoted message
+      const completeMessage = await storage.insertChatMessage({
+        eventId: Number(eventId),
+        senderId: client.userId,
+        content: content.trim(),
+        messageType: 'text',
+        replyToId: replyToId ? Number(replyToId) : null
+      });
+
       if (completeMessage) {
         const messagePayload = {
           type: 'new_message',
           eventId,
-          message: {
-            id: completeMessage.id,
-            eventId: completeMessage.event_id,
-            senderId: completeMessage.sender_id,
-            content: completeMessage.content,
-            messageType: completeMessage.message_type,
-            replyToId: completeMessage.reply_to_id,
-            createdAt: completeMessage.created_at,
-            sender: completeMessage.sender
-          }
+          message: serializeMessage(completeMessage)
         };
 
         // Broadcast to all clients in the event room
@@ -401,48 +515,27 @@ export class ChatWebSocketServer {
         return;
       }
 
-      // Load messages from database using Supabase
+      // Load messages from database
       console.log(`🔍 Loading messages for event ${eventId} (type: ${typeof eventId})`);
-      const { data: messages, error } = await supabase
-        .from('chat_messages')
-        .select(`
-          id,
-          event_id,
-          sender_id,
-          content,
-          message_type,
-          reply_to_id,
-          created_at,
-          sender:users!sender_id (
-            id,
-            name,
-            username
-          )
-        `)
-        .eq('event_id', Number(eventId))
-        .is('deleted_at', null)
-        .order('created_at', { ascending: false })
-        .limit(Math.min(limit, 100))
-        .range(offset, offset + Math.min(limit, 100) - 1);
-        
-      if (error) {
-        console.error('❌ Error loading messages:', error);
-        this.sendToClient(client.ws, {
-          type: 'load_messages_error',
-          eventId,
-          message: 'Failed to load messages'
-        });
-        return;
-      }
-      const messageList = messages || [];
+      // Deleted messages are included so the chat can show a tombstone in their place
+      const messageList = await storage.getChatMessages(Number(eventId), { limit, offset });
       console.log(`📊 Found ${messageList.length} messages in database for event ${eventId}`);
 
+      const readCursors = await storage.getChatReadCursors(Number(eventId));
+
       console.log(`📜 Sending ${messageList.length} messages for event ${eventId} to user ${client.userId}`);
       this.sendToClient(client.ws, {
         type: 'messages_loaded',
         eventId,
-        messages: messageList.reverse(), // Reverse to show oldest first
-        hasMore: messages.length === limit
+        messages: messageList.map(serializeMessage).reverse(), // Reverse to show oldest first
+        readCursors: readCursors.map((cursor: any) => ({
+          userId: cursor.user_id,
+          name: cursor.user?.name || cursor.user?.username,
+          avatar: cursor.user?.avatar || null,
+          lastReadMessageId: cursor.last_read_message_id,
+          readAt: cursor.read_at
+        })),
+        hasMore: messageList.length === limit
       });
 
     } catch (error) {
@@ -455,6 +548,203 @@ export class ChatWebSocketServer {
     }
   }
 
+  private async getEventOrganizerId(eventId: number): Promise<number | null> {
+    const event = await storage.getEventById(Number(eventId));
+    return event ? Number(event.organizer_id) : null;
+  }
+
+  private async fetchMessage(messageId: number) {
+    try {
+      return await storage.getChatMessageById(Number(messageId));
+    } catch (error) {
+      console.error('❌ Error fetching message:', error);
+      return null;
+    }
+  }
+
+  // Only the sender can edit their own message
+  private async handleEditMessage(clientId: string, message: any) {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+
+    const { messageId, content } = message;
+    if (!messageId || !content || content.trim() === '') {
+      this.sendToClient(client.ws, {
+        type: 'message_error',
+        message: 'Missing messageId or content'
+      });
+      return;
+    }
+
+    try {
+      const existing = await this.fetchMessage(messageId);
+      if (!existing || existing.deleted_at) {
+        this.sendToClient(client.ws, {
+          type: 'message_error',
+          message: 'Message not found'
+        });
+        return;
+      }
+
+      if (existing.message_type === 'system') {
+        this.sendToClient(client.ws, {
+          type: 'message_error',
+          message: 'System messages cannot be edited'
+        });
+        return;
+      }
+
+      if (await this.isChatReadOnly(Number(existing.event_id))) {
+        this.sendToClient(client.ws, {
+          type: 'message_error',
+          message: 'This event chat is read-only'
+        });
+        return;
+      }
+
+      if (Number(existing.sender_id) !== client.userId) {
+        console.log(`❌ User ${client.userId} tried to edit message ${messageId} from user ${existing.sender_id}`);
+        this.sendToClient(client.ws, {
+          type: 'message_error',
+          message: 'Only the sender can edit this message'
+        });
+        return;
+      }
+
+      const updated = await storage.editChatMessage(existing.id, content.trim());
+      if (updated) {
+        this.broadcastToEventRoom(Number(existing.event_id), {
+          type: 'message_edited',
+          eventId: Number(existing.event_id),
+          message: serializeMessage(updated)
+        });
+        console.log(`✏️ Message ${existing.id} edited by ${client.userName}`);
+      }
+    } catch (error) {
+      console.error('❌ Error editing message:', error);
+      this.sendToClient(client.ws, {
+        type: 'message_error',
+        message: 'Failed to edit message'
+      });
+    }
+  }
+
+  // The sender can delete their message and the event organizer can moderate any message
+  private async handleDeleteMessage(clientId: string, message: any) {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+
+    const { messageId } = message;
+    if (!messageId) {
+      this.sendToClient(client.ws, {
+        type: 'message_error',
+        message: 'Missing messageId'
+      });
+      return;
+    }
+
+    try {
+      const existing = await this.fetchMessage(messageId);
+      if (!existing || existing.deleted_at) {
+        this.sendToClient(client.ws, {
+          type: 'message_error',
+          message: 'Message not found'
+        });
+        return;
+      }
+
+      if (existing.message_type === 'system') {
+        this.sendToClient(client.ws, {
+          type: 'message_error',
+          message: 'System messages cannot be deleted'
+        });
+        return;
+      }
+
+      if (await this.isChatReadOnly(Number(existing.event_id))) {
+        this.sendToClient(client.ws, {
+          type: 'message_error',
+          message: 'This event chat is read-only'
+        });
+        return;
+      }
+
+      const eventId = Number(existing.event_id);
+      const isSender = Number(existing.sender_id) === client.userId;
+      const isOrganizer = !isSender && await this.getEventOrganizerId(eventId) === client.userId;
+      if (!isSender && !isOrganizer) {
+        console.log(`❌ User ${client.userId} denied deleting message ${messageId} in event ${eventId}`);
+        this.sendToClient(client.ws, {
+          type: 'message_error',
+          message: 'Not authorized to delete this message'
+        });
+        return;
+      }
+
+      await storage.softDeleteChatMessage(existing.id);
+
+      this.broadcastToEventRoom(eventId, {
+        type: 'message_deleted',
+        eventId,
+        messageId: existing.id,
+        deletedBy: {
+          id: client.userId,
+          name: client.userName,
+          moderator: isOrganizer
+        }
+      });
+      console.log(`🗑️ Message ${existing.id} deleted by ${client.userName}${isOrganizer ? ' (organizer)' : ''}`);
+    } catch (error) {
+      console.error('❌ Error deleting message:', error);
+      this.sendToClient(client.ws, {
+        type: 'message_error',
+        message: 'Failed to delete message'
+      });
+    }
+  }
+
+  // Moves the user's read cursor forward and tells the room so others can show "visto por"
+  private async handleMarkRead(clientId: string, message: any) {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+
+    const { eventId, messageId } = message;
+    if (!eventId || !messageId) {
+      return;
+    }
+
+    // Only clients that joined the room (and passed the access check) can mark it read
+    if (!this.eventRooms.get(eventId)?.has(clientId)) {
+      return;
+    }
+
+    try {
+      const cursor = await storage.markChatRead(client.userId, Number(eventId), Number(messageId));
+      if (!cursor) {
+        return;
+      }
+
+      this.broadcastToEventRoom(eventId, {
+        type: 'read',
+        eventId,
+        user: {
+          id: client.userId,
+          name: client.userName
+        },
+        lastReadMessageId: cursor.last_read_message_id,
+        readAt: cursor.read_at
+      });
+    } catch (error) {
+      console.error('❌ Error marking messages as read:', error);
+    }
+  }
+
   private async handleTyping(clientId: string, message: any) {
     const client = this.clients.get(clientId);
     if (!client) {
@@ -467,6 +757,11 @@ export class ChatWebSocketServer {
       return;
     }
 
+    // Only clients that joined the room (and passed the access check) can show as typing in it
+    if (!this.eventRooms.get(eventId)?.has(clientId)) {
+      return;
+    }
+
     // Broadcast typing status to other users in the room
     this.broadcastToEventRoom(eventId, {
       type: 'user_typing',
@@ -479,21 +774,18 @@ export class ChatWebSocketServer {
     }, clientId);
   }
 
-  private async verifyEventAccess(userId: number, eventId: number): Promise<boolean> {
+  // Cancelled events keep their chat history but take no new messages, edits or deletions
+  public async isChatReadOnly(eventId: number): Promise<boolean> {
+    const event = await storage.getEventById(Number(eventId));
+    return isEventChatReadOnly(event);
+  }
+
+  public async verifyEventAccess(userId: number, eventId: number): Promise<boolean> {
     try {
       console.log(`🔍 Verifying access for user ${userId} to event ${eventId}`);
       
       // Check if user is the organizer first - convert eventId to number for comparison
-      const { data: event, error: eventError } = await supabase
-        .from('events')
-        .select('*, organizer:users!organizer_id(*)')
-        .eq('id', Number(eventId))
-        .single();
-
-      if (eventError && eventError.code !== 'PGRST116') {
-        console.error('❌ Error fetching event for access verification:', eventError);
-        return false;
-      }
+      const event = await storage.getEventById(Number(eventId));
 
       if (!event) {
         console.log(`❌ Event ${eventId} not found in access verification`);
@@ -510,27 +802,16 @@ export class ChatWebSocketServer {
         return true;
       }
 
-      // Check if user is an attendee
-      const { data: attendee, error: attendeeError } = await supabase
-        .from('event_attendees')
-        .select('*')
-        .eq('event_id', Number(eventId))
-        .eq('user_id', userId)
-        .single();
+      // Only approved attendees are in the chat: pending, waitlisted, rejected and cancelled ones are not
+      const attendee = await storage.getEventAttendee(Number(eventId), userId);
 
-      if (attendeeError && attendeeError.code !== 'PGRST116') {
-        console.error('❌ Error checking attendee status:', attendeeError);
-      }
-
-      if (attendee) {
+      if (attendee?.status === 'approved') {
         console.log(`✅ User ${userId} is attendee of event ${eventId} - access granted`);
         return true;
       }
 
-      // For development/testing purposes, allow access to all public events
-      // In production, you might want to restrict this
-      console.log(`⚠️ User ${userId} accessing public event ${eventId} - temporary access granted for development`);
-      return true;
+      console.log(`❌ User ${userId} is not an approved attendee of event ${eventId} - access denied`);
+      return false;
 
     } catch (error) {
       console.error('❌ Error verifying event access:', error);
@@ -538,6 +819,272 @@ export class ChatWebSocketServer {
     }
   }
 
+  /**
+   * Direct conversations are rooms of their own: only the two participants can join,
+   * and joining loads the latest messages
+   */
+  private async handleJoinConversation(clientId: string, message: any) {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+
+    const conversationId = Number(message.conversationId);
+    try {
+      const conversation = conversationId ? await storage.getConversationById(conversationId) : null;
+      if (!conversation || !isParticipant(conversation, client.userId)) {
+        this.sendToClient(client.ws, {
+          type: 'conversation_error',
+          conversationId,
+          message: 'Conversation not found'
+        });
+        return;
+      }
+
+      if (!this.conversationRooms.has(conversationId)) {
+        this.conversationRooms.set(conversationId, new Set());
+      }
+      this.conversationRooms.get(conversationId)!.add(clientId);
+
+      const messages = await storage.getDirectMessages(conversationId, Number(message.limit) || 50, Number(message.beforeId) || undefined);
+      this.sendToClient(client.ws, {
+        type: 'conversation_joined',
+        conversationId,
+        conversation: serializeConversation(conversation, client.userId),
+        messages: messages.map(serializeDirectMessage).reverse()
+      });
+    } catch (error) {
+      console.error('❌ Error joining conversation:', error);
+      this.sendToClient(client.ws, {
+        type: 'conversation_error',
+        conversationId,
+        message: 'Failed to join conversation'
+      });
+    }
+  }
+
+  private handleLeaveConversation(clientId: string, message: any) {
+    const conversationId = Number(message.conversationId);
+    const room = this.conversationRooms.get(conversationId);
+    if (room) {
+      room.delete(clientId);
+      if (room.size === 0) {
+        this.conversationRooms.delete(conversationId);
+      }
+    }
+  }
+
+  // Either an existing conversation (conversationId) or a first message to a user (recipientId)
+  private async handleSendDirectMessage(clientId: string, message: any) {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+
+    const target = message.conversationId
+      ? { conversationId: Number(message.conversationId) }
+      : { recipientId: Number(message.recipientId) };
+
+    try {
+      const result = await sendDirectMessage(client.userId, target, message.content);
+      if (!result.ok) {
+        this.sendToClient(client.ws, {
+          type: 'direct_message_error',
+          ...target,
+          message: result.reason
+        });
+        return;
+      }
+
+      this.publishDirectMessage(result.conversation, result.message);
+      console.log(`✉️ Direct message sent in conversation ${result.conversation.id} by ${client.userName}`);
+    } catch (error) {
+      console.error('❌ Error sending direct message:', error);
+      this.sendToClient(client.ws, {
+        type: 'direct_message_error',
+        ...target,
+        message: 'Failed to send message'
+      });
+    }
+  }
+
+  private async handleMarkConversationRead(clientId: string, message: any) {
+    const client = this.clients.get(clientId);
+    const conversationId = Number(message.conversationId);
+    if (!client || !this.conversationRooms.get(conversationId)?.has(clientId)) {
+      return;
+    }
+
+    try {
+      const conversation = await storage.getConversationById(conversationId);
+      if (!conversation) {
+        return;
+      }
+
+      await storage.markDirectMessagesRead(conversationId, client.userId);
+      this.sendToUsers([conversation.user_a_id, conversation.user_b_id], {
+        type: 'conversation_read',
+        conversationId,
+        userId: client.userId,
+        readAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('❌ Error marking conversation as read:', error);
+    }
+  }
+
+  private handleDirectTyping(clientId: string, message: any) {
+    const client = this.clients.get(clientId);
+    const conversationId = Number(message.conversationId);
+    const room = this.conversationRooms.get(conversationId);
+    if (!client || !room?.has(clientId)) {
+      return;
+    }
+
+    this.fanOut({ kind: 'conversation_room', conversationId, excludeClientId: clientId }, {
+      type: 'direct_typing',
+      conversationId,
+      userId: client.userId,
+      isTyping: !!message.isTyping
+    });
+  }
+
+  /**
+   * New direct messages reach every connection of both participants, so conversation
+   * lists and badges update even where the conversation isn't open
+   */
+  public publishDirectMessage(conversation: any, message: any) {
+    for (const userId of [conversation.user_a_id, conversation.user_b_id]) {
+      this.sendToUsers([userId], {
+        type: 'direct_message',
+        conversationId: conversation.id,
+        conversation: serializeConversation(conversation, userId),
+        message: serializeDirectMessage(message)
+      });
+    }
+  }
+
+  // Conversation status changes (request accepted or declined) for both participants
+  public publishConversationUpdate(conversation: any) {
+    for (const userId of [conversation.user_a_id, conversation.user_b_id]) {
+      this.sendToUsers([userId], {
+        type: 'conversation_updated',
+        conversationId: conversation.id,
+        conversation: serializeConversation(conversation, userId)
+      });
+    }
+  }
+
+  private sendToUsers(userIds: number[], data: any) {
+    this.fanOut({ kind: 'users', userIds }, data);
+  }
+
+  private toPresenceUser(client: AuthenticatedClient): PresenceUser {
+    return { id: client.userId, name: client.userName, avatar: client.avatar };
+  }
+
+  // Users connected to this instance in an event room
+  private getLocalPresence(eventId: number): PresenceUser[] {
+    const users = new Map<number, PresenceUser>();
+    for (const clientId of Array.from(this.eventRooms.get(eventId) || [])) {
+      const client = this.clients.get(clientId);
+      if (client && !users.has(client.userId)) {
+        users.set(client.userId, this.toPresenceUser(client));
+      }
+    }
+    return Array.from(users.values());
+  }
+
+  // Users in an event room on any instance
+  private getEventRoomPresence(eventId: number): PresenceUser[] {
+    const users = new Map(this.getLocalPresence(eventId).map(user => [user.id, user]));
+    for (const rooms of Array.from(this.remotePresence.values())) {
+      for (const user of rooms.get(eventId)?.users || []) {
+        if (!users.has(user.id)) {
+          users.set(user.id, user);
+        }
+      }
+    }
+    return Array.from(users.values());
+  }
+
+  /**
+   * Tells this instance's sockets in the room who arrived or left since `before`,
+   * so a user only joins once and only leaves with their last connection on any instance
+   */
+  private deliverPresenceDiff(eventId: number, before: PresenceUser[], excludeClientId?: string) {
+    const after = this.getEventRoomPresence(eventId);
+    const joins = after.filter(user => !before.some(previous => previous.id === user.id));
+    const leaves = before.filter(user => !after.some(current => current.id === user.id));
+    if (joins.length === 0 && leaves.length === 0) {
+      return;
+    }
+    this.deliverLocally({ kind: 'event_room', eventId, excludeClientId }, {
+      type: 'presence_diff',
+      eventId,
+      joins,
+      leaves
+    });
+  }
+
+  // Every instance works out its own diffs, so only this instance's users go on the bus
+  private publishPresence(eventId: number) {
+    this.publishToBus({ kind: 'presence' }, { eventId, users: this.getLocalPresence(eventId) });
+  }
+
+  private publishAllPresence() {
+    for (const eventId of Array.from(this.eventRooms.keys())) {
+      this.publishPresence(eventId);
+    }
+  }
+
+  private applyRemotePresence(nodeId: string, eventId: number, users: PresenceUser[]) {
+    const before = this.getEventRoomPresence(eventId);
+    const rooms = this.remotePresence.get(nodeId) || new Map<number, RemotePresence>();
+    if (users.length > 0) {
+      rooms.set(eventId, { users, receivedAt: Date.now() });
+    } else {
+      rooms.delete(eventId);
+    }
+
+    if (rooms.size > 0) {
+      this.remotePresence.set(nodeId, rooms);
+    } else {
+      this.remotePresence.delete(nodeId);
+    }
+    this.deliverPresenceDiff(eventId, before);
+  }
+
+  // An instance that stopped without saying so (crash, lost connection) stops counting after a while
+  private expireRemotePresence(now: number = Date.now()) {
+    for (const [nodeId, rooms] of Array.from(this.remotePresence.entries())) {
+      for (const [eventId, presence] of Array.from(rooms.entries())) {
+        if (now - presence.receivedAt > PRESENCE_TTL_MS) {
+          this.applyRemotePresence(nodeId, eventId, []);
+        }
+      }
+    }
+  }
+
+  /**
+   * Takes one connection out of a room and tells the others only when it was the user's last one
+   */
+  private removeFromEventRoom(eventId: number, client: AuthenticatedClient) {
+    const room = this.eventRooms.get(eventId);
+    if (!room || !room.has(client.clientId)) {
+      return;
+    }
+
+    const presenceBefore = this.getEventRoomPresence(eventId);
+    room.delete(client.clientId);
+    if (room.size === 0) {
+      this.eventRooms.delete(eventId);
+    }
+
+    this.deliverPresenceDiff(eventId, presenceBefore);
+    this.publishPresence(eventId);
+  }
+
   private handleDisconnection(clientId: string) {
     const client = this.clients.get(clientId);
     if (client) {
@@ -546,21 +1093,14 @@ export class ChatWebSocketServer {
       // Remove from all event rooms
       for (const [eventId, room] of Array.from(this.eventRooms.entries())) {
         if (room.has(clientId)) {
-          room.delete(clientId);
-          
-          // Notify other users in the room
-          this.broadcastToEventRoom(eventId, {
-            type: 'user_left',
-            eventId,
-            user: {
-              id: client.userId,
-              name: client.userName
-            }
-          }, clientId);
-
-          if (room.size === 0) {
-            this.eventRooms.delete(eventId);
-          }
+          this.removeFromEventRoom(eventId, client);
+        }
+      }
+
+      for (const [conversationId, room] of Array.from(this.conversationRooms.entries())) {
+        room.delete(clientId);
+        if (room.size === 0) {
+          this.conversationRooms.delete(conversationId);
         }
       }
 
@@ -580,13 +1120,57 @@ export class ChatWebSocketServer {
   }
 
   private broadcastToEventRoom(eventId: number, data: any, excludeClientId?: string) {
-    const room = this.eventRooms.get(eventId);
+    this.fanOut({ kind: 'event_room', eventId, excludeClientId }, data);
+  }
+
+  // Deliver to this instance's sockets right away, and to the other instances through the bus
+  private fanOut(target: ChatBusTarget, data: any) {
+    this.deliverLocally(target, data);
+    this.publishToBus(target, data);
+  }
+
+  private publishToBus(target: ChatBusTarget, data: any) {
+    this.bus.publish({ origin: this.nodeId, target, data }).catch((error) => {
+      console.error('❌ Error publishing to chat bus:', error);
+    });
+  }
+
+  private handleBusEnvelope(envelope: ChatBusEnvelope) {
+    switch (envelope.target.kind) {
+      case 'presence':
+        this.applyRemotePresence(envelope.origin, Number(envelope.data.eventId), envelope.data.users || []);
+        break;
+      case 'presence_request':
+        this.publishAllPresence();
+        break;
+      default:
+        this.deliverLocally(envelope.target, envelope.data);
+    }
+  }
+
+  private deliverLocally(target: ChatBusTarget, data: any) {
+    if (target.kind === 'presence' || target.kind === 'presence_request') {
+      return;
+    }
+
+    if (target.kind === 'users') {
+      for (const client of Array.from(this.clients.values())) {
+        if (target.userIds.includes(client.userId)) {
+          this.sendToClient(client.ws, data);
+        }
+      }
+      return;
+    }
+
+    const room = target.kind === 'event_room'
+      ? this.eventRooms.get(target.eventId)
+      : this.conversationRooms.get(target.conversationId);
     if (!room) {
       return;
     }
 
     for (const clientId of Array.from(room)) {
-      if (excludeClientId && clientId === excludeClientId) {
+      if (target.excludeClientId && clientId === target.excludeClientId) {
         continue;
       }
 
@@ -597,6 +1181,40 @@ export class ChatWebSocketServer {
     }
   }
 
+  /**
+   * Broadcasts a message that was stored outside the socket (attachment uploads go through HTTP)
+   */
+  public async publishNewMessage(eventId: number, messageId: number): Promise<ChatMessage | null> {
+    const completeMessage = await storage.getChatMessageById(messageId);
+
+    if (!completeMessage) {
+      console.error('❌ Error fetching complete message:', messageId);
+      return null;
+    }
+
+    const message = serializeMessage(completeMessage);
+    this.broadcastToEventRoom(eventId, {
+      type: 'new_message',
+      eventId,
+      message
+    });
+    return message;
+  }
+
+  public async close() {
+    clearInterval(this.presenceHeartbeat);
+    // The other instances drop this one's users right away instead of waiting for PRESENCE_TTL_MS
+    for (const eventId of Array.from(this.eventRooms.keys())) {
+      await this.bus.publish({ origin: this.nodeId, target: { kind: 'presence' }, data: { eventId, users: [] } })
+        .catch(() => {});
+    }
+    await this.bus.close();
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    if (chatServer === this) {
+      chatServer = null;
+    }
+  }
+
   public getStats() {
     return {
       connectedClients: this.clients.size,
@@ -0,0 +1,146 @@
+/**
+ * Preguntas y respuestas de postulación para eventos privados 'postulacion'
+ * Usadas en el servidor para validar las respuestas al unirse y en el cliente
+ * para mostrar el formulario y comparar postulantes
+ */
+import type { ApplicationAnswers, ApplicationQuestion } from "./schema";
+
+export const MAX_SHORT_TEXT_ANSWER_LENGTH = 200;
+export const MAX_LONG_TEXT_ANSWER_LENGTH = 2000;
+
+// Se usan cuando el organizador no definió preguntas propias
+export const DEFAULT_APPLICATION_QUESTIONS: ApplicationQuestion[] = [
+  { id: 'motivation', type: 'long_text', label: '¿Por qué te interesa este evento?', required: true },
+  { id: 'expectations', type: 'long_text', label: '¿Qué esperas obtener de esta experiencia?', required: false },
+];
+
+export const APPLICATION_QUESTION_TYPE_LABELS: Record<ApplicationQuestion['type'], string> = {
+  short_text: 'Respuesta corta',
+  long_text: 'Respuesta larga',
+  single_choice: 'Opción única',
+  multiple_choice: 'Opción múltiple',
+};
+
+export function isChoiceQuestion(question: ApplicationQuestion) {
+  return question.type === 'single_choice' || question.type === 'multiple_choice';
+}
+
+/**
+ * Lee las preguntas guardadas en el evento (jsonb o string JSON)
+ * Las listas de textos de versiones anteriores se convierten en preguntas de respuesta larga
+ */
+export function parseApplicationQuestions(raw: unknown): ApplicationQuestion[] {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch (error) {
+      value = raw.split('\n');
+    }
+  }
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map((item: any, index: number): ApplicationQuestion | null => {
+      if (typeof item === 'string') {
+        return item.trim()
+          ? { id: `q${index + 1}`, type: 'long_text', label: item.trim(), required: true }
+          : null;
+      }
+      if (item && typeof item.label === 'string' && typeof item.id === 'string') {
+        return item as ApplicationQuestion;
+      }
+      return null;
+    })
+    .filter((question): question is ApplicationQuestion => question !== null);
+}
+
+/**
+ * Preguntas que debe responder quien se postula a un evento
+ */
+export function getEventApplicationQuestions(event: any): ApplicationQuestion[] {
+  const questions = parseApplicationQuestions(event?.applicationQuestions ?? event?.application_questions);
+  return questions.length > 0 ? questions : DEFAULT_APPLICATION_QUESTIONS;
+}
+
+function isEmptyAnswer(value: string | string[] | undefined) {
+  if (value === undefined) return true;
+  return Array.isArray(value) ? value.length === 0 : value.trim() === '';
+}
+
+export type ApplicationAnswersValidation =
+  | { valid: true; answers: ApplicationAnswers }
+  | { valid: false; errors: Record<string, string> };
+
+/**
+ * Valida las respuestas contra las preguntas del evento
+ * Acepta un objeto por id de pregunta (o un array por posición, como enviaba el cliente anterior)
+ * y descarta respuestas a preguntas que no existen
+ */
+export function validateApplicationAnswers(questions: ApplicationQuestion[], raw: unknown): ApplicationAnswersValidation {
+  const input: Record<string, unknown> = Array.isArray(raw)
+    ? Object.fromEntries(questions.map((question, index) => [question.id, raw[index]]))
+    : raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+
+  const answers: ApplicationAnswers = {};
+  const errors: Record<string, string> = {};
+
+  for (const question of questions) {
+    const value = input[question.id];
+
+    if (question.type === 'multiple_choice') {
+      const selected = value === undefined || value === null || value === '' ? [] : Array.isArray(value) ? value : [value];
+      if (selected.some(option => typeof option !== 'string' || !question.options?.includes(option))) {
+        errors[question.id] = 'Selecciona opciones válidas';
+        continue;
+      }
+      answers[question.id] = Array.from(new Set(selected as string[]));
+    } else if (value !== undefined && value !== null && typeof value !== 'string') {
+      errors[question.id] = 'La respuesta debe ser texto';
+      continue;
+    } else {
+      const text = (value as string | undefined)?.trim() || '';
+      if (question.type === 'single_choice' && text && !question.options?.includes(text)) {
+        errors[question.id] = 'Selecciona una opción válida';
+        continue;
+      }
+      const maxLength = question.type === 'short_text' ? MAX_SHORT_TEXT_ANSWER_LENGTH : MAX_LONG_TEXT_ANSWER_LENGTH;
+      if (text.length > maxLength) {
+        errors[question.id] = `La respuesta no puede superar ${maxLength} caracteres`;
+        continue;
+      }
+      answers[question.id] = text;
+    }
+
+    if (question.required && isEmptyAnswer(answers[question.id])) {
+      errors[question.id] = 'Esta pregunta es obligatoria';
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { valid: false, errors } : { valid: true, answers };
+}
+
+/**
+ * Lee las respuestas guardadas en event_attendees.application_answers
+ */
+export function parseApplicationAnswers(raw: unknown, questions: ApplicationQuestion[]): ApplicationAnswers {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (error) {
+      return {};
+    }
+  }
+  if (Array.isArray(value)) {
+    return Object.fromEntries(
+      questions.map((question, index) => [question.id, value[index]]).filter(([, answer]) => answer !== undefined)
+    );
+  }
+  return value && typeof value === 'object' ? value as ApplicationAnswers : {};
+}
+
+export function formatApplicationAnswer(value: string | string[] | undefined) {
+  if (value === undefined) return '';
+  return Array.isArray(value) ? value.join(', ') : value;
+}
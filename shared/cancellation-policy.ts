@@ -0,0 +1,89 @@
+/**
+ * Política de cancelación de eventos de pago
+ * Usada en el servidor para calcular reembolsos y en el cliente para mostrarla
+ */
+
+export type CancellationPolicy = 'full_refund' | 'partial_refund' | 'no_refund';
+
+export interface CancellationPolicySettings {
+  cancellationPolicy?: CancellationPolicy | null;
+  refundDeadlineHours?: number | null;
+  partialRefundPercent?: number | null;
+}
+
+export const DEFAULT_REFUND_DEADLINE_HOURS = 24;
+export const DEFAULT_PARTIAL_REFUND_PERCENT = 50;
+
+export const CANCELLATION_POLICIES: CancellationPolicy[] = ['full_refund', 'partial_refund', 'no_refund'];
+export const MAX_REFUND_DEADLINE_HOURS = 720;
+export const MIN_PARTIAL_REFUND_PERCENT = 1;
+export const MAX_PARTIAL_REFUND_PERCENT = 99;
+
+const isIntegerBetween = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Devuelve el primer campo de la política que no es válido, o null si todos lo son
+ * Solo revisa los campos presentes, así sirve también para ediciones parciales
+ */
+export function findInvalidCancellationPolicyField(
+  settings: Record<string, unknown>
+): keyof CancellationPolicySettings | null {
+  if (settings.cancellationPolicy !== undefined &&
+      !CANCELLATION_POLICIES.includes(settings.cancellationPolicy as CancellationPolicy)) {
+    return 'cancellationPolicy';
+  }
+  if (settings.refundDeadlineHours !== undefined &&
+      !isIntegerBetween(settings.refundDeadlineHours, 0, MAX_REFUND_DEADLINE_HOURS)) {
+    return 'refundDeadlineHours';
+  }
+  if (settings.partialRefundPercent !== undefined &&
+      !isIntegerBetween(settings.partialRefundPercent, MIN_PARTIAL_REFUND_PERCENT, MAX_PARTIAL_REFUND_PERCENT)) {
+    return 'partialRefundPercent';
+  }
+  return null;
+}
+
+/**
+ * Calcula el monto a reembolsar cuando un asistente cancela
+ * Antes del plazo se aplica la política; después del plazo no hay reembolso
+ */
+export function calculateRefundAmount(
+  amountPaid: number,
+  eventStart: Date,
+  settings: CancellationPolicySettings,
+  now: Date = new Date()
+): number {
+  if (!amountPaid || amountPaid <= 0) return 0;
+
+  const policy = settings.cancellationPolicy || 'full_refund';
+  if (policy === 'no_refund') return 0;
+
+  const deadlineHours = settings.refundDeadlineHours ?? DEFAULT_REFUND_DEADLINE_HOURS;
+  const deadline = eventStart.getTime() - deadlineHours * 60 * 60 * 1000;
+  if (now.getTime() > deadline) return 0;
+
+  if (policy === 'partial_refund') {
+    const percent = settings.partialRefundPercent ?? DEFAULT_PARTIAL_REFUND_PERCENT;
+    return Math.round(amountPaid * percent) / 100;
+  }
+
+  return amountPaid;
+}
+
+/**
+ * Describe la política de cancelación en texto legible
+ */
+export function describeCancellationPolicy(settings: CancellationPolicySettings): string {
+  const policy = settings.cancellationPolicy || 'full_refund';
+  const deadlineHours = settings.refundDeadlineHours ?? DEFAULT_REFUND_DEADLINE_HOURS;
+
+  switch (policy) {
+    case 'no_refund':
+      return 'Sin reembolso';
+    case 'partial_refund':
+      return `Reembolso del ${settings.partialRefundPercent ?? DEFAULT_PARTIAL_REFUND_PERCENT}% hasta ${deadlineHours} horas antes del evento`;
+    default:
+      return `Reembolso completo hasta ${deadlineHours} horas antes del evento`;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Límites y tipos permitidos para adjuntos del chat de eventos
+ * Usados por el servidor (Multer) y por el cliente antes de subir el archivo
+ */
+export const CHAT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export const CHAT_FILE_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/zip',
+];
+
+export const CHAT_IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+export const CHAT_FILE_MAX_BYTES = 20 * 1024 * 1024;
+
+export function isChatImageType(mimeType: string) {
+  return CHAT_IMAGE_TYPES.includes(mimeType);
+}
+
+export function isAllowedChatAttachmentType(mimeType: string) {
+  return isChatImageType(mimeType) || CHAT_FILE_TYPES.includes(mimeType);
+}
+
+export function getChatAttachmentMaxBytes(mimeType: string) {
+  return isChatImageType(mimeType) ? CHAT_IMAGE_MAX_BYTES : CHAT_FILE_MAX_BYTES;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
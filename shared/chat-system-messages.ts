@@ -0,0 +1,51 @@
+/**
+ * Textos de los mensajes de sistema del chat de eventos
+ * El servidor guarda el texto en content (para vistas previas) y el cliente lo vuelve a
+ * construir desde system_event para mostrar las fechas en la zona horaria del usuario
+ */
+import type { ChatSystemEvent } from "./schema";
+
+// Antelación de los recordatorios que se publican en el chat antes del inicio
+export const EVENT_REMINDER_HOURS = [24, 1];
+
+export function formatSystemDate(value: string) {
+  return new Date(value).toLocaleString('es-ES', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function describeChanges(changes: Extract<ChatSystemEvent, { kind: 'event_updated' }>['changes']) {
+  const parts: string[] = [];
+  if (changes.date) {
+    parts.push(`la fecha a ${formatSystemDate(changes.date)}`);
+  }
+  if (changes.endTime) {
+    parts.push(`la hora de fin a ${formatSystemDate(changes.endTime)}`);
+  }
+  if (changes.locationName || changes.locationAddress) {
+    const location = [changes.locationName, changes.locationAddress].filter(Boolean).join(', ');
+    parts.push(`el lugar a ${location}`);
+  }
+  return parts.join(' y ');
+}
+
+export function describeChatSystemEvent(event: ChatSystemEvent): string {
+  switch (event.kind) {
+    case 'attendee_joined':
+      return `${event.userName} se unió al evento`;
+    case 'attendee_left':
+      return `${event.userName} salió del evento`;
+    case 'event_updated':
+      return `El organizador cambió ${describeChanges(event.changes)}`;
+    case 'event_reminder':
+      return event.hoursBefore >= 24
+        ? `⏰ El evento empieza mañana, ${formatSystemDate(event.startsAt)}`
+        : `⏰ El evento empieza en ${event.hoursBefore === 1 ? '1 hora' : `${event.hoursBefore} horas`}`;
+    case 'event_cancelled':
+      return '🚫 El organizador canceló el evento. El chat queda en modo lectura';
+  }
+}
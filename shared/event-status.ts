@@ -0,0 +1,38 @@
+/**
+ * Estados del ciclo de vida de un evento
+ * Usados en el servidor para decidir qué se puede hacer con un evento y en el cliente
+ * para agruparlos y mostrar su estado
+ */
+import type { EventStatus } from "./schema";
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  draft: 'Borrador',
+  published: 'Publicado',
+  cancelled: 'Cancelado',
+  completed: 'Finalizado',
+};
+
+// Orden de las secciones en "Mis eventos"
+export const EVENT_STATUS_ORDER: EventStatus[] = ['draft', 'published', 'completed', 'cancelled'];
+
+// Eventos guardados antes de que existiera la columna cuentan como publicados
+export function getEventStatus(event: { status?: string | null } | null | undefined): EventStatus {
+  const status = event?.status as EventStatus | undefined;
+  return status && status in EVENT_STATUS_LABELS ? status : 'published';
+}
+
+// Solo los eventos publicados aceptan asistentes y pagos
+export function isEventOpen(event: { status?: string | null } | null | undefined) {
+  return getEventStatus(event) === 'published';
+}
+
+// Los borradores y los eventos publicados se pueden editar y cancelar; los demás son historial
+export function isEventEditable(event: { status?: string | null } | null | undefined) {
+  const status = getEventStatus(event);
+  return status === 'draft' || status === 'published';
+}
+
+// El chat de un evento cancelado queda en modo lectura
+export function isEventChatReadOnly(event: { status?: string | null } | null | undefined) {
+  return getEventStatus(event) === 'cancelled';
+}
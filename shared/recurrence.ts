@@ -0,0 +1,116 @@
+/**
+ * Utilidades para series de eventos recurrentes
+ * Usadas tanto en cliente como servidor para generar las mismas ocurrencias
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRuleInput {
+  frequency: RecurrenceFrequency;
+  interval?: number | null;
+  until?: Date | string | null;
+  count?: number | null;
+}
+
+export interface Occurrence {
+  index: number;
+  startTime: Date;
+  endTime: Date;
+}
+
+// Límite de seguridad para no generar series infinitas
+export const MAX_SERIES_OCCURRENCES = 52;
+
+// Duración por defecto cuando el evento no tiene hora de finalización (2 horas)
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Suma meses a una fecha respetando el último día del mes
+ * (por ejemplo, 31 de enero + 1 mes = 28/29 de febrero)
+ */
+function addMonthsClamped(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const targetDay = date.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDayOfMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(targetDay, lastDayOfMonth));
+  return result;
+}
+
+/**
+ * Calcula la fecha de inicio de la ocurrencia número `index` de una serie
+ */
+export function getOccurrenceStart(start: Date, rule: RecurrenceRuleInput, index: number): Date {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'daily': {
+      const result = new Date(start.getTime());
+      result.setDate(result.getDate() + index * interval);
+      return result;
+    }
+    case 'weekly': {
+      const result = new Date(start.getTime());
+      result.setDate(result.getDate() + index * interval * 7);
+      return result;
+    }
+    case 'monthly':
+      return addMonthsClamped(start, index * interval);
+    default:
+      return new Date(start.getTime());
+  }
+}
+
+/**
+ * Genera todas las ocurrencias de una serie a partir de la primera
+ * La serie termina en la fecha `until`, al llegar a `count` o al límite de seguridad
+ */
+export function generateOccurrences(
+  startTime: Date,
+  endTime: Date | null | undefined,
+  rule: RecurrenceRuleInput
+): Occurrence[] {
+  const duration = endTime && endTime.getTime() > startTime.getTime()
+    ? endTime.getTime() - startTime.getTime()
+    : DEFAULT_DURATION_MS;
+
+  const until = rule.until ? new Date(rule.until) : null;
+  const maxCount = Math.min(rule.count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  const occurrences: Occurrence[] = [];
+  for (let index = 0; index < maxCount; index++) {
+    const occurrenceStart = getOccurrenceStart(startTime, rule, index);
+    if (until && occurrenceStart.getTime() > until.getTime()) break;
+
+    occurrences.push({
+      index,
+      startTime: occurrenceStart,
+      endTime: new Date(occurrenceStart.getTime() + duration)
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Describe la regla de recurrencia en texto legible
+ */
+export function describeRecurrence(rule: RecurrenceRuleInput): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const units: Record<RecurrenceFrequency, [string, string]> = {
+    daily: ['Todos los días', `Cada ${interval} días`],
+    weekly: ['Todas las semanas', `Cada ${interval} semanas`],
+    monthly: ['Todos los meses', `Cada ${interval} meses`],
+  };
+  const [single, plural] = units[rule.frequency];
+  let description = interval === 1 ? single : plural;
+
+  if (rule.count) {
+    description += `, ${rule.count} veces`;
+  } else if (rule.until) {
+    description += `, hasta el ${new Date(rule.until).toLocaleDateString('es-ES')}`;
+  }
+
+  return description;
+}
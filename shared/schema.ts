@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, pgEnum, jsonb, primaryKey, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -26,6 +26,57 @@ export const genderEnum = pgEnum('gender', ['hombre', 'mujer', 'otro', 'no_espec
 // Create enums for gender preference in events
 export const genderPreferenceEnum = pgEnum('gender_preference', ['all_people', 'men', 'women']);
 
+// Create enums for event recurrence frequency
+export const recurrenceFrequencyEnum = pgEnum('recurrence_frequency', ['daily', 'weekly', 'monthly']);
+
+// Cancellation policy for paid events (full refund, partial refund, no refund)
+export const cancellationPolicyEnum = pgEnum('cancellation_policy', ['full_refund', 'partial_refund', 'no_refund']);
+
+// Event lifecycle: drafts are only visible to the organizer, cancelled and completed events stay in history
+export const eventStatusEnum = pgEnum('event_status', ['draft', 'published', 'cancelled', 'completed']);
+export type EventStatus = typeof eventStatusEnum.enumValues[number];
+
+// Application questions for 'postulacion' events
+export const applicationQuestionTypes = ['short_text', 'long_text', 'single_choice', 'multiple_choice'] as const;
+export type ApplicationQuestionType = typeof applicationQuestionTypes[number];
+
+export interface ApplicationQuestion {
+  id: string;
+  type: ApplicationQuestionType;
+  label: string;
+  required: boolean;
+  options?: string[]; // Only for single_choice and multiple_choice
+}
+
+// Answers keyed by question id: text for text/single choice, array for multiple choice
+export type ApplicationAnswers = Record<string, string | string[]>;
+
+// Uploaded file attached to an 'image' or 'file' chat message
+export interface ChatAttachment {
+  url: string;
+  name: string;
+  mimeType: string;
+  size: number; // bytes
+  width?: number; // images only
+  height?: number;
+}
+
+// What a 'system' chat message records; the text is built from it (shared/chat-system-messages.ts)
+export type ChatSystemEvent =
+  | { kind: 'attendee_joined'; userId: number; userName: string }
+  | { kind: 'attendee_left'; userId: number; userName: string }
+  | {
+      kind: 'event_updated';
+      changes: {
+        date?: string; // ISO
+        endTime?: string | null;
+        locationName?: string;
+        locationAddress?: string;
+      };
+    }
+  | { kind: 'event_reminder'; hoursBefore: number; startsAt: string }
+  | { kind: 'event_cancelled' };
+
 // Users Table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -39,6 +90,9 @@ export const users = pgTable("users", {
   supabaseId: text("supabase_id").unique(), // Add Supabase user ID reference
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
+  lastLatitude: decimal("last_latitude", { precision: 10, scale: 6 }), // Last known location for recommendations
+  lastLongitude: decimal("last_longitude", { precision: 10, scale: 6 }),
+  lastLocationAt: timestamp("last_location_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -46,6 +100,19 @@ export const users = pgTable("users", {
 // Multimedia type enum
 export const multimediaTypeEnum = pgEnum('multimedia_type', ['photo', 'video']);
 
+// Event Series Table (recurring events - each occurrence is a row in events)
+export const eventSeries = pgTable("event_series", {
+  id: serial("id").primaryKey(),
+  organizerId: integer("organizer_id").references(() => users.id).notNull(),
+  frequency: recurrenceFrequencyEnum("frequency").notNull(),
+  interval: integer("interval").default(1).notNull(), // Every N days/weeks/months
+  startDate: timestamp("start_date").notNull(),
+  untilDate: timestamp("until_date"), // Optional end of the series
+  occurrenceCount: integer("occurrence_count"), // Optional number of occurrences
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Events Table
 export const events = pgTable("events", {
   id: serial("id").primaryKey(),
@@ -63,17 +130,25 @@ export const events = pgTable("events", {
   maxCapacity: integer("max_capacity"),
   privacyType: privacyTypeEnum("privacy_type").notNull().default('public'),
   privateAccessType: privateAccessTypeEnum("private_access_type").default('solicitud'),
+  applicationQuestions: jsonb("application_questions").$type<ApplicationQuestion[]>(), // Questions applicants answer on 'postulacion' events
   mediaItems: text("media_items"),
   mainMediaType: text("main_media_type"),
   mainMediaUrl: text("main_media_url"),
   genderPreference: genderPreferenceEnum("gender_preference").default('all_people'), // Gender preference for the event
   organizerId: integer("organizer_id").references(() => users.id).notNull(),
+  seriesId: integer("series_id").references(() => eventSeries.id, { onDelete: 'set null' }), // Recurring series this occurrence belongs to
+  occurrenceIndex: integer("occurrence_index"), // Position of this occurrence within its series
+  cancellationPolicy: cancellationPolicyEnum("cancellation_policy").default('full_refund'),
+  refundDeadlineHours: integer("refund_deadline_hours").default(24), // Refunds allowed until this many hours before the event
+  partialRefundPercent: integer("partial_refund_percent").default(50), // Percentage refunded with the partial_refund policy
+  status: eventStatusEnum("status").default('published').notNull(),
+  cancelledAt: timestamp("cancelled_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-// Attendee status enum (pending, approved, rejected)
-export const attendeeStatusEnum = pgEnum('attendee_status', ['pending', 'approved', 'rejected']);
+// Attendee status enum (pending, approved, rejected, waitlisted, cancelled)
+export const attendeeStatusEnum = pgEnum('attendee_status', ['pending', 'approved', 'rejected', 'waitlisted', 'cancelled']);
 
 // Event Attendees Junction Table
 export const eventAttendees = pgTable("event_attendees", {
@@ -83,11 +158,17 @@ export const eventAttendees = pgTable("event_attendees", {
   status: attendeeStatusEnum("status").default('approved').notNull(),
   paymentStatus: text("payment_status").default('pending'),
   paymentIntentId: text("payment_intent_id"),
-  applicationAnswers: text("application_answers"), // JSON string for private event application answers
+  applicationAnswers: text("application_answers"), // JSON string of ApplicationAnswers keyed by question id
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }), // Amount refunded when a paid attendee cancels
+  refundStatus: text("refund_status"), // 'refunded', 'not_refundable' or 'failed'
+  refundId: text("refund_id"), // Stripe refund ID
+  refundedAt: timestamp("refunded_at"),
+  checkedInAt: timestamp("checked_in_at"), // Set when the organizer scans the attendee's ticket
+  noShow: boolean("no_show").default(false).notNull(), // Marked by the organizer when an approved attendee didn't come
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-// User Interests Table (for future recommendations)
+// User Interests Table (used to rank recommended events)
 export const userInterests = pgTable("user_interests", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
@@ -103,6 +184,8 @@ export const chatMessages = pgTable("chat_messages", {
   content: text("content").notNull(),
   messageType: text("message_type").default('text').notNull(), // 'text', 'image', 'file', 'system'
   replyToId: integer("reply_to_id"), // For threaded conversations - self-reference added later
+  attachment: jsonb("attachment").$type<ChatAttachment>(), // Set for 'image' and 'file' messages
+  systemEvent: jsonb("system_event").$type<ChatSystemEvent>(), // Set for 'system' messages
   edited: boolean("edited").default(false).notNull(),
   editedAt: timestamp("edited_at"),
   deletedAt: timestamp("deleted_at"), // Soft delete
@@ -110,8 +193,85 @@ export const chatMessages = pgTable("chat_messages", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Per-user read cursor for each event chat: everything up to lastReadMessageId has been seen
+export const chatReadCursors = pgTable("chat_read_cursors", {
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  eventId: integer("event_id").references(() => events.id, { onDelete: 'cascade' }).notNull(),
+  lastReadMessageId: integer("last_read_message_id").notNull(),
+  readAt: timestamp("read_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.eventId] }),
+}));
+
+// One-to-one conversations outside of events; user_a_id is always the lower user id
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  userAId: integer("user_a_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  userBId: integer("user_b_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  status: text("status").default('active').notNull(), // 'active', 'request' (waiting for the recipient), 'declined'
+  requestedBy: integer("requested_by").references(() => users.id), // Who sent the message request
+  lastMessageAt: timestamp("last_message_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  pair: unique().on(table.userAId, table.userBId),
+}));
+
+export const directMessages = pgTable("direct_messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: 'cascade' }).notNull(),
+  senderId: integer("sender_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  content: text("content").notNull(),
+  readAt: timestamp("read_at"), // Set when the other participant reads it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Users someone blocked: no direct messages in either direction
+export const userBlocks = pgTable("user_blocks", {
+  blockerId: integer("blocker_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  blockedId: integer("blocked_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.blockerId, table.blockedId] }),
+}));
+
+// Chat reminders already posted, one per event start time so a rescheduled event is reminded again
+export const eventChatReminders = pgTable("event_chat_reminders", {
+  eventId: integer("event_id").references(() => events.id, { onDelete: 'cascade' }).notNull(),
+  hoursBefore: integer("hours_before").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.eventId, table.hoursBefore, table.startsAt] }),
+}));
+
+// Reminder notifications already sent, one per offset and event start time so a rescheduled event is reminded again
+export const eventReminderNotifications = pgTable("event_reminder_notifications", {
+  eventId: integer("event_id").references(() => events.id, { onDelete: 'cascade' }).notNull(),
+  minutesBefore: integer("minutes_before").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.eventId, table.minutesBefore, table.startsAt] }),
+}));
+
+// Recurring background jobs (server/job-scheduler.ts): when each one runs next and which instance holds its lease
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  name: text("name").primaryKey(),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  leaseOwner: text("lease_owner"),
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  // Consecutive failed runs, reset by a successful one
+  attempts: integer("attempts").default(0).notNull(),
+  lastStartedAt: timestamp("last_started_at"),
+  lastFinishedAt: timestamp("last_finished_at"),
+  lastSucceededAt: timestamp("last_succeeded_at"),
+  lastError: text("last_error"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Notification type enum
-export const notificationTypeEnum = pgEnum('notification_type', ['request_approved', 'request_rejected', 'new_request']);
+export const notificationTypeEnum = pgEnum('notification_type', ['request_approved', 'request_rejected', 'new_request', 'waitlist_promoted', 'refund_issued', 'event_cancelled', 'event_reminder', 'event_updated']);
 
 // Notifications Table for user notifications
 export const notifications = pgTable("notifications", {
@@ -134,6 +294,27 @@ export const userRatings = pgTable("user_ratings", {
   rating: integer("rating").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  pair: unique().on(table.ratedUserId, table.raterUserId), // One rating per rater, updated in place
+}));
+
+// Login sessions behind the pipol_sid cookie, kept in Postgres so they survive restarts
+export const authSessions = pgTable("auth_sessions", {
+  id: text("id").primaryKey(), // 256-bit random, base64url
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  email: text("email").notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastActivityAt: timestamp("last_activity_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(), // Absolute timeout, never extended
+});
+
+// express-session data behind the pipol_session cookie (passport user and its authSessionId)
+export const httpSessions = pgTable("http_sessions", {
+  sid: text("sid").primaryKey(),
+  data: jsonb("data").notNull(),
+  expiresAt: timestamp("expires_at").notNull(), // Moves forward on every request (rolling cookie)
 });
 
 // Relations
@@ -149,10 +330,16 @@ export const usersRelations = relations(users, ({ many }) => ({
 
 export const eventsRelations = relations(events, ({ one, many }) => ({
   organizer: one(users, { fields: [events.organizerId], references: [users.id], relationName: "organizer" }),
+  series: one(eventSeries, { fields: [events.seriesId], references: [eventSeries.id] }),
   attendees: many(eventAttendees),
   chatMessages: many(chatMessages),
 }));
 
+export const eventSeriesRelations = relations(eventSeries, ({ one, many }) => ({
+  organizer: one(users, { fields: [eventSeries.organizerId], references: [users.id] }),
+  occurrences: many(events),
+}));
+
 export const eventAttendeesRelations = relations(eventAttendees, ({ one }) => ({
   event: one(events, { fields: [eventAttendees.eventId], references: [events.id] }),
   user: one(users, { fields: [eventAttendees.userId], references: [users.id], relationName: "attendee" }),
@@ -165,6 +352,20 @@ export const userInterestsRelations = relations(userInterests, ({ one }) => ({
 export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
   event: one(events, { fields: [chatMessages.eventId], references: [events.id] }),
   sender: one(users, { fields: [chatMessages.senderId], references: [users.id], relationName: "sender" }),
+  replyTo: one(chatMessages, { fields: [chatMessages.replyToId], references: [chatMessages.id], relationName: "reply" }),
+}));
+
+export const chatReadCursorsRelations = relations(chatReadCursors, ({ one }) => ({
+  user: one(users, { fields: [chatReadCursors.userId], references: [users.id] }),
+}));
+
+export const conversationsRelations = relations(conversations, ({ one }) => ({
+  userA: one(users, { fields: [conversations.userAId], references: [users.id] }),
+  userB: one(users, { fields: [conversations.userBId], references: [users.id] }),
+}));
+
+export const userBlocksRelations = relations(userBlocks, ({ one }) => ({
+  blocked: one(users, { fields: [userBlocks.blockedId], references: [users.id] }),
 }));
 
 export const notificationsRelations = relations(notifications, ({ one }) => ({
@@ -191,6 +392,35 @@ export const loginUserSchema = z.object({
   password: z.string().min(6, "La contraseña debe tener al menos 6 caracteres"),
 });
 
+// Regla de recurrencia para series de eventos; sin fecha final ni cantidad llega hasta MAX_SERIES_OCCURRENCES
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(recurrenceFrequencyEnum.enumValues),
+  interval: z.coerce.number().int().min(1, "El intervalo debe ser al menos 1").max(12, "El intervalo no puede ser mayor a 12").default(1),
+  until: z.string().or(z.date()).transform(val => 
+    typeof val === 'string' ? new Date(val) : val
+  ).optional().nullable(),
+  count: z.coerce.number().int().min(1, "La serie debe tener al menos 1 repetición").max(52, "La serie no puede tener más de 52 repeticiones").optional().nullable(),
+});
+
+// Pregunta para postulantes; las de opción necesitan al menos dos opciones
+export const applicationQuestionSchema = z.object({
+  id: z.string().min(1).max(50),
+  type: z.enum(applicationQuestionTypes),
+  label: z.string().trim().min(3, "La pregunta debe tener al menos 3 caracteres").max(300, "La pregunta no puede superar 300 caracteres"),
+  required: z.boolean().default(true),
+  options: z.array(z.string().trim().min(1, "Las opciones no pueden estar vacías").max(100, "Las opciones no pueden superar 100 caracteres")).max(10, "Máximo 10 opciones por pregunta").optional(),
+}).refine(question =>
+  (question.type !== 'single_choice' && question.type !== 'multiple_choice') || (question.options?.length ?? 0) >= 2, {
+  message: "Las preguntas de opción necesitan al menos 2 opciones",
+  path: ['options'],
+});
+
+export const applicationQuestionsSchema = z.array(applicationQuestionSchema)
+  .max(20, "Máximo 20 preguntas por evento")
+  .refine(questions => new Set(questions.map(question => question.id)).size === questions.length, {
+    message: "Las preguntas deben tener identificadores únicos",
+  });
+
 // Esquema personalizado con transformaciones para eventos
 export const insertEventSchema = z.object({
   title: z.string().min(3, "El título debe tener al menos 3 caracteres"),
@@ -219,7 +449,7 @@ export const insertEventSchema = z.object({
   ).optional().nullable(),
   privacyType: z.enum(privacyTypeEnum.enumValues).default('public'),
   privateAccessType: z.enum(privateAccessTypeEnum.enumValues).optional().nullable(),
-  applicationQuestions: z.string().optional().nullable(), // JSON string for questions
+  applicationQuestions: applicationQuestionsSchema.optional().nullable(),
   // Campos existentes (mantenidos por compatibilidad)
   photoUrl: z.string().optional().nullable(),
   photoUrls: z.string().optional().nullable(), // Almacenar array como JSON string
@@ -231,6 +461,13 @@ export const insertEventSchema = z.object({
   mainMediaUrl: z.string().optional().nullable(),
   genderPreference: z.enum(genderPreferenceEnum.enumValues).default('all_people'),
   organizerId: z.number(),
+  seriesId: z.number().optional().nullable(),
+  occurrenceIndex: z.number().optional().nullable(),
+  cancellationPolicy: z.enum(cancellationPolicyEnum.enumValues).default('full_refund'),
+  refundDeadlineHours: z.coerce.number().int().min(0, "El plazo no puede ser negativo").max(720, "El plazo no puede superar 30 días").default(24),
+  partialRefundPercent: z.coerce.number().int().min(1, "El porcentaje debe ser al menos 1").max(99, "El porcentaje debe ser menor a 100").default(50),
+  // Only drafts or published events can be created; cancelled and completed come later
+  status: z.enum(['draft', 'published']).default('published'),
 });
 
 export const insertEventAttendeeSchema = createInsertSchema(eventAttendees);
@@ -242,14 +479,30 @@ export type EventAttendee = typeof eventAttendees.$inferSelect;
 export type UserInterest = typeof userInterests.$inferSelect;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 export type UserRating = typeof userRatings.$inferSelect;
+export type EventSeries = typeof eventSeries.$inferSelect;
+export type AuthSession = typeof authSessions.$inferSelect;
+export type HttpSession = typeof httpSessions.$inferSelect;
+export type ChatReadCursor = typeof chatReadCursors.$inferSelect;
+export type EventChatReminder = typeof eventChatReminders.$inferSelect;
+export type EventReminderNotification = typeof eventReminderNotifications.$inferSelect;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type Conversation = typeof conversations.$inferSelect;
+export type DirectMessage = typeof directMessages.$inferSelect;
+export type UserBlock = typeof userBlocks.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
 
 // Chat message insert schema
 export const insertChatMessageSchema = createInsertSchema(chatMessages);
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 
+// Aura: cada calificación va de MIN_RATING a MAX_RATING
+export const MIN_RATING = 1;
+export const MAX_RATING = 10;
+
 // User rating insert schema
 export const insertUserRatingSchema = createInsertSchema(userRatings, {
-  rating: (schema) => schema.min(1, "Rating must be at least 1").max(10, "Rating must be at most 10"),
+  rating: (schema) => schema.min(MIN_RATING, `Rating must be at least ${MIN_RATING}`).max(MAX_RATING, `Rating must be at most ${MAX_RATING}`),
 });
 export type InsertUserRating = z.infer<typeof insertUserRatingSchema>;
 